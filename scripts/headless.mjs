@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+import { createServer } from 'vite';
+
+// Load the TypeScript sim through Vite's SSR loader so the CLI needs no separate build step.
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  configFile: false,
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+try {
+  const { main } = await server.ssrLoadModule('/src/cli/headless.ts');
+  process.exitCode = main(process.argv.slice(2));
+} finally {
+  await server.close();
+}
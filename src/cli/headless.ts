@@ -0,0 +1,142 @@
+import { readFileSync, writeFileSync } from "node:fs";
+
+import {
+  formatHeadlessResult,
+  loadHeadlessScenario,
+  runHeadless,
+  type HeadlessFormat,
+} from "../core/headless";
+import { findStateHashDivergence, formatStateHashDivergence, type SimStateHash } from "../core/state-hash";
+import type { GridCoord } from "../core/types";
+
+const USAGE = [
+  "usage: npm run headless -- <save-or-blueprint.json> [options]",
+  "",
+  "  --ticks <n>       ticks to run (default 3600)",
+  "  --every <n>       sample metrics every n ticks (default: final tick only)",
+  "  --format <fmt>    json or csv (default json)",
+  "  --origin <x,y>    tile for a blueprint anchor (default: map centre)",
+  "  --out <file>      write metrics to a file instead of stdout",
+  "  --hash-every <n>  record a state hash every n ticks (default 60 with --hashes or --compare)",
+  "  --hashes <file>   write the recorded state hashes to a file",
+  "  --compare <file>  check the recorded hashes against an earlier --hashes file",
+].join("\n");
+
+type CliOptions = {
+  file: string;
+  ticks: number;
+  every: number;
+  format: HeadlessFormat;
+  origin?: GridCoord;
+  out?: string;
+  hashEvery?: number;
+  hashes?: string;
+  compare?: string;
+};
+
+const parseCount = (flag: string, value: string | undefined): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${flag} expects a non-negative integer`);
+  }
+  return parsed;
+};
+
+const parseOrigin = (value: string | undefined): GridCoord => {
+  const [x, y] = (value ?? "").split(",").map(Number);
+  if (!Number.isInteger(x) || !Number.isInteger(y)) {
+    throw new Error("--origin expects <x,y>");
+  }
+  return { x: x as number, y: y as number };
+};
+
+const parseArgs = (argv: ReadonlyArray<string>): CliOptions => {
+  const options: Omit<CliOptions, "file"> & { file?: string } = { ticks: 3600, every: 0, format: "json" };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index] as string;
+    const next = (): string | undefined => {
+      index += 1;
+      return argv[index];
+    };
+
+    if (arg === "--ticks") {
+      options.ticks = parseCount(arg, next());
+    } else if (arg === "--every") {
+      options.every = parseCount(arg, next());
+    } else if (arg === "--format") {
+      const format = next();
+      if (format !== "json" && format !== "csv") {
+        throw new Error("--format expects json or csv");
+      }
+      options.format = format;
+    } else if (arg === "--origin") {
+      options.origin = parseOrigin(next());
+    } else if (arg === "--out") {
+      options.out = next();
+    } else if (arg === "--hash-every") {
+      options.hashEvery = parseCount(arg, next());
+    } else if (arg === "--hashes") {
+      options.hashes = next();
+    } else if (arg === "--compare") {
+      options.compare = next();
+    } else if (arg.startsWith("--") || options.file !== undefined) {
+      throw new Error(`unexpected argument "${arg}"`);
+    } else {
+      options.file = arg;
+    }
+  }
+
+  if (options.file === undefined) {
+    throw new Error("missing scenario file");
+  }
+
+  return { ...options, file: options.file };
+};
+
+/** Entry point for `scripts/headless.mjs`; returns the process exit code. */
+export const main = (argv: ReadonlyArray<string>): number => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  try {
+    const scenario = loadHeadlessScenario(JSON.parse(readFileSync(options.file, "utf8")), { origin: options.origin });
+    for (const warning of scenario.warnings) {
+      process.stderr.write(`warning: ${warning}\n`);
+    }
+
+    const wantsHashes = options.hashes !== undefined || options.compare !== undefined;
+    const hashEvery = options.hashEvery ?? (wantsHashes ? 60 : 0);
+    const result = runHeadless(scenario.sim, { ticks: options.ticks, sampleEvery: options.every, hashEvery });
+    const output = `${formatHeadlessResult(result, options.format)}\n`;
+    if (options.out === undefined) {
+      process.stdout.write(output);
+    } else {
+      writeFileSync(options.out, output);
+    }
+
+    const ticksPerSecond = result.wallMs > 0 ? Math.round((result.ticks * 1000) / result.wallMs) : result.ticks;
+    process.stderr.write(
+      `ran ${result.ticks} ticks of a ${scenario.source} in ${result.wallMs.toFixed(1)} ms (${ticksPerSecond} ticks/s)\n`,
+    );
+
+    if (options.hashes !== undefined) {
+      writeFileSync(options.hashes, `${JSON.stringify(result.hashes)}\n`);
+    }
+    if (options.compare !== undefined) {
+      const baseline = JSON.parse(readFileSync(options.compare, "utf8")) as SimStateHash[];
+      const divergence = findStateHashDivergence(baseline, result.hashes);
+      process.stderr.write(`${formatStateHashDivergence(divergence)}\n`);
+      return divergence === null ? 0 : 3;
+    }
+    return 0;
+  } catch (error) {
+    process.stderr.write(`headless run failed: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+};
@@ -0,0 +1,135 @@
+import { isItemKind, type ItemKind } from "./items";
+
+/** Sub-tile units along one lane; divisible by every belt cadence so items land exactly on the tile end. */
+export const BELT_LANE_LENGTH = 120;
+export const BELT_LANE_CAPACITY = 4;
+/** Minimum distance between two items on the same lane. */
+export const BELT_ITEM_SPACING = BELT_LANE_LENGTH / BELT_LANE_CAPACITY;
+/** Entry point used by inserters, miners and side-loading belts. */
+export const BELT_LANE_MIDPOINT = BELT_LANE_LENGTH / 2;
+/** Lane used for inline drops and adopted legacy single-slot items. */
+export const BELT_DEFAULT_LANE: BeltLaneIndex = 1;
+
+/** `0` is the left lane and `1` the right lane, relative to the belt's direction of travel. */
+export type BeltLaneIndex = 0 | 1;
+
+export type BeltLaneItem = {
+  item: ItemKind;
+  /** Distance travelled along the tile, from `0` (entry) to `BELT_LANE_LENGTH` (exit). */
+  progress: number;
+};
+
+/** Items ordered front-first, so index `0` is the next item to leave the tile. */
+export type BeltLane = BeltLaneItem[];
+
+export type BeltLanes = [BeltLane, BeltLane];
+
+export const BELT_LANE_INDICES: ReadonlyArray<BeltLaneIndex> = [0, 1];
+
+export const createBeltLanes = (): BeltLanes => [[], []];
+
+const normalizeBeltLane = (value: unknown): BeltLane => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const lane: BeltLane = [];
+  for (const entry of value) {
+    if (typeof entry !== "object" || entry === null) {
+      continue;
+    }
+
+    const { item, progress } = entry as { item?: unknown; progress?: unknown };
+    if (!isItemKind(item) || typeof progress !== "number" || !Number.isFinite(progress)) {
+      continue;
+    }
+
+    lane.push({ item, progress: Math.min(BELT_LANE_LENGTH, Math.max(0, Math.floor(progress))) });
+  }
+
+  lane.sort((left, right) => right.progress - left.progress);
+  return lane.slice(0, BELT_LANE_CAPACITY);
+};
+
+/**
+ * Rebuilds lanes from persisted or hand-edited state, dropping malformed entries and
+ * restoring front-first order.
+ */
+export const normalizeBeltLanes = (value: unknown): BeltLanes => {
+  if (!Array.isArray(value)) {
+    return createBeltLanes();
+  }
+
+  return [normalizeBeltLane(value[0]), normalizeBeltLane(value[1])];
+};
+
+/**
+ * Item closest to the exit across both lanes; ties go to the left lane. This is the
+ * legacy single-slot `item` view of a belt.
+ */
+export const getBeltFrontItem = (lanes: BeltLanes): ItemKind | null => {
+  const left = lanes[0][0];
+  const right = lanes[1][0];
+  if (left === undefined) {
+    return right?.item ?? null;
+  }
+
+  if (right === undefined || left.progress >= right.progress) {
+    return left.item;
+  }
+
+  return right.item;
+};
+
+export const countBeltItems = (lanes: BeltLanes): number => lanes[0].length + lanes[1].length;
+
+/**
+ * Moves every item `step` units toward the exit. The front item stops at the tile end and
+ * the rest queue up behind it at `BELT_ITEM_SPACING`. Returns whether any item moved.
+ */
+export const advanceBeltLane = (lane: BeltLane, step: number): boolean => {
+  let limit = BELT_LANE_LENGTH;
+  let moved = false;
+  for (const entry of lane) {
+    const progress = Math.max(entry.progress, Math.min(entry.progress + step, limit));
+    if (progress !== entry.progress) {
+      moved = true;
+    }
+    entry.progress = progress;
+    limit = entry.progress - BELT_ITEM_SPACING;
+  }
+  return moved;
+};
+
+/** Front item of `lane` once it has reached the tile end, otherwise `null`. */
+export const getBeltLaneExitItem = (lane: BeltLane): ItemKind | null => {
+  const front = lane[0];
+  return front !== undefined && front.progress >= BELT_LANE_LENGTH ? front.item : null;
+};
+
+export const canInsertIntoBeltLane = (lane: BeltLane, progress: number): boolean => {
+  if (lane.length >= BELT_LANE_CAPACITY) {
+    return false;
+  }
+
+  return lane.every((entry) => Math.abs(entry.progress - progress) >= BELT_ITEM_SPACING);
+};
+
+export const insertIntoBeltLane = (lane: BeltLane, item: ItemKind, progress: number): boolean => {
+  if (!canInsertIntoBeltLane(lane, progress)) {
+    return false;
+  }
+
+  const index = lane.findIndex((entry) => entry.progress < progress);
+  lane.splice(index === -1 ? lane.length : index, 0, { item, progress });
+  return true;
+};
+
+/** Removes the front-most item that `accepts` allows; items ahead of it keep their places. */
+export const takeFrontFromBeltLane = (
+  lane: BeltLane,
+  accepts: (item: ItemKind) => boolean = () => true,
+): ItemKind | null => {
+  const index = lane.findIndex((entry) => accepts(entry.item));
+  return index === -1 ? null : lane.splice(index, 1)[0]?.item ?? null;
+};
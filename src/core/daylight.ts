@@ -0,0 +1,67 @@
+/** Ticks in one full day/night cycle: just under seven minutes at 60 ticks per second. */
+export const DAY_LENGTH_TICKS = 25_000;
+/** Fraction of the day a new game starts at: noon, so a fresh factory has a full afternoon of sun. */
+export const DEFAULT_TIME_OF_DAY = 0.5;
+
+/** Fractions of the day where dawn ends and dusk begins; full sun lies between them. */
+const DAWN_START = 0.2;
+const DAWN_END = 0.3;
+const DUSK_START = 0.7;
+const DUSK_END = 0.8;
+
+export type DayNightState = {
+  /** Ticks into the current day, in `[0, dayLengthTicks)`. */
+  dayTicks: number;
+  dayLengthTicks: number;
+  /** Fraction of the day that has passed: 0 is midnight, 0.5 is noon. */
+  timeOfDay: number;
+  /** Share of full sunlight, from 0 at night to 1 during the day. */
+  daylight: number;
+};
+
+/** Wraps any integer tick count into `[0, DAY_LENGTH_TICKS)`. */
+export const normalizeDayTicks = (value: number): number => {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+
+  const ticks = Math.floor(value) % DAY_LENGTH_TICKS;
+  return ticks < 0 ? ticks + DAY_LENGTH_TICKS : ticks;
+};
+
+/** Day tick a game would be on after `tick` ticks from the default start; used for saves from before the cycle existed. */
+export const getDefaultDayTicks = (tick: number): number => {
+  return normalizeDayTicks(DEFAULT_TIME_OF_DAY * DAY_LENGTH_TICKS + tick);
+};
+
+/** Full sun between dawn and dusk, none at night, and a linear ramp through each twilight. */
+export const getDaylight = (timeOfDay: number): number => {
+  if (timeOfDay <= DAWN_START || timeOfDay >= DUSK_END) {
+    return 0;
+  }
+  if (timeOfDay < DAWN_END) {
+    return (timeOfDay - DAWN_START) / (DAWN_END - DAWN_START);
+  }
+  if (timeOfDay > DUSK_START) {
+    return (DUSK_END - timeOfDay) / (DUSK_END - DUSK_START);
+  }
+  return 1;
+};
+
+export const getDayNightState = (dayTicks: number): DayNightState => {
+  const normalized = normalizeDayTicks(dayTicks);
+  const timeOfDay = normalized / DAY_LENGTH_TICKS;
+  return {
+    dayTicks: normalized,
+    dayLengthTicks: DAY_LENGTH_TICKS,
+    timeOfDay,
+    daylight: getDaylight(timeOfDay),
+  };
+};
+
+/** Time of day on a 24-hour clock, e.g. `"06:30"`. */
+export const formatTimeOfDay = (timeOfDay: number): string => {
+  const minutes = Math.floor((((timeOfDay % 1) + 1) % 1) * 24 * 60);
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+};
@@ -0,0 +1,232 @@
+import { DIRECTION_VECTORS, OPPOSITE_DIRECTION, type Direction, type GridCoord } from "./types";
+
+export const FLUID_KINDS = ["water"] as const;
+export type FluidKind = (typeof FLUID_KINDS)[number];
+
+export const isFluidKind = (value: unknown): value is FluidKind => {
+  return typeof value === "string" && (FLUID_KINDS as ReadonlyArray<string>).includes(value);
+};
+
+/** Fluid an entity holds, in whole units and one kind at a time; an empty box holds no kind. */
+export type FluidBox = {
+  fluid: FluidKind | null;
+  amount: number;
+};
+
+export const PIPE_TO_GROUND_KIND = "pipe-to-ground";
+export const OFFSHORE_PUMP_KIND = "offshore-pump";
+
+/** Most tiles a pipe-to-ground may pass beneath between itself and its partner. */
+export const PIPE_TO_GROUND_MAX_SPAN = 9;
+/** Water an offshore pump lifts into its fluid box per tick from the water tile behind it. */
+export const OFFSHORE_PUMP_WATER_PER_TICK = 20;
+/** Most fluid that crosses one link between two fluid boxes in a tick. */
+export const FLUID_FLOW_PER_TICK = 50;
+
+/** Units each fluid entity's box holds. Boilers turn one unit of water into one unit of steam. */
+export const FLUID_BOX_CAPACITY = {
+  pipe: 100,
+  "pipe-to-ground": 100,
+  "offshore-pump": 100,
+  "storage-tank": 2500,
+  boiler: 200,
+} as const;
+export type FluidEntityKind = keyof typeof FLUID_BOX_CAPACITY;
+export const FLUID_ENTITY_KINDS = Object.keys(FLUID_BOX_CAPACITY) as FluidEntityKind[];
+
+export const isFluidEntityKind = (kind: unknown): kind is FluidEntityKind => {
+  return typeof kind === "string" && Object.prototype.hasOwnProperty.call(FLUID_BOX_CAPACITY, kind);
+};
+
+/** The parts of a placed entity that the connection rules look at. */
+export type FluidNode = {
+  id: string;
+  kind: string;
+  pos: GridCoord;
+  rot: Direction;
+};
+
+export type FluidNodeLookup<T extends FluidNode> = (pos: GridCoord) => ReadonlyArray<T>;
+
+const ALL_SIDES: ReadonlyArray<Direction> = ["N", "E", "S", "W"];
+
+const offsetTile = (origin: GridCoord, direction: Direction, distance = 1): GridCoord => {
+  const delta = DIRECTION_VECTORS[direction];
+  return { x: origin.x + delta.x * distance, y: origin.y + delta.y * distance };
+};
+
+export const createFluidBox = (): FluidBox => ({ fluid: null, amount: 0 });
+
+/** Reads a saved or hand-edited box back into range for an entity of `kind`. */
+export const normalizeFluidBox = (value: unknown, kind: FluidEntityKind): FluidBox => {
+  const raw = typeof value === "object" && value !== null ? (value as { fluid?: unknown; amount?: unknown }) : {};
+  const amount = typeof raw.amount === "number" && Number.isFinite(raw.amount) ? Math.floor(raw.amount) : 0;
+  const clamped = Math.max(0, Math.min(FLUID_BOX_CAPACITY[kind], amount));
+  return clamped > 0 && isFluidKind(raw.fluid) ? { fluid: raw.fluid, amount: clamped } : createFluidBox();
+};
+
+/**
+ * Sides an entity's fluid box opens onto. Pipes, tanks and boilers open on every side; an offshore pump
+ * only in front of it, and a pipe-to-ground only behind it, because its front leads underground.
+ */
+export const getFluidBoxSides = (kind: string, rot: Direction): ReadonlyArray<Direction> => {
+  if (kind === OFFSHORE_PUMP_KIND) {
+    return [rot];
+  }
+
+  if (kind === PIPE_TO_GROUND_KIND) {
+    return [OPPOSITE_DIRECTION[rot]];
+  }
+
+  return isFluidEntityKind(kind) ? ALL_SIDES : [];
+};
+
+/** The tile an offshore pump facing `rot` on `tile` draws from: the one behind it, which must be water. */
+export const getOffshorePumpIntakeTile = (tile: GridCoord, rot: Direction): GridCoord => {
+  return offsetTile(tile, OPPOSITE_DIRECTION[rot]);
+};
+
+/**
+ * The pipe-to-ground `pipe` reaches underground: the nearest pipe-to-ground ahead of it, provided it faces
+ * back towards `pipe` and lies within `PIPE_TO_GROUND_MAX_SPAN`. Pairing is purely positional, like
+ * underground belts, so it survives saves and blueprints.
+ */
+export const findPipeToGroundPartner = <T extends FluidNode>(pipe: FluidNode, getAt: FluidNodeLookup<T>): T | null => {
+  for (let distance = 1; distance <= PIPE_TO_GROUND_MAX_SPAN + 1; distance += 1) {
+    const found = getAt(offsetTile(pipe.pos, pipe.rot, distance)).find((candidate) => candidate.kind === PIPE_TO_GROUND_KIND);
+    if (found !== undefined) {
+      return found.rot === OPPOSITE_DIRECTION[pipe.rot] ? found : null;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Sides of `node` that exchange fluid with a 4-adjacent entity: both boxes must open towards each other.
+ * A pipe-to-ground's underground link is not a side; see `findPipeToGroundPartner`.
+ */
+export const getFluidConnections = <T extends FluidNode>(node: FluidNode, getAt: FluidNodeLookup<T>): Direction[] => {
+  const connected: Direction[] = [];
+  for (const side of getFluidBoxSides(node.kind, node.rot)) {
+    const back = OPPOSITE_DIRECTION[side];
+    const opensBack = getAt(offsetTile(node.pos, side)).some((neighbor) => getFluidBoxSides(neighbor.kind, neighbor.rot).includes(back));
+    if (opensBack) {
+      connected.push(side);
+    }
+  }
+
+  return connected;
+};
+
+/**
+ * Pairs of fluid entities that exchange fluid directly: 4-adjacent entities with connected sides, and
+ * pipe-to-ground pairs. Each pair appears once, ordered by its first member and then its second, in input
+ * order; passing entities in grid order makes every link and the flow along it deterministic.
+ */
+export const computeFluidLinks = <T extends FluidNode>(nodes: ReadonlyArray<T>, getAt: FluidNodeLookup<T>): Array<[T, T]> => {
+  const fluidNodes = nodes.filter((node) => isFluidEntityKind(node.kind));
+  const indexById = new Map<string, number>();
+  fluidNodes.forEach((node, index) => indexById.set(node.id, index));
+
+  const links: Array<[T, T]> = [];
+  fluidNodes.forEach((node, index) => {
+    const linked: Array<T | null> = getFluidConnections(node, getAt).flatMap((side) => [...getAt(offsetTile(node.pos, side))]);
+    if (node.kind === PIPE_TO_GROUND_KIND) {
+      linked.push(findPipeToGroundPartner(node, getAt));
+    }
+    const later = new Set<number>();
+    for (const other of linked) {
+      const otherIndex = other === null ? undefined : indexById.get(other.id);
+      if (otherIndex !== undefined && otherIndex > index) {
+        later.add(otherIndex);
+      }
+    }
+    for (const otherIndex of Array.from(later).sort((left, right) => left - right)) {
+      const other = fluidNodes[otherIndex];
+      if (other !== undefined) {
+        links.push([node, other]);
+      }
+    }
+  });
+
+  return links;
+};
+
+/**
+ * Groups fluid entities into networks: entities joined, directly or through others, by a fluid link.
+ * Networks are ordered by their first member and keep members in input order.
+ */
+export const computeFluidNetworks = <T extends FluidNode>(nodes: ReadonlyArray<T>, getAt: FluidNodeLookup<T>): T[][] => {
+  const fluidNodes = nodes.filter((node) => isFluidEntityKind(node.kind));
+  const indexById = new Map<string, number>();
+  fluidNodes.forEach((node, index) => indexById.set(node.id, index));
+
+  const parents = fluidNodes.map((_node, index) => index);
+  const find = (index: number): number => {
+    let root = index;
+    while (parents[root] !== root) {
+      root = parents[root] ?? root;
+    }
+    return root;
+  };
+
+  for (const [left, right] of computeFluidLinks(fluidNodes, getAt)) {
+    const leftRoot = find(indexById.get(left.id) ?? 0);
+    const rightRoot = find(indexById.get(right.id) ?? 0);
+    parents[Math.max(leftRoot, rightRoot)] = Math.min(leftRoot, rightRoot);
+  }
+
+  const networks = new Map<number, T[]>();
+  fluidNodes.forEach((node, index) => {
+    const root = find(index);
+    const network = networks.get(root);
+    if (network === undefined) {
+      networks.set(root, [node]);
+    } else {
+      network.push(node);
+    }
+  });
+
+  return Array.from(networks.values());
+};
+
+/** A fluid box together with how much it can hold. */
+export type FluidLinkEnd = {
+  box: FluidBox;
+  capacity: number;
+};
+
+/**
+ * Moves fluid along each link for one tick, towards the end that is emptier for its capacity: at most
+ * `FLUID_FLOW_PER_TICK` units, and never more than would leave both ends equally full. Every transfer is sized
+ * from the levels at the start of the tick, so fluid advances one link per tick and a long pipeline passes on
+ * less than a short one. Links then apply in order, each limited to what its source still holds and its target
+ * still has room for, so no unit is created or lost. Only whole units move, and never into a box of another fluid.
+ */
+export const flowFluidLinks = (links: ReadonlyArray<readonly [FluidLinkEnd, FluidLinkEnd]>): void => {
+  const planned = links.map(([left, right]) => {
+    // Positive when fluid flows from left to right.
+    const even = (left.box.amount * right.capacity - right.box.amount * left.capacity) / (left.capacity + right.capacity);
+    return Math.sign(even) * Math.min(FLUID_FLOW_PER_TICK, Math.floor(Math.abs(even)));
+  });
+
+  links.forEach(([left, right], index) => {
+    const flow = planned[index] ?? 0;
+    const [from, to] = flow > 0 ? [left, right] : [right, left];
+    if (from.box.fluid === null || (to.box.fluid !== null && to.box.fluid !== from.box.fluid)) {
+      return;
+    }
+
+    const moved = Math.min(Math.abs(flow), from.box.amount, to.capacity - to.box.amount);
+    if (moved <= 0) {
+      return;
+    }
+    to.box.fluid = from.box.fluid;
+    to.box.amount += moved;
+    from.box.amount -= moved;
+    if (from.box.amount === 0) {
+      from.box.fluid = null;
+    }
+  });
+};
@@ -0,0 +1,270 @@
+import { createChunkedMap, createMap, type GeneratedMap } from "./map";
+import { normalizeMapSettings } from "./map-settings";
+import { createEmptyRuntimeMetrics, getSimulationMetrics, type RuntimeMetrics } from "./metrics";
+import { getDefinition } from "./registry";
+import { createSim } from "./sim";
+import type { SimStateHash } from "./state-hash";
+import type { Direction, GridCoord } from "./types";
+import { registerDefaults } from "../entities/all";
+
+/** Fixed step the app advances the sim by; headless runs use it so tick counts line up. */
+export const HEADLESS_STEP_MS = 1000 / 60;
+
+export const HEADLESS_DEFAULT_WIDTH = 60;
+export const HEADLESS_DEFAULT_HEIGHT = 40;
+export const HEADLESS_DEFAULT_SEED = "agents-ultra";
+
+export type HeadlessFormat = "json" | "csv";
+
+export type HeadlessScenarioSource = "save" | "blueprint";
+
+export type HeadlessScenario = {
+  readonly source: HeadlessScenarioSource;
+  readonly sim: ReturnType<typeof createSim>;
+  readonly map: GeneratedMap;
+  /** Entries that were dropped while loading, e.g. unknown kinds or blocked tiles. */
+  readonly warnings: string[];
+};
+
+export type HeadlessLoadOptions = {
+  /** Tile the blueprint anchor lands on; defaults to the map centre, where the player spawns. */
+  origin?: GridCoord;
+};
+
+export type HeadlessRunOptions = {
+  ticks: number;
+  /** Record metrics every `sampleEvery` ticks; `0` keeps only the final sample. */
+  sampleEvery?: number;
+  /** Record a state hash every `hashEvery` ticks for desync checks; `0` disables it. */
+  hashEvery?: number;
+};
+
+export type HeadlessSample = { tick: number } & RuntimeMetrics;
+
+export type HeadlessRunResult = {
+  ticks: number;
+  wallMs: number;
+  samples: HeadlessSample[];
+  hashes: SimStateHash[];
+};
+
+type ScenarioEntity = {
+  kind: string;
+  pos: GridCoord;
+  rot: Direction;
+  state?: unknown;
+  recipe?: string;
+  underground?: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null;
+};
+
+const isDirection = (value: unknown): value is Direction => {
+  return value === "N" || value === "E" || value === "S" || value === "W";
+};
+
+const toTileCoord = (value: unknown): number | null => {
+  return typeof value === "number" && Number.isInteger(value) ? value : null;
+};
+
+const toPositiveInteger = (value: unknown, fallback: number): number => {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+const readCoord = (value: unknown): GridCoord | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const x = toTileCoord(value.x);
+  const y = toTileCoord(value.y);
+  return x === null || y === null ? null : { x, y };
+};
+
+const readScenarioEntities = (value: unknown, warnings: string[]): ScenarioEntity[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const entities: ScenarioEntity[] = [];
+  value.forEach((raw: unknown, index) => {
+    const pos = isRecord(raw) ? readCoord(raw.pos) : null;
+    if (!isRecord(raw) || typeof raw.kind !== "string" || pos === null) {
+      warnings.push(`entity ${index}: malformed entry skipped`);
+      return;
+    }
+
+    if (getDefinition(raw.kind) === undefined) {
+      warnings.push(`entity ${index}: unknown kind "${raw.kind}" skipped`);
+      return;
+    }
+
+    entities.push({
+      kind: raw.kind,
+      pos,
+      rot: isDirection(raw.rot) ? raw.rot : "S",
+      state: raw.state,
+      recipe: typeof raw.recipe === "string" ? raw.recipe : undefined,
+      underground: typeof raw.underground === "string" ? raw.underground : undefined,
+    });
+  });
+
+  return entities;
+};
+
+/** Unwraps the `{ state }` envelope that save slots and exported files use. */
+const resolveSavePayload = (value: Record<string, unknown>): Record<string, unknown> => {
+  const nested = value.state;
+  return isRecord(nested) && Array.isArray(nested.entities) ? nested : value;
+};
+
+const loadSave = (payload: Record<string, unknown>): HeadlessScenario => {
+  const warnings: string[] = [];
+  const width = toPositiveInteger(payload.width, HEADLESS_DEFAULT_WIDTH);
+  const height = toPositiveInteger(payload.height, HEADLESS_DEFAULT_HEIGHT);
+  const seed = typeof payload.seed === "string" || typeof payload.seed === "number"
+    ? payload.seed
+    : HEADLESS_DEFAULT_SEED;
+  // Saves from a chunked world carry the chunks that changed; the rest regenerates from the seed and settings.
+  const settings = payload.mapSettings === undefined ? undefined : normalizeMapSettings(payload.mapSettings);
+  const map = Array.isArray(payload.mapChunks)
+    ? createChunkedMap(seed, settings)
+    : createMap(width, height, seed, settings);
+  map.restoreChangedChunks?.(payload.mapChunks);
+  const sim = createSim({ width: map.width, height: map.height, seed, map });
+
+  const entities = readScenarioEntities(payload.entities, warnings);
+  const power = isRecord(payload.power) ? payload.power : {};
+  sim.restoreState({
+    tick: payload.tick,
+    tickCount: payload.tickCount,
+    elapsedMs: payload.elapsedMs,
+    dayTicks: payload.dayTicks,
+    paused: false,
+    entities: entities.map(({ kind, pos, rot, state }) => ({ kind, pos, rot, state })),
+    power,
+  });
+
+  const restored = sim.getAllEntities().length;
+  if (restored < entities.length) {
+    warnings.push(`${entities.length - restored} entities outside the ${map.width}x${map.height} map skipped`);
+  }
+
+  return { source: "save", sim, map, warnings };
+};
+
+const loadBlueprint = (payload: Record<string, unknown>, options: HeadlessLoadOptions): HeadlessScenario => {
+  const warnings: string[] = [];
+  const anchor = readCoord(payload.anchor) ?? { x: 0, y: 0 };
+  const width = HEADLESS_DEFAULT_WIDTH;
+  const height = HEADLESS_DEFAULT_HEIGHT;
+  const map = createMap(width, height, HEADLESS_DEFAULT_SEED);
+  const sim = createSim({ width, height, seed: HEADLESS_DEFAULT_SEED, map });
+  const origin = options.origin ?? { x: Math.floor(width / 2), y: Math.floor(height / 2) };
+
+  readScenarioEntities(payload.entities, warnings).forEach((entity, index) => {
+    const pos = { x: origin.x + entity.pos.x - anchor.x, y: origin.y + entity.pos.y - anchor.y };
+    if (!map.isWithinBounds(pos.x, pos.y) || sim.getEntitiesAt(pos).length > 0) {
+      warnings.push(`entity ${index}: ${entity.kind} at (${pos.x}, ${pos.y}) is out of bounds or blocked`);
+      return;
+    }
+
+    const state = entity.underground === undefined ? undefined : { mode: entity.underground };
+    const id = sim.addEntity({ kind: entity.kind, pos, rot: entity.rot, state } as Parameters<typeof sim.addEntity>[0]);
+    if (entity.recipe === undefined) {
+      return;
+    }
+
+    const assembler = sim.getEntityById(id)?.state as { setRecipe?: (recipe: string) => unknown } | undefined;
+    if (typeof assembler?.setRecipe !== "function" || assembler.setRecipe(entity.recipe) === null) {
+      warnings.push(`entity ${index}: recipe "${entity.recipe}" not applied`);
+    }
+    sim.notifyEntityChanged(id);
+  });
+
+  return { source: "blueprint", sim, map, warnings };
+};
+
+/**
+ * Builds a sim from a `RuntimeSaveState` (bare or inside a save envelope) or a blueprint export.
+ * Player position and inventory are ignored; headless runs only care about the factory.
+ */
+export const loadHeadlessScenario = (input: unknown, options: HeadlessLoadOptions = {}): HeadlessScenario => {
+  registerDefaults();
+
+  if (!isRecord(input)) {
+    throw new TypeError("scenario must be a JSON object");
+  }
+
+  if (isRecord(input.anchor) && Array.isArray(input.entities)) {
+    return loadBlueprint(input, options);
+  }
+
+  const payload = resolveSavePayload(input);
+  if (!Array.isArray(payload.entities)) {
+    throw new TypeError("scenario is neither a save state nor a blueprint");
+  }
+
+  return loadSave(payload);
+};
+
+/** Steps the sim `ticks` times back to back, without any wall-clock pacing. */
+export const runHeadless = (
+  sim: ReturnType<typeof createSim>,
+  { ticks, sampleEvery = 0, hashEvery = 0 }: HeadlessRunOptions,
+): HeadlessRunResult => {
+  if (!Number.isInteger(ticks) || ticks < 0) {
+    throw new RangeError("ticks must be a non-negative integer");
+  }
+  if (!Number.isInteger(sampleEvery) || sampleEvery < 0) {
+    throw new RangeError("sampleEvery must be a non-negative integer");
+  }
+  if (!Number.isInteger(hashEvery) || hashEvery < 0) {
+    throw new RangeError("hashEvery must be a non-negative integer");
+  }
+
+  const samples: HeadlessSample[] = [];
+  const sample = (): void => {
+    samples.push({ tick: sim.tick, ...(getSimulationMetrics(sim) ?? createEmptyRuntimeMetrics()) });
+  };
+
+  sim.setStateHashRecording(hashEvery > 0 ? { every: hashEvery } : null);
+  const startedAt = performance.now();
+  for (let ran = 1; ran <= ticks; ran += 1) {
+    sim.step(HEADLESS_STEP_MS);
+    if (sampleEvery > 0 && ran % sampleEvery === 0 && ran < ticks) {
+      sample();
+    }
+  }
+  const wallMs = performance.now() - startedAt;
+  sample();
+  sim.setStateHashRecording(null);
+
+  return { ticks, wallMs, samples, hashes: sim.getStateHashLog() };
+};
+
+// Per-item totals flatten into one `<field>.<item>` column per registered item.
+const getHeadlessSampleColumns = (): string[] => [
+  "tick",
+  ...Object.entries(createEmptyRuntimeMetrics()).flatMap(([field, value]) =>
+    typeof value === "object" ? Object.keys(value).map((item) => `${field}.${item}`) : [field],
+  ),
+];
+
+const readHeadlessSampleColumn = (sample: HeadlessSample, column: string): unknown => {
+  const [field = "", item] = column.split(".");
+  const value = (sample as Record<string, unknown>)[field];
+  return item === undefined ? value : (value as Record<string, number> | undefined)?.[item] ?? 0;
+};
+
+export const formatHeadlessResult = (result: HeadlessRunResult, format: HeadlessFormat): string => {
+  if (format === "json") {
+    return JSON.stringify({ ticks: result.ticks, wallMs: result.wallMs, samples: result.samples }, null, 2);
+  }
+
+  const columns = getHeadlessSampleColumns();
+  const rows = result.samples.map((sample) => columns.map((column) => readHeadlessSampleColumn(sample, column)).join(","));
+  return [columns.join(","), ...rows].join("\n");
+};
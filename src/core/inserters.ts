@@ -0,0 +1,32 @@
+import { getItemKinds, isItemKind, type ItemKind } from "./items";
+
+/** Extra items an inserter may carry per swing on top of the first one. */
+export const INSERTER_MAX_STACK_BONUS = 4;
+
+export type InserterSettings = {
+  /** Items the inserter may pick up; empty lets everything through. */
+  filter: ItemKind[];
+  stackBonus: number;
+};
+
+/** Known items from `value`, deduplicated and in registry order. */
+export const normalizeInserterFilter = (value: unknown): ItemKind[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const requested = new Set(value.filter(isItemKind));
+  return getItemKinds().filter((item) => requested.has(item));
+};
+
+export const normalizeInserterStackBonus = (value: unknown): number => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return 0;
+  }
+
+  return Math.min(INSERTER_MAX_STACK_BONUS, Math.floor(value));
+};
+
+export const inserterFilterAllows = (filter: ReadonlyArray<ItemKind>, item: ItemKind): boolean => {
+  return filter.length === 0 || filter.includes(item);
+};
@@ -0,0 +1,92 @@
+export type ItemDefinition = {
+  readonly id: string;
+  readonly name: string;
+  readonly stackSize: number;
+  /** Energy units released when the item is burned; `0` for items that are not fuel. */
+  readonly fuelValue: number;
+  /** Asset name under `public/`, without the `.svg` extension. */
+  readonly sprite: string;
+  readonly color: string;
+};
+
+export const BUILTIN_ITEMS = [
+  { id: "iron-ore", name: "Iron ore", stackSize: 50, fuelValue: 0, sprite: "iron-ore", color: "#4f86f7" },
+  { id: "iron-plate", name: "Iron plate", stackSize: 100, fuelValue: 0, sprite: "iron-plate", color: "#f7ca4f" },
+  { id: "iron-gear", name: "Iron gear", stackSize: 100, fuelValue: 0, sprite: "iron-gear-wheel", color: "#c084fc" },
+  { id: "coal", name: "Coal", stackSize: 50, fuelValue: 4, sprite: "coal", color: "#343434" },
+  { id: "wood", name: "Wood", stackSize: 100, fuelValue: 2, sprite: "wood", color: "#4d6b37" },
+  { id: "copper-ore", name: "Copper ore", stackSize: 50, fuelValue: 0, sprite: "copper-ore", color: "#d9784a" },
+  { id: "copper-plate", name: "Copper plate", stackSize: 100, fuelValue: 0, sprite: "copper-plate", color: "#e8935f" },
+  { id: "stone", name: "Stone", stackSize: 50, fuelValue: 0, sprite: "stone", color: "#a8a08f" },
+  { id: "stone-brick", name: "Stone brick", stackSize: 100, fuelValue: 0, sprite: "stone-brick", color: "#b5654a" },
+  { id: "steel-plate", name: "Steel plate", stackSize: 100, fuelValue: 0, sprite: "steel-plate", color: "#8e9aa8" },
+  { id: "copper-cable", name: "Copper cable", stackSize: 200, fuelValue: 0, sprite: "copper-cable", color: "#f0a35e" },
+  {
+    id: "electronic-circuit",
+    name: "Electronic circuit",
+    stackSize: 200,
+    fuelValue: 0,
+    sprite: "electronic-circuit(green)",
+    color: "#4ade80",
+  },
+  {
+    id: "automation-science-pack",
+    name: "Automation science pack",
+    stackSize: 200,
+    fuelValue: 0,
+    sprite: "automation-science-pack",
+    color: "#f87171",
+  },
+  { id: "landfill", name: "Landfill", stackSize: 100, fuelValue: 0, sprite: "landfill", color: "#8b6b3d" },
+] as const satisfies readonly ItemDefinition[];
+
+export type ItemKind = (typeof BUILTIN_ITEMS)[number]["id"];
+
+const itemsById = new Map<string, ItemDefinition>();
+
+export function registerItem(item: ItemDefinition): void {
+  if (item.id.length === 0) {
+    throw new Error("Item id must not be empty");
+  }
+
+  if (itemsById.has(item.id)) {
+    throw new Error(`Item "${item.id}" is already registered`);
+  }
+
+  if (!Number.isInteger(item.stackSize) || item.stackSize <= 0) {
+    throw new Error(`Item "${item.id}" has invalid stack size`);
+  }
+
+  if (!Number.isFinite(item.fuelValue) || item.fuelValue < 0) {
+    throw new Error(`Item "${item.id}" has invalid fuel value`);
+  }
+
+  itemsById.set(item.id, item);
+}
+
+export const isItemKind = (value: unknown): value is ItemKind => {
+  return typeof value === "string" && itemsById.has(value);
+};
+
+export function getItem(id: string): ItemDefinition | undefined {
+  return itemsById.get(id);
+}
+
+/**
+ * Registered items in registration order; this is also the display and pickup order.
+ */
+export function getItems(): ItemDefinition[] {
+  return Array.from(itemsById.values());
+}
+
+export function getItemKinds(): ItemKind[] {
+  return Array.from(itemsById.keys()) as ItemKind[];
+}
+
+export const isFuelItem = (id: string): boolean => {
+  return (itemsById.get(id)?.fuelValue ?? 0) > 0;
+};
+
+for (const item of BUILTIN_ITEMS) {
+  registerItem(item);
+}
@@ -0,0 +1,77 @@
+import type { TileType } from "./types";
+
+/** Side length, in tiles, of the square chunks a chunked map generates and saves resources in. */
+export const MAP_CHUNK_SIZE = 32;
+/**
+ * Chunks along each side of a chunked world; spawn sits where the four middle chunks meet. Only chunks that
+ * are read get generated, so the bound costs nothing: it puts every edge 32,768 tiles from spawn, far past
+ * anywhere a player walks to. The edge itself is a hard wall: nothing generates, builds or saves beyond it.
+ */
+export const CHUNKED_MAP_CHUNKS = 2048;
+/** Side length, in tiles, of a chunked world. */
+export const CHUNKED_MAP_SIZE = MAP_CHUNK_SIZE * CHUNKED_MAP_CHUNKS;
+/** Most a single tile can hold; amounts are stored one byte per tile. */
+export const MAX_TILE_AMOUNT = 255;
+
+/** Tile kinds in the order they are stored, one byte per tile. New kinds go at the end so saved codes keep their meaning. */
+export const MAP_TILE_CODES: ReadonlyArray<TileType> = [
+  "empty",
+  "iron-ore",
+  "coal-ore",
+  "copper-ore",
+  "stone",
+  "tree",
+  "water",
+  "cliff",
+];
+
+export const toMapTileCode = (tile: TileType): number => MAP_TILE_CODES.indexOf(tile);
+
+/**
+ * Resources of one chunk, indexed by `localY * MAP_CHUNK_SIZE + localX`.
+ * `codes` indexes `MAP_TILE_CODES`; a tile with amount 0 is always `empty`, and water and cliffs always hold 1.
+ */
+export type MapChunkTiles = {
+  codes: Uint8Array;
+  amounts: Uint8Array;
+};
+
+/** A chunk's tiles that differ from a fresh generation: `[index, tile, amount]`, ordered by index. */
+export type MapChunkSave = {
+  x: number;
+  y: number;
+  cells: Array<[number, TileType, number]>;
+};
+
+/** A generated tile: its `MAP_TILE_CODES` index and amount. */
+export type MapTileSample = {
+  code: number;
+  amount: number;
+};
+
+/**
+ * Generates one chunk from `sample`, which must depend only on the tile coordinates it is given;
+ * then chunks can be generated in any order, on any thread, and always agree at their edges.
+ */
+export const generateMapChunk = (
+  sample: (x: number, y: number) => MapTileSample,
+  chunkX: number,
+  chunkY: number,
+): MapChunkTiles => {
+  const codes = new Uint8Array(MAP_CHUNK_SIZE * MAP_CHUNK_SIZE);
+  const amounts = new Uint8Array(MAP_CHUNK_SIZE * MAP_CHUNK_SIZE);
+  const originX = chunkX * MAP_CHUNK_SIZE;
+  const originY = chunkY * MAP_CHUNK_SIZE;
+  for (let localY = 0; localY < MAP_CHUNK_SIZE; localY += 1) {
+    for (let localX = 0; localX < MAP_CHUNK_SIZE; localX += 1) {
+      const tile = sample(originX + localX, originY + localY);
+      if (tile.amount > 0) {
+        const index = localY * MAP_CHUNK_SIZE + localX;
+        codes[index] = tile.code;
+        amounts[index] = tile.amount;
+      }
+    }
+  }
+
+  return { codes, amounts };
+};
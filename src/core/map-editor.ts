@@ -0,0 +1,51 @@
+import type { GeneratedMap } from "./map";
+import type { GridCoord } from "./types";
+
+/** Tiles the map editor paints; `empty` clears whatever was there, water and cliffs included. */
+export const MAP_EDITOR_TILES = ["iron-ore", "copper-ore", "coal-ore", "stone", "tree", "empty"] as const;
+export type MapEditorTile = (typeof MAP_EDITOR_TILES)[number];
+
+export const MAP_EDITOR_MAX_RADIUS = 8;
+
+export type MapBrush = {
+  tile: MapEditorTile;
+  /** Amount each painted tile holds; ignored when clearing. */
+  amount: number;
+  /** 0 paints a single tile; otherwise a disc this many tiles out from the target. */
+  radius: number;
+};
+
+export const isMapEditorTile = (value: unknown): value is MapEditorTile => {
+  return typeof value === "string" && (MAP_EDITOR_TILES as ReadonlyArray<string>).includes(value);
+};
+
+/** Tiles a brush of `radius` covers around `center`, row by row. */
+export const getBrushTiles = (center: GridCoord, radius: number): GridCoord[] => {
+  const reach = Math.max(0, Math.min(MAP_EDITOR_MAX_RADIUS, Math.floor(radius)));
+  const tiles: GridCoord[] = [];
+  for (let dy = -reach; dy <= reach; dy += 1) {
+    for (let dx = -reach; dx <= reach; dx += 1) {
+      // Rounding the disc to (radius + 0.5)^2 keeps single tiles from poking out of its sides.
+      if (dx * dx + dy * dy <= reach * reach + reach) {
+        tiles.push({ x: center.x + dx, y: center.y + dy });
+      }
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Paints `brush` onto `map` around `center` and returns the tiles that changed. Callers should wake the sim's
+ * entities afterwards, since sleeping miners do not notice new resources on their own.
+ */
+export const paintMapBrush = (
+  map: Pick<GeneratedMap, "paintTile">,
+  center: GridCoord,
+  brush: MapBrush,
+): GridCoord[] => {
+  if (typeof map.paintTile !== "function") {
+    return [];
+  }
+
+  return getBrushTiles(center, brush.radius).filter((tile) => map.paintTile?.(tile.x, tile.y, brush.tile, brush.amount) === true);
+};
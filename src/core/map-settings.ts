@@ -0,0 +1,110 @@
+/** Resources the map generator places, each with its own settings. */
+export const MAP_RESOURCE_KINDS = ["iron-ore", "copper-ore", "coal-ore", "stone", "tree"] as const;
+
+export type MapResourceKind = (typeof MAP_RESOURCE_KINDS)[number];
+
+/** Multipliers on the generator's defaults; 1 is a normal map. */
+export type MapResourceSettings = {
+  /** How many patches appear; 0 removes the resource from the map. */
+  frequency: number;
+  /** How large each patch is. */
+  size: number;
+  /** How much each tile holds before distance from spawn adds more. */
+  richness: number;
+};
+
+/** Terrain the map generator places: water lakes and cliff lines, both impassable. */
+export const MAP_TERRAIN_KINDS = ["water", "cliff"] as const;
+
+export type MapTerrainKind = (typeof MAP_TERRAIN_KINDS)[number];
+
+/** Terrain has no amount, so only frequency and size apply. */
+export type MapTerrainSettings = Pick<MapResourceSettings, "frequency" | "size">;
+
+export type MapSettings = {
+  resources: Record<MapResourceKind, MapResourceSettings>;
+  terrain: Record<MapTerrainKind, MapTerrainSettings>;
+};
+
+export type MapSettingName = keyof MapResourceSettings;
+
+export const MAP_SETTING_LIMITS: Readonly<Record<MapSettingName, { min: number; max: number }>> = {
+  frequency: { min: 0, max: 4 },
+  size: { min: 0.25, max: 4 },
+  richness: { min: 0.25, max: 4 },
+};
+
+const DEFAULT_RESOURCE_SETTINGS: MapResourceSettings = { frequency: 1, size: 1, richness: 1 };
+const DEFAULT_TERRAIN_SETTINGS: MapTerrainSettings = { frequency: 1, size: 1 };
+
+export const createDefaultMapSettings = (): MapSettings => ({
+  resources: {
+    "iron-ore": { ...DEFAULT_RESOURCE_SETTINGS },
+    "copper-ore": { ...DEFAULT_RESOURCE_SETTINGS },
+    "coal-ore": { ...DEFAULT_RESOURCE_SETTINGS },
+    stone: { ...DEFAULT_RESOURCE_SETTINGS },
+    tree: { ...DEFAULT_RESOURCE_SETTINGS },
+  },
+  terrain: {
+    water: { ...DEFAULT_TERRAIN_SETTINGS },
+    cliff: { ...DEFAULT_TERRAIN_SETTINGS },
+  },
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null;
+};
+
+const normalizeSetting = (value: unknown, name: MapSettingName): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return DEFAULT_RESOURCE_SETTINGS[name];
+  }
+
+  const { min, max } = MAP_SETTING_LIMITS[name];
+  return Math.min(max, Math.max(min, value));
+};
+
+/** Reads settings from a save or form: missing or malformed values fall back to the default, others are clamped to `MAP_SETTING_LIMITS`. */
+export const normalizeMapSettings = (value: unknown): MapSettings => {
+  const settings = createDefaultMapSettings();
+  const resources = isRecord(value) && isRecord(value.resources) ? value.resources : {};
+  for (const kind of MAP_RESOURCE_KINDS) {
+    const raw = resources[kind];
+    if (!isRecord(raw)) {
+      continue;
+    }
+
+    settings.resources[kind] = {
+      frequency: normalizeSetting(raw.frequency, "frequency"),
+      size: normalizeSetting(raw.size, "size"),
+      richness: normalizeSetting(raw.richness, "richness"),
+    };
+  }
+
+  const terrain = isRecord(value) && isRecord(value.terrain) ? value.terrain : {};
+  for (const kind of MAP_TERRAIN_KINDS) {
+    const raw = terrain[kind];
+    if (!isRecord(raw)) {
+      continue;
+    }
+
+    settings.terrain[kind] = {
+      frequency: normalizeSetting(raw.frequency, "frequency"),
+      size: normalizeSetting(raw.size, "size"),
+    };
+  }
+  return settings;
+};
+
+export const areMapSettingsEqual = (left: MapSettings, right: MapSettings): boolean => {
+  const resourcesEqual = MAP_RESOURCE_KINDS.every((kind) => {
+    const a = left.resources[kind];
+    const b = right.resources[kind];
+    return a.frequency === b.frequency && a.size === b.size && a.richness === b.richness;
+  });
+  return resourcesEqual && MAP_TERRAIN_KINDS.every((kind) => {
+    const a = left.terrain[kind];
+    const b = right.terrain[kind];
+    return a.frequency === b.frequency && a.size === b.size;
+  });
+};
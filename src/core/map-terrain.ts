@@ -0,0 +1,192 @@
+import { MAX_TILE_AMOUNT, toMapTileCode, type MapTileSample } from "./map-chunks";
+import { MAP_RESOURCE_KINDS, type MapResourceKind, type MapSettings } from "./map-settings";
+import { fractalNoise, gradientNoise, hashCoords, mix32, seedToUint32, tileNoise } from "./noise";
+
+/** Side of the empty square at the centre of every world where the player starts. */
+const SPAWN_CLEAR_SIZE = 10;
+/**
+ * Tiles from spawn kept free of water and cliffs, so the starter patches are always reachable. Small maps
+ * shrink it to a quarter of their shorter side, but never below the reach of the largest starter patches.
+ */
+const TERRAIN_FREE_RADIUS = 48;
+const TERRAIN_FREE_MIN_RADIUS = 28;
+/** Typical distance between lakes at frequency 1, and the noise level a tile must exceed to be water at size 1. */
+const WATER_SPACING = 110;
+const WATER_THRESHOLD = 0.34;
+/** Typical distance between cliff lines at frequency 1, and their half-width in noise units at size 1. */
+const CLIFF_SPACING = 90;
+const CLIFF_HALF_WIDTH = 0.008;
+/** Noise level below which a cliff line has a gap to walk through. */
+const CLIFF_GAP_LEVEL = -0.15;
+/** Tiles from spawn at which a resource's richness has doubled; it keeps growing linearly beyond. */
+const RICHNESS_DOUBLING_DISTANCE = 256;
+
+type ResourceShape = {
+  /** Typical distance between patches at frequency 1, in tiles. */
+  spacing: number;
+  /** Noise level a tile must exceed to join a patch at size 1; lower means larger patches. */
+  threshold: number;
+  /** Offset of this resource's starter patch from spawn, before the seed mirrors it. */
+  starter: { dx: number; dy: number };
+};
+
+const RESOURCE_SHAPES: Readonly<Record<MapResourceKind, ResourceShape>> = {
+  "iron-ore": { spacing: 44, threshold: 0.35, starter: { dx: -13, dy: -11 } },
+  "copper-ore": { spacing: 52, threshold: 0.37, starter: { dx: 13, dy: -11 } },
+  "coal-ore": { spacing: 52, threshold: 0.37, starter: { dx: -13, dy: 11 } },
+  stone: { spacing: 60, threshold: 0.39, starter: { dx: 13, dy: 11 } },
+  tree: { spacing: 36, threshold: 0.22, starter: { dx: 0, dy: 18 } },
+};
+
+const EMPTY_SAMPLE: MapTileSample = { code: toMapTileCode("empty"), amount: 0 };
+const WATER_SAMPLE: MapTileSample = { code: toMapTileCode("water"), amount: 1 };
+const CLIFF_SAMPLE: MapTileSample = { code: toMapTileCode("cliff"), amount: 1 };
+
+type ResourceField = {
+  kind: MapResourceKind;
+  code: number;
+  seed: number;
+  scale: number;
+  threshold: number;
+  richness: number;
+  starterX: number;
+  starterY: number;
+  starterRadius: number;
+};
+
+/**
+ * Builds the resource generator for a `width` x `height` world. Every tile is computed on its own from the
+ * seed, settings and its coordinates, so any tile, chunk or preview can be generated in any order.
+ *
+ * Water and cliffs come first: lakes where their noise field is high, cliffs along one contour of theirs,
+ * both kept away from spawn. Each resource has a field of fractal gradient noise; a tile joins the resource
+ * whose field rises furthest above its threshold, and trees only grow where no ore does. Every enabled
+ * resource also gets a starter patch near spawn. Amounts grow with distance from spawn.
+ */
+export const createTerrainSampler = (
+  seed: number | string,
+  settings: MapSettings,
+  width: number,
+  height: number,
+): ((x: number, y: number) => MapTileSample) => {
+  const seedHash = seedToUint32(seed);
+  const spawnStartX = Math.floor((width - Math.min(SPAWN_CLEAR_SIZE, width)) / 2);
+  const spawnStartY = Math.floor((height - Math.min(SPAWN_CLEAR_SIZE, height)) / 2);
+  const centerX = width / 2;
+  const centerY = height / 2;
+  // Mirrors the starter layout so not every world puts iron in the same corner.
+  const mirror = mix32(seedHash ^ 0x51a7);
+  const mirrorX = (mirror & 1) === 0 ? 1 : -1;
+  const mirrorY = (mirror & 2) === 0 ? 1 : -1;
+
+  const fields: ResourceField[] = MAP_RESOURCE_KINDS
+    .map((kind, index) => {
+      const shape = RESOURCE_SHAPES[kind];
+      const resource = settings.resources[kind];
+      return {
+        kind,
+        code: toMapTileCode(kind),
+        seed: hashCoords(seedHash, index, 0, 0x7e11),
+        // Twice the frequency means twice the patches per area, so the noise scales with its square root.
+        scale: Math.sqrt(resource.frequency) / shape.spacing,
+        threshold: Math.min(0.95, shape.threshold / Math.sqrt(resource.size)),
+        richness: resource.richness,
+        starterX: centerX + shape.starter.dx * mirrorX,
+        starterY: centerY + shape.starter.dy * mirrorY,
+        starterRadius: 3.5 * Math.sqrt(resource.size),
+        enabled: resource.frequency > 0,
+      };
+    })
+    .filter((field) => field.enabled);
+  const ores = fields.filter((field) => field.kind !== "tree");
+  const trees = fields.find((field) => field.kind === "tree");
+
+  const water = settings.terrain.water;
+  const waterSeed = hashCoords(seedHash, 0, 1, 0x3a7e);
+  const waterScale = Math.sqrt(water.frequency) / WATER_SPACING;
+  const waterThreshold = Math.min(0.95, WATER_THRESHOLD / Math.sqrt(water.size));
+  const cliff = settings.terrain.cliff;
+  const cliffSeed = hashCoords(seedHash, 0, 2, 0xc11f);
+  const cliffScale = Math.sqrt(cliff.frequency) / CLIFF_SPACING;
+  const cliffHalfWidth = CLIFF_HALF_WIDTH * cliff.size;
+  const terrainFreeRadius = Math.min(TERRAIN_FREE_RADIUS, Math.max(TERRAIN_FREE_MIN_RADIUS, Math.min(width, height) / 4));
+
+  const sampleTerrain = (x: number, y: number, distance: number): MapTileSample | null => {
+    if (distance < terrainFreeRadius) {
+      return null;
+    }
+
+    if (water.frequency > 0 && fractalNoise(waterSeed, x * waterScale, y * waterScale) > waterThreshold) {
+      return WATER_SAMPLE;
+    }
+
+    if (cliff.frequency > 0) {
+      const level = fractalNoise(cliffSeed, x * cliffScale, y * cliffScale);
+      if (Math.abs(level) < cliffHalfWidth && gradientNoise(cliffSeed ^ 0x9a9, x / 12, y / 12) > CLIFF_GAP_LEVEL) {
+        return CLIFF_SAMPLE;
+      }
+    }
+
+    return null;
+  };
+
+  const isInStarterPatch = (field: ResourceField, x: number, y: number): boolean => {
+    const dx = (x + 0.5 - field.starterX) / field.starterRadius;
+    const dy = (y + 0.5 - field.starterY) / field.starterRadius;
+    const edge = 1 + gradientNoise(field.seed, x / 3, y / 3) * 0.3;
+    return dx * dx + dy * dy < edge * edge;
+  };
+
+  const distanceFromSpawn = (x: number, y: number): number => {
+    const dx = x - centerX;
+    const dy = y - centerY;
+    return Math.sqrt(dx * dx + dy * dy);
+  };
+
+  const toSample = (field: ResourceField, x: number, y: number): MapTileSample => {
+    const distance = distanceFromSpawn(x, y);
+    const base = 2 + Math.floor(tileNoise(seedHash, x, y, 0xa11) * 4);
+    const amount = Math.round(base * field.richness * (1 + distance / RICHNESS_DOUBLING_DISTANCE));
+    return { code: field.code, amount: Math.max(1, Math.min(MAX_TILE_AMOUNT, amount)) };
+  };
+
+  return (x, y) => {
+    if (x >= spawnStartX && x < spawnStartX + SPAWN_CLEAR_SIZE && y >= spawnStartY && y < spawnStartY + SPAWN_CLEAR_SIZE) {
+      return EMPTY_SAMPLE;
+    }
+
+    const terrain = sampleTerrain(x, y, distanceFromSpawn(x, y));
+    if (terrain !== null) {
+      return terrain;
+    }
+
+    for (const field of ores) {
+      if (isInStarterPatch(field, x, y)) {
+        return toSample(field, x, y);
+      }
+    }
+
+    let best: ResourceField | null = null;
+    let bestMargin = 0;
+    for (const field of ores) {
+      const margin = fractalNoise(field.seed, x * field.scale, y * field.scale) - field.threshold;
+      if (margin > bestMargin) {
+        best = field;
+        bestMargin = margin;
+      }
+    }
+    if (best !== null) {
+      return toSample(best, x, y);
+    }
+
+    if (trees === undefined) {
+      return EMPTY_SAMPLE;
+    }
+
+    // Forests thin out towards their edges instead of filling every tile.
+    const margin = isInStarterPatch(trees, x, y)
+      ? 0.3
+      : fractalNoise(trees.seed, x * trees.scale, y * trees.scale) - trees.threshold;
+    return margin > 0 && tileNoise(seedHash, x, y, 0x7733) < 0.35 + margin * 2 ? toSample(trees, x, y) : EMPTY_SAMPLE;
+  };
+};
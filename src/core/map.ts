@@ -1,13 +1,52 @@
-import type { TileType } from "./types";
+import type { Direction, TileType } from "./types";
+import {
+  UNDERGROUND_BELT_KIND,
+  UNDERGROUND_BELT_MAX_SPAN,
+  chooseUndergroundBeltMode,
+  resolveUndergroundBeltPlacementFailure,
+  type UndergroundBeltCandidate,
+  type UndergroundBeltMode,
+} from "./underground";
+import { OFFSHORE_PUMP_KIND, getOffshorePumpIntakeTile } from "./fluids";
+import {
+  CHUNKED_MAP_CHUNKS,
+  CHUNKED_MAP_SIZE,
+  MAP_CHUNK_SIZE,
+  MAP_TILE_CODES,
+  MAX_TILE_AMOUNT,
+  generateMapChunk,
+  toMapTileCode,
+  type MapChunkSave,
+  type MapChunkTiles,
+} from "./map-chunks";
+import { createDefaultMapSettings, type MapSettings } from "./map-settings";
+import { createTerrainSampler } from "./map-terrain";
+import { seedToUint32 } from "./noise";
 
 type GridCoord = {
   x: number;
   y: number;
 };
 
-export type MapOccupantKind = "miner" | "belt" | "splitter" | "inserter" | "furnace" | "assembler" | "chest" | "solar-panel" | "accumulator";
+export type MapOccupantKind = "miner" | "belt" | "fast-belt" | "express-belt" | "underground-belt" | "splitter" | "inserter" | "burner-inserter" | "fast-inserter" | "long-handed-inserter" | "furnace" | "assembler" | "chest" | "solar-panel" | "accumulator" | "power-pole" | "boiler" | "steam-engine" | "pipe" | "pipe-to-ground" | "offshore-pump" | "storage-tank";
 
-export type MapPlacementFailureReason = "occupied" | "out-of-bounds" | "invalid-miner-on-resource";
+export type MapPlacementFailureReason =
+  | "occupied"
+  | "out-of-bounds"
+  | "invalid-miner-on-resource"
+  | "underground-no-partner"
+  | "underground-out-of-range"
+  | "blocked-by-water"
+  | "blocked-by-cliff"
+  | "offshore-pump-needs-water";
+
+/** Orientation details for occupants whose placement depends on their neighbours. */
+export type MapPlacementOptions = {
+  /** Facing; an offshore pump draws from the water tile behind it. */
+  rot?: Direction;
+  /** Underground belt mode; picked from the entrances behind the tile when omitted. */
+  undergroundMode?: UndergroundBeltMode;
+};
 
 export type MapRemovalFailureReason = "out-of-bounds" | "empty" | "non-removable-resource";
 
@@ -78,18 +117,44 @@ export interface GeneratedMap {
   getTile: (x: number, y: number) => TileType | undefined;
   isOre: (x: number, y: number) => boolean;
   isCoal: (x: number, y: number) => boolean;
+  isCopper?: (x: number, y: number) => boolean;
+  isStone?: (x: number, y: number) => boolean;
   isTree: (x: number, y: number) => boolean;
+  /** Water blocks building and walking until landfilled; it is also the tile an offshore pump draws from. */
+  isWater?: (x: number, y: number) => boolean;
+  isCliff?: (x: number, y: number) => boolean;
+  /** Turns a water tile into empty, buildable ground; false when the tile is not water. */
+  fillWater?: (x: number, y: number) => boolean;
+  /**
+   * Map editor: sets a tile to `tile` holding `amount`, clamped to 1..255. Painting `empty` clears the tile,
+   * water and cliffs included. False when the tile is out of bounds, `tile` is terrain, or nothing changed.
+   */
+  paintTile?: (x: number, y: number, tile: TileType, amount: number) => boolean;
   getResourceRevision?: () => number;
   consumeResource?: (x: number, y: number) => boolean;
   getResourceAmountAt?: (x: number, y: number) => number;
   isWithinBounds: (x: number, y: number) => boolean;
   hasEntityAt: (tile: GridCoord) => boolean;
-  place: (kind: MapOccupantKind, tile: GridCoord) => MapPlacementResult;
-  placeEntity: (kind: MapOccupantKind, tile: GridCoord) => MapPlacementResult;
+  place: (kind: MapOccupantKind, tile: GridCoord, options?: MapPlacementOptions) => MapPlacementResult;
+  placeEntity: (kind: MapOccupantKind, tile: GridCoord, options?: MapPlacementOptions) => MapPlacementResult;
   remove: (tile: GridCoord) => MapRemovalResult;
   removeEntity: (tile: GridCoord) => MapRemovalResult;
   transfer: (from: GridCoord, to: GridCoord) => MapTransferResult;
   transferMany: (transfers: ReadonlyArray<MapTransferRequest>) => MapTransferResult[];
+  /** Chunked maps only: side length of a chunk, in tiles. */
+  chunkSize?: number;
+  /** Chunked maps only: coordinates of every chunk generated so far, row by row. */
+  getGeneratedChunks?: () => GridCoord[];
+  /** Chunked maps only: generates every chunk within `radius` tiles of `center`; returns how many were new. */
+  generateChunksAround?: (center: GridCoord, radius: number) => number;
+  /** Chunked maps only: tiles that differ from a fresh generation, grouped by chunk. */
+  exportChangedChunks?: () => MapChunkSave[];
+  /** Chunked maps only: resets changed chunks to a fresh generation, then applies saved ones. */
+  restoreChangedChunks?: (chunks: unknown) => void;
+  /** Settings the resources were generated with; absent for the legacy fixed-size layouts. */
+  getMapSettings?: () => MapSettings;
+  /** Chunked maps only: switches to another seed and settings, dropping every generated and changed chunk. */
+  setTerrain?: (seed: number | string, settings: MapSettings) => void;
 }
 
 type OrderedEntity = {
@@ -158,21 +223,10 @@ export const sortByGridEntityOrder = <T extends OrderedEntity>(entities: Readonl
 };
 
 const MIN_SPAWN_SIZE = 10;
+const COPPER_PATCH_AREA = 900;
+const STONE_PATCH_AREA = 1200;
 
-function seedToUint32(seed: number | string): number {
-  if (typeof seed === "number" && Number.isFinite(seed)) {
-    return (Math.floor(seed) >>> 0) || 0x9e3779b9;
-  }
-
-  const text = String(seed);
-  let hash = 2166136261;
-  for (let i = 0; i < text.length; i += 1) {
-    hash ^= text.charCodeAt(i);
-    hash = Math.imul(hash, 16777619);
-  }
-
-  return hash >>> 0 || 0x9e3779b9;
-}
+type OreResource = "iron-ore" | "coal-ore" | "copper-ore" | "stone";
 
 function createPrng(seed: number | string): () => number {
   let state = seedToUint32(seed);
@@ -185,98 +239,53 @@ function createPrng(seed: number | string): () => number {
   };
 }
 
-export function createMap(width: number, height: number, seed: number | string): GeneratedMap {
-  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
-    throw new RangeError("width and height must be positive integers");
-  }
+const EMPTY_TILE_CODE = toMapTileCode("empty");
+const TREE_TILE_CODE = toMapTileCode("tree");
+const IRON_TILE_CODE = toMapTileCode("iron-ore");
+const COAL_TILE_CODE = toMapTileCode("coal-ore");
+const COPPER_TILE_CODE = toMapTileCode("copper-ore");
+const STONE_TILE_CODE = toMapTileCode("stone");
+const WATER_TILE_CODE = toMapTileCode("water");
+const CLIFF_TILE_CODE = toMapTileCode("cliff");
+
+/** Water and cliffs share the resource layer but hold no amount anyone can mine. */
+const isTerrainCode = (code: number): boolean => code === WATER_TILE_CODE || code === CLIFF_TILE_CODE;
+
+/** Where a map keeps its resources. Callers only pass in-bounds integer tiles. */
+type ResourceLayer = {
+  codeAt: (x: number, y: number) => number;
+  amountAt: (x: number, y: number) => number;
+  /** Sets a tile's resource; an amount of 0 leaves the tile empty. */
+  write: (x: number, y: number, code: number, amount: number) => void;
+  /** Grows whenever tiles change without a `write`, such as when a chunk is generated or restored. */
+  getGeneration?: () => number;
+};
 
-  const oreMask = new Uint8Array(width * height);
-  const coalOreMask = new Uint8Array(width * height);
-  const treeMask = new Uint8Array(width * height);
-  const occupants = new Map<string, MapOccupantKind>();
-  const lastIngressTickByTile = new Map<string, number>();
-  let currentTransferTick = 0;
-  let isTransferTickCommitScheduled = false;
-  let resourceRevision = 0;
+type MapChunkExtensions = Pick<
+  GeneratedMap,
+  | "chunkSize"
+  | "getGeneratedChunks"
+  | "generateChunksAround"
+  | "exportChangedChunks"
+  | "restoreChangedChunks"
+  | "getMapSettings"
+  | "setTerrain"
+>;
+
+/**
+ * Fills `layer` with the fixed-size generator: rejection-sampled ellipse patches drawn from one PRNG stream,
+ * so the layout of a seed depends on the map size.
+ */
+function generateFixedResources(width: number, height: number, seed: number | string, layer: ResourceLayer): void {
   const random = createPrng(seed);
-  const keyForTile = (x: number, y: number): string => `${x},${y}`;
-  const tileCopy = (tile: GridCoord): GridCoord => ({ x: tile.x, y: tile.y });
-  const isIntegerCoord = (value: number): value is number => Number.isInteger(value);
   const rollResourceAmount = (): number => 2 + Math.floor(random() * 4);
-
-  const scheduleTransferTickCommit = (): void => {
-    if (isTransferTickCommitScheduled) {
-      return;
-    }
-
-    isTransferTickCommitScheduled = true;
-    queueMicrotask(() => {
-      currentTransferTick += 1;
-      isTransferTickCommitScheduled = false;
-    });
-  };
-
-  const isPlaceableCoord = (x: number, y: number): boolean => isIntegerCoord(x) && isIntegerCoord(y) && isWithinBounds(x, y);
-  const occupantAt = (tile: GridCoord): MapOccupantKind | undefined => occupants.get(keyForTile(tile.x, tile.y));
-
-  const makePlacementFailure = (reason: MapPlacementFailureReason, tile: GridCoord): MapPlacementFailureResult => {
-    return {
-      success: false,
-      ok: false,
-      reason,
-      tile: tileCopy(tile),
-    };
-  };
-
-  const makeRemovalFailure = (reason: MapRemovalFailureReason, tile: GridCoord): MapRemovalFailureResult => {
-    return {
-      success: false,
-      ok: false,
-      reason,
-      tile: tileCopy(tile),
-    };
-  };
-
-  const makePlacementSuccess = (kind: MapOccupantKind, tile: GridCoord): MapPlacementSuccessResult => ({
-    success: true,
-    ok: true,
-    kind,
-    tile: tileCopy(tile),
-  });
-
-  const makeRemovalSuccess = (removedKind: MapOccupantKind, tile: GridCoord): MapRemovalSuccessResult => ({
-    success: true,
-    ok: true,
-    removedKind,
-    tile: tileCopy(tile),
-  });
-
-  const makeTransferFailure = (
-    reason: MapTransferFailureReason,
-    from: GridCoord,
-    to: GridCoord,
-  ): MapTransferFailureResult => ({
-    success: false,
-    ok: false,
-    reason,
-    from: tileCopy(from),
-    to: tileCopy(to),
-  });
-
-  const makeTransferSuccess = (kind: MapOccupantKind, from: GridCoord, to: GridCoord): MapTransferSuccessResult => ({
-    success: true,
-    ok: true,
-    kind,
-    from: tileCopy(from),
-    to: tileCopy(to),
-  });
-
   const spawnWidth = Math.min(MIN_SPAWN_SIZE, width);
   const spawnHeight = Math.min(MIN_SPAWN_SIZE, height);
   const spawnStartX = Math.floor((width - spawnWidth) / 2);
   const spawnStartY = Math.floor((height - spawnHeight) / 2);
   const spawnEndX = spawnStartX + spawnWidth - 1;
   const spawnEndY = spawnStartY + spawnHeight - 1;
+  let treesWritten = 0;
 
   const isWithinBounds = (x: number, y: number): boolean =>
     Number.isInteger(x) && Number.isInteger(y) && x >= 0 && y >= 0 && x < width && y < height;
@@ -284,21 +293,19 @@ export function createMap(width: number, height: number, seed: number | string):
   const isSpawnTile = (x: number, y: number): boolean =>
     x >= spawnStartX && x <= spawnEndX && y >= spawnStartY && y <= spawnEndY;
 
-  const writeResource = (x: number, y: number, isCoalResource: boolean): void => {
-    if (!isWithinBounds(x, y) || isSpawnTile(x, y)) {
-      return;
-    }
+  const isOre = (x: number, y: number): boolean => {
+    const code = isWithinBounds(x, y) ? layer.codeAt(x, y) : EMPTY_TILE_CODE;
+    return code !== EMPTY_TILE_CODE && code !== TREE_TILE_CODE;
+  };
 
-    const index = y * width + x;
-    const amount = rollResourceAmount();
-    if (isCoalResource) {
-      oreMask[index] = 0;
-      coalOreMask[index] = amount;
+  const isTree = (x: number, y: number): boolean => isWithinBounds(x, y) && layer.codeAt(x, y) === TREE_TILE_CODE;
+
+  const writeResource = (x: number, y: number, resource: OreResource): void => {
+    if (!isWithinBounds(x, y) || isSpawnTile(x, y)) {
       return;
     }
 
-    coalOreMask[index] = 0;
-    oreMask[index] = amount;
+    layer.write(x, y, toMapTileCode(resource), rollResourceAmount());
   };
 
   const writeTree = (x: number, y: number): void => {
@@ -306,96 +313,8 @@ export function createMap(width: number, height: number, seed: number | string):
       return;
     }
 
-    const index = y * width + x;
-    treeMask[index] = rollResourceAmount();
-    oreMask[index] = 0;
-    coalOreMask[index] = 0;
-  };
-
-  const isIronOre = (x: number, y: number): boolean => {
-    if (!isWithinBounds(x, y)) {
-      return false;
-    }
-
-    return oreMask[y * width + x] > 0;
-  };
-
-  const isCoalOre = (x: number, y: number): boolean => {
-    if (!isWithinBounds(x, y)) {
-      return false;
-    }
-
-    return coalOreMask[y * width + x] > 0;
-  };
-
-  const isTree = (x: number, y: number): boolean => {
-    if (!isWithinBounds(x, y)) {
-      return false;
-    }
-
-    return treeMask[y * width + x] > 0;
-  };
-
-  const isOre = (x: number, y: number): boolean => {
-    return isIronOre(x, y) || isCoalOre(x, y);
-  };
-
-  const touchResourceRevision = (): void => {
-    resourceRevision += 1;
-  };
-
-  const consumeResource = (x: number, y: number): boolean => {
-    if (!isWithinBounds(x, y)) {
-      return false;
-    }
-
-    const index = y * width + x;
-    if (oreMask[index] === 0 && coalOreMask[index] === 0 && treeMask[index] === 0) {
-      return false;
-    }
-
-    if (treeMask[index] > 0) {
-      treeMask[index] -= 1;
-      touchResourceRevision();
-      return true;
-    }
-
-    if (oreMask[index] > 0) {
-      oreMask[index] -= 1;
-      touchResourceRevision();
-      return true;
-    }
-
-    if (coalOreMask[index] > 0) {
-      coalOreMask[index] -= 1;
-      touchResourceRevision();
-      return true;
-    }
-
-    return false;
-  };
-
-  const getResourceRevision = (): number => resourceRevision;
-
-  const getResourceAmountAt = (x: number, y: number): number => {
-    if (!isWithinBounds(x, y)) {
-      return 0;
-    }
-
-    const index = y * width + x;
-    if (oreMask[index] > 0) {
-      return oreMask[index];
-    }
-
-    if (coalOreMask[index] > 0) {
-      return coalOreMask[index];
-    }
-
-    if (treeMask[index] > 0) {
-      return treeMask[index];
-    }
-
-    return 0;
+    layer.write(x, y, TREE_TILE_CODE, rollResourceAmount());
+    treesWritten += 1;
   };
 
   const availableTiles = width * height - spawnWidth * spawnHeight;
@@ -438,13 +357,11 @@ export function createMap(width: number, height: number, seed: number | string):
           const shapeNoise = 0.82 + random() * 0.32;
           const densityNoise = random();
           if (distance <= shapeNoise && densityNoise >= distance * 0.18) {
-            const idx = y * width + x;
-            if (oreMask[idx] === 0 && coalOreMask[idx] === 0) {
+            if (layer.codeAt(x, y) === EMPTY_TILE_CODE) {
               oreTileCount += 1;
             }
 
-            const isCoalResource = random() < 0.25;
-            writeResource(x, y, isCoalResource);
+            writeResource(x, y, random() < 0.25 ? "coal-ore" : "iron-ore");
           }
         }
       }
@@ -456,7 +373,7 @@ export function createMap(width: number, height: number, seed: number | string):
         const x = Math.floor(random() * width);
         const y = Math.floor(random() * height);
         if (!isSpawnTile(x, y)) {
-          writeResource(x, y, random() < 0.25);
+          writeResource(x, y, random() < 0.25 ? "coal-ore" : "iron-ore");
           break;
         }
       }
@@ -503,7 +420,7 @@ export function createMap(width: number, height: number, seed: number | string):
     }
   }
 
-  if (!treeMask.some((value) => value > 0)) {
+  if (treesWritten === 0) {
     for (let attempt = 0; attempt < 120; attempt += 1) {
       const x = Math.floor(random() * width);
       const y = Math.floor(random() * height);
@@ -514,6 +431,464 @@ export function createMap(width: number, height: number, seed: number | string):
     }
   }
 
+  // Copper and stone are scattered after trees so the iron/coal/tree layout of existing seeds is unchanged;
+  // they only claim tiles that are still empty.
+  const scatterLatePatches = (resource: OreResource, patchCount: number): void => {
+    for (let patchIndex = 0; patchIndex < patchCount; patchIndex += 1) {
+      let centerX = 0;
+      let centerY = 0;
+      let hasCenter = false;
+
+      for (let attempt = 0; attempt < 60; attempt += 1) {
+        const candidateX = Math.floor(random() * width);
+        const candidateY = Math.floor(random() * height);
+        if (!isSpawnTile(candidateX, candidateY) && !isOre(candidateX, candidateY) && !isTree(candidateX, candidateY)) {
+          centerX = candidateX;
+          centerY = candidateY;
+          hasCenter = true;
+          break;
+        }
+      }
+
+      if (!hasCenter) {
+        continue;
+      }
+
+      const radiusX = 2 + Math.floor(random() * 3);
+      const radiusY = 2 + Math.floor(random() * 3);
+
+      for (let y = centerY - radiusY; y <= centerY + radiusY; y += 1) {
+        for (let x = centerX - radiusX; x <= centerX + radiusX; x += 1) {
+          if (!isWithinBounds(x, y) || isSpawnTile(x, y) || isOre(x, y) || isTree(x, y)) {
+            continue;
+          }
+
+          const normX = (x - centerX) / radiusX;
+          const normY = (y - centerY) / radiusY;
+          const distance = normX * normX + normY * normY;
+          if (distance <= 0.82 + random() * 0.32 && random() >= distance * 0.18) {
+            writeResource(x, y, resource);
+          }
+        }
+      }
+    }
+  };
+
+  if (availableTiles > 0) {
+    scatterLatePatches("copper-ore", Math.max(1, Math.floor((width * height) / COPPER_PATCH_AREA)));
+    scatterLatePatches("stone", Math.max(1, Math.floor((width * height) / STONE_PATCH_AREA)));
+  }
+}
+
+/**
+ * Creates a fixed-size map. With `settings`, resources come from the same noise terrain as chunked worlds;
+ * without, from the original patch scatter, so existing scenarios and saves keep their layouts.
+ */
+export function createMap(width: number, height: number, seed: number | string, settings?: MapSettings): GeneratedMap {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new RangeError("width and height must be positive integers");
+  }
+
+  const codes = new Uint8Array(width * height);
+  const amounts = new Uint8Array(width * height);
+  const layer: ResourceLayer = {
+    codeAt: (x, y) => codes[y * width + x] ?? EMPTY_TILE_CODE,
+    amountAt: (x, y) => amounts[y * width + x] ?? 0,
+    write: (x, y, code, amount) => {
+      codes[y * width + x] = amount > 0 ? code : EMPTY_TILE_CODE;
+      amounts[y * width + x] = amount;
+    },
+  };
+  if (settings === undefined) {
+    generateFixedResources(width, height, seed, layer);
+    return buildMap(width, height, layer);
+  }
+
+  const sample = createTerrainSampler(seed, settings, width, height);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const tile = sample(x, y);
+      layer.write(x, y, tile.code, tile.amount);
+    }
+  }
+  return buildMap(width, height, layer, { getMapSettings: () => settings });
+}
+
+/**
+ * Creates a `CHUNKED_MAP_SIZE`-square world whose resources are generated a chunk at a time, the first time
+ * anything reads a tile in that chunk. Each chunk depends only on the seed, settings and its coordinates.
+ * Spawn is the middle of the world.
+ */
+export function createChunkedMap(seed: number | string, settings: MapSettings = createDefaultMapSettings()): GeneratedMap {
+  let terrainSettings = settings;
+  let sample = createTerrainSampler(seed, settings, CHUNKED_MAP_SIZE, CHUNKED_MAP_SIZE);
+  const chunks = new Map<number, MapChunkTiles>();
+  const changedChunkKeys = new Set<number>();
+  let generation = 0;
+  const chunkKey = (chunkX: number, chunkY: number): number => chunkY * CHUNKED_MAP_CHUNKS + chunkX;
+  const isChunkInWorld = (chunkX: number, chunkY: number): boolean =>
+    Number.isInteger(chunkX) && Number.isInteger(chunkY)
+    && chunkX >= 0 && chunkY >= 0 && chunkX < CHUNKED_MAP_CHUNKS && chunkY < CHUNKED_MAP_CHUNKS;
+
+  const getChunk = (chunkX: number, chunkY: number): MapChunkTiles => {
+    const key = chunkKey(chunkX, chunkY);
+    let chunk = chunks.get(key);
+    if (chunk === undefined) {
+      chunk = generateMapChunk(sample, chunkX, chunkY);
+      chunks.set(key, chunk);
+      generation += 1;
+    }
+    return chunk;
+  };
+
+  const locate = (x: number, y: number): { chunk: MapChunkTiles; index: number; key: number } => {
+    const chunkX = Math.floor(x / MAP_CHUNK_SIZE);
+    const chunkY = Math.floor(y / MAP_CHUNK_SIZE);
+    return {
+      chunk: getChunk(chunkX, chunkY),
+      index: (y - chunkY * MAP_CHUNK_SIZE) * MAP_CHUNK_SIZE + (x - chunkX * MAP_CHUNK_SIZE),
+      key: chunkKey(chunkX, chunkY),
+    };
+  };
+
+  const layer: ResourceLayer = {
+    codeAt: (x, y) => {
+      const { chunk, index } = locate(x, y);
+      return chunk.codes[index] ?? EMPTY_TILE_CODE;
+    },
+    amountAt: (x, y) => {
+      const { chunk, index } = locate(x, y);
+      return chunk.amounts[index] ?? 0;
+    },
+    write: (x, y, code, amount) => {
+      const { chunk, index, key } = locate(x, y);
+      chunk.codes[index] = amount > 0 ? code : EMPTY_TILE_CODE;
+      chunk.amounts[index] = amount;
+      changedChunkKeys.add(key);
+    },
+    getGeneration: () => generation,
+  };
+
+  const getGeneratedChunks = (): GridCoord[] => {
+    return Array.from(chunks.keys())
+      .sort((left, right) => left - right)
+      .map((key) => ({ x: key % CHUNKED_MAP_CHUNKS, y: Math.floor(key / CHUNKED_MAP_CHUNKS) }));
+  };
+
+  const generateChunksAround = (center: GridCoord, radius: number): number => {
+    const before = chunks.size;
+    const reach = Math.max(0, Math.floor(radius));
+    const minChunkX = Math.floor((center.x - reach) / MAP_CHUNK_SIZE);
+    const maxChunkX = Math.floor((center.x + reach) / MAP_CHUNK_SIZE);
+    const minChunkY = Math.floor((center.y - reach) / MAP_CHUNK_SIZE);
+    const maxChunkY = Math.floor((center.y + reach) / MAP_CHUNK_SIZE);
+    for (let chunkY = minChunkY; chunkY <= maxChunkY; chunkY += 1) {
+      for (let chunkX = minChunkX; chunkX <= maxChunkX; chunkX += 1) {
+        if (isChunkInWorld(chunkX, chunkY)) {
+          getChunk(chunkX, chunkY);
+        }
+      }
+    }
+    return chunks.size - before;
+  };
+
+  const exportChangedChunks = (): MapChunkSave[] => {
+    const saves: MapChunkSave[] = [];
+    for (const key of Array.from(changedChunkKeys).sort((left, right) => left - right)) {
+      const chunk = chunks.get(key);
+      if (chunk === undefined) {
+        continue;
+      }
+
+      const chunkX = key % CHUNKED_MAP_CHUNKS;
+      const chunkY = Math.floor(key / CHUNKED_MAP_CHUNKS);
+      const fresh = generateMapChunk(sample, chunkX, chunkY);
+      const cells: MapChunkSave["cells"] = [];
+      for (let index = 0; index < chunk.codes.length; index += 1) {
+        const code = chunk.codes[index] ?? EMPTY_TILE_CODE;
+        const amount = chunk.amounts[index] ?? 0;
+        if (code !== fresh.codes[index] || amount !== fresh.amounts[index]) {
+          cells.push([index, MAP_TILE_CODES[code] ?? "empty", amount]);
+        }
+      }
+      if (cells.length > 0) {
+        saves.push({ x: chunkX, y: chunkY, cells });
+      }
+    }
+    return saves;
+  };
+
+  const restoreChangedChunks = (saves: unknown): void => {
+    for (const key of changedChunkKeys) {
+      chunks.set(key, generateMapChunk(sample, key % CHUNKED_MAP_CHUNKS, Math.floor(key / CHUNKED_MAP_CHUNKS)));
+    }
+    changedChunkKeys.clear();
+    generation += 1;
+
+    if (!Array.isArray(saves)) {
+      return;
+    }
+
+    for (const save of saves) {
+      if (typeof save !== "object" || save === null) {
+        continue;
+      }
+
+      const { x: chunkX, y: chunkY, cells } = save as { x?: unknown; y?: unknown; cells?: unknown };
+      if (typeof chunkX !== "number" || typeof chunkY !== "number" || !isChunkInWorld(chunkX, chunkY) || !Array.isArray(cells)) {
+        continue;
+      }
+
+      const chunk = getChunk(chunkX, chunkY);
+      for (const cell of cells) {
+        if (!Array.isArray(cell)) {
+          continue;
+        }
+
+        const [index, tile, amount] = cell as unknown[];
+        const code = MAP_TILE_CODES.indexOf(tile as TileType);
+        if (
+          typeof index !== "number" || !Number.isInteger(index) || index < 0 || index >= chunk.codes.length
+          || code < 0
+          || typeof amount !== "number" || !Number.isInteger(amount) || amount < 0 || amount > 255
+        ) {
+          continue;
+        }
+
+        chunk.codes[index] = amount > 0 ? code : EMPTY_TILE_CODE;
+        chunk.amounts[index] = amount;
+      }
+      changedChunkKeys.add(chunkKey(chunkX, chunkY));
+    }
+  };
+
+  const setTerrain = (nextSeed: number | string, nextSettings: MapSettings): void => {
+    terrainSettings = nextSettings;
+    sample = createTerrainSampler(nextSeed, nextSettings, CHUNKED_MAP_SIZE, CHUNKED_MAP_SIZE);
+    chunks.clear();
+    changedChunkKeys.clear();
+    generation += 1;
+  };
+
+  return buildMap(CHUNKED_MAP_SIZE, CHUNKED_MAP_SIZE, layer, {
+    chunkSize: MAP_CHUNK_SIZE,
+    getGeneratedChunks,
+    generateChunksAround,
+    exportChangedChunks,
+    restoreChangedChunks,
+    getMapSettings: () => terrainSettings,
+    setTerrain,
+  });
+}
+
+export type MapPreview = {
+  /** World tile at the preview's top-left corner. */
+  origin: GridCoord;
+  size: number;
+  /** Tiles row by row, `size` per row. */
+  tiles: TileType[];
+};
+
+/** The `size`-square window around spawn that a chunked world with this seed and settings would generate. */
+export const createMapPreview = (seed: number | string, settings: MapSettings, size: number): MapPreview => {
+  const span = Math.max(1, Math.min(CHUNKED_MAP_SIZE, Math.floor(size)));
+  const origin = { x: Math.floor((CHUNKED_MAP_SIZE - span) / 2), y: Math.floor((CHUNKED_MAP_SIZE - span) / 2) };
+  const sample = createTerrainSampler(seed, settings, CHUNKED_MAP_SIZE, CHUNKED_MAP_SIZE);
+  const tiles: TileType[] = [];
+  for (let y = origin.y; y < origin.y + span; y += 1) {
+    for (let x = origin.x; x < origin.x + span; x += 1) {
+      tiles.push(MAP_TILE_CODES[sample(x, y).code] ?? "empty");
+    }
+  }
+  return { origin, size: span, tiles };
+};
+
+/**
+ * Visits every tile a whole-map scan should see, row by row: the full rectangle, or on a chunked map
+ * only the chunks generated so far, so scanning never generates new ones.
+ */
+export const forEachMapTile = (
+  map: Pick<GeneratedMap, "width" | "height" | "chunkSize" | "getGeneratedChunks">,
+  visit: (x: number, y: number) => void,
+): void => {
+  const chunkSize = map.chunkSize;
+  if (chunkSize === undefined || typeof map.getGeneratedChunks !== "function") {
+    for (let y = 0; y < map.height; y += 1) {
+      for (let x = 0; x < map.width; x += 1) {
+        visit(x, y);
+      }
+    }
+    return;
+  }
+
+  for (const chunk of map.getGeneratedChunks()) {
+    for (let y = chunk.y * chunkSize; y < (chunk.y + 1) * chunkSize; y += 1) {
+      for (let x = chunk.x * chunkSize; x < (chunk.x + 1) * chunkSize; x += 1) {
+        visit(x, y);
+      }
+    }
+  }
+};
+
+function buildMap(
+  width: number,
+  height: number,
+  layer: ResourceLayer,
+  chunkExtensions: Partial<MapChunkExtensions> = {},
+): GeneratedMap {
+  const occupants = new Map<string, MapOccupantKind>();
+  const undergroundBelts = new Map<string, { rot: Direction; mode: UndergroundBeltMode }>();
+  const lastIngressTickByTile = new Map<string, number>();
+  let currentTransferTick = 0;
+  let isTransferTickCommitScheduled = false;
+  let resourceRevision = 0;
+  const keyForTile = (x: number, y: number): string => `${x},${y}`;
+  const tileCopy = (tile: GridCoord): GridCoord => ({ x: tile.x, y: tile.y });
+  const isIntegerCoord = (value: number): value is number => Number.isInteger(value);
+
+  const scheduleTransferTickCommit = (): void => {
+    if (isTransferTickCommitScheduled) {
+      return;
+    }
+
+    isTransferTickCommitScheduled = true;
+    queueMicrotask(() => {
+      currentTransferTick += 1;
+      isTransferTickCommitScheduled = false;
+    });
+  };
+
+  const isPlaceableCoord = (x: number, y: number): boolean => isIntegerCoord(x) && isIntegerCoord(y) && isWithinBounds(x, y);
+  const occupantAt = (tile: GridCoord): MapOccupantKind | undefined => occupants.get(keyForTile(tile.x, tile.y));
+
+  const makePlacementFailure = (reason: MapPlacementFailureReason, tile: GridCoord): MapPlacementFailureResult => {
+    return {
+      success: false,
+      ok: false,
+      reason,
+      tile: tileCopy(tile),
+    };
+  };
+
+  const makeRemovalFailure = (reason: MapRemovalFailureReason, tile: GridCoord): MapRemovalFailureResult => {
+    return {
+      success: false,
+      ok: false,
+      reason,
+      tile: tileCopy(tile),
+    };
+  };
+
+  const makePlacementSuccess = (kind: MapOccupantKind, tile: GridCoord): MapPlacementSuccessResult => ({
+    success: true,
+    ok: true,
+    kind,
+    tile: tileCopy(tile),
+  });
+
+  const makeRemovalSuccess = (removedKind: MapOccupantKind, tile: GridCoord): MapRemovalSuccessResult => ({
+    success: true,
+    ok: true,
+    removedKind,
+    tile: tileCopy(tile),
+  });
+
+  const makeTransferFailure = (
+    reason: MapTransferFailureReason,
+    from: GridCoord,
+    to: GridCoord,
+  ): MapTransferFailureResult => ({
+    success: false,
+    ok: false,
+    reason,
+    from: tileCopy(from),
+    to: tileCopy(to),
+  });
+
+  const makeTransferSuccess = (kind: MapOccupantKind, from: GridCoord, to: GridCoord): MapTransferSuccessResult => ({
+    success: true,
+    ok: true,
+    kind,
+    from: tileCopy(from),
+    to: tileCopy(to),
+  });
+
+  const isWithinBounds = (x: number, y: number): boolean =>
+    Number.isInteger(x) && Number.isInteger(y) && x >= 0 && y >= 0 && x < width && y < height;
+
+  const codeAt = (x: number, y: number): number => (isWithinBounds(x, y) ? layer.codeAt(x, y) : EMPTY_TILE_CODE);
+
+  const isIronOre = (x: number, y: number): boolean => codeAt(x, y) === IRON_TILE_CODE;
+
+  const isCoalOre = (x: number, y: number): boolean => codeAt(x, y) === COAL_TILE_CODE;
+
+  const isCopperOre = (x: number, y: number): boolean => codeAt(x, y) === COPPER_TILE_CODE;
+
+  const isStoneTile = (x: number, y: number): boolean => codeAt(x, y) === STONE_TILE_CODE;
+
+  const isTree = (x: number, y: number): boolean => codeAt(x, y) === TREE_TILE_CODE;
+
+  const isWater = (x: number, y: number): boolean => codeAt(x, y) === WATER_TILE_CODE;
+
+  const isCliff = (x: number, y: number): boolean => codeAt(x, y) === CLIFF_TILE_CODE;
+
+  const isOre = (x: number, y: number): boolean => {
+    const code = codeAt(x, y);
+    return code !== EMPTY_TILE_CODE && code !== TREE_TILE_CODE && !isTerrainCode(code);
+  };
+
+  const touchResourceRevision = (): void => {
+    resourceRevision += 1;
+  };
+
+  const consumeResource = (x: number, y: number): boolean => {
+    const code = codeAt(x, y);
+    if (code === EMPTY_TILE_CODE || isTerrainCode(code)) {
+      return false;
+    }
+
+    layer.write(x, y, code, layer.amountAt(x, y) - 1);
+    touchResourceRevision();
+    return true;
+  };
+
+  // Chunk generation adds tiles without a write, so it counts towards the revision too.
+  const getResourceRevision = (): number => resourceRevision + (layer.getGeneration?.() ?? 0);
+
+  const fillWater = (x: number, y: number): boolean => {
+    if (!isWater(x, y)) {
+      return false;
+    }
+
+    layer.write(x, y, EMPTY_TILE_CODE, 0);
+    touchResourceRevision();
+    return true;
+  };
+
+  const paintTile = (x: number, y: number, tile: TileType, amount: number): boolean => {
+    const code = toMapTileCode(tile);
+    if (!isWithinBounds(x, y) || code < 0 || isTerrainCode(code)) {
+      return false;
+    }
+
+    const nextAmount = code === EMPTY_TILE_CODE
+      ? 0
+      : Math.max(1, Math.min(MAX_TILE_AMOUNT, Number.isFinite(amount) ? Math.floor(amount) : 1));
+    const nextCode = nextAmount > 0 ? code : EMPTY_TILE_CODE;
+    if (layer.codeAt(x, y) === nextCode && layer.amountAt(x, y) === nextAmount) {
+      return false;
+    }
+
+    layer.write(x, y, nextCode, nextAmount);
+    touchResourceRevision();
+    return true;
+  };
+
+  const getResourceAmountAt = (x: number, y: number): number => {
+    const code = codeAt(x, y);
+    return code === EMPTY_TILE_CODE || isTerrainCode(code) ? 0 : layer.amountAt(x, y);
+  };
+
   const isCoal = (x: number, y: number): boolean => isCoalOre(x, y);
 
   const getTile = (x: number, y: number): TileType | undefined => {
@@ -525,11 +900,27 @@ export function createMap(width: number, height: number, seed: number | string):
       return "tree";
     }
 
+    if (isWater(x, y)) {
+      return "water";
+    }
+
+    if (isCliff(x, y)) {
+      return "cliff";
+    }
+
     if (isCoalOre(x, y)) {
       return "coal-ore";
     }
 
-    return isOre(x, y) ? "iron-ore" : "empty";
+    if (isCopperOre(x, y)) {
+      return "copper-ore";
+    }
+
+    if (isStoneTile(x, y)) {
+      return "stone";
+    }
+
+    return isIronOre(x, y) ? "iron-ore" : "empty";
   };
 
   const hasEntityAt = (tile: GridCoord): boolean => {
@@ -540,7 +931,12 @@ export function createMap(width: number, height: number, seed: number | string):
     return occupantAt(tile) !== undefined;
   };
 
-  const place = (kind: MapOccupantKind, tile: GridCoord): MapPlacementResult => {
+  const getUndergroundBeltsAt = (pos: GridCoord): UndergroundBeltCandidate[] => {
+    const belt = undergroundBelts.get(keyForTile(pos.x, pos.y));
+    return belt === undefined ? [] : [{ kind: UNDERGROUND_BELT_KIND, pos, rot: belt.rot, state: { mode: belt.mode } }];
+  };
+
+  const place = (kind: MapOccupantKind, tile: GridCoord, options: MapPlacementOptions = {}): MapPlacementResult => {
     if (!isPlaceableCoord(tile.x, tile.y)) {
       return makePlacementFailure("out-of-bounds", tile);
     }
@@ -549,10 +945,36 @@ export function createMap(width: number, height: number, seed: number | string):
       return makePlacementFailure("occupied", tile);
     }
 
+    if (isWater(tile.x, tile.y)) {
+      return makePlacementFailure("blocked-by-water", tile);
+    }
+
+    if (isCliff(tile.x, tile.y)) {
+      return makePlacementFailure("blocked-by-cliff", tile);
+    }
+
     if (kind === "miner" && !isOre(tile.x, tile.y) && !isTree(tile.x, tile.y)) {
       return makePlacementFailure("invalid-miner-on-resource", tile);
     }
 
+    if (kind === OFFSHORE_PUMP_KIND) {
+      const intake = getOffshorePumpIntakeTile(tile, options.rot ?? "N");
+      if (!isWater(intake.x, intake.y)) {
+        return makePlacementFailure("offshore-pump-needs-water", tile);
+      }
+    }
+
+    if (kind === UNDERGROUND_BELT_KIND) {
+      const rot = options.rot ?? "E";
+      const mode = options.undergroundMode ?? chooseUndergroundBeltMode(tile, rot, getUndergroundBeltsAt);
+      const failure = resolveUndergroundBeltPlacementFailure(tile, rot, mode, getUndergroundBeltsAt, UNDERGROUND_BELT_MAX_SPAN);
+      if (failure !== null) {
+        return makePlacementFailure(failure, tile);
+      }
+
+      undergroundBelts.set(keyForTile(tile.x, tile.y), { rot, mode });
+    }
+
     occupants.set(keyForTile(tile.x, tile.y), kind);
     return makePlacementSuccess(kind, tile);
   };
@@ -573,6 +995,7 @@ export function createMap(width: number, height: number, seed: number | string):
     }
 
     occupants.delete(key);
+    undergroundBelts.delete(key);
     return makeRemovalSuccess(removedKind, tile);
   };
 
@@ -741,6 +1164,11 @@ export function createMap(width: number, height: number, seed: number | string):
 
       occupants.delete(candidate.fromKey);
       occupants.set(candidate.toKey, kind);
+      const undergroundBelt = undergroundBelts.get(candidate.fromKey);
+      if (undergroundBelt !== undefined) {
+        undergroundBelts.delete(candidate.fromKey);
+        undergroundBelts.set(candidate.toKey, undergroundBelt);
+      }
       lastIngressTickByTile.set(candidate.toKey, currentTransferTick);
       outcomes[candidate.index] = makeTransferSuccess(kind, candidate.from, candidate.to);
     }
@@ -766,7 +1194,13 @@ export function createMap(width: number, height: number, seed: number | string):
     getTile,
     isOre,
     isCoal,
+    isCopper: isCopperOre,
+    isStone: isStoneTile,
     isTree,
+    isWater,
+    isCliff,
+    fillWater,
+    paintTile,
     getResourceRevision,
     getResourceAmountAt,
     consumeResource,
@@ -778,5 +1212,6 @@ export function createMap(width: number, height: number, seed: number | string):
     removeEntity: remove,
     transfer,
     transferMany,
+    ...chunkExtensions,
   };
 }
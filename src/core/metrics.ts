@@ -0,0 +1,320 @@
+import type { EntityBase } from "./types";
+import { getItems } from "./items";
+import { forEachMapTile, type GeneratedMap } from "./map";
+import { isInserterKind } from "./registry";
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null;
+};
+
+const toInt = (value: unknown): number | null => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return null;
+  }
+  const normalized = Math.floor(value);
+  return normalized >= 0 ? normalized : 0;
+};
+
+/** Factory-wide counters sampled from a running sim, shared by the HUD and headless runs. */
+export type RuntimeMetrics = {
+  entityCount: number;
+  miners: number;
+  belts: number;
+  splitters: number;
+  inserters: number;
+  furnaces: number;
+  chests: number;
+  assemblers: number;
+  solarPanels: number;
+  accumulators: number;
+  oreInTransit: number;
+  platesInTransit: number;
+  gearsInTransit: number;
+  coalInTransit: number;
+  woodInTransit: number;
+  chestOre: number;
+  chestPlates: number;
+  chestGears: number;
+  chestCoal: number;
+  chestWood: number;
+  /** Items on belts and in inserter hands, by id; every registered item has an entry. */
+  itemsInTransit: Record<string, number>;
+  /** Items stored in chests, by id; every registered item has an entry. */
+  itemsInChests: Record<string, number>;
+  oreRemaining: number;
+  coalRemaining: number;
+  woodRemaining: number;
+  furnacesCrafting: number;
+  furnacesReady: number;
+  powerStorage: number;
+  powerCapacity: number;
+  powerDemandThisTick: number;
+  powerConsumedThisTick: number;
+  powerGeneratedThisTick: number;
+  powerShortagesThisTick: number;
+  /** Minutes past midnight on the sim's day/night clock. */
+  timeOfDayMinutes: number;
+  /** Share of full sunlight, 0 to 100. */
+  daylightPercent: number;
+};
+
+const createItemTotals = (): Record<string, number> => {
+  return Object.fromEntries(getItems().map((item) => [item.id, 0]));
+};
+
+export const createEmptyRuntimeMetrics = (): RuntimeMetrics => ({
+  entityCount: 0,
+  miners: 0,
+  belts: 0,
+  splitters: 0,
+  inserters: 0,
+  furnaces: 0,
+  chests: 0,
+  assemblers: 0,
+  solarPanels: 0,
+  accumulators: 0,
+  oreInTransit: 0,
+  platesInTransit: 0,
+  gearsInTransit: 0,
+  coalInTransit: 0,
+  woodInTransit: 0,
+  chestOre: 0,
+  chestPlates: 0,
+  chestGears: 0,
+  chestCoal: 0,
+  chestWood: 0,
+  itemsInTransit: createItemTotals(),
+  itemsInChests: createItemTotals(),
+  oreRemaining: 0,
+  coalRemaining: 0,
+  woodRemaining: 0,
+  furnacesCrafting: 0,
+  furnacesReady: 0,
+  powerStorage: 0,
+  powerCapacity: 0,
+  powerDemandThisTick: 0,
+  powerConsumedThisTick: 0,
+  powerGeneratedThisTick: 0,
+  powerShortagesThisTick: 0,
+  timeOfDayMinutes: 0,
+  daylightPercent: 100,
+});
+
+/**
+ * Ticks the stored energy lasts at this tick's net drain, or `null` while generation keeps up with consumption.
+ * A prediction from one tick's accounting: it shortens at dusk as solar output falls away.
+ */
+export const getPowerRunwayTicks = (
+  metrics: Pick<RuntimeMetrics, "powerStorage" | "powerConsumedThisTick" | "powerGeneratedThisTick">,
+): number | null => {
+  const drain = metrics.powerConsumedThisTick - metrics.powerGeneratedThisTick;
+  return drain > 0 ? Math.floor(metrics.powerStorage / drain) : null;
+};
+
+type MapResourceTotals = {
+  oreRemaining: number;
+  coalRemaining: number;
+  woodRemaining: number;
+};
+
+const EMPTY_MAP_RESOURCE_TOTALS: MapResourceTotals = {
+  oreRemaining: 0,
+  coalRemaining: 0,
+  woodRemaining: 0,
+};
+
+const mapResourceTotalsCache = new WeakMap<object, { revision: number; totals: MapResourceTotals }>();
+
+function getResourceTotalsFromMap(map: GeneratedMap): MapResourceTotals {
+  if (typeof map !== "object" || map === null) {
+    return EMPTY_MAP_RESOURCE_TOTALS;
+  }
+
+  const resourceRevision = typeof map.getResourceRevision === "function"
+    ? map.getResourceRevision()
+    : -1;
+  const cached = mapResourceTotalsCache.get(map);
+  if (cached !== undefined && cached.revision === resourceRevision) {
+    return cached.totals;
+  }
+
+  let oreRemaining = 0;
+  let coalRemaining = 0;
+  let woodRemaining = 0;
+
+  forEachMapTile(map, (x, y) => {
+    const tile = map.getTile(x, y);
+    if (tile === "iron-ore") {
+      oreRemaining += 1;
+    } else if (tile === "coal-ore") {
+      coalRemaining += 1;
+    } else if (tile === "tree") {
+      woodRemaining += 1;
+    }
+  });
+
+  const totals: MapResourceTotals = { oreRemaining, coalRemaining, woodRemaining };
+  mapResourceTotalsCache.set(map, {
+    revision: resourceRevision,
+    totals,
+  });
+
+  return totals;
+}
+
+// The HUD's compact counters, read back out of the per-item totals once they are complete.
+const SUMMARY_ITEM_FIELDS = [
+  { item: "iron-ore", inTransit: "oreInTransit", inChests: "chestOre" },
+  { item: "iron-plate", inTransit: "platesInTransit", inChests: "chestPlates" },
+  { item: "iron-gear", inTransit: "gearsInTransit", inChests: "chestGears" },
+  { item: "coal", inTransit: "coalInTransit", inChests: "chestCoal" },
+  { item: "wood", inTransit: "woodInTransit", inChests: "chestWood" },
+] as const satisfies ReadonlyArray<{ item: string; inTransit: keyof RuntimeMetrics; inChests: keyof RuntimeMetrics }>;
+
+const addItemCount = (totals: Record<string, number>, item: unknown, count: number): void => {
+  const current = typeof item === "string" ? totals[item] : undefined;
+  if (current !== undefined) {
+    totals[item as string] = current + count;
+  }
+};
+
+const addItemInTransit = (metrics: RuntimeMetrics, item: unknown): void => {
+  addItemCount(metrics.itemsInTransit, item, 1);
+};
+
+const readBeltItemsInTransit = (beltState: Record<string, unknown> | null): unknown[] => {
+  const lanes = beltState?.lanes;
+  if (!Array.isArray(lanes)) {
+    return [beltState?.item];
+  }
+
+  return lanes.flatMap((lane: unknown) =>
+    Array.isArray(lane) ? lane.map((entry: unknown) => (isRecord(entry) ? entry.item : null)) : [],
+  );
+};
+
+export function getSimulationMetrics(sim: object): RuntimeMetrics | null {
+  const withEntities = sim as { getAllEntities?: () => EntityBase[] };
+  if (typeof withEntities.getAllEntities !== "function") {
+    return null;
+  }
+  const withMap = sim as { getMap?: () => GeneratedMap | undefined };
+
+  const entities = withEntities.getAllEntities();
+  if (!Array.isArray(entities)) {
+    return null;
+  }
+
+  const metrics: RuntimeMetrics = {
+    ...createEmptyRuntimeMetrics(),
+    entityCount: entities.length,
+  };
+
+  for (const entity of entities) {
+    if (entity.kind === "miner") {
+      metrics.miners += 1;
+      continue;
+    }
+
+    if (
+      entity.kind === "belt"
+      || entity.kind === "fast-belt"
+      || entity.kind === "express-belt"
+      || entity.kind === "underground-belt"
+    ) {
+      metrics.belts += 1;
+      const beltState = isRecord(entity.state) ? entity.state : null;
+      for (const item of readBeltItemsInTransit(beltState)) {
+        addItemInTransit(metrics, item);
+      }
+      continue;
+    }
+
+    if (isInserterKind(entity.kind)) {
+      metrics.inserters += 1;
+      const inserterState = isRecord(entity.state) ? entity.state : null;
+      addItemInTransit(metrics, inserterState?.holding);
+      continue;
+    }
+
+    if (entity.kind === "furnace") {
+      metrics.furnaces += 1;
+      const furnaceState = isRecord(entity.state) ? entity.state : null;
+      const output = typeof furnaceState?.output === "string" ? furnaceState.output : null;
+      const outputOccupied = furnaceState?.outputOccupied === true;
+      const progress =
+        typeof furnaceState?.progress01 === "number" ? furnaceState.progress01 : null;
+
+      if (output === "iron-plate" || outputOccupied) {
+        metrics.furnacesReady += 1;
+      } else if (progress !== null && progress > 0 && progress < 1) {
+        metrics.furnacesCrafting += 1;
+      }
+      continue;
+    }
+
+    if (entity.kind === "chest") {
+      metrics.chests += 1;
+      const chestState = isRecord(entity.state) ? entity.state : null;
+      const stored = isRecord(chestState?.stored) ? chestState.stored : {};
+      for (const [item, count] of Object.entries(stored)) {
+        addItemCount(metrics.itemsInChests, item, toInt(count) ?? 0);
+      }
+      continue;
+    }
+
+    if (entity.kind === "splitter") {
+      metrics.splitters += 1;
+      continue;
+    }
+
+    if (entity.kind === "assembler") {
+      metrics.assemblers += 1;
+      continue;
+    }
+
+    if (entity.kind === "solar-panel") {
+      metrics.solarPanels += 1;
+      continue;
+    }
+
+    if (entity.kind === "accumulator") {
+      metrics.accumulators += 1;
+    }
+  }
+
+  for (const fields of SUMMARY_ITEM_FIELDS) {
+    metrics[fields.inTransit] = metrics.itemsInTransit[fields.item] ?? 0;
+    metrics[fields.inChests] = metrics.itemsInChests[fields.item] ?? 0;
+  }
+
+  const map = typeof withMap.getMap === "function"
+    ? withMap.getMap()
+    : null;
+  if (map !== undefined && map !== null) {
+    const resourceTotals = getResourceTotalsFromMap(map);
+    metrics.oreRemaining = resourceTotals.oreRemaining;
+    metrics.coalRemaining = resourceTotals.coalRemaining;
+    metrics.woodRemaining = resourceTotals.woodRemaining;
+  }
+
+  const rawPowerState = (sim as { getPowerState?: () => unknown }).getPowerState;
+  const powerState = typeof rawPowerState === "function" ? rawPowerState.call(sim) : null;
+  if (isRecord(powerState)) {
+    metrics.powerStorage = toInt(powerState.storage) ?? metrics.powerStorage;
+    metrics.powerCapacity = toInt(powerState.capacity) ?? metrics.powerCapacity;
+    metrics.powerDemandThisTick = toInt(powerState.demandThisTick) ?? metrics.powerDemandThisTick;
+    metrics.powerConsumedThisTick = toInt(powerState.consumedThisTick) ?? metrics.powerConsumedThisTick;
+    metrics.powerGeneratedThisTick = toInt(powerState.generatedThisTick) ?? metrics.powerGeneratedThisTick;
+    metrics.powerShortagesThisTick = toInt(powerState.shortagesThisTick) ?? metrics.powerShortagesThisTick;
+  }
+
+  const rawDayNight = (sim as { getDayNight?: () => unknown }).getDayNight;
+  const dayNight = typeof rawDayNight === "function" ? rawDayNight.call(sim) : null;
+  if (isRecord(dayNight) && typeof dayNight.timeOfDay === "number" && typeof dayNight.daylight === "number") {
+    metrics.timeOfDayMinutes = toInt(dayNight.timeOfDay * 24 * 60) ?? metrics.timeOfDayMinutes;
+    metrics.daylightPercent = toInt(dayNight.daylight * 100) ?? metrics.daylightPercent;
+  }
+
+  return metrics;
+}
@@ -0,0 +1,82 @@
+/** Integer hashing and gradient noise for map generation. Only integer and basic float arithmetic is used, so every engine computes the same values. */
+
+/** Folds a numeric or text seed into a non-zero 32-bit integer. */
+export function seedToUint32(seed: number | string): number {
+  if (typeof seed === "number" && Number.isFinite(seed)) {
+    return (Math.floor(seed) >>> 0) || 0x9e3779b9;
+  }
+
+  const text = String(seed);
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+
+  return hash >>> 0 || 0x9e3779b9;
+}
+
+export const mix32 = (value: number): number => {
+  let mixed = value >>> 0;
+  mixed = Math.imul(mixed ^ (mixed >>> 16), 0x7feb352d);
+  mixed = Math.imul(mixed ^ (mixed >>> 15), 0x846ca68b);
+  return (mixed ^ (mixed >>> 16)) >>> 0;
+};
+
+export const hashCoords = (seed: number, x: number, y: number, salt: number): number => {
+  return mix32(seed ^ mix32(x ^ mix32(y ^ mix32(salt))));
+};
+
+/** Order-free noise in `[0, 1)`: the same seed, tile and salt always give the same value. */
+export const tileNoise = (seed: number, x: number, y: number, salt: number): number => {
+  return hashCoords(seed, x, y, salt) / 4294967296;
+};
+
+const DIAGONAL = Math.SQRT1_2;
+
+// A fixed set of unit gradients instead of random angles, so no trigonometry is needed.
+const GRADIENTS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [DIAGONAL, DIAGONAL],
+  [-DIAGONAL, DIAGONAL],
+  [DIAGONAL, -DIAGONAL],
+  [-DIAGONAL, -DIAGONAL],
+];
+
+const fade = (t: number): number => t * t * t * (t * (t * 6 - 15) + 10);
+
+const lerp = (from: number, to: number, t: number): number => from + (to - from) * t;
+
+const dotGradient = (seed: number, cellX: number, cellY: number, dx: number, dy: number): number => {
+  const gradient = GRADIENTS[hashCoords(seed, cellX, cellY, 0x9e37) & 7] ?? [1, 0];
+  return gradient[0] * dx + gradient[1] * dy;
+};
+
+/** Perlin-style gradient noise, roughly in `[-1, 1]`, with lattice points at integer coordinates. */
+export const gradientNoise = (seed: number, x: number, y: number): number => {
+  const cellX = Math.floor(x);
+  const cellY = Math.floor(y);
+  const dx = x - cellX;
+  const dy = y - cellY;
+  const u = fade(dx);
+  const v = fade(dy);
+  const top = lerp(dotGradient(seed, cellX, cellY, dx, dy), dotGradient(seed, cellX + 1, cellY, dx - 1, dy), u);
+  const bottom = lerp(dotGradient(seed, cellX, cellY + 1, dx, dy - 1), dotGradient(seed, cellX + 1, cellY + 1, dx - 1, dy - 1), u);
+  return lerp(top, bottom, v) * Math.SQRT2;
+};
+
+/** Three octaves of gradient noise, each at twice the frequency and half the weight of the last; roughly in `[-1, 1]`. */
+export const fractalNoise = (seed: number, x: number, y: number): number => {
+  let total = 0;
+  let weight = 1;
+  let scale = 1;
+  for (let octave = 0; octave < 3; octave += 1) {
+    total += gradientNoise(mix32(seed + octave), x * scale, y * scale) * weight;
+    weight *= 0.5;
+    scale *= 2;
+  }
+  return total / 1.75;
+};
@@ -0,0 +1,205 @@
+import type { GridCoord } from "./types";
+
+/** Tiles a power pole powers on every side of itself: a 5x5 supply area. */
+export const POWER_POLE_SUPPLY_RADIUS = 2;
+/** Farthest straight-line distance, in tiles, between two poles joined by a wire. */
+export const POWER_POLE_WIRE_REACH = 7;
+
+/**
+ * How an entity takes part in a power network. Poles and accumulators carry no load of their own;
+ * a network is only formed around a producer, accumulator or pole, never around consumers alone.
+ */
+export type PowerNodeRole = "producer" | "consumer" | "accumulator" | "pole";
+
+export type PowerNode = {
+  id: string;
+  kind: string;
+  pos: GridCoord;
+};
+
+export type PowerNetworkLayout = {
+  /** Id of the network's first member in input order; stable for as long as that entity stays. */
+  id: string;
+  /** Member ids in input order. */
+  memberIds: string[];
+  producers: number;
+  consumers: number;
+  accumulators: number;
+  poles: number;
+};
+
+export type PowerWire = {
+  fromId: string;
+  toId: string;
+  from: GridCoord;
+  to: GridCoord;
+};
+
+export type PowerGridLayout = {
+  /** Ordered by each network's first member. */
+  networks: PowerNetworkLayout[];
+  /** Network index for every entity that belongs to one. */
+  networkIndexById: Map<string, number>;
+  wires: PowerWire[];
+};
+
+const NEIGHBOR_OFFSETS: ReadonlyArray<GridCoord> = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+export const getPowerNodeRole = (kind: string): PowerNodeRole | null => {
+  switch (kind) {
+    case "solar-panel":
+    case "steam-engine":
+      return "producer";
+    case "accumulator":
+      return "accumulator";
+    case "power-pole":
+      return "pole";
+    case "miner":
+    case "belt":
+    case "fast-belt":
+    case "express-belt":
+    case "underground-belt":
+    case "splitter":
+    case "inserter":
+    case "fast-inserter":
+    case "long-handed-inserter":
+    case "furnace":
+    case "assembler":
+      return "consumer";
+    default:
+      return null;
+  }
+};
+
+const toCellKey = (x: number, y: number): string => `${x},${y}`;
+
+/**
+ * Groups power entities into networks. Two entities share a network when they sit on 4-adjacent tiles,
+ * when one is a pole and the other lies in its supply area, or when both are poles within wire reach.
+ * Entities whose kind has no power role are ignored.
+ */
+export const computePowerGridLayout = (entities: Iterable<PowerNode>): PowerGridLayout => {
+  const nodes: Array<PowerNode & { role: PowerNodeRole }> = [];
+  const indicesByCell = new Map<string, number[]>();
+  for (const entity of entities) {
+    const role = getPowerNodeRole(entity.kind);
+    if (role === null) {
+      continue;
+    }
+
+    const key = toCellKey(entity.pos.x, entity.pos.y);
+    const cell = indicesByCell.get(key);
+    if (cell === undefined) {
+      indicesByCell.set(key, [nodes.length]);
+    } else {
+      cell.push(nodes.length);
+    }
+    nodes.push({ ...entity, role });
+  }
+
+  const parents = nodes.map((_node, index) => index);
+  const find = (index: number): number => {
+    let root = index;
+    while (parents[root] !== root) {
+      root = parents[root] ?? root;
+    }
+    let current = index;
+    while (current !== root) {
+      const next = parents[current] ?? root;
+      parents[current] = root;
+      current = next;
+    }
+    return root;
+  };
+  const union = (left: number, right: number): void => {
+    const leftRoot = find(left);
+    const rightRoot = find(right);
+    // The lower index stays the root so a network is always named after its first member.
+    if (leftRoot < rightRoot) {
+      parents[rightRoot] = leftRoot;
+    } else if (rightRoot < leftRoot) {
+      parents[leftRoot] = rightRoot;
+    }
+  };
+
+  const wires: PowerWire[] = [];
+  nodes.forEach((node, index) => {
+    for (const offset of NEIGHBOR_OFFSETS) {
+      for (const other of indicesByCell.get(toCellKey(node.pos.x + offset.x, node.pos.y + offset.y)) ?? []) {
+        union(index, other);
+      }
+    }
+
+    if (node.role !== "pole") {
+      return;
+    }
+
+    for (let dy = -POWER_POLE_WIRE_REACH; dy <= POWER_POLE_WIRE_REACH; dy += 1) {
+      for (let dx = -POWER_POLE_WIRE_REACH; dx <= POWER_POLE_WIRE_REACH; dx += 1) {
+        for (const otherIndex of indicesByCell.get(toCellKey(node.pos.x + dx, node.pos.y + dy)) ?? []) {
+          const other = nodes[otherIndex];
+          if (other === undefined || otherIndex === index) {
+            continue;
+          }
+
+          if (other.role === "pole") {
+            // Each wire is recorded once, from the earlier pole.
+            if (dx * dx + dy * dy <= POWER_POLE_WIRE_REACH * POWER_POLE_WIRE_REACH && otherIndex > index) {
+              union(index, otherIndex);
+              wires.push({ fromId: node.id, toId: other.id, from: { ...node.pos }, to: { ...other.pos } });
+            }
+          } else if (Math.abs(dx) <= POWER_POLE_SUPPLY_RADIUS && Math.abs(dy) <= POWER_POLE_SUPPLY_RADIUS) {
+            union(index, otherIndex);
+          }
+        }
+      }
+    }
+  });
+
+  const networkIndexByRoot = new Map<number, number>();
+  const networks: PowerNetworkLayout[] = [];
+  const networkIndexById = new Map<string, number>();
+  const formsNetwork = new Set<number>();
+  nodes.forEach((node, index) => {
+    if (node.role !== "consumer") {
+      formsNetwork.add(find(index));
+    }
+  });
+
+  nodes.forEach((node, index) => {
+    const root = find(index);
+    if (!formsNetwork.has(root)) {
+      return;
+    }
+
+    let networkIndex = networkIndexByRoot.get(root);
+    if (networkIndex === undefined) {
+      networkIndex = networks.length;
+      networkIndexByRoot.set(root, networkIndex);
+      networks.push({ id: node.id, memberIds: [], producers: 0, consumers: 0, accumulators: 0, poles: 0 });
+    }
+
+    const network = networks[networkIndex];
+    if (network === undefined) {
+      return;
+    }
+    network.memberIds.push(node.id);
+    networkIndexById.set(node.id, networkIndex);
+    if (node.role === "producer") {
+      network.producers += 1;
+    } else if (node.role === "consumer") {
+      network.consumers += 1;
+    } else if (node.role === "accumulator") {
+      network.accumulators += 1;
+    } else {
+      network.poles += 1;
+    }
+  });
+
+  return { networks, networkIndexById, wires };
+};
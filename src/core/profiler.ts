@@ -0,0 +1,132 @@
+/** Ticks kept in the rolling window when profiling is enabled without an explicit size. */
+export const DEFAULT_PROFILE_WINDOW_TICKS = 300;
+
+/** Section holding tick time spent outside every named section: entity snapshots, ordering and bookkeeping. */
+export const TICK_PROFILE_SECTION = "tick";
+
+/**
+ * Section names used by the sim: `phase:<canonical phase>`, `kind:<entity kind>`, `power` and `snapshot`,
+ * plus `tick` for the remainder.
+ */
+export type TickProfileSection = string;
+
+export type TickProfileStat = {
+  section: TickProfileSection;
+  /** Time spent in the section over the whole window. */
+  totalMs: number;
+  /** `totalMs` spread over every tick in the window. */
+  meanMs: number;
+  /** Slowest single tick for this section. */
+  maxMs: number;
+  /** Fraction of all profiled time in the window. */
+  share: number;
+};
+
+export type TickProfile = {
+  windowTicks: number;
+  /** Ticks currently in the window; below `windowTicks` until it fills. */
+  ticks: number;
+  meanTickMs: number;
+  maxTickMs: number;
+  /** Sorted slowest first. */
+  sections: TickProfileStat[];
+};
+
+export type TickProfiler = {
+  /** Times `run` under `section`. Time spent in nested sections is only counted for the innermost one. */
+  measure: <T>(section: TickProfileSection, run: () => T) => T;
+  /** Measures a whole tick and closes its sample; sections measured between ticks join the next sample. */
+  measureTick: <T>(run: () => T) => T;
+  getProfile: () => TickProfile;
+  reset: () => void;
+};
+
+type OpenSection = {
+  startedAt: number;
+  childMs: number;
+};
+
+export const createTickProfiler = (
+  options: { windowTicks?: number; now?: () => number } = {},
+): TickProfiler => {
+  const windowTicks = Math.max(1, Math.floor(options.windowTicks ?? DEFAULT_PROFILE_WINDOW_TICKS));
+  const now = options.now ?? (() => performance.now());
+  const stack: OpenSection[] = [];
+  let pending = new Map<TickProfileSection, number>();
+  let samples: Array<Map<TickProfileSection, number>> = [];
+
+  const measure = <T>(section: TickProfileSection, run: () => T): T => {
+    const open: OpenSection = { startedAt: now(), childMs: 0 };
+    stack.push(open);
+    try {
+      return run();
+    } finally {
+      stack.pop();
+      const elapsedMs = now() - open.startedAt;
+      const parent = stack[stack.length - 1];
+      if (parent !== undefined) {
+        parent.childMs += elapsedMs;
+      }
+      pending.set(section, (pending.get(section) ?? 0) + Math.max(0, elapsedMs - open.childMs));
+    }
+  };
+
+  const measureTick = <T>(run: () => T): T => {
+    try {
+      return measure(TICK_PROFILE_SECTION, run);
+    } finally {
+      if (stack.length === 0) {
+        samples.push(pending);
+        pending = new Map();
+        if (samples.length > windowTicks) {
+          samples.shift();
+        }
+      }
+    }
+  };
+
+  const getProfile = (): TickProfile => {
+    const totals = new Map<TickProfileSection, { totalMs: number; maxMs: number }>();
+    let windowMs = 0;
+    let maxTickMs = 0;
+    for (const sample of samples) {
+      let tickMs = 0;
+      for (const [section, ms] of sample) {
+        const entry = totals.get(section) ?? { totalMs: 0, maxMs: 0 };
+        entry.totalMs += ms;
+        entry.maxMs = Math.max(entry.maxMs, ms);
+        totals.set(section, entry);
+        tickMs += ms;
+      }
+      windowMs += tickMs;
+      maxTickMs = Math.max(maxTickMs, tickMs);
+    }
+
+    const ticks = samples.length;
+    const sections = Array.from(totals, ([section, entry]): TickProfileStat => ({
+      section,
+      totalMs: entry.totalMs,
+      meanMs: ticks === 0 ? 0 : entry.totalMs / ticks,
+      maxMs: entry.maxMs,
+      share: windowMs === 0 ? 0 : entry.totalMs / windowMs,
+    })).sort((left, right) => right.totalMs - left.totalMs || left.section.localeCompare(right.section));
+
+    return {
+      windowTicks,
+      ticks,
+      meanTickMs: ticks === 0 ? 0 : windowMs / ticks,
+      maxTickMs,
+      sections,
+    };
+  };
+
+  return {
+    measure,
+    measureTick,
+    getProfile,
+    reset: () => {
+      pending = new Map();
+      samples = [];
+    },
+  };
+};
@@ -1,7 +1,7 @@
 import type { EntityBase, EntityKind } from './types';
 
 export type RegisteredEntityKind = EntityKind | (string & {});
-export const CANONICAL_TICK_PHASES = ["miner", "belt", "furnace", "inserter"] as const;
+export const CANONICAL_TICK_PHASES = ["miner", "belt", "furnace", "inserter", "fluid"] as const;
 export type CanonicalTickPhase = (typeof CANONICAL_TICK_PHASES)[number];
 
 export const SIM_TICK_CADENCE_MS = 1000 / 60;
@@ -11,8 +11,65 @@ export const CANONICAL_TICK_PHASE_CADENCE_TICKS = {
   belt: 15,
   furnace: 180,
   inserter: 20,
+  /** Pumps fill and fluid networks even out every tick, before boilers draw their water. */
+  fluid: 1,
 } as const satisfies Record<CanonicalTickPhase, number>;
 
+/**
+ * Ticks an item needs to cross one tile on each belt tier. Every tier runs in the `belt` phase;
+ * the basic belt keeps the canonical phase cadence. Each value divides `BELT_LANE_LENGTH`.
+ */
+export const BELT_TIER_CADENCE_TICKS = {
+  belt: CANONICAL_TICK_PHASE_CADENCE_TICKS.belt,
+  "fast-belt": 8,
+  "express-belt": 5,
+} as const;
+export type BeltTierKind = keyof typeof BELT_TIER_CADENCE_TICKS;
+export const BELT_TIER_KINDS = Object.keys(BELT_TIER_CADENCE_TICKS) as BeltTierKind[];
+
+export const isBeltTierKind = (kind: unknown): kind is BeltTierKind => {
+  return typeof kind === "string" && Object.prototype.hasOwnProperty.call(BELT_TIER_CADENCE_TICKS, kind);
+};
+
+/**
+ * Ticks between swings for each inserter kind. Every kind runs in the `inserter` phase; the
+ * basic inserter keeps the canonical phase cadence.
+ */
+export const INSERTER_CADENCE_TICKS = {
+  inserter: CANONICAL_TICK_PHASE_CADENCE_TICKS.inserter,
+  "burner-inserter": 30,
+  "fast-inserter": 8,
+  "long-handed-inserter": 15,
+} as const;
+export type InserterKind = keyof typeof INSERTER_CADENCE_TICKS;
+export const INSERTER_KINDS = Object.keys(INSERTER_CADENCE_TICKS) as InserterKind[];
+
+/** Tiles between an inserter and the tiles it picks up from and drops onto. */
+export const INSERTER_REACH: Readonly<Record<InserterKind, number>> = {
+  inserter: 1,
+  "burner-inserter": 1,
+  "fast-inserter": 1,
+  "long-handed-inserter": 2,
+};
+
+export const isInserterKind = (kind: unknown): kind is InserterKind => {
+  return typeof kind === "string" && Object.prototype.hasOwnProperty.call(INSERTER_CADENCE_TICKS, kind);
+};
+
+/** Fuel items a boiler holds, all of one kind, like a burner inserter's fuel slot. */
+export const BOILER_FUEL_CAPACITY = 5;
+/** Steam a boiler can hold; it stops burning fuel while full. */
+export const BOILER_STEAM_CAPACITY = 60;
+/** Steam a boiler makes per tick while it has fuel burning and room to store the steam. */
+export const BOILER_STEAM_PER_TICK = 10;
+/** Steam from each unit of an item's `fuelValue`: one coal makes 600 steam, a minute of full engine output. */
+export const BOILER_STEAM_PER_FUEL_VALUE = 150;
+/**
+ * Most power a steam engine makes per tick, spending one steam per unit. It only takes steam from
+ * 4-adjacent boilers for power its network has room to store.
+ */
+export const STEAM_ENGINE_MAX_POWER_PER_TICK = 10;
+
 const tickPhaseRank = CANONICAL_TICK_PHASES.reduce(
   (acc, phase, rank): Record<CanonicalTickPhase, number> => {
     acc[phase] = rank;
@@ -0,0 +1,86 @@
+import type { EntityKind, GridCoord, ItemKind } from "./types";
+
+type EntityEventFields = {
+  entityId: string;
+  kind: EntityKind | (string & {});
+};
+
+/**
+ * Everything the sim announces. `tick` is the value of `sim.tick` while the event happened,
+ * so events raised inside a tick share its number with that tick's entity updates.
+ */
+export type SimEvent =
+  | ({ type: "entity-placed"; tick: number; pos: GridCoord } & EntityEventFields)
+  | ({ type: "entity-removed"; tick: number; pos: GridCoord } & EntityEventFields)
+  /** Miners mining a unit, and machines finishing a craft (one event per product stack). */
+  | ({ type: "item-produced"; tick: number; item: ItemKind; count: number } & EntityEventFields)
+  /** Recipe ingredients used up when a machine starts a craft (one event per ingredient stack), and fuel a boiler lights. */
+  | ({ type: "item-consumed"; tick: number; item: ItemKind; count: number } & EntityEventFields)
+  | ({ type: "craft-started"; tick: number; recipeId: string } & EntityEventFields)
+  | ({ type: "craft-finished"; tick: number; recipeId: string } & EntityEventFields)
+  /** Raised once for every tick in which at least one consumer asked for more power than was stored. */
+  | { type: "power-shortage"; tick: number; shortages: number; demand: number; consumed: number }
+  /** A miner took the last unit from its tile. */
+  | { type: "resource-depleted"; tick: number; pos: GridCoord; item: ItemKind }
+  /** An inserter holding `item` found its drop target full; raised when it becomes blocked, not while it stays so. */
+  | ({ type: "inserter-blocked"; tick: number; pos: GridCoord; item: ItemKind } & EntityEventFields);
+
+export type SimEventType = SimEvent["type"];
+
+export type SimEventOf<T extends SimEventType> = Extract<SimEvent, { type: T }>;
+
+type WithoutTick<T> = T extends SimEvent ? Omit<T, "tick"> : never;
+
+/** An event as raised by an entity; the sim stamps the tick. */
+export type SimEventInit = WithoutTick<SimEvent>;
+
+export type SimEventListener<T extends SimEventType = SimEventType> = (event: SimEventOf<T>) => void;
+
+export type SimEventBus = {
+  /** Calls `listener` for every event of `type`; returns a function that unsubscribes it. */
+  on: <T extends SimEventType>(type: T, listener: SimEventListener<T>) => () => void;
+  /** Calls `listener` for every event; returns a function that unsubscribes it. */
+  onAny: (listener: (event: SimEvent) => void) => () => void;
+  /** Lets emitters skip building events nobody would receive. */
+  hasListeners: () => boolean;
+  emit: (event: SimEvent) => void;
+};
+
+export const createSimEventBus = (): SimEventBus => {
+  const listenersByType = new Map<SimEventType, Set<(event: SimEvent) => void>>();
+  const anyListeners = new Set<(event: SimEvent) => void>();
+  let listenerCount = 0;
+
+  const subscribe = (listeners: Set<(event: SimEvent) => void>, listener: (event: SimEvent) => void): (() => void) => {
+    // Wrapped so the same function can subscribe twice and unsubscribe each independently.
+    const entry = (event: SimEvent): void => listener(event);
+    listeners.add(entry);
+    listenerCount += 1;
+    return () => {
+      if (listeners.delete(entry)) {
+        listenerCount -= 1;
+      }
+    };
+  };
+
+  return {
+    on: (type, listener) => {
+      let listeners = listenersByType.get(type);
+      if (listeners === undefined) {
+        listeners = new Set();
+        listenersByType.set(type, listeners);
+      }
+      return subscribe(listeners, listener as (event: SimEvent) => void);
+    },
+    onAny: (listener) => subscribe(anyListeners, listener),
+    hasListeners: () => listenerCount > 0,
+    emit: (event) => {
+      for (const listener of Array.from(listenersByType.get(event.type) ?? [])) {
+        listener(event);
+      }
+      for (const listener of Array.from(anyListeners)) {
+        listener(event);
+      }
+    },
+  };
+};
@@ -0,0 +1,309 @@
+import { createChunkedMap, createMap, type GeneratedMap } from "./map";
+import type { MapChunkSave } from "./map-chunks";
+import type { MapSettings } from "./map-settings";
+import { createSim, type SimExportedState } from "./sim";
+import type { SimEvent } from "./sim-events";
+import { createSnapshot, type Snapshot } from "./snapshot";
+import { createSimFrameStepper, type SimSpeed } from "./speed";
+import type { GridCoord } from "./types";
+import { registerDefaults } from "../entities/all";
+
+export type SimWorkerConfig = {
+  width: number;
+  height: number;
+  seed: number | string;
+  /** Wall-clock interval between ticks while running. */
+  stepMs: number;
+  /** Use a chunked map from `seed`; `width` and `height` must then match it. */
+  chunked?: boolean;
+  /** Resource settings for the chunked map; defaults when absent. */
+  mapSettings?: MapSettings;
+};
+
+/** Messages from the page to the worker. */
+export type SimWorkerRequest =
+  | { type: "init"; config: SimWorkerConfig }
+  /**
+   * Replaces the worker's state with the page's; later frames carry `revision` so stale ones can be dropped.
+   * `terrain`, when present, regenerates a chunked map from another seed and settings first;
+   * `mapChunks` then replaces its changed chunks before `consumed` is replayed.
+   */
+  | {
+      type: "load";
+      revision: number;
+      state: SimExportedState;
+      consumed: GridCoord[];
+      terrain?: { seed: number | string; settings: MapSettings };
+      mapChunks?: MapChunkSave[];
+    }
+  /** Generates the chunks the page explored, so frames include their resources. */
+  | { type: "explore"; center: GridCoord; radius: number }
+  | { type: "run" }
+  | { type: "pause" }
+  | { type: "speed"; speed: SimSpeed }
+  | { type: "dispose" };
+
+export type SimWorkerFrame = {
+  type: "frame";
+  /** Revision of the last `load` the worker applied before running these ticks. */
+  revision: number;
+  /** Ticks run since the previous frame. */
+  ticks: number;
+  /** The sim clock after these ticks; the snapshot's timing never moves backwards, so it cannot stand in. */
+  clock: { tick: number; tickCount: number; elapsedMs: number };
+  /** What the page renders. It has no player and no placement revision; both live on the page. */
+  snapshot: Snapshot;
+  /**
+   * `exportState()` as UTF-8 JSON, transferred rather than cloned. The page only decodes it when it needs its
+   * mirror sim, for edits, entity reads and saves, so rendering never pays for a full restore.
+   */
+  encodedState: ArrayBuffer;
+  /** Resource tiles mined since the previous frame, one entry per unit. */
+  consumed: GridCoord[];
+  /** Sim events raised by these ticks, in order. */
+  events: SimEvent[];
+};
+
+/** Messages from the worker to the page. */
+export type SimWorkerResponse = SimWorkerFrame | { type: "error"; message: string };
+
+export type SimWorkerTimers = {
+  setInterval: (callback: () => void, ms: number) => unknown;
+  clearInterval: (handle: unknown) => void;
+};
+
+export type ResourceConsumptionLog = {
+  /** Returns and clears the tiles mined through the map since the last drain. */
+  drain: () => GridCoord[];
+  /** Mines `tiles` on the map without logging them, to mirror the other side's mining. */
+  replay: (tiles: ReadonlyArray<GridCoord>) => void;
+  /** Puts the original `consumeResource` back and drops the log. */
+  untrack: () => void;
+};
+
+export const encodeSimWorkerState = (state: SimExportedState): ArrayBuffer => {
+  return new TextEncoder().encode(JSON.stringify(state)).buffer as ArrayBuffer;
+};
+
+export const decodeSimWorkerState = (encoded: ArrayBuffer): SimExportedState => {
+  return JSON.parse(new TextDecoder().decode(encoded)) as SimExportedState;
+};
+
+/**
+ * Wraps `map.consumeResource` so every unit mined is logged.
+ * Page and worker each hold a map from the same seed and keep resources equal by replaying each other's logs.
+ */
+export const trackResourceConsumption = (map: GeneratedMap): ResourceConsumptionLog => {
+  const consume = map.consumeResource;
+  let log: GridCoord[] = [];
+  if (typeof consume === "function") {
+    map.consumeResource = (x, y) => {
+      const consumed = consume(x, y);
+      if (consumed) {
+        log.push({ x, y });
+      }
+      return consumed;
+    };
+  }
+
+  return {
+    drain: () => {
+      const drained = log;
+      log = [];
+      return drained;
+    },
+    replay: (tiles) => {
+      for (const tile of tiles) {
+        consume?.(tile.x, tile.y);
+      }
+    },
+    untrack: () => {
+      map.consumeResource = consume;
+      log = [];
+    },
+  };
+};
+
+/**
+ * Owns the sim inside the worker. Split from the worker entry so tests can drive it without a `Worker`.
+ * A frame is posted after every interval that ran at least one tick; the speed setting decides how many ticks an interval runs.
+ */
+export const createSimWorkerHost = (
+  post: (message: SimWorkerResponse, transfer?: ArrayBuffer[]) => void,
+  timers: SimWorkerTimers = { setInterval: (callback, ms) => setInterval(callback, ms), clearInterval: (handle) => clearInterval(handle as number) },
+) => {
+  let sim: ReturnType<typeof createSim> | null = null;
+  let map: GeneratedMap | null = null;
+  let resources: ResourceConsumptionLog | null = null;
+  let stepMs = 1000 / 60;
+  let revision = 0;
+  let running = false;
+  let intervalHandle: unknown = null;
+  let events: SimEvent[] = [];
+  const stepper = createSimFrameStepper(() => {
+    sim?.step(stepMs);
+  });
+
+  const postFrame = (ticks: number): void => {
+    if (sim === null || resources === null) {
+      return;
+    }
+
+    const encodedState = encodeSimWorkerState(sim.exportState());
+    post(
+      {
+        type: "frame",
+        revision,
+        ticks,
+        clock: { tick: sim.tick, tickCount: sim.tickCount, elapsedMs: sim.elapsedMs },
+        snapshot: createSnapshot(sim as Parameters<typeof createSnapshot>[0]),
+        encodedState,
+        consumed: resources.drain(),
+        events,
+      },
+      [encodedState],
+    );
+    events = [];
+  };
+
+  const runAndPost = (run: (current: ReturnType<typeof createSim>) => void): number => {
+    if (sim === null) {
+      return 0;
+    }
+
+    const before = sim.tickCount;
+    run(sim);
+    const ticks = sim.tickCount - before;
+    if (ticks > 0) {
+      postFrame(ticks);
+    }
+    return ticks;
+  };
+
+  const advance = (dtMs: number): number => runAndPost((current) => current.step(dtMs));
+
+  const runFrame = (): number => runAndPost(() => stepper.runFrame());
+
+  const stopInterval = (): void => {
+    if (intervalHandle !== null) {
+      timers.clearInterval(intervalHandle);
+      intervalHandle = null;
+    }
+  };
+
+  const setRunning = (next: boolean): void => {
+    running = next;
+    if (sim === null) {
+      return;
+    }
+
+    if (running) {
+      sim.resume();
+      if (intervalHandle === null) {
+        intervalHandle = timers.setInterval(runFrame, stepMs);
+      }
+    } else {
+      sim.pause();
+      stopInterval();
+    }
+  };
+
+  const handle = (message: SimWorkerRequest): void => {
+    try {
+      if (message.type === "init") {
+        registerDefaults();
+        const { width, height, seed } = message.config;
+        map = message.config.chunked === true
+          ? createChunkedMap(seed, message.config.mapSettings)
+          : createMap(width, height, seed);
+        resources = trackResourceConsumption(map);
+        sim = createSim({ width, height, seed, map });
+        sim.onAny((event) => {
+          events.push(event);
+        });
+        stepMs = message.config.stepMs;
+        setRunning(running);
+        return;
+      }
+
+      if (message.type === "load") {
+        if (sim === null || resources === null) {
+          throw new Error("load before init");
+        }
+        if (message.terrain !== undefined) {
+          map?.setTerrain?.(message.terrain.seed, message.terrain.settings);
+        }
+        if (message.mapChunks !== undefined) {
+          map?.restoreChangedChunks?.(message.mapChunks);
+        }
+        resources.replay(message.consumed);
+        revision = message.revision;
+        events = [];
+        sim.restoreState({ ...message.state, paused: !running });
+        return;
+      }
+
+      if (message.type === "run" || message.type === "pause") {
+        setRunning(message.type === "run");
+        return;
+      }
+
+      if (message.type === "speed") {
+        stepper.setSpeed(message.speed);
+        return;
+      }
+
+      if (message.type === "explore") {
+        map?.generateChunksAround?.(message.center, message.radius);
+        return;
+      }
+
+      stopInterval();
+      sim = null;
+      map = null;
+      resources = null;
+    } catch (error) {
+      post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return {
+    handle,
+    /** Steps the sim by `dtMs` of wall time at 1x; returns the ticks run. */
+    advance,
+    /** Runs one interval's ticks at the current speed; returns the ticks run. */
+    runFrame,
+  };
+};
+
+export type SimWorkerClient = {
+  post: (message: SimWorkerRequest) => void;
+  terminate: () => void;
+};
+
+/** Starts `sim.worker.ts` as a module worker and forwards its messages to `onMessage`. */
+export const createSimWorkerClient = (
+  config: SimWorkerConfig,
+  onMessage: (message: SimWorkerResponse) => void,
+): SimWorkerClient => {
+  const worker = new Worker(new URL("./sim.worker.ts", import.meta.url), { type: "module" });
+  worker.addEventListener("message", (event: MessageEvent<SimWorkerResponse>) => {
+    onMessage(event.data);
+  });
+  worker.addEventListener("error", (event) => {
+    onMessage({ type: "error", message: event.message });
+  });
+
+  const post = (message: SimWorkerRequest): void => {
+    worker.postMessage(message);
+  };
+  post({ type: "init", config });
+
+  return {
+    post,
+    terminate: () => {
+      post({ type: "dispose" });
+      worker.terminate();
+    },
+  };
+};
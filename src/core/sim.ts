@@ -3,7 +3,18 @@ import {
   getDefinition,
   SIM_TICK_CADENCE_MS,
 } from "./registry";
+import {
+  DAY_LENGTH_TICKS,
+  getDayNightState,
+  getDefaultDayTicks,
+  normalizeDayTicks,
+  type DayNightState,
+} from "./daylight";
 import type { GeneratedMap } from "./map";
+import { computePowerGridLayout, getPowerNodeRole, type PowerGridLayout, type PowerWire } from "./power-networks";
+import { createTickProfiler, type TickProfile, type TickProfiler } from "./profiler";
+import { createSimEventBus, type SimEvent, type SimEventInit } from "./sim-events";
+import { combineStateHash, hashMapResources, hashStateValue, type SimStateHash } from "./state-hash";
 import type {
   Direction,
   EntityBase,
@@ -17,22 +28,87 @@ type CreateSimConfig = {
   height?: number;
   seed?: number | string;
   map?: GeneratedMap;
+  /** Lets idle entities go dormant until a neighbour changes; off runs every entity every tick. Defaults to on. */
+  sleep?: boolean;
   restore?: {
     tick?: unknown;
     tickCount?: unknown;
     elapsedMs?: unknown;
+    dayTicks?: unknown;
     paused?: unknown;
     accumulatorMs?: unknown;
     entities?: unknown;
     power?: {
       storage?: unknown;
       capacity?: unknown;
+      demandTotal?: unknown;
+      consumedTotal?: unknown;
+      generatedTotal?: unknown;
+      shortagesTotal?: unknown;
+      networks?: unknown;
     };
   };
 };
 
+/** Plain-data copy of the sim that `restoreState` accepts back; safe to `postMessage`. */
+export type SimExportedState = {
+  tick: number;
+  tickCount: number;
+  elapsedMs: number;
+  /** Ticks into the current day/night cycle. */
+  dayTicks: number;
+  accumulatorMs: number;
+  paused: boolean;
+  entities: Array<{ kind: string; pos: GridCoord; rot: Direction; state?: unknown }>;
+  power: {
+    storage: number;
+    capacity: number;
+    demandTotal: number;
+    consumedTotal: number;
+    generatedTotal: number;
+    shortagesTotal: number;
+    /** Energy held by each network, keyed by the tile of the network's first member. */
+    networks: Array<{ x: number; y: number; storage: number }>;
+  };
+};
+
 type PowerBuckets = Record<string, number>;
 
+type StateHashOptions = {
+  /** Player position, inventory and fuel; the sim has no player of its own. */
+  player?: unknown;
+};
+
+type StateHashRecordingOptions = {
+  /** Record a hash after every tick divisible by `every`. */
+  every: number;
+  player?: () => unknown;
+};
+
+type ProfilingOptions = {
+  /** Ticks kept in the rolling window. */
+  windowTicks?: number;
+  now?: () => number;
+};
+
+/** One power network's share of the factory; `id` is the id of its first member. */
+export type SimPowerNetworkState = {
+  id: string;
+  producers: number;
+  consumers: number;
+  accumulators: number;
+  poles: number;
+  storage: number;
+  capacity: number;
+  demandThisTick: number;
+  consumedThisTick: number;
+  generatedThisTick: number;
+  shortagesThisTick: number;
+};
+
+type PowerNetworkAccount = SimPowerNetworkState & { memberIds: string[] };
+
+/** Totals cover the whole factory; `networks` splits storage and this tick's accounting per network. */
 type SimPowerState = {
   storage: number;
   capacity: number;
@@ -51,6 +127,9 @@ type SimPowerState = {
   consumedByKind: PowerBuckets;
   generatedByKind: PowerBuckets;
   shortagesThisTick: number;
+  networks: SimPowerNetworkState[];
+  /** Wires between power poles, for drawing. */
+  wires: PowerWire[];
 };
 
 type EntityInit = {
@@ -66,18 +145,16 @@ type EntityDescriptor = {
 const getCanonicalTickRank = getCanonicalKindRank;
 const STEP_EPSILON = 1e-7;
 const DEFAULT_ROTATION: Direction = "N";
+/** Side length, in tiles, of the square chunks the entity index is bucketed into. */
+export const SIM_CHUNK_SIZE = 16;
+/** Farthest tile an entity reads from or writes to: long-handed inserters reach two tiles out. */
+const WAKE_RADIUS = 2;
 const DEFAULT_WORLD_WIDTH = 64;
 const DEFAULT_WORLD_HEIGHT = 64;
 const DEFAULT_WORLD_SEED = 0;
 const DEFAULT_POWER_CAPACITY = 180;
 const DEFAULT_POWER_STORAGE = 120;
 const ACCUMULATOR_POWER_CAPACITY = 120;
-const POWER_NET_NEIGHBOR_OFFSETS: ReadonlyArray<GridCoord> = [
-  { x: 0, y: -1 },
-  { x: 1, y: 0 },
-  { x: 0, y: 1 },
-  { x: -1, y: 0 },
-];
 
 const createDefaultPowerNetworkState = (): {
   producers: number;
@@ -91,24 +168,11 @@ const createDefaultPowerNetworkState = (): {
   disconnectedConsumers: 0,
 });
 
-const isPowerProducerKind = (kind: string): boolean => kind === "solar-panel";
-const isPowerConsumerKind = (kind: string): boolean =>
-  kind === "miner" ||
-  kind === "belt" ||
-  kind === "splitter" ||
-  kind === "inserter" ||
-  kind === "furnace" ||
-  kind === "assembler";
+const toCellKey = (pos: GridCoord): string => `${pos.x},${pos.y}`;
 
-type PowerNetworkAnalysis = {
-  producers: number;
-  consumers: number;
-  connectedConsumers: number;
-  disconnectedConsumers: number;
-  connectedConsumerIds: Set<string>;
-};
+const toChunkCoord = (value: number): number => Math.floor(value / SIM_CHUNK_SIZE);
 
-const toCellKey = (pos: GridCoord): string => `${pos.x},${pos.y}`;
+const toChunkKey = (pos: GridCoord): string => `${toChunkCoord(pos.x)},${toChunkCoord(pos.y)}`;
 
 const isOutOfBounds = (
   pos: GridCoord,
@@ -182,6 +246,7 @@ export const createSim = ({
   height,
   seed,
   map,
+  sleep,
   restore,
 }: CreateSimConfig = {}) => {
   const worldWidth = width ?? DEFAULT_WORLD_WIDTH;
@@ -201,6 +266,18 @@ export const createSim = ({
   const entitiesById = new Map<string, EntityBase>();
   const entitiesByCell = new Map<string, Set<string>>();
   const cellKeyById = new Map<string, string>();
+  const entitiesByChunk = new Map<string, Set<string>>();
+  const chunkKeyById = new Map<string, string>();
+  // Dormant entities are skipped by the canonical phases until something within WAKE_RADIUS changes.
+  const sleepEnabled = sleep !== false;
+  const dormantIds = new Set<string>();
+  const dormantIdsByChunk = new Map<string, Set<string>>();
+  // Replaced whenever an entity is added, removed or moved, so per-layout caches know to rebuild.
+  let layoutToken: object = {};
+  let cachedTickOrder: string[] | null = null;
+  const events = createSimEventBus();
+  // Events raised inside a tick wait here, so listeners only ever see finished ticks.
+  let pendingEvents: SimEvent[] = [];
   const publicEntitiesById = new Map<string, EntityBase>();
   const publicEntitiesByCell = new Map<string, Set<string>>();
   const publicCellKeyById = new Map<string, string>();
@@ -212,10 +289,16 @@ export const createSim = ({
   let tick = 0;
   let tickCount = 0;
   let elapsedMs = 0;
+  let dayTicks = getDefaultDayTicks(0);
   let runningStep = false;
-  let powerCapacity = DEFAULT_POWER_CAPACITY;
   let powerCapacityBase = DEFAULT_POWER_CAPACITY;
-  let powerStorage = DEFAULT_POWER_STORAGE;
+  // Energy on no network yet: a fresh sim's starting charge, or a save's total from before networks were split.
+  // It tops up the first network that forms.
+  let unassignedPowerStorage = DEFAULT_POWER_STORAGE;
+  let powerGrid: PowerGridLayout = { networks: [], networkIndexById: new Map(), wires: [] };
+  let powerGridLayoutToken: object | null = null;
+  let powerGridCounts = createDefaultPowerNetworkState();
+  let powerNetworks: PowerNetworkAccount[] = [];
   let powerDemandThisTick = 0;
   let powerConsumedThisTick = 0;
   let powerGeneratedThisTick = 0;
@@ -228,7 +311,6 @@ export const createSim = ({
   let powerConsumedByKind: PowerBuckets = {};
   let powerGeneratedByKind: PowerBuckets = {};
   let powerShortagesThisTick = 0;
-  let powerConnectedConsumerIds: Set<string> = new Set();
   const insertionOrderById = new Map<string, number>();
   let startupProbeState: StartupProbeState = { phase: "init" };
 
@@ -305,6 +387,27 @@ export const createSim = ({
     return clone;
   };
 
+  /** Deep copy that drops methods, so entity state survives structured cloning. */
+  const cloneExportValue = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((entry) => (typeof entry === "function" ? undefined : cloneExportValue(entry)));
+    }
+
+    if (!isObject(value) || value instanceof Map || value instanceof Set) {
+      return value;
+    }
+
+    const clone: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      const entry = value[key];
+      if (typeof entry !== "function") {
+        clone[key] = cloneExportValue(entry);
+      }
+    }
+
+    return clone;
+  };
+
   const cloneEntityForPublic = (entity: EntityBase): EntityBase => {
     return {
       id: entity.id,
@@ -374,8 +477,13 @@ export const createSim = ({
     }
   };
 
-  const indexInCell = (id: string, pos: GridCoord, index: CellIndex): void => {
-    const nextKey = toCellKey(pos);
+  const indexInCell = (
+    id: string,
+    pos: GridCoord,
+    index: CellIndex,
+    toKey: (pos: GridCoord) => string = toCellKey,
+  ): void => {
+    const nextKey = toKey(pos);
     const previousKey = index.cellKeyById.get(id);
 
     if (previousKey === nextKey) {
@@ -402,6 +510,134 @@ export const createSim = ({
     index.cellKeyById.set(id, nextKey);
   };
 
+  const emitEvent = (init: SimEventInit): void => {
+    if (!events.hasListeners()) {
+      return;
+    }
+
+    const event = { ...init, tick } as SimEvent;
+    if (runningStep) {
+      pendingEvents.push(event);
+      return;
+    }
+    events.emit(event);
+  };
+
+  const flushPendingEvents = (): void => {
+    const delivered = pendingEvents;
+    pendingEvents = [];
+    for (const event of delivered) {
+      events.emit(event);
+    }
+  };
+
+  const touchLayout = (): void => {
+    layoutToken = {};
+    cachedTickOrder = null;
+  };
+
+  const indexEntity = (id: string, pos: GridCoord): void => {
+    indexInCell(id, pos, { entitiesByCell, cellKeyById });
+    indexInCell(id, pos, { entitiesByCell: entitiesByChunk, cellKeyById: chunkKeyById }, toChunkKey);
+    touchLayout();
+  };
+
+  const wakeEntity = (id: string): void => {
+    if (!dormantIds.delete(id)) {
+      return;
+    }
+
+    const chunkKey = chunkKeyById.get(id);
+    const chunkIds = chunkKey === undefined ? undefined : dormantIdsByChunk.get(chunkKey);
+    if (chunkKey === undefined || chunkIds === undefined) {
+      return;
+    }
+
+    chunkIds.delete(id);
+    if (chunkIds.size === 0) {
+      dormantIdsByChunk.delete(chunkKey);
+    }
+  };
+
+  const setEntityDormant = (id: string): void => {
+    const chunkKey = chunkKeyById.get(id);
+    if (!sleepEnabled || chunkKey === undefined || dormantIds.has(id)) {
+      return;
+    }
+
+    dormantIds.add(id);
+    let chunkIds = dormantIdsByChunk.get(chunkKey);
+    if (chunkIds === undefined) {
+      chunkIds = new Set<string>();
+      dormantIdsByChunk.set(chunkKey, chunkIds);
+    }
+    chunkIds.add(id);
+  };
+
+  /** Wakes every dormant entity within WAKE_RADIUS tiles of `pos`. */
+  const wakeEntitiesNear = (pos: GridCoord): void => {
+    if (dormantIds.size === 0) {
+      return;
+    }
+
+    for (let chunkY = toChunkCoord(pos.y - WAKE_RADIUS); chunkY <= toChunkCoord(pos.y + WAKE_RADIUS); chunkY += 1) {
+      for (let chunkX = toChunkCoord(pos.x - WAKE_RADIUS); chunkX <= toChunkCoord(pos.x + WAKE_RADIUS); chunkX += 1) {
+        const chunkIds = dormantIdsByChunk.get(`${chunkX},${chunkY}`);
+        if (chunkIds === undefined) {
+          continue;
+        }
+
+        for (const id of chunkIds) {
+          const entity = entitiesById.get(id);
+          if (
+            entity === undefined ||
+            (Math.abs(entity.pos.x - pos.x) <= WAKE_RADIUS && Math.abs(entity.pos.y - pos.y) <= WAKE_RADIUS)
+          ) {
+            wakeEntity(id);
+          }
+        }
+      }
+    }
+  };
+
+  const compareTickOrder = (leftId: string, rightId: string): number => {
+    const leftEntity = entitiesById.get(leftId);
+    const rightEntity = entitiesById.get(rightId);
+    if (leftEntity === undefined || rightEntity === undefined) {
+      return 0;
+    }
+
+    const phaseRankDiff =
+      getCanonicalTickRank(leftEntity.kind) - getCanonicalTickRank(rightEntity.kind);
+    if (phaseRankDiff !== 0) {
+      return phaseRankDiff;
+    }
+
+    const leftOrder = insertionOrderById.get(leftId);
+    const rightOrder = insertionOrderById.get(rightId);
+    if (leftOrder === rightOrder) {
+      return 0;
+    }
+
+    if (leftOrder === undefined) {
+      return 1;
+    }
+
+    if (rightOrder === undefined) {
+      return -1;
+    }
+
+    return leftOrder - rightOrder;
+  };
+
+  /** Update order for the current layout; only re-sorted after entities are added, removed or moved. */
+  const getTickOrder = (): string[] => {
+    if (cachedTickOrder === null) {
+      cachedTickOrder = Array.from(entitiesById.keys()).sort(compareTickOrder);
+    }
+    return cachedTickOrder;
+  };
+
   const getInternalEntityById = (id: string): EntityBase | undefined => {
     return entitiesById.get(id);
   };
@@ -515,11 +751,44 @@ export const createSim = ({
     return Math.max(1, powerCapacityBase + accumulatorCapacity);
   };
 
-  const applyDynamicPowerCapacity = (accumulatorCount: number): void => {
-    powerCapacity = computePowerCapacityWithAccumulators(accumulatorCount);
-    if (powerStorage > powerCapacity) {
-      powerStorage = powerCapacity;
+  const getTotalPowerStorage = (): number => {
+    let storage = unassignedPowerStorage;
+    for (const network of powerNetworks) {
+      storage += network.storage;
+    }
+    return storage;
+  };
+
+  const getTotalPowerCapacity = (): number => {
+    if (powerNetworks.length === 0) {
+      return computePowerCapacityWithAccumulators(0);
     }
+
+    let capacity = 0;
+    for (const network of powerNetworks) {
+      capacity += network.capacity;
+    }
+    return capacity;
+  };
+
+  const getPowerNetworkOf = (entityId: string): PowerNetworkAccount | undefined => {
+    const index = powerGrid.networkIndexById.get(entityId);
+    return index === undefined ? undefined : powerNetworks[index];
+  };
+
+  /** Network an entity draws from or feeds; calls without an entity id use the first network. */
+  const resolvePowerNetwork = (entityId: unknown): PowerNetworkAccount | undefined => {
+    return typeof entityId === "string" ? getPowerNetworkOf(entityId) : powerNetworks[0];
+  };
+
+  const claimUnassignedPowerStorage = (): void => {
+    const first = powerNetworks[0];
+    if (first !== undefined && unassignedPowerStorage > 0) {
+      const moved = Math.min(unassignedPowerStorage, Math.max(0, first.capacity - first.storage));
+      first.storage += moved;
+      unassignedPowerStorage -= moved;
+    }
+    unassignedPowerStorage = Math.min(unassignedPowerStorage, computePowerCapacityWithAccumulators(0));
   };
 
   const resetTickPowerAccounting = (): void => {
@@ -530,6 +799,12 @@ export const createSim = ({
     powerConsumedByKind = {};
     powerGeneratedByKind = {};
     powerShortagesThisTick = 0;
+    for (const network of powerNetworks) {
+      network.demandThisTick = 0;
+      network.consumedThisTick = 0;
+      network.generatedThisTick = 0;
+      network.shortagesThisTick = 0;
+    }
   };
 
   const addPowerRecord = (records: PowerBuckets, kind: string, amount: number): void => {
@@ -542,8 +817,8 @@ export const createSim = ({
 
   const getSimPowerState = (): SimPowerState => {
     return {
-      storage: powerStorage,
-      capacity: powerCapacity,
+      storage: getTotalPowerStorage(),
+      capacity: getTotalPowerCapacity(),
       demandThisTick: powerDemandThisTick,
       consumedThisTick: powerConsumedThisTick,
       generatedThisTick: powerGeneratedThisTick,
@@ -559,6 +834,8 @@ export const createSim = ({
       consumedByKind: { ...powerConsumedByKind },
       generatedByKind: { ...powerGeneratedByKind },
       shortagesThisTick: powerShortagesThisTick,
+      networks: powerNetworks.map(({ memberIds: _memberIds, ...network }) => network),
+      wires: powerGrid.wires.map((wire) => ({ ...wire, from: { ...wire.from }, to: { ...wire.to } })),
     };
   };
 
@@ -572,34 +849,59 @@ export const createSim = ({
     powerDemandTotal += requested;
     addPowerRecord(powerDemandByKind, kind, requested);
 
-    if (typeof consumerId === "string" && !powerConnectedConsumerIds.has(consumerId)) {
+    const network = resolvePowerNetwork(consumerId);
+    if (typeof consumerId === "string" && network === undefined) {
       powerShortagesThisTick += 1;
       powerShortagesTotal += 1;
       return false;
     }
 
-    if (requested > powerStorage) {
+    if (network !== undefined) {
+      network.demandThisTick += requested;
+    }
+
+    if (requested > (network === undefined ? unassignedPowerStorage : network.storage)) {
       powerShortagesThisTick += 1;
       powerShortagesTotal += 1;
+      if (network !== undefined) {
+        network.shortagesThisTick += 1;
+      }
       return false;
     }
 
-    powerStorage -= requested;
+    if (network === undefined) {
+      unassignedPowerStorage -= requested;
+    } else {
+      network.storage -= requested;
+      network.consumedThisTick += requested;
+    }
     powerConsumedThisTick += requested;
     powerConsumedTotal += requested;
     addPowerRecord(powerConsumedByKind, kind, requested);
     return true;
   };
 
-  const generatePower = (amount: unknown, kind = "unknown"): number => {
+  /** Energy from an entity on no network is lost; calls without an entity id feed the first network. */
+  const generatePower = (amount: unknown, kind = "unknown", producerId?: unknown): number => {
     if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
       return 0;
     }
 
+    const network = resolvePowerNetwork(producerId);
+    if (typeof producerId === "string" && network === undefined) {
+      return 0;
+    }
+
     const requested = Math.floor(amount);
-    const availableCapacity = Math.max(0, powerCapacity - powerStorage);
-    const granted = Math.min(requested, availableCapacity);
-    powerStorage += granted;
+    const storage = network === undefined ? unassignedPowerStorage : network.storage;
+    const capacity = network === undefined ? computePowerCapacityWithAccumulators(0) : network.capacity;
+    const granted = Math.min(requested, Math.max(0, capacity - storage));
+    if (network === undefined) {
+      unassignedPowerStorage += granted;
+    } else {
+      network.storage += granted;
+      network.generatedThisTick += granted;
+    }
     powerGeneratedThisTick += granted;
     powerGeneratedTotal += granted;
     addPowerRecord(powerGeneratedByKind, kind, granted);
@@ -610,6 +912,11 @@ export const createSim = ({
     entitiesById.clear();
     entitiesByCell.clear();
     cellKeyById.clear();
+    entitiesByChunk.clear();
+    chunkKeyById.clear();
+    dormantIds.clear();
+    dormantIdsByChunk.clear();
+    touchLayout();
     publicEntitiesById.clear();
     publicEntitiesByCell.clear();
     publicCellKeyById.clear();
@@ -649,122 +956,99 @@ export const createSim = ({
     powerNetworkState = safeState;
   };
 
-  const computePowerNetworkState = (): PowerNetworkAnalysis => {
-    const powerNodeIds = new Set<string>();
-    const producers = new Set<string>();
-    const consumers = new Set<string>();
-    const connectedConsumerIds = new Set<string>();
-    const nodesByCell = new Map<string, Set<string>>();
-    const nodesById = new Map<string, { x: number; y: number; isConsumer: boolean; isProducer: boolean }>();
-
-    for (const [id, entity] of entitiesById) {
-      const kind = String(entity.kind);
-      const isProducer = isPowerProducerKind(kind);
-      const isConsumer = isPowerConsumerKind(kind);
-
-      if (!isProducer && !isConsumer) {
-        continue;
-      }
-
-      const cellKey = toCellKey(entity.pos);
-      powerNodeIds.add(id);
-
-      if (isProducer) {
-        producers.add(id);
-      }
-      if (isConsumer) {
-        consumers.add(id);
-      }
-
-      nodesById.set(id, {
-        x: entity.pos.x,
-        y: entity.pos.y,
-        isConsumer,
-        isProducer,
-      });
-
-      let cellMembers = nodesByCell.get(cellKey);
-      if (cellMembers === undefined) {
-        cellMembers = new Set<string>();
-        nodesByCell.set(cellKey, cellMembers);
-      }
-      cellMembers.add(id);
+  /**
+   * Shares `storage` among the networks a previous one became, in proportion to their capacity, so both halves
+   * of a split keep their charge. Whole units only; the units left by rounding down go one each in member order.
+   */
+  const splitPowerStorage = (storage: number, heirs: ReadonlyArray<PowerNetworkAccount>): void => {
+    let totalCapacity = 0;
+    for (const heir of heirs) {
+      totalCapacity += heir.capacity;
     }
-
-    if (producers.size === 0) {
-      return {
-        producers: 0,
-        consumers: consumers.size,
-        connectedConsumers: 0,
-        disconnectedConsumers: consumers.size,
-        connectedConsumerIds,
-      };
+    if (totalCapacity <= 0) {
+      return;
     }
 
-    const searchQueue: string[] = Array.from(producers);
-    const visited = new Set<string>(searchQueue);
-
-    while (searchQueue.length > 0) {
-      const nodeId = searchQueue.shift();
-      if (nodeId === undefined) {
-        continue;
-      }
-
-      const node = nodesById.get(nodeId);
-      if (node === undefined) {
-        continue;
+    let remainder = storage;
+    for (const heir of heirs) {
+      const share = Math.floor((storage * heir.capacity) / totalCapacity);
+      heir.storage += share;
+      remainder -= share;
+    }
+    for (const heir of heirs) {
+      if (remainder <= 0) {
+        break;
       }
+      heir.storage += 1;
+      remainder -= 1;
+    }
+  };
 
-      if (node.isConsumer) {
-        connectedConsumerIds.add(nodeId);
+  /** Regroups power entities after the layout changed; each old network's energy is shared among its successors by capacity. */
+  const rebuildPowerNetworks = (): void => {
+    const previousNetworks = powerNetworks;
+    const nodes: Array<{ id: string; kind: string; pos: GridCoord }> = [];
+    let producers = 0;
+    let consumers = 0;
+    for (const [id, entity] of entitiesById) {
+      const kind = String(entity.kind);
+      const role = getPowerNodeRole(kind);
+      if (role === "producer") {
+        producers += 1;
+      } else if (role === "consumer") {
+        consumers += 1;
       }
+      nodes.push({ id, kind, pos: entity.pos });
+    }
 
-      const adjacentKeys = POWER_NET_NEIGHBOR_OFFSETS.map(({ x, y }) =>
-        toCellKey({ x: node.x + x, y: node.y + y }),
-      );
-
-      for (const adjacentKey of adjacentKeys) {
-        const adjacentNodeIds = nodesByCell.get(adjacentKey);
-        if (adjacentNodeIds === undefined) {
-          continue;
-        }
-
-        for (const adjacentId of adjacentNodeIds) {
-          if (visited.has(adjacentId)) {
-            continue;
-          }
-
-          const adjacentNode = nodesById.get(adjacentId);
-          if (adjacentNode === undefined) {
-            continue;
-          }
-
-          if (!nodesById.has(adjacentId) || !powerNodeIds.has(adjacentId)) {
-            continue;
-          }
-
-          if (adjacentNode.isProducer || adjacentNode.isConsumer) {
-            visited.add(adjacentId);
-            searchQueue.push(adjacentId);
-          }
+    powerGrid = computePowerGridLayout(nodes);
+    powerNetworks = powerGrid.networks.map((layout) => ({
+      ...layout,
+      storage: 0,
+      capacity: computePowerCapacityWithAccumulators(layout.accumulators),
+      demandThisTick: 0,
+      consumedThisTick: 0,
+      generatedThisTick: 0,
+      shortagesThisTick: 0,
+    }));
+    for (const previous of previousNetworks) {
+      const heirs: PowerNetworkAccount[] = [];
+      for (const id of previous.memberIds) {
+        const heir = powerGrid.networkIndexById.has(id) ? getPowerNetworkOf(id) : undefined;
+        if (heir !== undefined && !heirs.includes(heir)) {
+          heirs.push(heir);
         }
       }
+      splitPowerStorage(previous.storage, heirs);
+    }
+    for (const network of powerNetworks) {
+      network.storage = Math.min(network.storage, network.capacity);
     }
 
-    const connectedConsumers = connectedConsumerIds.size;
-    const totalConsumers = consumers.size;
-
-    return {
-      producers: producers.size,
-      consumers: totalConsumers,
+    let connectedConsumers = 0;
+    for (const network of powerNetworks) {
+      connectedConsumers += network.consumers;
+    }
+    powerGridCounts = {
+      producers,
+      consumers,
       connectedConsumers,
-      disconnectedConsumers: Math.max(0, totalConsumers - connectedConsumers),
-      connectedConsumerIds,
+      disconnectedConsumers: Math.max(0, consumers - connectedConsumers),
     };
+    powerGridLayoutToken = layoutToken;
   };
 
   let isRestoring = false;
 
+  const refreshPowerNetworkState = (): void => {
+    if (powerGridLayoutToken !== layoutToken) {
+      rebuildPowerNetworks();
+    }
+    // Re-applied every tick so counts set through `setPowerNetworkState` only last until the next one.
+    powerNetworkState = { ...powerGridCounts };
+    claimUnassignedPowerStorage();
+  };
+
   const restoreFromPayload = (payload: CreateSimConfig["restore"]): void => {
     if (!isObject(payload) || isRestoring) {
       return;
@@ -777,16 +1061,17 @@ export const createSim = ({
       tick = clampRestoreInteger(payload.tick);
       tickCount = clampRestoreInteger(payload.tickCount);
       elapsedMs = clampRestoreFloat(payload.elapsedMs);
+      // Saves from before the cycle existed resume where a game started at the default time would be.
+      dayTicks = typeof payload.dayTicks === "number" ? normalizeDayTicks(payload.dayTicks) : getDefaultDayTicks(tick);
       accumulatorMs = clampRestoreFloat(payload.accumulatorMs);
           powerCapacityBase = normalizePowerCapacity(payload.power?.capacity);
-          powerStorage = normalizePowerPositive(payload.power?.storage, DEFAULT_POWER_STORAGE);
+          const restoredStorage = normalizePowerPositive(payload.power?.storage, DEFAULT_POWER_STORAGE);
           powerDemandTotal = normalizePowerPositive(payload.power?.demandTotal, 0);
       powerConsumedTotal = normalizePowerPositive(payload.power?.consumedTotal, 0);
       powerGeneratedTotal = normalizePowerPositive(payload.power?.generatedTotal, 0);
       powerShortagesTotal = normalizePowerPositive(payload.power?.shortagesTotal, 0);
-      powerStorage = Math.min(powerStorage, powerCapacityBase);
-      powerStorage = Math.max(0, powerStorage);
-      applyDynamicPowerCapacity(0);
+      powerNetworks = [];
+      powerGridLayoutToken = null;
       resetTickPowerAccounting();
 
       const rawEntities = payload.entities;
@@ -816,13 +1101,31 @@ export const createSim = ({
         }
       }
 
-      let restoredAccumulatorCount = 0;
-      for (const entity of entitiesById.values()) {
-        if (entity.kind === "accumulator") {
-          restoredAccumulatorCount += 1;
+      // Networks and their accumulators exist only now, so stored energy is placed and clamped last.
+      rebuildPowerNetworks();
+      unassignedPowerStorage = restoredStorage;
+      const savedNetworks = payload.power?.networks;
+      if (Array.isArray(savedNetworks)) {
+        for (const saved of savedNetworks) {
+          if (!isObject(saved) || typeof saved.x !== "number" || typeof saved.y !== "number") {
+            continue;
+          }
+
+          const member = Array.from(entitiesByCell.get(toCellKey({ x: saved.x, y: saved.y })) ?? []).find(
+            (id) => getPowerNetworkOf(id) !== undefined,
+          );
+          const network = member === undefined ? undefined : getPowerNetworkOf(member);
+          const storage = Math.min(normalizePowerPositive(saved.storage, 0), unassignedPowerStorage);
+          if (network === undefined) {
+            continue;
+          }
+
+          const placed = Math.min(storage, Math.max(0, network.capacity - network.storage));
+          network.storage += placed;
+          unassignedPowerStorage -= placed;
         }
       }
-      applyDynamicPowerCapacity(restoredAccumulatorCount);
+      refreshPowerNetworkState();
       resetStartupProbeForRestore();
       publishPublicState();
     } finally {
@@ -830,8 +1133,14 @@ export const createSim = ({
     }
   };
 
-  const getEntityById = (id: string): EntityBase | undefined => {
-    return getInternalEntityById(id);
+  const getEntityById = (id: string): EntityBase | undefined => getInternalEntityById(id);
+
+  /** Wakes the entity and its neighbours after code outside the sim changed its state. */
+  const notifyEntityChanged = (id: string): void => {
+    const entity = entitiesById.get(id);
+    if (entity !== undefined) {
+      wakeEntitiesNear(entity.pos);
+    }
   };
 
   const getEntitiesAt = (pos: GridCoord): EntityBase[] => {
@@ -859,6 +1168,39 @@ export const createSim = ({
     return Array.from(publicEntitiesById.values());
   };
 
+  /** Entities inside the rectangle spanned by `from` and `to`, corners included; only the chunks it overlaps are scanned. */
+  const getEntitiesInArea = (from: GridCoord, to: GridCoord): EntityBase[] => {
+    const minX = Math.min(from.x, to.x);
+    const maxX = Math.max(from.x, to.x);
+    const minY = Math.min(from.y, to.y);
+    const maxY = Math.max(from.y, to.y);
+    const entities: EntityBase[] = [];
+
+    for (let chunkY = toChunkCoord(minY); chunkY <= toChunkCoord(maxY); chunkY += 1) {
+      for (let chunkX = toChunkCoord(minX); chunkX <= toChunkCoord(maxX); chunkX += 1) {
+        const chunkIds = entitiesByChunk.get(`${chunkX},${chunkY}`);
+        if (chunkIds === undefined) {
+          continue;
+        }
+
+        for (const id of chunkIds) {
+          const entity = publicEntitiesById.get(id);
+          if (
+            entity !== undefined &&
+            entity.pos.x >= minX &&
+            entity.pos.x <= maxX &&
+            entity.pos.y >= minY &&
+            entity.pos.y <= maxY
+          ) {
+            entities.push(entity);
+          }
+        }
+      }
+    }
+
+    return entities;
+  };
+
   const addEntity = (
     descriptorOrKind: EntityDescriptor | EntityKind | (string & {}),
     initArg?: EntityInit,
@@ -896,32 +1238,83 @@ export const createSim = ({
     } as EntityBase;
 
     entitiesById.set(id, entity);
-    indexInCell(id, entity.pos, {
-      entitiesByCell,
-      cellKeyById,
-    });
+    indexEntity(id, entity.pos);
+    wakeEntitiesNear(entity.pos);
     if (!isRestoring) {
       publishAfterMutation();
+      emitEvent({ type: "entity-placed", entityId: id, kind, pos: { ...entity.pos } });
     }
 
     return id;
   };
 
   const removeEntity = (id: string): boolean => {
-    const existed = entitiesById.delete(id);
-    if (!existed) {
+    const entity = entitiesById.get(id);
+    if (entity === undefined) {
       return false;
     }
 
+    wakeEntity(id);
+    entitiesById.delete(id);
     removeFromIndexedCell(id, {
       entitiesByCell,
       cellKeyById,
     });
+    removeFromIndexedCell(id, {
+      entitiesByCell: entitiesByChunk,
+      cellKeyById: chunkKeyById,
+    });
+    touchLayout();
+    wakeEntitiesNear(entity.pos);
     publishAfterMutation();
+    emitEvent({ type: "entity-removed", entityId: id, kind: entity.kind, pos: { ...entity.pos } });
     return true;
   };
 
+  let stateHashRecording: StateHashRecordingOptions | null = null;
+  let stateHashLog: SimStateHash[] = [];
+
+  const getStateHash = (options: StateHashOptions = {}): SimStateHash => {
+    const entities: Record<string, string> = {};
+    for (const entity of entitiesById.values()) {
+      entities[entity.id] = hashStateValue([entity.kind, entity.pos.x, entity.pos.y, entity.rot, entity.state]);
+    }
+
+    return combineStateHash({
+      tick,
+      clock: hashStateValue([tick, tickCount, elapsedMs, dayTicks]),
+      entities,
+      resources: hashMapResources(worldMap),
+      power: hashStateValue(getSimPowerState()),
+      player: hashStateValue(options.player ?? null),
+    });
+  };
+
+  const recordStateHash = (): void => {
+    if (stateHashRecording === null || tick % stateHashRecording.every !== 0) {
+      return;
+    }
+
+    stateHashLog.push(getStateHash({ player: stateHashRecording.player?.() }));
+  };
+
+  let profiler: TickProfiler | null = null;
+
+  /** Runs `run` under a profiler section, or directly while profiling is off. */
+  const profile = <T>(section: string, run: () => T): T => {
+    return profiler === null ? run() : profiler.measure(section, run);
+  };
+
   const runTick = (): void => {
+    if (profiler !== null) {
+      profiler.measureTick(runTickUnprofiled);
+      return;
+    }
+
+    runTickUnprofiled();
+  };
+
+  const runTickUnprofiled = (): void => {
     runningStep = true;
     try {
       advanceStartupProbeState();
@@ -940,52 +1333,9 @@ export const createSim = ({
         idsAtCell.add(id);
       }
 
-      let accumulatorCount = 0;
-      for (const entitySnapshot of tickStartEntitySnapshotById.values()) {
-        if (entitySnapshot.kind === "accumulator") {
-          accumulatorCount += 1;
-        }
-      }
-      applyDynamicPowerCapacity(accumulatorCount);
-
-      const network = computePowerNetworkState();
-      powerNetworkState = {
-        producers: network.producers,
-        consumers: network.consumers,
-        connectedConsumers: network.connectedConsumers,
-        disconnectedConsumers: network.disconnectedConsumers,
-      };
-      powerConnectedConsumerIds = network.connectedConsumerIds;
-
-      const ids = Array.from(entitiesById.keys()).sort((leftId, rightId) => {
-        const leftEntity = entitiesById.get(leftId);
-        const rightEntity = entitiesById.get(rightId);
-        if (leftEntity === undefined || rightEntity === undefined) {
-          return 0;
-        }
-
-        const phaseRankDiff =
-          getCanonicalTickRank(leftEntity.kind) - getCanonicalTickRank(rightEntity.kind);
-        if (phaseRankDiff !== 0) {
-          return phaseRankDiff;
-        }
-
-        const leftOrder = insertionOrderById.get(leftId);
-        const rightOrder = insertionOrderById.get(rightId);
-        if (leftOrder === rightOrder) {
-          return 0;
-        }
-
-        if (leftOrder === undefined) {
-          return 1;
-        }
-
-        if (rightOrder === undefined) {
-          return -1;
-        }
+      profile("power", refreshPowerNetworkState);
 
-        return leftOrder - rightOrder;
-      });
+      const ids = getTickOrder();
 
       const getTickStartEntitiesAt = (pos: GridCoord): EntityBase[] => {
         if (isOutOfBounds(pos, worldWidth, worldHeight)) {
@@ -1021,6 +1371,8 @@ export const createSim = ({
         height: worldHeight,
         tick,
         tickCount,
+        /** Share of full sunlight this tick, from 0 at night to 1 by day. */
+        daylight: getDayNightState(dayTicks).daylight,
         map: worldMap,
         getMap: (): GeneratedMap | undefined => worldMap,
         getEntitiesAt: getTickStartEntitiesAt,
@@ -1032,8 +1384,14 @@ export const createSim = ({
         consumePower,
         generatePower,
         isPowerConsumerConnected: (entityId: string): boolean =>
-          powerConnectedConsumerIds.has(entityId),
+          getPowerNetworkOf(entityId) !== undefined,
         getPowerState: getSimPowerState,
+        profile,
+        layoutToken,
+        isEntityDormant: (entityId: string): boolean => dormantIds.has(entityId),
+        setEntityDormant,
+        wakeEntitiesNear,
+        emitEvent: events.hasListeners() ? emitEvent : undefined,
       };
 
       for (const id of ids) {
@@ -1052,30 +1410,48 @@ export const createSim = ({
         }
 
         const previousPos = { x: entity.pos.x, y: entity.pos.y };
-        definition.update(entity, SIM_TICK_CADENCE_MS, updateContext);
+        if (profiler === null) {
+          definition.update(entity, SIM_TICK_CADENCE_MS, updateContext);
+        } else {
+          const update = definition.update;
+          profiler.measure(`kind:${entity.kind}`, () => update(entity, SIM_TICK_CADENCE_MS, updateContext));
+        }
 
         if (
           entitiesById.has(id) &&
           (previousPos.x !== entity.pos.x || previousPos.y !== entity.pos.y)
         ) {
-          indexInCell(id, entity.pos, {
-            entitiesByCell,
-            cellKeyById,
-          });
+          wakeEntity(id);
+          wakeEntitiesNear(previousPos);
+          indexEntity(id, entity.pos);
+          wakeEntitiesNear(entity.pos);
         }
       }
 
+      if (powerShortagesThisTick > 0) {
+        emitEvent({
+          type: "power-shortage",
+          shortages: powerShortagesThisTick,
+          demand: powerDemandThisTick,
+          consumed: powerConsumedThisTick,
+        });
+      }
+
       tick += 1;
       tickCount += 1;
       elapsedMs += SIM_TICK_CADENCE_MS;
+      dayTicks = normalizeDayTicks(dayTicks + 1);
       advanceStartupProbeState();
       publishPublicState();
+      recordStateHash();
     } catch (error) {
+      pendingEvents = [];
       markStartupProbeError(error);
       throw error;
     } finally {
       runningStep = false;
     }
+    flushPendingEvents();
   };
 
   const step = (dtMs: number): void => {
@@ -1127,11 +1503,50 @@ export const createSim = ({
     restoreState(payload: CreateSimConfig["restore"]): void {
       restoreFromPayload(payload);
     },
+    exportState(): SimExportedState {
+      return {
+        tick,
+        tickCount,
+        elapsedMs,
+        dayTicks,
+        accumulatorMs,
+        paused,
+        entities: getInternalAllEntities().map((entity) => ({
+          kind: entity.kind,
+          pos: { x: entity.pos.x, y: entity.pos.y },
+          rot: entity.rot,
+          ...(entity.state === undefined ? {} : { state: cloneExportValue(entity.state) }),
+        })),
+        power: {
+          storage: getTotalPowerStorage(),
+          capacity: powerCapacityBase,
+          demandTotal: powerDemandTotal,
+          consumedTotal: powerConsumedTotal,
+          generatedTotal: powerGeneratedTotal,
+          shortagesTotal: powerShortagesTotal,
+          networks: powerNetworks.flatMap((network) => {
+            const anchor = entitiesById.get(network.id);
+            return anchor === undefined ? [] : [{ x: anchor.pos.x, y: anchor.pos.y, storage: network.storage }];
+          }),
+        },
+      };
+    },
     addEntity,
     removeEntity,
     getEntityById,
+    notifyEntityChanged,
     getEntitiesAt,
+    getEntitiesInArea,
     getAllEntities,
+    /** Ids of entities currently asleep, in no particular order. */
+    getDormantEntityIds(): string[] {
+      return Array.from(dormantIds);
+    },
+    /** Wakes every entity; call after changing something the sim cannot see, such as map resources. */
+    wakeAllEntities(): void {
+      dormantIds.clear();
+      dormantIdsByChunk.clear();
+    },
     get paused(): boolean {
       return paused;
     },
@@ -1153,11 +1568,21 @@ export const createSim = ({
     get elapsedMs(): number {
       return elapsedMs;
     },
+    getDayNight(): DayNightState {
+      return getDayNightState(dayTicks);
+    },
+    /** Jumps the day/night cycle to `timeOfDay`, a fraction of the day where 0 is midnight and 0.5 is noon. */
+    setTimeOfDay(timeOfDay: number): void {
+      if (!Number.isFinite(timeOfDay)) {
+        throw new RangeError("timeOfDay must be a finite number");
+      }
+      dayTicks = normalizeDayTicks(Math.round(timeOfDay * DAY_LENGTH_TICKS));
+    },
     get powerStorage(): number {
-      return powerStorage;
+      return getTotalPowerStorage();
     },
     get powerCapacity(): number {
-      return powerCapacity;
+      return getTotalPowerCapacity();
     },
     consumePower,
     generatePower,
@@ -1172,6 +1597,36 @@ export const createSim = ({
     }): void {
       applyPowerNetworkState(payload);
     },
+    /** Subscribes to one event type; events raised during a tick arrive once it finishes. Returns an unsubscribe function. */
+    on: events.on,
+    /** Subscribes to every event type. Returns an unsubscribe function. */
+    onAny: events.onAny,
+    getStateHash,
+    /** Starts a fresh hash log; pass `null` to stop recording and keep the log. */
+    setStateHashRecording(options: StateHashRecordingOptions | null): void {
+      if (options !== null && (!Number.isInteger(options.every) || options.every <= 0)) {
+        throw new RangeError("every must be a positive integer");
+      }
+
+      if (options !== null) {
+        stateHashLog = [];
+      }
+      stateHashRecording = options;
+    },
+    getStateHashLog(): SimStateHash[] {
+      return stateHashLog.slice();
+    },
+    /** Starts a fresh rolling profile of tick sections, or stops profiling with `null`. */
+    setProfiling(options: ProfilingOptions | null): void {
+      profiler = options === null ? null : createTickProfiler(options);
+    },
+    isProfiling(): boolean {
+      return profiler !== null;
+    },
+    getProfile(): TickProfile | null {
+      return profiler?.getProfile() ?? null;
+    },
+    profile,
     step,
   };
 
@@ -0,0 +1,15 @@
+import { createSimWorkerHost, type SimWorkerRequest, type SimWorkerResponse } from "./sim-worker";
+
+// The DOM lib types `self` as a window; inside a dedicated worker only these two members are used.
+const scope = self as unknown as {
+  postMessage: (message: SimWorkerResponse, transfer: Transferable[]) => void;
+  addEventListener: (type: "message", listener: (event: MessageEvent<SimWorkerRequest>) => void) => void;
+};
+
+const host = createSimWorkerHost((message, transfer = []) => {
+  scope.postMessage(message, transfer);
+});
+
+scope.addEventListener("message", (event) => {
+  host.handle(event.data);
+});
@@ -7,6 +7,29 @@ import type {
   SimCommittedTiming,
   StartupProbeState,
 } from "./types";
+import { isItemKind } from "./items";
+import { BELT_LANE_LENGTH, normalizeBeltLanes } from "./belt-lanes";
+import { normalizeInserterFilter } from "./inserters";
+import { forEachMapTile } from "./map";
+import {
+  BOILER_STEAM_CAPACITY,
+  STEAM_ENGINE_MAX_POWER_PER_TICK,
+  isBeltTierKind,
+  isInserterKind,
+} from "./registry";
+import {
+  UNDERGROUND_BELT_KIND,
+  findUndergroundBeltPartner,
+  getUndergroundBeltMode,
+  type UndergroundBeltMode,
+} from "./underground";
+import {
+  FLUID_BOX_CAPACITY,
+  getFluidConnections,
+  isFluidEntityKind,
+  normalizeFluidBox,
+  type FluidKind,
+} from "./fluids";
 
 export type SnapshotGrid = {
   readonly width: number;
@@ -28,6 +51,26 @@ export type SnapshotOreCell = {
   readonly y: number;
 };
 
+export type SnapshotBeltLaneItem = {
+  readonly item: ItemKind;
+  /** Position along the tile in `[0, 1]`, from entry to exit. */
+  readonly pos: number;
+};
+
+export type SnapshotUndergroundBelt = {
+  readonly mode: UndergroundBeltMode;
+  /** Tile of the paired entrance or exit, or `null` while unpaired. */
+  readonly partner: GridCoord | null;
+};
+
+export type SnapshotFluidBox = {
+  readonly fluid: FluidKind | null;
+  readonly amount: number;
+  readonly capacity: number;
+  /** Sides joined to a neighbouring fluid box, for drawing pipe joints. */
+  readonly connections: ReadonlyArray<Direction>;
+};
+
 export type SnapshotEntity = {
   readonly id: string;
   readonly kind: EntityKind;
@@ -35,14 +78,22 @@ export type SnapshotEntity = {
   readonly rot: Direction;
   readonly light?: unknown;
   readonly items?: ReadonlyArray<ItemKind | null>;
+  /** Left and right lane contents, front-first, for belts that track per-item positions. */
+  readonly lanes?: ReadonlyArray<ReadonlyArray<SnapshotBeltLaneItem>>;
+  readonly underground?: SnapshotUndergroundBelt;
   readonly accept?: ItemKind;
   readonly hasOutput?: boolean;
   readonly justMined?: boolean;
   readonly state?: "idle" | "pickup" | "swing" | "drop";
   readonly holding?: ItemKind | null;
+  /** Inserter item whitelist; omitted when the inserter takes anything. */
+  readonly filter?: ReadonlyArray<ItemKind>;
   readonly inputOccupied?: boolean;
   readonly outputOccupied?: boolean;
   readonly progress01?: number;
+  readonly recipe?: string;
+  /** Fluid box of pipes, pumps, tanks and boilers. */
+  readonly fluid?: SnapshotFluidBox;
 };
 
 export type SnapshotPlayer = {
@@ -53,6 +104,16 @@ export type SnapshotPlayer = {
   readonly rot?: Direction;
 };
 
+/** Where the sim is in its day/night cycle; see `src/core/daylight.ts`. */
+export type SnapshotDayNight = {
+  readonly dayTicks: number;
+  readonly dayLengthTicks: number;
+  /** Fraction of the day that has passed: 0 is midnight, 0.5 is noon. */
+  readonly timeOfDay: number;
+  /** Share of full sunlight, from 0 at night to 1 during the day. */
+  readonly daylight: number;
+};
+
 export type Snapshot = Readonly<{
   readonly grid: SnapshotGrid;
   readonly time: SnapshotTiming;
@@ -60,8 +121,13 @@ export type Snapshot = Readonly<{
   readonly ore: ReadonlyArray<Readonly<SnapshotOreCell>>;
   readonly coal: ReadonlyArray<Readonly<SnapshotOreCell>>;
   readonly wood: ReadonlyArray<Readonly<SnapshotOreCell>>;
+  readonly copper: ReadonlyArray<Readonly<SnapshotOreCell>>;
+  readonly stone: ReadonlyArray<Readonly<SnapshotOreCell>>;
+  readonly water: ReadonlyArray<Readonly<SnapshotOreCell>>;
+  readonly cliffs: ReadonlyArray<Readonly<SnapshotOreCell>>;
   readonly entities: ReadonlyArray<SnapshotEntity>;
   readonly player?: SnapshotPlayer;
+  readonly dayNight?: SnapshotDayNight;
 }>;
 
 type SnapshotMap = {
@@ -69,8 +135,14 @@ type SnapshotMap = {
   readonly height: number;
   readonly isOre: (x: number, y: number) => boolean;
   readonly isCoal: (x: number, y: number) => boolean;
+  readonly isCopper?: (x: number, y: number) => boolean;
+  readonly isStone?: (x: number, y: number) => boolean;
   readonly isTree: (x: number, y: number) => boolean;
+  readonly isWater?: (x: number, y: number) => boolean;
+  readonly isCliff?: (x: number, y: number) => boolean;
   readonly getResourceRevision?: () => unknown;
+  readonly chunkSize?: number;
+  readonly getGeneratedChunks?: () => GridCoord[];
 };
 
 type SnapshotSim = {
@@ -87,6 +159,7 @@ type SnapshotSim = {
   readonly getMap?: () => SnapshotMap;
   readonly player?: unknown;
   readonly getPlayerSnapshot?: () => unknown;
+  readonly getDayNight?: () => SnapshotDayNight;
 };
 
 type SnapshotState = Record<string, unknown>;
@@ -102,6 +175,9 @@ type SnapshotPublicationState = {
   snapshotHeight?: number;
   snapshotTileSize?: number;
   snapshotMap?: SnapshotMap;
+  snapshotDayTicks?: number;
+  /** Chunked maps gain tiles between ticks as they are explored. */
+  snapshotResourceRevision?: number;
 };
 
 const snapshotStateBySim = new WeakMap<object, SnapshotPublicationState>();
@@ -213,16 +289,6 @@ const cloneSnapshotValue = (value: unknown, seen = new WeakMap<object, unknown>(
   return clone;
 };
 
-const isItemKind = (value: unknown): value is ItemKind => {
-  return (
-    value === "iron-ore" ||
-    value === "iron-plate" ||
-    value === "coal" ||
-    value === "iron-gear" ||
-    value === "wood"
-  );
-};
-
 const clampProgress01 = (value: number): number => {
   if (value <= 0) {
     return 0;
@@ -283,13 +349,11 @@ const getPlacementTiming = (
 const createOreList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
   const cells: SnapshotOreCell[] = [];
 
-  for (let y = 0; y < map.height; y += 1) {
-    for (let x = 0; x < map.width; x += 1) {
-      if (map.isOre(x, y)) {
-        cells.push({ x, y });
-      }
+  forEachMapTile(map, (x, y) => {
+    if (map.isOre(x, y)) {
+      cells.push({ x, y });
     }
-  }
+  });
 
   return cells;
 };
@@ -297,13 +361,11 @@ const createOreList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell
 const createCoalList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
   const cells: SnapshotOreCell[] = [];
 
-  for (let y = 0; y < map.height; y += 1) {
-    for (let x = 0; x < map.width; x += 1) {
-      if (map.isCoal(x, y)) {
-        cells.push({ x, y });
-      }
+  forEachMapTile(map, (x, y) => {
+    if (map.isCoal(x, y)) {
+      cells.push({ x, y });
     }
-  }
+  });
 
   return cells;
 };
@@ -311,14 +373,76 @@ const createCoalList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCel
 const createWoodList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
   const cells: SnapshotOreCell[] = [];
 
-  for (let y = 0; y < map.height; y += 1) {
-    for (let x = 0; x < map.width; x += 1) {
-      if (map.isTree(x, y)) {
-        cells.push({ x, y });
-      }
+  forEachMapTile(map, (x, y) => {
+    if (map.isTree(x, y)) {
+      cells.push({ x, y });
     }
+  });
+
+  return cells;
+};
+
+const createCopperList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  const cells: SnapshotOreCell[] = [];
+  const isCopper = map.isCopper;
+  if (typeof isCopper !== "function") {
+    return cells;
   }
 
+  forEachMapTile(map, (x, y) => {
+    if (isCopper(x, y)) {
+      cells.push({ x, y });
+    }
+  });
+
+  return cells;
+};
+
+const createStoneList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  const cells: SnapshotOreCell[] = [];
+  const isStone = map.isStone;
+  if (typeof isStone !== "function") {
+    return cells;
+  }
+
+  forEachMapTile(map, (x, y) => {
+    if (isStone(x, y)) {
+      cells.push({ x, y });
+    }
+  });
+
+  return cells;
+};
+
+const createWaterList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  const cells: SnapshotOreCell[] = [];
+  const isWater = map.isWater;
+  if (typeof isWater !== "function") {
+    return cells;
+  }
+
+  forEachMapTile(map, (x, y) => {
+    if (isWater(x, y)) {
+      cells.push({ x, y });
+    }
+  });
+
+  return cells;
+};
+
+const createCliffList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  const cells: SnapshotOreCell[] = [];
+  const isCliff = map.isCliff;
+  if (typeof isCliff !== "function") {
+    return cells;
+  }
+
+  forEachMapTile(map, (x, y) => {
+    if (isCliff(x, y)) {
+      cells.push({ x, y });
+    }
+  });
+
   return cells;
 };
 
@@ -330,6 +454,15 @@ const toFiniteInt = (value: unknown): number | null => {
   return Math.floor(value);
 };
 
+const createDayNightSnapshot = (sim: SnapshotSim): SnapshotDayNight | undefined => {
+  if (typeof sim.getDayNight !== "function") {
+    return undefined;
+  }
+
+  const { dayTicks, dayLengthTicks, timeOfDay, daylight } = sim.getDayNight();
+  return { dayTicks, dayLengthTicks, timeOfDay, daylight };
+};
+
 const createPlayerSnapshot = (sim: SnapshotSim): SnapshotPlayer | undefined => {
   let source: unknown = undefined;
   if (typeof sim.getPlayerSnapshot === "function") {
@@ -420,6 +553,10 @@ type CachedResourceList = Map<number, ReadonlyArray<Readonly<SnapshotOreCell>>>;
 const oreListCache = new WeakMap<object, CachedResourceList>();
 const coalListCache = new WeakMap<object, CachedResourceList>();
 const woodListCache = new WeakMap<object, CachedResourceList>();
+const copperListCache = new WeakMap<object, CachedResourceList>();
+const stoneListCache = new WeakMap<object, CachedResourceList>();
+const waterListCache = new WeakMap<object, CachedResourceList>();
+const cliffListCache = new WeakMap<object, CachedResourceList>();
 
 const getMapResourceRevision = (map: SnapshotMap): number => {
   const rawRevision = typeof map.getResourceRevision === "function" ? map.getResourceRevision() : 0;
@@ -468,6 +605,22 @@ const getCachedWoodList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOre
   return getCachedResourceList(woodListCache, map, createWoodList);
 };
 
+const getCachedCopperList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  return getCachedResourceList(copperListCache, map, createCopperList);
+};
+
+const getCachedStoneList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  return getCachedResourceList(stoneListCache, map, createStoneList);
+};
+
+const getCachedWaterList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  return getCachedResourceList(waterListCache, map, createWaterList);
+};
+
+const getCachedCliffList = (map: SnapshotMap): ReadonlyArray<Readonly<SnapshotOreCell>> => {
+  return getCachedResourceList(cliffListCache, map, createCliffList);
+};
+
 const extractLightState = (entity: EntityBase): unknown => {
   const state = asSnapshotState(entity.state);
   if (state !== undefined && "light" in state) {
@@ -490,6 +643,18 @@ const extractBeltItems = (state: SnapshotState | undefined): ReadonlyArray<ItemK
   return asItemList(state.slots) ?? [];
 };
 
+const extractBeltLanes = (
+  state: SnapshotState | undefined,
+): ReadonlyArray<ReadonlyArray<SnapshotBeltLaneItem>> | undefined => {
+  if (state === undefined || !Array.isArray(state.lanes)) {
+    return undefined;
+  }
+
+  return normalizeBeltLanes(state.lanes).map((lane) =>
+    lane.map((entry) => ({ item: entry.item, pos: entry.progress / BELT_LANE_LENGTH })),
+  );
+};
+
 const extractBeltAccept = (state: SnapshotState | undefined): ItemKind | undefined => {
   if (!isItemKind(state?.accept)) {
     return undefined;
@@ -574,6 +739,11 @@ const extractInserterHolding = (state: SnapshotState | undefined): ItemKind | nu
   return null;
 };
 
+const extractInserterFilter = (state: SnapshotState | undefined): { filter?: ItemKind[] } => {
+  const filter = normalizeInserterFilter(state?.filter);
+  return filter.length === 0 ? {} : { filter };
+};
+
 const extractFurnaceBooleanField = (state: SnapshotState | undefined, key: "inputOccupied" | "outputOccupied"): boolean | undefined => {
   if (state === undefined) {
     return undefined;
@@ -610,6 +780,11 @@ const extractFurnaceProgress = (state: SnapshotState | undefined): number => {
   return 0;
 };
 
+const extractAssemblerRecipe = (state: SnapshotState | undefined): { recipe?: string } => {
+  const recipeId = state?.recipeId;
+  return typeof recipeId === "string" && recipeId.length > 0 ? { recipe: recipeId } : {};
+};
+
 const deepFreezeSnapshot = (value: unknown, seen = new WeakSet<object>()): void => {
   if (!isObject(value) || seen.has(value)) {
     return;
@@ -632,7 +807,48 @@ const deepFreezeSnapshot = (value: unknown, seen = new WeakSet<object>()): void
   Object.freeze(value);
 };
 
-const createEntitySnapshot = (entity: EntityBase): SnapshotEntity => {
+type SnapshotEntityLookup = (pos: GridCoord) => EntityBase[];
+
+const createEntityLookup = (entities: ReadonlyArray<EntityBase>): SnapshotEntityLookup => {
+  const entitiesByTile = new Map<string, EntityBase[]>();
+  for (const entity of entities) {
+    const key = `${entity.pos.x},${entity.pos.y}`;
+    const bucket = entitiesByTile.get(key);
+    if (bucket === undefined) {
+      entitiesByTile.set(key, [entity]);
+    } else {
+      bucket.push(entity);
+    }
+  }
+
+  return (pos) => entitiesByTile.get(`${pos.x},${pos.y}`) ?? [];
+};
+
+const extractUndergroundBelt = (entity: EntityBase, getAt: SnapshotEntityLookup): SnapshotUndergroundBelt => {
+  const partner = findUndergroundBeltPartner(entity, getAt);
+  return {
+    mode: getUndergroundBeltMode(entity.state),
+    partner: partner === null ? null : { x: partner.pos.x, y: partner.pos.y },
+  };
+};
+
+const extractFluidBox = (entity: EntityBase, getAt: SnapshotEntityLookup): { fluid?: SnapshotFluidBox } => {
+  if (!isFluidEntityKind(entity.kind)) {
+    return {};
+  }
+
+  const box = normalizeFluidBox(asSnapshotState(entity.state)?.fluidBox, entity.kind);
+  return {
+    fluid: {
+      fluid: box.fluid,
+      amount: box.amount,
+      capacity: FLUID_BOX_CAPACITY[entity.kind],
+      connections: getFluidConnections(entity, getAt),
+    },
+  };
+};
+
+const createEntitySnapshot = (entity: EntityBase, getAt: SnapshotEntityLookup): SnapshotEntity => {
   const entityState = asSnapshotState(entity.state);
   const baseSnapshot: SnapshotEntity = {
     id: entity.id,
@@ -642,11 +858,14 @@ const createEntitySnapshot = (entity: EntityBase): SnapshotEntity => {
     light: cloneSnapshotValue(extractLightState(entity)),
   };
 
-  if (entity.kind === "belt" || entity.kind === "splitter") {
+  if (isBeltTierKind(entity.kind) || entity.kind === "splitter" || entity.kind === UNDERGROUND_BELT_KIND) {
     const accept = extractBeltAccept(entityState);
+    const lanes = extractBeltLanes(entityState);
     return {
       ...baseSnapshot,
       items: extractBeltItems(entityState),
+      ...(lanes === undefined ? {} : { lanes }),
+      ...(entity.kind === UNDERGROUND_BELT_KIND ? { underground: extractUndergroundBelt(entity, getAt) } : {}),
       ...(accept === undefined ? {} : { accept }),
     };
   }
@@ -661,11 +880,12 @@ const createEntitySnapshot = (entity: EntityBase): SnapshotEntity => {
     };
   }
 
-  if (entity.kind === "inserter") {
+  if (isInserterKind(entity.kind)) {
     return {
       ...baseSnapshot,
       state: extractInserterState(entity.state),
       holding: extractInserterHolding(entityState),
+      ...extractInserterFilter(entityState),
     };
   }
 
@@ -675,9 +895,27 @@ const createEntitySnapshot = (entity: EntityBase): SnapshotEntity => {
       inputOccupied: extractFurnaceBooleanField(entityState, "inputOccupied") ?? false,
       outputOccupied: extractFurnaceBooleanField(entityState, "outputOccupied") ?? false,
       progress01: extractFurnaceProgress(entityState),
+      ...(entity.kind === "assembler" ? extractAssemblerRecipe(entityState) : {}),
+    };
+  }
+
+  // Boilers report how full of steam they are, steam engines how hard they ran on the last tick.
+  if (entity.kind === "boiler" || entity.kind === "steam-engine") {
+    const [field, full] = entity.kind === "boiler"
+      ? ["steam", BOILER_STEAM_CAPACITY] as const
+      : ["output", STEAM_ENGINE_MAX_POWER_PER_TICK] as const;
+    const value = entityState?.[field];
+    return {
+      ...baseSnapshot,
+      progress01: typeof value === "number" && Number.isFinite(value) ? clampProgress01(value / full) : 0,
+      ...extractFluidBox(entity, getAt),
     };
   }
 
+  if (isFluidEntityKind(entity.kind)) {
+    return { ...baseSnapshot, ...extractFluidBox(entity, getAt) };
+  }
+
   return baseSnapshot;
 };
 
@@ -703,6 +941,8 @@ export const createSnapshot = (sim: SnapshotSim): Snapshot => {
     : DEFAULT_TILE_SIZE;
   const revision = clampBoundaryCounter(placement?.revision);
   const timing = asCommittedTiming(sim, tick, tickCount, elapsedMs, revision);
+  const dayNight = createDayNightSnapshot(sim);
+  const resourceRevision = map === undefined ? 0 : getMapResourceRevision(map);
   if (
     timing.snapshot !== undefined &&
     timing.timing.tick === timing.snapshot.time.tick &&
@@ -712,6 +952,8 @@ export const createSnapshot = (sim: SnapshotSim): Snapshot => {
     timing.snapshotHeight === height &&
     timing.snapshotTileSize === tileSize &&
     timing.snapshotMap === map &&
+    timing.snapshotDayTicks === dayNight?.dayTicks &&
+    timing.snapshotResourceRevision === resourceRevision &&
     timing.snapshotProbe !== undefined &&
     timing.snapshotProbe.phase === timing.snapshot.probe.phase &&
     timing.snapshotProbe.error === timing.snapshot.probe.error
@@ -722,7 +964,12 @@ export const createSnapshot = (sim: SnapshotSim): Snapshot => {
   const ore = map === undefined ? [] : getCachedOreList(map);
   const coal = map === undefined ? [] : getCachedCoalList(map);
   const wood = map === undefined ? [] : getCachedWoodList(map);
+  const copper = map === undefined ? [] : getCachedCopperList(map);
+  const stone = map === undefined ? [] : getCachedStoneList(map);
+  const water = map === undefined ? [] : getCachedWaterList(map);
+  const cliffs = map === undefined ? [] : getCachedCliffList(map);
   const entities = sim.getAllEntities?.() ?? [];
+  const getEntitiesAt = createEntityLookup(entities);
   const player = createPlayerSnapshot(sim);
 
   const snapshot: Snapshot = {
@@ -741,8 +988,16 @@ export const createSnapshot = (sim: SnapshotSim): Snapshot => {
     ore,
     coal,
     wood,
-    entities: entities.slice().sort(compareSnapshotEntityIds).map(createEntitySnapshot),
+    copper,
+    stone,
+    water,
+    cliffs,
+    entities: entities
+      .slice()
+      .sort(compareSnapshotEntityIds)
+      .map((entity) => createEntitySnapshot(entity, getEntitiesAt)),
     ...(player === undefined ? {} : { player }),
+    ...(dayNight === undefined ? {} : { dayNight }),
   };
 
   deepFreezeSnapshot(snapshot);
@@ -752,6 +1007,8 @@ export const createSnapshot = (sim: SnapshotSim): Snapshot => {
     timing.snapshotHeight = height;
     timing.snapshotTileSize = tileSize;
     timing.snapshotMap = map;
+    timing.snapshotDayTicks = dayNight?.dayTicks;
+    timing.snapshotResourceRevision = resourceRevision;
     timing.snapshotProbe = snapshot.probe;
   }
   return snapshot;
@@ -0,0 +1,100 @@
+/** Speed multipliers offered in the UI; `"max"` runs as many ticks as fit in the frame budget. */
+export const SIM_SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4, 8, 16, 32, 64, "max"] as const;
+
+export type SimSpeed = (typeof SIM_SPEED_OPTIONS)[number];
+
+export const DEFAULT_SIM_SPEED: SimSpeed = 1;
+
+/** Wall time one frame may spend ticking, leaving the rest of a 60 Hz frame for input and rendering. */
+export const SIM_FRAME_BUDGET_MS = 10;
+
+export const isSimSpeed = (value: unknown): value is SimSpeed => {
+  return (SIM_SPEED_OPTIONS as ReadonlyArray<unknown>).includes(value);
+};
+
+/** Accepts `"max"`, a listed multiplier, or its string form such as `"4"` or `"4x"`. */
+export const parseSimSpeed = (value: unknown): SimSpeed | null => {
+  if (isSimSpeed(value)) {
+    return value;
+  }
+
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  const parsed = normalized === "max" ? normalized : Number(normalized.replace(/x$/, ""));
+  return isSimSpeed(parsed) ? parsed : null;
+};
+
+export const formatSimSpeed = (speed: SimSpeed): string => {
+  return speed === "max" ? "max" : `${speed}x`;
+};
+
+/** Next slower (`-1`) or faster (`1`) option, stopping at either end. */
+export const cycleSimSpeed = (speed: SimSpeed, direction: -1 | 1): SimSpeed => {
+  const index = SIM_SPEED_OPTIONS.indexOf(speed);
+  const next = Math.max(0, Math.min(SIM_SPEED_OPTIONS.length - 1, index + direction));
+  return SIM_SPEED_OPTIONS[next] ?? speed;
+};
+
+export type SimFrameStepper = {
+  getSpeed: () => SimSpeed;
+  setSpeed: (speed: SimSpeed) => void;
+  /**
+   * Runs this frame's share of ticks and returns how many ran.
+   * Ticks are always whole fixed steps, so the result of a run never depends on the speed it was played at;
+   * ticks that do not fit in the budget are dropped rather than carried into later frames.
+   */
+  runFrame: () => number;
+  /** Ticks dropped by the last frame because the budget ran out. */
+  getDroppedTicks: () => number;
+};
+
+export const createSimFrameStepper = (
+  runTick: () => void,
+  options: { budgetMs?: number; now?: () => number } = {},
+): SimFrameStepper => {
+  const budgetMs = options.budgetMs ?? SIM_FRAME_BUDGET_MS;
+  const now = options.now ?? (() => performance.now());
+  let speed: SimSpeed = DEFAULT_SIM_SPEED;
+  // Fractional ticks owed from slow speeds, e.g. 0.25x ticks on every fourth frame.
+  let carry = 0;
+  let droppedTicks = 0;
+
+  const runFrame = (): number => {
+    const startedAt = now();
+    let ran = 0;
+    if (speed === "max") {
+      do {
+        runTick();
+        ran += 1;
+      } while (now() - startedAt < budgetMs);
+      droppedTicks = 0;
+      return ran;
+    }
+
+    carry += speed;
+    const owed = Math.floor(carry);
+    carry -= owed;
+    while (ran < owed) {
+      runTick();
+      ran += 1;
+      if (ran < owed && now() - startedAt >= budgetMs) {
+        break;
+      }
+    }
+    droppedTicks = owed - ran;
+    return ran;
+  };
+
+  return {
+    getSpeed: () => speed,
+    setSpeed: (next) => {
+      speed = next;
+      carry = 0;
+    },
+    runFrame,
+    getDroppedTicks: () => droppedTicks,
+  };
+};
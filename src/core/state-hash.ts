@@ -0,0 +1,191 @@
+import type { GeneratedMap } from "./map";
+
+/** Per-section digests of the sim at the end of one tick. */
+export type SimStateHash = {
+  readonly tick: number;
+  /** Digest over every section below; equal hashes mean equal state. */
+  readonly hash: string;
+  readonly clock: string;
+  readonly entities: Readonly<Record<string, string>>;
+  readonly resources: string;
+  readonly power: string;
+  readonly player: string;
+};
+
+export type SimStateHashSection = "clock" | "entities" | "resources" | "power" | "player";
+
+export type SimStateHashDivergence = {
+  /** First tick present in both logs whose hashes disagree. */
+  readonly tick: number;
+  readonly sections: SimStateHashSection[];
+  /** Entities whose state differs, or that exist on only one side. */
+  readonly entityIds: string[];
+};
+
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+const fnv1a = (text: string): string => {
+  let hash = FNV_OFFSET_BASIS;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+/**
+ * Serializes `value` with sorted keys so property insertion order never affects the digest.
+ * Functions are skipped and class instances contribute their own enumerable fields.
+ */
+const writeCanonical = (value: unknown, out: string[], ancestors: Set<object>): void => {
+  if (value === null || value === undefined) {
+    out.push(value === null ? "n" : "u");
+    return;
+  }
+
+  if (typeof value === "number") {
+    out.push(Object.is(value, -0) ? "0" : String(value));
+    return;
+  }
+
+  if (typeof value === "string") {
+    out.push(JSON.stringify(value));
+    return;
+  }
+
+  if (typeof value === "boolean" || typeof value === "bigint") {
+    out.push(String(value));
+    return;
+  }
+
+  if (typeof value !== "object") {
+    out.push("u");
+    return;
+  }
+
+  if (ancestors.has(value)) {
+    out.push("~");
+    return;
+  }
+
+  ancestors.add(value);
+  if (Array.isArray(value)) {
+    out.push("[");
+    for (const entry of value) {
+      writeCanonical(entry, out, ancestors);
+      out.push(",");
+    }
+    out.push("]");
+  } else if (value instanceof Map || value instanceof Set) {
+    out.push(value instanceof Map ? "M" : "S");
+    writeCanonical(Array.from(value.entries()), out, ancestors);
+  } else {
+    const record = value as Record<string, unknown>;
+    out.push("{");
+    for (const key of Object.keys(record).sort()) {
+      if (typeof record[key] === "function") {
+        continue;
+      }
+      out.push(JSON.stringify(key), ":");
+      writeCanonical(record[key], out, ancestors);
+      out.push(",");
+    }
+    out.push("}");
+  }
+  ancestors.delete(value);
+};
+
+/** Stable 32-bit FNV-1a digest of any sim value, independent of key order. */
+export const hashStateValue = (value: unknown): string => {
+  const out: string[] = [];
+  writeCanonical(value, out, new Set());
+  return fnv1a(out.join(""));
+};
+
+/** Hashes every tile type and remaining resource amount, row by row. */
+export const hashMapResources = (map: GeneratedMap | undefined): string => {
+  if (map === undefined) {
+    return hashStateValue(null);
+  }
+
+  // A chunked world is its seed plus what changed; which chunks happen to be generated is not state.
+  if (typeof map.exportChangedChunks === "function") {
+    return hashStateValue(["chunked", map.width, map.height, map.exportChangedChunks()]);
+  }
+
+  const cells: unknown[] = [];
+  for (let y = 0; y < map.height; y += 1) {
+    for (let x = 0; x < map.width; x += 1) {
+      cells.push(map.getTile(x, y), map.getResourceAmountAt?.(x, y) ?? null);
+    }
+  }
+  return hashStateValue(cells);
+};
+
+export const combineStateHash = (sections: Omit<SimStateHash, "hash">): SimStateHash => {
+  return {
+    ...sections,
+    hash: hashStateValue([sections.tick, sections.clock, sections.entities, sections.resources, sections.power, sections.player]),
+  };
+};
+
+const diffEntityHashes = (
+  left: Readonly<Record<string, string>>,
+  right: Readonly<Record<string, string>>,
+): string[] => {
+  const ids = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return Array.from(ids)
+    .filter((id) => left[id] !== right[id])
+    .sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+};
+
+/**
+ * Compares two hash logs from runs with the same seed and inputs.
+ * Only ticks recorded in both logs are compared; returns `null` when they all agree.
+ */
+export const findStateHashDivergence = (
+  left: ReadonlyArray<SimStateHash>,
+  right: ReadonlyArray<SimStateHash>,
+): SimStateHashDivergence | null => {
+  const rightByTick = new Map(right.map((entry) => [entry.tick, entry]));
+  const ordered = [...left].sort((a, b) => a.tick - b.tick);
+
+  for (const entry of ordered) {
+    const other = rightByTick.get(entry.tick);
+    if (other === undefined || other.hash === entry.hash) {
+      continue;
+    }
+
+    const sections: SimStateHashSection[] = [];
+    if (entry.clock !== other.clock) {
+      sections.push("clock");
+    }
+    const entityIds = diffEntityHashes(entry.entities, other.entities);
+    if (entityIds.length > 0) {
+      sections.push("entities");
+    }
+    if (entry.resources !== other.resources) {
+      sections.push("resources");
+    }
+    if (entry.power !== other.power) {
+      sections.push("power");
+    }
+    if (entry.player !== other.player) {
+      sections.push("player");
+    }
+
+    return { tick: entry.tick, sections, entityIds };
+  }
+
+  return null;
+};
+
+export const formatStateHashDivergence = (divergence: SimStateHashDivergence | null): string => {
+  if (divergence === null) {
+    return "no divergence";
+  }
+
+  const entities = divergence.entityIds.length > 0 ? `; entities ${divergence.entityIds.join(", ")}` : "";
+  return `diverged at tick ${divergence.tick} in ${divergence.sections.join(", ")}${entities}`;
+};
@@ -0,0 +1,141 @@
+import type { MapPlacementFailureReason } from "./map";
+import { DIRECTION_VECTORS, OPPOSITE_DIRECTION, type Direction, type GridCoord } from "./types";
+
+export const UNDERGROUND_BELT_KIND = "underground-belt";
+
+/** Most tiles an underground belt may pass beneath between its entrance and its exit. */
+export const UNDERGROUND_BELT_MAX_SPAN = 4;
+
+export type UndergroundBeltMode = "input" | "output";
+
+/** The parts of a placed entity that the pairing rules look at. */
+export type UndergroundBeltCandidate = {
+  kind: string;
+  pos: GridCoord;
+  rot: Direction;
+  state?: unknown;
+};
+
+export type UndergroundBeltLookup<T extends UndergroundBeltCandidate> = (pos: GridCoord) => ReadonlyArray<T>;
+
+export type UndergroundBeltPreview = {
+  mode: UndergroundBeltMode;
+  partner: GridCoord | null;
+  /** Tiles a partner may occupy: ahead of an entrance, behind an exit. */
+  range: GridCoord[];
+};
+
+export const isUndergroundBeltMode = (value: unknown): value is UndergroundBeltMode => {
+  return value === "input" || value === "output";
+};
+
+export const getUndergroundBeltMode = (state: unknown): UndergroundBeltMode => {
+  const mode = typeof state === "object" && state !== null ? (state as { mode?: unknown }).mode : undefined;
+  return mode === "output" ? "output" : "input";
+};
+
+const offsetTile = (origin: GridCoord, direction: Direction, distance: number): GridCoord => {
+  const delta = DIRECTION_VECTORS[direction];
+  return { x: origin.x + delta.x * distance, y: origin.y + delta.y * distance };
+};
+
+const getPartnerSearchDirection = (rot: Direction, mode: UndergroundBeltMode): Direction => {
+  return mode === "input" ? rot : OPPOSITE_DIRECTION[rot];
+};
+
+/** Nearest underground belt facing `rot` when walking from `origin` towards `step`. */
+const findNearestUndergroundBelt = <T extends UndergroundBeltCandidate>(
+  origin: GridCoord,
+  rot: Direction,
+  step: Direction,
+  maxDistance: number,
+  getAt: UndergroundBeltLookup<T>,
+): { belt: T; distance: number } | null => {
+  for (let distance = 1; distance <= maxDistance; distance += 1) {
+    const belt = getAt(offsetTile(origin, step, distance)).find(
+      (candidate) => candidate.kind === UNDERGROUND_BELT_KIND && candidate.rot === rot,
+    );
+    if (belt !== undefined) {
+      return { belt, distance };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * The belt `belt` tunnels to: the nearest underground belt facing the same way along its
+ * axis, provided it has the other mode and lies within `UNDERGROUND_BELT_MAX_SPAN`. Pairing
+ * is purely positional, so it survives saves, blueprints and id changes.
+ */
+export const findUndergroundBeltPartner = <T extends UndergroundBeltCandidate>(
+  belt: UndergroundBeltCandidate,
+  getAt: UndergroundBeltLookup<T>,
+): T | null => {
+  const mode = getUndergroundBeltMode(belt.state);
+  const step = getPartnerSearchDirection(belt.rot, mode);
+  const found = findNearestUndergroundBelt(belt.pos, belt.rot, step, UNDERGROUND_BELT_MAX_SPAN + 1, getAt);
+  if (found === null || getUndergroundBeltMode(found.belt.state) === mode) {
+    return null;
+  }
+
+  return found.belt;
+};
+
+/**
+ * Mode for an underground belt placed without an explicit one: the exit of an entrance in
+ * range behind it, otherwise a new entrance.
+ */
+export const chooseUndergroundBeltMode = <T extends UndergroundBeltCandidate>(
+  tile: GridCoord,
+  rot: Direction,
+  getAt: UndergroundBeltLookup<T>,
+): UndergroundBeltMode => {
+  const found = findNearestUndergroundBelt(tile, rot, OPPOSITE_DIRECTION[rot], UNDERGROUND_BELT_MAX_SPAN + 1, getAt);
+  return found !== null && getUndergroundBeltMode(found.belt.state) === "input" ? "output" : "input";
+};
+
+/**
+ * Why an exit cannot go on `tile`, or `null` when it pairs. Entrances may always be placed.
+ * `maxSpan` is the most tiles a belt tunnels under; the search behind an exit looks one tile
+ * past the max span, so an entrance just too far away is reported as out of range
+ * rather than missing.
+ */
+export const resolveUndergroundBeltPlacementFailure = <T extends UndergroundBeltCandidate>(
+  tile: GridCoord,
+  rot: Direction,
+  mode: UndergroundBeltMode,
+  getAt: UndergroundBeltLookup<T>,
+  maxSpan: number,
+): MapPlacementFailureReason | null => {
+  if (mode === "input") {
+    return null;
+  }
+
+  const found = findNearestUndergroundBelt(tile, rot, OPPOSITE_DIRECTION[rot], maxSpan + 2, getAt);
+  if (found === null || getUndergroundBeltMode(found.belt.state) !== "input") {
+    return "underground-no-partner";
+  }
+
+  return found.distance - 1 > maxSpan ? "underground-out-of-range" : null;
+};
+
+export const previewUndergroundBeltPlacement = <T extends UndergroundBeltCandidate>(
+  tile: GridCoord,
+  rot: Direction,
+  getAt: UndergroundBeltLookup<T>,
+  mode: UndergroundBeltMode = chooseUndergroundBeltMode(tile, rot, getAt),
+): UndergroundBeltPreview => {
+  const step = getPartnerSearchDirection(rot, mode);
+  const range: GridCoord[] = [];
+  for (let distance = 1; distance <= UNDERGROUND_BELT_MAX_SPAN + 1; distance += 1) {
+    range.push(offsetTile(tile, step, distance));
+  }
+
+  const partner = findUndergroundBeltPartner({ kind: UNDERGROUND_BELT_KIND, pos: tile, rot, state: { mode } }, getAt);
+  return {
+    mode,
+    partner: partner === null ? null : { x: partner.pos.x, y: partner.pos.y },
+    range,
+  };
+};
@@ -1,7 +1,21 @@
 import {
   CANONICAL_TICK_PHASES,
   CANONICAL_TICK_PHASE_CADENCE_TICKS,
+  BELT_TIER_CADENCE_TICKS,
+  BELT_TIER_KINDS,
+  INSERTER_CADENCE_TICKS,
+  INSERTER_KINDS,
+  INSERTER_REACH,
+  BOILER_FUEL_CAPACITY,
+  BOILER_STEAM_CAPACITY,
+  BOILER_STEAM_PER_FUEL_VALUE,
+  BOILER_STEAM_PER_TICK,
+  STEAM_ENGINE_MAX_POWER_PER_TICK,
+  isBeltTierKind,
+  isInserterKind,
   registerEntity,
+  type BeltTierKind,
+  type InserterKind,
   getDefinition,
 } from "../core/registry";
 import { sortByGridEntityOrder } from "../core/map";
@@ -11,9 +25,55 @@ import {
   OPPOSITE_DIRECTION,
   rotateDirection,
 } from "../core/types";
+import { getItem, getItemKinds, isFuelItem, isItemKind } from "../core/items";
+import {
+  inserterFilterAllows,
+  normalizeInserterFilter,
+  normalizeInserterStackBonus,
+} from "../core/inserters";
 import type { Direction, EntityBase, GridCoord, ItemKind } from "../core/types";
+import type { SimEventInit } from "../core/sim-events";
+import type { Recipe } from "../recipes";
 import { Furnace, FURNACE_TYPE, type FurnacePowerHooks } from "./furnace";
 import { Assembler, ASSEMBLER_TYPE, type AssemblerPowerHooks } from "./assembler";
+import {
+  BELT_DEFAULT_LANE,
+  BELT_LANE_INDICES,
+  BELT_LANE_LENGTH,
+  BELT_LANE_MIDPOINT,
+  advanceBeltLane,
+  canInsertIntoBeltLane,
+  countBeltItems,
+  createBeltLanes,
+  getBeltFrontItem,
+  getBeltLaneExitItem,
+  insertIntoBeltLane,
+  normalizeBeltLanes,
+  takeFrontFromBeltLane,
+  type BeltLaneIndex,
+  type BeltLanes,
+} from "../core/belt-lanes";
+import {
+  UNDERGROUND_BELT_KIND,
+  findUndergroundBeltPartner,
+  getUndergroundBeltMode,
+  type UndergroundBeltMode,
+} from "../core/underground";
+import {
+  FLUID_BOX_CAPACITY,
+  FLUID_ENTITY_KINDS,
+  OFFSHORE_PUMP_KIND,
+  OFFSHORE_PUMP_WATER_PER_TICK,
+  computeFluidLinks,
+  createFluidBox,
+  getOffshorePumpIntakeTile,
+  isFluidEntityKind,
+  normalizeFluidBox,
+  flowFluidLinks,
+  type FluidBox,
+  type FluidEntityKind,
+  type FluidLinkEnd,
+} from "../core/fluids";
 
 const getCanonicalCadenceTicks = (kind: CanonicalTickKind): number =>
   CANONICAL_TICK_PHASE_CADENCE_TICKS[kind];
@@ -21,8 +81,12 @@ const getCanonicalCadenceTicks = (kind: CanonicalTickKind): number =>
 const POWER_COSTS = {
   miner: 2,
   beltTransfer: 1,
+  fastBeltTransfer: 2,
+  expressBeltTransfer: 3,
   inserterMove: 1,
   inserterPickup: 1,
+  fastInserterMove: 2,
+  fastInserterPickup: 2,
   furnaceStart: 2,
   furnaceTick: 1,
   furnaceFuelToPower: 182,
@@ -30,7 +94,25 @@ const POWER_COSTS = {
   assemblerTick: 1,
 };
 
-type CanonicalTickKind = "miner" | "belt" | "inserter" | "furnace";
+type CanonicalTickKind = "miner" | "belt" | "inserter" | "furnace" | "fluid";
+
+const BURNER_INSERTER_KIND = "burner-inserter";
+const BURNER_INSERTER_FUEL_CAPACITY = 5;
+/** Swings (pickups or drops) a burner inserter gets from each point of an item's fuel value. */
+const BURNER_INSERTER_SWINGS_PER_FUEL_VALUE = 4;
+
+/** Network power per swing; burner inserters pay from their own fuel instead. */
+const INSERTER_SWING_POWER: Record<Exclude<InserterKind, typeof BURNER_INSERTER_KIND>, { move: number; pickup: number }> = {
+  inserter: { move: POWER_COSTS.inserterMove, pickup: POWER_COSTS.inserterPickup },
+  "fast-inserter": { move: POWER_COSTS.fastInserterMove, pickup: POWER_COSTS.fastInserterPickup },
+  "long-handed-inserter": { move: POWER_COSTS.inserterMove, pickup: POWER_COSTS.inserterPickup },
+};
+
+const BELT_TIER_TRANSFER_POWER: Record<BeltTierKind, number> = {
+  belt: POWER_COSTS.beltTransfer,
+  "fast-belt": POWER_COSTS.fastBeltTransfer,
+  "express-belt": POWER_COSTS.expressBeltTransfer,
+};
 
 type SimLike = {
   readonly getEntitiesAt?: (pos: GridCoord) => EntityBase[];
@@ -39,19 +121,34 @@ type SimLike = {
   readonly getLiveAllEntities?: () => EntityBase[];
   readonly tick?: number;
   readonly tickCount?: number;
+  /** Share of full sunlight this tick, from 0 at night to 1 by day. */
+  readonly daylight?: number;
   readonly consumePower?: (amount: number, kind?: string, consumerId?: string) => boolean;
-  readonly generatePower?: (amount: number, kind?: string) => number;
+  readonly generatePower?: (amount: number, kind?: string, producerId?: string) => number;
   readonly getPowerState?: () => unknown;
   readonly isPowerConsumerConnected?: (consumerId: string) => boolean;
+  /** Times `run` as a profiler section while the sim is profiling. */
+  readonly profile?: <T>(section: string, run: () => T) => T;
+  /** Replaced whenever entities are added, removed or moved. */
+  readonly layoutToken?: object;
+  readonly isEntityDormant?: (entityId: string) => boolean;
+  /** Skips the entity's work until something within reach of it changes. */
+  readonly setEntityDormant?: (entityId: string) => void;
+  /** Call after changing an entity's items so dormant neighbours look again. */
+  readonly wakeEntitiesNear?: (pos: GridCoord) => void;
+  /** Present only while something listens to sim events. */
+  readonly emitEvent?: (event: SimEventInit) => void;
   readonly map?: {
     readonly isOre?: (x: number, y: number) => boolean;
     readonly isTree?: (x: number, y: number) => boolean;
+    readonly isWater?: (x: number, y: number) => boolean;
     readonly consumeResource?: (x: number, y: number) => boolean;
     readonly getTile?: (x: number, y: number) => unknown;
   };
   readonly getMap?: () => {
     readonly isOre?: (x: number, y: number) => boolean;
     readonly isTree?: (x: number, y: number) => boolean;
+    readonly isWater?: (x: number, y: number) => boolean;
     readonly consumeResource?: (x: number, y: number) => boolean;
     readonly getTile?: (x: number, y: number) => unknown;
   };
@@ -63,9 +160,19 @@ type TickPhaseState = {
 };
 
 const tickState = new WeakMap<object, TickPhaseState>();
+const canonicalGroupsByLayout = new WeakMap<object, Record<CanonicalTickKind, EntityBase[]>>();
+const fluidLinksByLayout = new WeakMap<object, Array<[EntityBase, EntityBase]>>();
+
+/**
+ * What one canonical tick of an entity did. `"active"` changed something a neighbour can see;
+ * `"waiting"` only advanced the entity's own counters; `"idle"` found nothing to do, and ticking
+ * again gives the same result until a neighbour changes, so the entity can sleep until woken.
+ */
+type TickOutcome = "active" | "waiting" | "idle";
 const canonicalPhaseKinds: ReadonlyArray<CanonicalTickKind> = CANONICAL_TICK_PHASES;
 
-const isCanonicalTickKind = (kind: EntityBase["kind"]): kind is CanonicalTickKind => {
+/** Kinds grouped under their own name; fluid entities are grouped by `isFluidEntityKind` instead. */
+const isCanonicalTickKind = (kind: EntityBase["kind"]): kind is Extract<EntityBase["kind"], CanonicalTickKind> => {
   return kind === "miner" || kind === "belt" || kind === "inserter" || kind === "furnace";
 };
 
@@ -111,11 +218,20 @@ const tryConsumePower = (
   return sim.consumePower(amount, kind);
 };
 
-const tryGeneratePower = (sim: SimLike, amount: number, kind?: string): number => {
+const tryGeneratePower = (
+  sim: SimLike,
+  amount: number,
+  kind = "unknown",
+  producer: EntityBase | null = null,
+): number => {
   if (typeof sim.generatePower !== "function") {
     return 0;
   }
 
+  if (producer !== null) {
+    return sim.generatePower(amount, kind, producer.id);
+  }
+
   return sim.generatePower(amount, kind);
 };
 
@@ -135,15 +251,27 @@ const sortPhaseCandidates = (entities: ReadonlyArray<EntityBase>): EntityBase[]
   sortByGridEntityOrder(entities);
 
 const canonicalEntitiesByKind = (sim: SimLike): Record<CanonicalTickKind, EntityBase[]> => {
+  const cached = sim.layoutToken === undefined ? undefined : canonicalGroupsByLayout.get(sim.layoutToken);
+  if (cached !== undefined) {
+    return cached;
+  }
+
   const grouped: Record<CanonicalTickKind, EntityBase[]> = {
     miner: [],
     belt: [],
     inserter: [],
     furnace: [],
+    fluid: [],
   };
 
   for (const entity of getEntitiesForTick(sim)) {
-    if (entity.kind === "splitter") {
+    // Boilers tick on their own after the fluid phase, but their water boxes belong to fluid networks.
+    if (isFluidEntityKind(entity.kind)) {
+      grouped.fluid.push(entity);
+      continue;
+    }
+
+    if (isBeltLike(entity)) {
       grouped.belt.push(entity);
       continue;
     }
@@ -153,6 +281,11 @@ const canonicalEntitiesByKind = (sim: SimLike): Record<CanonicalTickKind, Entity
       continue;
     }
 
+    if (isInserterKind(entity.kind)) {
+      grouped.inserter.push(entity);
+      continue;
+    }
+
     if (!isCanonicalTickKind(entity.kind)) {
       continue;
     }
@@ -163,9 +296,22 @@ const canonicalEntitiesByKind = (sim: SimLike): Record<CanonicalTickKind, Entity
     grouped[kind] = sortPhaseCandidates(grouped[kind]);
   }
 
+  if (sim.layoutToken !== undefined) {
+    canonicalGroupsByLayout.set(sim.layoutToken, grouped);
+  }
   return grouped;
 };
 
+const isEntityDormant = (sim: SimLike, entity: EntityBase): boolean => sim.isEntityDormant?.(entity.id) === true;
+
+const settleTickOutcome = (sim: SimLike, entity: EntityBase, outcome: TickOutcome): void => {
+  if (outcome === "idle") {
+    sim.setEntityDormant?.(entity.id);
+  } else if (outcome === "active") {
+    sim.wakeEntitiesNear?.(entity.pos);
+  }
+};
+
 type MinerState = Record<string, unknown> & {
   tickPhase: number;
   hasOutput: boolean;
@@ -176,23 +322,41 @@ type MinerState = Record<string, unknown> & {
 
 type BeltState = Record<string, unknown> & {
   tickPhase: number;
+  /** Front-most item across both lanes, kept for single-slot consumers. */
   item: ItemKind | null;
   items: [ItemKind | null];
   buffer: ItemKind | null;
   accept: ItemKind | null;
+  lanes: BeltLanes;
 };
 
 type SplitterState = BeltState & {
   nextOutputIndex: 0 | 1;
 };
 
+type UndergroundBeltState = BeltState & {
+  mode: UndergroundBeltMode;
+};
+
 type InserterState = Record<string, unknown> & {
   tickPhase: number;
   holding: ItemKind | null;
+  /** How many of `holding` are in the hand; more than one only with a stack bonus. */
+  holdingCount: number;
+  filter: ItemKind[];
+  stackBonus: number;
   state: 0 | 1 | 2 | 3;
   skipDropAtTick?: number;
 };
 
+type BurnerInserterState = InserterState & {
+  /** Fuel waiting in the fuel slot; one kind at a time. */
+  fuelItem: ItemKind | null;
+  fuel: number;
+  /** Swings left from the fuel item currently burning. */
+  burn: number;
+};
+
 type ChestState = Record<string, unknown> & {
   capacity: number;
   items: ItemKind[];
@@ -203,15 +367,21 @@ type ChestState = Record<string, unknown> & {
   provideItem: (item: string) => string | null;
 };
 
-type BeltTransferPlan = {
-  source: EntityBase;
+type BeltInsertion = {
+  lane: BeltLaneIndex;
+  progress: number;
+};
+
+type BeltTransferTarget = {
   target: EntityBase;
-  item: ItemKind;
+  /** Lane and entry point on the target; `null` when the target is not a belt or splitter. */
+  insertion: BeltInsertion | null;
 };
 
-type BeltTransferResolution = {
-  state: "resolving" | "movable" | "blocked";
-  target?: EntityBase | null;
+type BeltTransferPlan = BeltTransferTarget & {
+  source: EntityBase;
+  sourceLane: BeltLaneIndex;
+  item: ItemKind;
 };
 
 type AcceptItemHost = {
@@ -228,14 +398,27 @@ const isRecord = (value: unknown): value is Record<string, unknown> => {
   return typeof value === "object" && value !== null;
 };
 
-const isItemKind = (value: unknown): value is ItemKind => {
-  return (
-    value === "iron-ore" ||
-    value === "iron-plate" ||
-    value === "coal" ||
-    value === "iron-gear" ||
-    value === "wood"
-  );
+// Pickup preference for hosts that expose several items: finished goods first, then fuel, then raw ore.
+const PROVIDE_ITEM_ORDER: readonly ItemKind[] = [
+  "iron-plate",
+  "copper-plate",
+  "steel-plate",
+  "stone-brick",
+  "iron-gear",
+  "copper-cable",
+  "electronic-circuit",
+  "automation-science-pack",
+  "landfill",
+  "coal",
+  "wood",
+  "iron-ore",
+  "copper-ore",
+  "stone",
+];
+
+// Registered items missing from the preference list are offered last, in registration order.
+const getProvideItemOrder = (): ItemKind[] => {
+  return [...PROVIDE_ITEM_ORDER, ...getItemKinds().filter((item) => !PROVIDE_ITEM_ORDER.includes(item))];
 };
 
 const CHEST_DEFAULT_CAPACITY = 24;
@@ -337,9 +520,18 @@ const tryMoveMinerOutput = (
   return transferToCell(sim, entity, minePos, minedItem);
 };
 
+/** Item view last written by `syncBeltItemViews`; tells single-slot writes apart from lane edits. */
+const syncedBeltItems = new WeakMap<BeltState, ItemKind | null>();
+
 const syncBeltItemViews = (state: BeltState): void => {
+  state.item = getBeltFrontItem(state.lanes);
   state.buffer = state.item;
   state.items = [state.item];
+  syncedBeltItems.set(state, state.item);
+};
+
+const hasBeltLaneShape = (value: unknown): value is BeltLanes => {
+  return Array.isArray(value) && value.length === 2 && Array.isArray(value[0]) && Array.isArray(value[1]);
 };
 
 const ensureBeltState = (entity: EntityBase): BeltState => {
@@ -350,6 +542,7 @@ const ensureBeltState = (entity: EntityBase): BeltState => {
       items: [null],
       buffer: null,
       accept: null,
+      lanes: createBeltLanes(),
     } as BeltState;
   }
 
@@ -361,13 +554,158 @@ const ensureBeltState = (entity: EntityBase): BeltState => {
       : null;
 
   state.tickPhase = asNonNegativeInteger(state.tickPhase);
-  state.item = compatibleItem;
   state.accept = isItemKind(state.accept) ? state.accept : null;
+  if (!hasBeltLaneShape(state.lanes)) {
+    state.lanes = normalizeBeltLanes(state.lanes);
+  }
+
+  // A single-slot write (old saves, scripted setups) replaces whatever the lanes held.
+  const syncedItem = syncedBeltItems.get(state);
+  const isSingleSlotWrite =
+    compatibleItem !== getBeltFrontItem(state.lanes) &&
+    (syncedItem === undefined ? countBeltItems(state.lanes) === 0 : compatibleItem !== syncedItem);
+  if (isSingleSlotWrite) {
+    state.lanes = createBeltLanes();
+    if (compatibleItem !== null) {
+      state.lanes[BELT_DEFAULT_LANE].push({ item: compatibleItem, progress: 0 });
+    }
+  }
   syncBeltItemViews(state);
 
   return state;
 };
 
+const ensureBeltLikeState = (entity: EntityBase): BeltState => {
+  if (entity.kind === "splitter") {
+    return ensureSplitterState(entity);
+  }
+
+  return entity.kind === UNDERGROUND_BELT_KIND ? ensureUndergroundBeltState(entity) : ensureBeltState(entity);
+};
+
+const isBeltLike = (entity: EntityBase): boolean => {
+  return isBeltTierKind(entity.kind) || entity.kind === "splitter" || entity.kind === UNDERGROUND_BELT_KIND;
+};
+
+const isUndergroundBeltEntrance = (entity: EntityBase): boolean => {
+  return entity.kind === UNDERGROUND_BELT_KIND && getUndergroundBeltMode(entity.state) === "input";
+};
+
+const findUndergroundBeltExit = (sim: SimLike, entrance: EntityBase): EntityBase | null => {
+  return findUndergroundBeltPartner(entrance, (pos) => getEntitiesAt(sim, pos));
+};
+
+const getBeltLaneKey = (entity: EntityBase, lane: BeltLaneIndex): string => `${entity.id}:${lane}`;
+
+const getBeltLaneSide = (belt: EntityBase, lane: BeltLaneIndex): Direction => {
+  return rotateDirection(belt.rot, lane === 0 ? -1 : 1);
+};
+
+/**
+ * Lane on the side of `belt` that faces `neighborPos`, or `null` when the neighbour sits
+ * in line with the belt (behind or in front of it).
+ */
+const getNearBeltLane = (belt: EntityBase, neighborPos: GridCoord): BeltLaneIndex | null => {
+  const side = directionFromTo(belt.pos, neighborPos);
+  if (side === getBeltLaneSide(belt, 0)) {
+    return 0;
+  }
+
+  return side === getBeltLaneSide(belt, 1) ? 1 : null;
+};
+
+/**
+ * Where an inserter, miner or machine puts an item onto a belt: mid-tile on the far lane
+ * when it stands beside the belt, otherwise on the default lane (at the entry when it
+ * stands behind). Splitters only take items from behind.
+ */
+const resolveBeltDropInsertion = (target: EntityBase, source: EntityBase): BeltInsertion | null => {
+  const fromBehind = directionFromTo(source.pos, target.pos) === target.rot;
+  if (target.kind === "splitter") {
+    return fromBehind ? { lane: BELT_DEFAULT_LANE, progress: 0 } : null;
+  }
+
+  const nearLane = getNearBeltLane(target, source.pos);
+  if (nearLane !== null) {
+    return { lane: nearLane === 0 ? 1 : 0, progress: BELT_LANE_MIDPOINT };
+  }
+
+  return { lane: BELT_DEFAULT_LANE, progress: fromBehind ? 0 : BELT_LANE_MIDPOINT };
+};
+
+/**
+ * Lanes an inserter picks from, nearest first; an inline inserter prefers the default lane.
+ */
+const getBeltPickupLanes = (source: EntityBase, taker: EntityBase | undefined): BeltLaneIndex[] => {
+  const nearLane = taker === undefined || source.kind === "splitter"
+    ? null
+    : getNearBeltLane(source, taker.pos);
+  const first = nearLane ?? BELT_DEFAULT_LANE;
+  return [first, first === 0 ? 1 : 0];
+};
+
+const hasStraightBeltFeeder = (sim: SimLike, belt: EntityBase): boolean => {
+  return getEntitiesAt(sim, move(belt.pos, opposite(belt.rot))).some(
+    (candidate) =>
+      candidate.rot === belt.rot &&
+      (isBeltTierKind(candidate.kind) || (candidate.kind === UNDERGROUND_BELT_KIND && !isUndergroundBeltEntrance(candidate))),
+  );
+};
+
+/**
+ * Entrances take items straight from behind; exits only take them from their paired
+ * entrance, which hands them over at the exit's entry regardless of the span between.
+ */
+const resolveUndergroundBeltInsertion = (
+  sim: SimLike,
+  source: EntityBase,
+  sourceLane: BeltLaneIndex,
+  target: EntityBase,
+): BeltInsertion | null => {
+  if (isUndergroundBeltEntrance(target)) {
+    return directionFromTo(source.pos, target.pos) === target.rot ? { lane: sourceLane, progress: 0 } : null;
+  }
+
+  const isPairedEntrance = isUndergroundBeltEntrance(source) && findUndergroundBeltExit(sim, source)?.id === target.id;
+  return isPairedEntrance ? { lane: sourceLane, progress: 0 } : null;
+};
+
+/**
+ * Lane and entry point for an item leaving `source` on `sourceLane` into a belt or splitter.
+ * Straight runs and curves keep the lane; a belt feeding the side of a belt that already has
+ * a straight feeder side-loads onto the near lane at mid-tile. Head-on belts never connect.
+ */
+const resolveBeltTransferInsertion = (
+  sim: SimLike,
+  source: EntityBase,
+  sourceLane: BeltLaneIndex,
+  target: EntityBase,
+): BeltInsertion | null => {
+  if (target.kind === UNDERGROUND_BELT_KIND) {
+    return resolveUndergroundBeltInsertion(sim, source, sourceLane, target);
+  }
+
+  const travel = directionFromTo(source.pos, target.pos);
+  if (travel === undefined || target.rot === opposite(travel)) {
+    return null;
+  }
+
+  if (target.rot === travel) {
+    return { lane: sourceLane, progress: 0 };
+  }
+
+  if (target.kind === "splitter") {
+    return null;
+  }
+
+  if (!hasStraightBeltFeeder(sim, target)) {
+    return { lane: sourceLane, progress: 0 };
+  }
+
+  const nearLane = getNearBeltLane(target, source.pos);
+  return nearLane === null ? null : { lane: nearLane, progress: BELT_LANE_MIDPOINT };
+};
+
 const canBeltAcceptItem = (state: BeltState, item: ItemKind): boolean => {
   return state.accept === null || state.accept === item;
 };
@@ -378,11 +716,20 @@ const ensureSplitterState = (entity: EntityBase): SplitterState => {
   return state;
 };
 
+const ensureUndergroundBeltState = (entity: EntityBase): UndergroundBeltState => {
+  const state = ensureBeltState(entity) as UndergroundBeltState;
+  state.mode = getUndergroundBeltMode(state);
+  return state;
+};
+
 const ensureInserterState = (entity: EntityBase): InserterState => {
   if (!isRecord(entity.state)) {
     entity.state = {
       tickPhase: 0,
       holding: null,
+      holdingCount: 0,
+      filter: [],
+      stackBonus: 0,
       state: 0,
     } as InserterState;
   }
@@ -390,6 +737,11 @@ const ensureInserterState = (entity: EntityBase): InserterState => {
   const state = entity.state as InserterState;
   state.tickPhase = asNonNegativeInteger(state.tickPhase);
   state.holding = isItemKind(state.holding) ? state.holding : null;
+  state.holdingCount = state.holding === null ? 0 : Math.max(1, asNonNegativeInteger(state.holdingCount));
+  if (!Array.isArray(state.filter) || !state.filter.every(isItemKind)) {
+    state.filter = normalizeInserterFilter(state.filter);
+  }
+  state.stackBonus = normalizeInserterStackBonus(state.stackBonus);
 
   const phase = typeof state.state === "number" ? Math.floor(state.state) : 0;
   state.state = phase === 1 || phase === 2 || phase === 3 ? phase : 0;
@@ -397,19 +749,104 @@ const ensureInserterState = (entity: EntityBase): InserterState => {
   return state;
 };
 
+const ensureBurnerInserterState = (entity: EntityBase): BurnerInserterState => {
+  const state = ensureInserterState(entity) as BurnerInserterState;
+  state.fuel = Math.min(BURNER_INSERTER_FUEL_CAPACITY, asNonNegativeInteger(state.fuel));
+  state.fuelItem = state.fuel > 0 && isItemKind(state.fuelItem) && isFuelItem(state.fuelItem) ? state.fuelItem : null;
+  state.fuel = state.fuelItem === null ? 0 : state.fuel;
+  state.burn = typeof state.burn === "number" && Number.isFinite(state.burn) && state.burn > 0 ? state.burn : 0;
+  return state;
+};
+
+const canFuelBurnerInserter = (state: BurnerInserterState, item: ItemKind): boolean => {
+  return (
+    isFuelItem(item) &&
+    state.fuel < BURNER_INSERTER_FUEL_CAPACITY &&
+    (state.fuelItem === null || state.fuelItem === item)
+  );
+};
+
+const fuelBurnerInserter = (state: BurnerInserterState, item: ItemKind): boolean => {
+  if (!canFuelBurnerInserter(state, item)) {
+    return false;
+  }
+
+  state.fuelItem = item;
+  state.fuel += 1;
+  return true;
+};
+
+/** Spends one swing of fuel, lighting the next fuel item when the current one is spent. */
+const tryBurnInserterFuel = (state: BurnerInserterState): boolean => {
+  if (state.burn < 1 && state.fuelItem !== null) {
+    state.burn += (getItem(state.fuelItem)?.fuelValue ?? 0) * BURNER_INSERTER_SWINGS_PER_FUEL_VALUE;
+    state.fuel -= 1;
+    if (state.fuel === 0) {
+      state.fuelItem = null;
+    }
+  }
+
+  if (state.burn < 1) {
+    return false;
+  }
+
+  state.burn -= 1;
+  return true;
+};
+
+const getInserterCadenceTicks = (entity: EntityBase): number => {
+  return isInserterKind(entity.kind) ? INSERTER_CADENCE_TICKS[entity.kind] : getCanonicalCadenceTicks("inserter");
+};
+
+const moveBy = (pos: GridCoord, dir: Direction, distance: number): GridCoord => {
+  const delta = DIRECTION_VECTORS[dir];
+  return { x: pos.x + delta.x * distance, y: pos.y + delta.y * distance };
+};
+
+const getInserterReach = (entity: EntityBase): number => {
+  return isInserterKind(entity.kind) ? INSERTER_REACH[entity.kind] : 1;
+};
+
+const getInserterPickupPos = (entity: EntityBase): GridCoord => {
+  return moveBy(entity.pos, opposite(entity.rot), getInserterReach(entity));
+};
+
+const getInserterDropPos = (entity: EntityBase): GridCoord => {
+  return moveBy(entity.pos, entity.rot, getInserterReach(entity));
+};
+
+/**
+ * The inserter as seen from the tile its hand reaches towards `side`. A long-handed arm
+ * reaches over the tile in between, so belt lanes are chosen as if it stood right beside them.
+ */
+const getInserterHand = (entity: EntityBase, side: Direction): EntityBase => {
+  const reach = getInserterReach(entity);
+  return reach === 1 ? entity : { ...entity, pos: moveBy(entity.pos, side, reach - 1) };
+};
+
+/** Whether `source` stands on the tile `inserter` picks up from and may hand items straight over. */
+const isInserterPickupSource = (source: EntityBase, inserter: EntityBase): boolean => {
+  const pickupPos = getInserterPickupPos(inserter);
+  return source.pos.x === pickupPos.x && source.pos.y === pickupPos.y;
+};
+
+/** Pays for one swing from the power network, or from a burner inserter's own fuel slot. */
+const tryPowerInserterSwing = (sim: SimLike, entity: EntityBase, swing: "move" | "pickup"): boolean => {
+  if (entity.kind === BURNER_INSERTER_KIND) {
+    return tryBurnInserterFuel(ensureBurnerInserterState(entity));
+  }
+
+  const costs = isInserterKind(entity.kind) ? INSERTER_SWING_POWER[entity.kind] : INSERTER_SWING_POWER.inserter;
+  return tryConsumePower(sim, costs[swing], `inserter-${swing}`, entity);
+};
+
 const createChestState = (capacity = CHEST_DEFAULT_CAPACITY): ChestState => {
   const normalizedCapacity =
     Number.isInteger(capacity) && capacity > 0 ? capacity : CHEST_DEFAULT_CAPACITY;
   const state: ChestState = {
     capacity: normalizedCapacity,
     items: [],
-    stored: {
-      "iron-ore": 0,
-      "iron-plate": 0,
-      "iron-gear": 0,
-      coal: 0,
-      wood: 0,
-    },
+    stored: Object.fromEntries(getItemKinds().map((item) => [item, 0])) as Record<ItemKind, number>,
     canAcceptItem(item: string): boolean {
       return isItemKind(item) && state.items.length < state.capacity;
     },
@@ -422,11 +859,11 @@ const createChestState = (capacity = CHEST_DEFAULT_CAPACITY): ChestState => {
       }
 
       state.items.push(item);
-      state.stored[item] = Math.max(0, state.stored[item] + 1);
+      state.stored[item] = Math.max(0, (state.stored[item] ?? 0) + 1);
       return true;
     },
     canProvideItem(item: string): boolean {
-      return isItemKind(item) && state.stored[item] > 0;
+      return isItemKind(item) && (state.stored[item] ?? 0) > 0;
     },
     provideItem(item: string): string | null {
       if (!state.canProvideItem(item) || !isItemKind(item)) {
@@ -439,7 +876,7 @@ const createChestState = (capacity = CHEST_DEFAULT_CAPACITY): ChestState => {
       }
 
       state.items.splice(slotIndex, 1);
-      state.stored[item] = Math.max(0, state.stored[item] - 1);
+      state.stored[item] = Math.max(0, (state.stored[item] ?? 0) - 1);
       return item;
     },
   };
@@ -471,13 +908,17 @@ const canAcceptViaMethod = (host: unknown, item: ItemKind): boolean => {
   return host.canAcceptItem(item);
 };
 
-const tryProvideViaMethod = (host: unknown): ItemKind | null => {
+const acceptAnyItem = (): boolean => true;
+
+const tryProvideViaMethod = (host: unknown, accepts: (item: ItemKind) => boolean = acceptAnyItem): ItemKind | null => {
   if (!isProvideItemHost(host)) {
     return null;
   }
 
-  const ordered: readonly ItemKind[] = ["iron-plate", "iron-gear", "coal", "wood", "iron-ore"];
-  for (const item of ordered) {
+  for (const item of getProvideItemOrder()) {
+    if (!accepts(item)) {
+      continue;
+    }
     if (host.canProvideItem !== undefined && !host.canProvideItem(item)) {
       continue;
     }
@@ -491,33 +932,31 @@ const tryProvideViaMethod = (host: unknown): ItemKind | null => {
   return null;
 };
 
-const isInsertDirectionValid = (source: EntityBase, target: EntityBase): boolean => {
-  const incomingDir = directionFromTo(source.pos, target.pos);
-  return incomingDir !== undefined && incomingDir === target.rot;
-};
-
-const isSplitterInputDirectionValid = (source: EntityBase, target: EntityBase): boolean => {
-  return isInsertDirectionValid(source, target);
-};
-
 const canAcceptDirectly = (
   source: EntityBase,
   target: EntityBase,
   item: ItemKind,
 ): boolean => {
-  if (target.kind === "belt") {
-    const beltState = ensureBeltState(target);
-    return beltState.item === null && canBeltAcceptItem(beltState, item);
+  if (isBeltLike(target)) {
+    const beltState = ensureBeltLikeState(target);
+    const insertion = resolveBeltDropInsertion(target, source);
+    return (
+      insertion !== null &&
+      canBeltAcceptItem(beltState, item) &&
+      canInsertIntoBeltLane(beltState.lanes[insertion.lane], insertion.progress)
+    );
   }
 
-  if (target.kind === "splitter") {
-    const splitterState = ensureSplitterState(target);
-    return splitterState.item === null && isSplitterInputDirectionValid(source, target);
-  }
+  if (isInserterKind(target.kind)) {
+    if (!isInserterPickupSource(source, target)) {
+      return target.kind === BURNER_INSERTER_KIND && canFuelBurnerInserter(ensureBurnerInserterState(target), item);
+    }
 
-  if (target.kind === "inserter") {
     const inserterState = ensureInserterState(target);
-    return isInsertDirectionValid(source, target) && inserterState.holding === null;
+    return (
+      inserterState.holding === null &&
+      inserterFilterAllows(inserterState.filter, item)
+    );
   }
 
   if (canAcceptViaMethod(target.state, item) || canAcceptViaMethod(target, item)) {
@@ -550,38 +989,39 @@ const tryAcceptItem = (
   source: EntityBase,
   sourceTick?: number,
 ): boolean => {
-  if (target.kind === "belt") {
-    const beltState = ensureBeltState(target);
-    if (beltState.item !== null || !canBeltAcceptItem(beltState, item)) {
+  if (isBeltLike(target)) {
+    const beltState = ensureBeltLikeState(target);
+    const insertion = resolveBeltDropInsertion(target, source);
+    if (
+      insertion === null ||
+      !canBeltAcceptItem(beltState, item) ||
+      !insertIntoBeltLane(beltState.lanes[insertion.lane], item, insertion.progress)
+    ) {
       return false;
     }
-    beltState.item = item;
     syncBeltItemViews(beltState);
     return true;
   }
 
-  if (target.kind === "splitter") {
-    const splitterState = ensureSplitterState(target);
-    if (splitterState.item !== null) {
-      return false;
+  if (isInserterKind(target.kind)) {
+    if (!isInserterPickupSource(source, target)) {
+      return target.kind === BURNER_INSERTER_KIND && fuelBurnerInserter(ensureBurnerInserterState(target), item);
     }
 
-    splitterState.item = item;
-    syncBeltItemViews(splitterState);
-    return true;
-  }
-
-  if (target.kind === "inserter") {
     const inserterState = ensureInserterState(target);
-    if (!isInsertDirectionValid(source, target) || inserterState.holding !== null) {
+    if (
+      inserterState.holding !== null ||
+      !inserterFilterAllows(inserterState.filter, item)
+    ) {
       return false;
     }
 
-    if (source.kind === "belt" && sourceTick !== undefined) {
+    if (isBeltTierKind(source.kind) && sourceTick !== undefined) {
       inserterState.skipDropAtTick = sourceTick;
     }
 
     inserterState.holding = item;
+    inserterState.holdingCount = 1;
     inserterState.state = 1;
     return true;
   }
@@ -591,30 +1031,25 @@ const tryAcceptItem = (
   }
 };
 
-const tryTakeItem = (source: EntityBase): ItemKind | null => {
-  if (source.kind === "belt") {
-    const beltState = ensureBeltState(source);
-    if (beltState.item === null) {
-      return null;
-    }
-    const item = beltState.item;
-    beltState.item = null;
-    syncBeltItemViews(beltState);
-    return item;
-  }
-
-  if (source.kind === "splitter") {
-    const splitterState = ensureSplitterState(source);
-    if (splitterState.item === null) {
-      return null;
+/** Takes one item `accepts` allows from `source`; belts give up their front-most match. */
+const tryTakeItem = (
+  source: EntityBase,
+  taker?: EntityBase,
+  accepts: (item: ItemKind) => boolean = acceptAnyItem,
+): ItemKind | null => {
+  if (isBeltLike(source)) {
+    const beltState = ensureBeltLikeState(source);
+    for (const lane of getBeltPickupLanes(source, taker)) {
+      const item = takeFrontFromBeltLane(beltState.lanes[lane], accepts);
+      if (item !== null) {
+        syncBeltItemViews(beltState);
+        return item;
+      }
     }
-    const item = splitterState.item;
-    splitterState.item = null;
-    syncBeltItemViews(splitterState);
-    return item;
+    return null;
   }
 
-  const providedByMethod = tryProvideViaMethod(source.state) ?? tryProvideViaMethod(source);
+  const providedByMethod = tryProvideViaMethod(source.state, accepts) ?? tryProvideViaMethod(source, accepts);
   if (providedByMethod !== null) {
     return providedByMethod;
   }
@@ -624,7 +1059,7 @@ const tryTakeItem = (source: EntityBase): ItemKind | null => {
   }
 
   const output = source.state.output;
-  if (!isItemKind(output)) {
+  if (!isItemKind(output) || !accepts(output)) {
     return null;
   }
 
@@ -646,6 +1081,7 @@ const transferToCell = (
       continue;
     }
     if (tryAcceptItem(candidate, item, from, sourceTick)) {
+      sim.wakeEntitiesNear?.(targetPos);
       return true;
     }
   }
@@ -672,32 +1108,48 @@ const canTransferToCell = (
   return false;
 };
 
-const canTransferToBeltTarget = (
+const resolveBeltTransferTarget = (
   sim: SimLike,
   source: EntityBase,
+  sourceLane: BeltLaneIndex,
   target: EntityBase,
   item: ItemKind,
   reservedTargetIds: Set<string>,
-  resolutions: Map<string, BeltTransferResolution>,
-): boolean => {
+): BeltTransferTarget | null => {
   if (target.id === source.id || reservedTargetIds.has(target.id)) {
-    return false;
+    return null;
   }
 
-  if (target.kind === "belt") {
-    const targetState = ensureBeltState(target);
-    if (targetState.item !== null) {
-      return false;
-    }
-
-    if (!canBeltAcceptItem(targetState, item)) {
-      return false;
+  if (isBeltLike(target)) {
+    const targetState = ensureBeltLikeState(target);
+    const insertion = resolveBeltTransferInsertion(sim, source, sourceLane, target);
+    if (
+      insertion === null ||
+      reservedTargetIds.has(getBeltLaneKey(target, insertion.lane)) ||
+      !canBeltAcceptItem(targetState, item) ||
+      !canInsertIntoBeltLane(targetState.lanes[insertion.lane], insertion.progress)
+    ) {
+      return null;
     }
 
-    return true;
+    return { target, insertion };
   }
 
-  return canAcceptDirectly(source, target, item);
+  return canAcceptDirectly(source, target, item) ? { target, insertion: null } : null;
+};
+
+const reserveBeltTransferTarget = (reservedTargetIds: Set<string>, resolved: BeltTransferTarget): void => {
+  reservedTargetIds.add(
+    resolved.insertion === null ? resolved.target.id : getBeltLaneKey(resolved.target, resolved.insertion.lane),
+  );
+};
+
+const getUndergroundBeltExitTargets = (
+  sim: SimLike,
+  source: EntityBase,
+): Array<{ direction: Direction; pos: GridCoord }> => {
+  const exit = findUndergroundBeltExit(sim, source);
+  return exit === null ? [] : [{ direction: source.rot, pos: exit.pos }];
 };
 
 const getSplitterOutputTargets = (source: EntityBase): Array<{ direction: Direction; pos: GridCoord }> => {
@@ -711,74 +1163,79 @@ const getSplitterOutputTargets = (source: EntityBase): Array<{ direction: Direct
   ];
 };
 
+/**
+ * Plans where the item waiting at the exit of `lane` goes this tick. Each target lane (or
+ * non-belt target) takes at most one item per tick, first come in entity order.
+ */
 const chooseBeltTransferTarget = (
   sim: SimLike,
   source: EntityBase,
+  lane: BeltLaneIndex,
   reservedTargetIds: Set<string>,
-  resolutions: Map<string, BeltTransferResolution>,
-): EntityBase | null => {
-  const sourceState = source.kind === "splitter" ? ensureSplitterState(source) : ensureBeltState(source);
-  if (sourceState.item === null || sourceState.tickPhase % getCanonicalCadenceTicks("belt") !== 0) {
+): BeltTransferPlan | null => {
+  const sourceState = ensureBeltLikeState(source);
+  const item = getBeltLaneExitItem(sourceState.lanes[lane]);
+  if (item === null) {
     return null;
   }
 
-  const existingResolution = resolutions.get(source.id);
-  if (existingResolution !== undefined) {
-    if (existingResolution.state === "resolving") {
-      return null;
-    }
-    return existingResolution.state === "movable" ? existingResolution.target ?? null : null;
-  }
-
   const candidateTargetPositions = source.kind === "splitter"
     ? getSplitterOutputTargets(source)
-    : [{ direction: source.rot, pos: move(source.pos, source.rot) }];
-
-  if (source.kind === "splitter") {
-    const splitterState = sourceState as SplitterState;
-    for (let index = 0; index < candidateTargetPositions.length; index += 1) {
-      const candidate = candidateTargetPositions[(splitterState.nextOutputIndex + index) % candidateTargetPositions.length];
-      const candidateEntities = getEntitiesAt(sim, candidate.pos);
-      for (const target of candidateEntities) {
-        if (target.id === source.id) {
-          continue;
-        }
-
-        if (!canTransferToBeltTarget(sim, source, target, sourceState.item, reservedTargetIds, resolutions)) {
-          continue;
-        }
+    : isUndergroundBeltEntrance(source)
+      ? getUndergroundBeltExitTargets(sim, source)
+      : [{ direction: source.rot, pos: move(source.pos, source.rot) }];
+  const splitterState = source.kind === "splitter" ? (sourceState as SplitterState) : null;
+  const offset = splitterState?.nextOutputIndex ?? 0;
+
+  for (let index = 0; index < candidateTargetPositions.length; index += 1) {
+    const candidate = candidateTargetPositions[(offset + index) % candidateTargetPositions.length];
+    for (const target of getEntitiesAt(sim, candidate.pos)) {
+      const resolved = resolveBeltTransferTarget(sim, source, lane, target, item, reservedTargetIds);
+      if (resolved === null) {
+        continue;
+      }
 
+      if (splitterState !== null) {
         splitterState.nextOutputIndex = splitterState.nextOutputIndex === 0 ? 1 : 0;
-        reservedTargetIds.add(target.id);
-        resolutions.set(source.id, { state: "movable", target });
-        return target;
       }
+      reserveBeltTransferTarget(reservedTargetIds, resolved);
+      return { ...resolved, source, sourceLane: lane, item };
     }
-
-    resolutions.set(source.id, { state: "blocked", target: null });
-    return null;
   }
 
-  const targetPos = candidateTargetPositions[0].pos;
-  const candidates = getEntitiesAt(sim, targetPos);
-  resolutions.set(source.id, { state: "resolving", target: null });
+  return null;
+};
 
-  for (const candidate of candidates) {
-    if (candidate.id === source.id) {
-      continue;
-    }
+/** Splitters move items at the basic belt speed. */
+const getBeltAdvancePerTick = (entity: EntityBase): number => {
+  const cadence = isBeltTierKind(entity.kind) ? BELT_TIER_CADENCE_TICKS[entity.kind] : getCanonicalCadenceTicks("belt");
+  return BELT_LANE_LENGTH / cadence;
+};
 
-    if (!canTransferToBeltTarget(sim, source, candidate, sourceState.item, reservedTargetIds, resolutions)) {
-      continue;
-    }
+const getBeltTransferPowerCost = (entity: EntityBase): number => {
+  return isBeltTierKind(entity.kind) ? BELT_TIER_TRANSFER_POWER[entity.kind] : POWER_COSTS.beltTransfer;
+};
 
-    reservedTargetIds.add(candidate.id);
-    resolutions.set(source.id, { state: "movable", target: candidate });
-    return candidate;
+/**
+ * Moves items along every lane before any transfer is planned, so an item that arrives this
+ * tick cannot also leave this tick.
+ */
+const advanceBeltEntities = (entities: ReadonlyArray<EntityBase>): EntityBase[] => {
+  const moved: EntityBase[] = [];
+  for (const entity of entities) {
+    const step = getBeltAdvancePerTick(entity);
+    const state = ensureBeltLikeState(entity);
+    state.tickPhase += 1;
+    let laneMoved = false;
+    for (const lane of state.lanes) {
+      laneMoved = advanceBeltLane(lane, step) || laneMoved;
+    }
+    syncBeltItemViews(state);
+    if (laneMoved) {
+      moved.push(entity);
+    }
   }
-
-  resolutions.set(source.id, { state: "blocked", target: null });
-  return null;
+  return moved;
 };
 
 const buildBeltTransferPlans = (
@@ -787,29 +1244,14 @@ const buildBeltTransferPlans = (
   reservedTargetIds: Set<string>,
 ): BeltTransferPlan[] => {
   const plans: BeltTransferPlan[] = [];
-  const resolutions = new Map<string, BeltTransferResolution>();
-
-  for (const source of entities) {
-    const sourceState = ensureBeltState(source);
-    sourceState.tickPhase += 1;
-  }
 
   for (const source of entities) {
-    const sourceState = ensureBeltState(source);
-    if (sourceState.item === null || sourceState.tickPhase % getCanonicalCadenceTicks("belt") !== 0) {
-      continue;
-    }
-
-    const target = chooseBeltTransferTarget(sim, source, reservedTargetIds, resolutions);
-    if (target === null) {
-      continue;
+    for (const lane of BELT_LANE_INDICES) {
+      const plan = chooseBeltTransferTarget(sim, source, lane, reservedTargetIds);
+      if (plan !== null) {
+        plans.push(plan);
+      }
     }
-
-    plans.push({
-      source,
-      target,
-      item: sourceState.item,
-    });
   }
 
   return plans;
@@ -820,27 +1262,33 @@ const commitBeltTransferPlans = (
   plans: ReadonlyArray<BeltTransferPlan>,
 ): void => {
   for (const plan of plans) {
-    if (!tryConsumePower(sim, POWER_COSTS.beltTransfer, "belt-transfer", plan.source)) {
+    const sourceState = ensureBeltLikeState(plan.source);
+    const sourceLane = sourceState.lanes[plan.sourceLane];
+    if (sourceLane[0]?.item !== plan.item) {
       continue;
     }
 
-    const sourceState = ensureBeltState(plan.source);
-    if (sourceState.item !== plan.item) {
+    if (!tryConsumePower(sim, getBeltTransferPowerCost(plan.source), "belt-transfer", plan.source)) {
       continue;
     }
 
-    sourceState.item = null;
-    syncBeltItemViews(sourceState);
-  }
-
-  for (const plan of plans) {
-    if (tryAcceptItem(plan.target, plan.item, plan.source, compareSimTick(sim))) {
-      continue;
+    const entry = sourceLane.shift();
+    let accepted: boolean;
+    if (plan.insertion === null) {
+      accepted = tryAcceptItem(plan.target, plan.item, plan.source, compareSimTick(sim));
+    } else {
+      const targetState = ensureBeltLikeState(plan.target);
+      accepted = insertIntoBeltLane(targetState.lanes[plan.insertion.lane], plan.item, plan.insertion.progress);
+      syncBeltItemViews(targetState);
     }
 
-    const sourceState = ensureBeltState(plan.source);
-    sourceState.item = plan.item;
+    if (!accepted && entry !== undefined) {
+      sourceLane.unshift(entry);
+    }
     syncBeltItemViews(sourceState);
+    if (accepted) {
+      sim.wakeEntitiesNear?.(plan.target.pos);
+    }
   }
 };
 
@@ -863,6 +1311,10 @@ const resolveMinedItemFromMap = (
       return FURNACE_INPUT_ITEM;
     }
 
+    if (tile === "copper-ore" || tile === "stone") {
+      return tile;
+    }
+
     if (tile === "tree") {
       return "wood";
     }
@@ -948,7 +1400,7 @@ const findMinerOutputTarget = (
   return null;
 };
 
-const tickMinerEntity = (entity: EntityBase, _dtMs: number, sim: SimLike): void => {
+const tickMinerEntity = (entity: EntityBase, _dtMs: number, sim: SimLike): TickOutcome => {
   const state = ensureMinerState(entity);
   state.tickPhase += 1;
   state.justMined = false;
@@ -964,49 +1416,57 @@ const tickMinerEntity = (entity: EntityBase, _dtMs: number, sim: SimLike): void
       state.output = null;
       state.hasOutput = false;
       state.justMined = true;
-    } else {
-      state.hasOutput = true;
+      return "active";
     }
-    return;
+    state.hasOutput = true;
+    return "idle";
   }
 
   if (state.tickPhase % getCanonicalCadenceTicks("miner") !== 0) {
-    return;
+    return "waiting";
   }
 
   if (!canMineTile(sim, entity.pos)) {
     state.hasOutput = false;
     state.output = null;
-    return;
+    return "idle";
   }
 
   const minedItem = getMinedItemFromTile(sim, entity.pos);
   if (!isItemKind(minedItem)) {
-    return;
+    return "waiting";
   }
 
   const minePos = findMinerOutputTarget(sim, entity, minedItem);
   if (minePos === null) {
-    return;
+    return "idle";
   }
 
   if (!tryConsumePower(sim, POWER_COSTS.miner, "miner", entity)) {
-    return;
+    return "waiting";
   }
 
   if (!consumeMinedResourceFromMap(sim, entity.pos)) {
-    return;
+    return "waiting";
+  }
+
+  if (sim.emitEvent !== undefined) {
+    sim.emitEvent({ type: "item-produced", entityId: entity.id, kind: entity.kind, item: minedItem, count: 1 });
+    if (!canMineTile(sim, entity.pos)) {
+      sim.emitEvent({ type: "resource-depleted", pos: { ...entity.pos }, item: minedItem });
+    }
   }
 
   if (transferToCell(sim, entity, minePos, minedItem)) {
     state.output = null;
     state.hasOutput = false;
     state.justMined = true;
-    return;
+    return "active";
   }
 
   state.output = minedItem;
   state.hasOutput = true;
+  return "active";
 };
 
 const collectInserterDropReservations = (
@@ -1016,21 +1476,18 @@ const collectInserterDropReservations = (
   const reserved = new Set<string>();
   for (const inserter of inserters) {
     const state = ensureInserterState(inserter);
-    if (state.holding === null) {
+    if (state.holding === null || (state.tickPhase + 1) % getInserterCadenceTicks(inserter) !== 0) {
       continue;
     }
 
-    const target = resolveDirectTransportTarget(
-      sim,
-      inserter,
-      state.holding,
-      move(inserter.pos, inserter.rot),
-    );
+    const hand = getInserterHand(inserter, inserter.rot);
+    const target = resolveDirectTransportTarget(sim, hand, state.holding, getInserterDropPos(inserter));
     if (target === null) {
       continue;
     }
 
-    reserved.add(target.id);
+    const insertion = isBeltLike(target) ? resolveBeltDropInsertion(target, hand) : null;
+    reserved.add(insertion === null ? target.id : getBeltLaneKey(target, insertion.lane));
   }
 
   return reserved;
@@ -1041,40 +1498,126 @@ const tickBeltEntities = (
   sim: SimLike,
   reservedTargetIds: Set<string>,
 ): void => {
-  const plans = buildBeltTransferPlans(sim, entities, new Set(reservedTargetIds));
-  if (plans.length === 0) {
-    return;
+  // An empty belt sleeps: advancing it only counts its ticks, and whatever drops an item onto it wakes it.
+  const awake: EntityBase[] = [];
+  for (const entity of entities) {
+    if (isEntityDormant(sim, entity)) {
+      ensureBeltLikeState(entity).tickPhase += 1;
+    } else {
+      awake.push(entity);
+    }
   }
 
-  commitBeltTransferPlans(sim, plans);
+  for (const entity of advanceBeltEntities(awake)) {
+    sim.wakeEntitiesNear?.(entity.pos);
+  }
+
+  const isLoaded = (entity: EntityBase): boolean => ensureBeltLikeState(entity).lanes.some((lane) => lane.length > 0);
+  const plans = buildBeltTransferPlans(sim, awake.filter(isLoaded), new Set(reservedTargetIds));
+  if (plans.length > 0) {
+    commitBeltTransferPlans(sim, plans);
+  }
+
+  for (const entity of awake) {
+    if (!isLoaded(entity)) {
+      sim.setEntityDormant?.(entity.id);
+    }
+  }
+};
+
+/**
+ * Items one swing may carry: the stack bonus only applies when dropping into a machine or
+ * chest, since belts take a single item per swing anyway.
+ */
+const getInserterHandCapacity = (sim: SimLike, entity: EntityBase, state: InserterState): number => {
+  const dropsOntoBelt = getEntitiesAt(sim, getInserterDropPos(entity)).some(isBeltLike);
+  return dropsOntoBelt ? 1 : 1 + state.stackBonus;
+};
+
+const releaseInserterHandItem = (state: InserterState): void => {
+  state.holdingCount -= 1;
+  if (state.holdingCount <= 0) {
+    state.holding = null;
+    state.holdingCount = 0;
+  }
+};
+
+/**
+ * A burner inserter with nothing left to burn feeds itself: from fuel in its hand, otherwise
+ * by lifting a fuel item from its pickup tile straight into the fuel slot, which takes the
+ * whole swing. Returns whether the swing was used.
+ */
+const refuelBurnerInserter = (sim: SimLike, entity: EntityBase, pickupHand: EntityBase): boolean => {
+  const state = ensureBurnerInserterState(entity);
+  if (state.burn >= 1 || state.fuel > 0) {
+    return false;
+  }
+
+  if (state.holding !== null) {
+    if (fuelBurnerInserter(state, state.holding)) {
+      releaseInserterHandItem(state);
+    }
+    return false;
+  }
+
+  for (const source of getEntitiesAt(sim, getInserterPickupPos(entity))) {
+    if (source.id === entity.id) {
+      continue;
+    }
+
+    const item = tryTakeItem(source, pickupHand, isFuelItem);
+    if (item !== null) {
+      sim.wakeEntitiesNear?.(source.pos);
+      fuelBurnerInserter(state, item);
+      state.state = 1;
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/** Sets the blocked swing state, announcing it when the inserter was not already blocked. */
+const markInserterBlocked = (sim: SimLike, entity: EntityBase, state: InserterState, item: ItemKind): void => {
+  if (state.state !== 2) {
+    sim.emitEvent?.({ type: "inserter-blocked", entityId: entity.id, kind: entity.kind, pos: { ...entity.pos }, item });
+  }
+  state.state = 2;
 };
 
-const tickInserterEntity = (entity: EntityBase, _dtMs: number, sim: SimLike): void => {
+const tickInserterEntity = (entity: EntityBase, _dtMs: number, sim: SimLike): TickOutcome => {
   const state = ensureInserterState(entity);
   state.tickPhase += 1;
 
-  if (state.tickPhase % getCanonicalCadenceTicks("inserter") !== 0) {
-    return;
+  if (state.tickPhase % getInserterCadenceTicks(entity) !== 0) {
+    return "waiting";
   }
 
-  const pickupPos = move(entity.pos, opposite(entity.rot));
-  const dropPos = move(entity.pos, entity.rot);
+  const pickupPos = getInserterPickupPos(entity);
+  const dropPos = getInserterDropPos(entity);
+  const pickupHand = getInserterHand(entity, opposite(entity.rot));
+  const dropHand = getInserterHand(entity, entity.rot);
+
+  if (entity.kind === BURNER_INSERTER_KIND && refuelBurnerInserter(sim, entity, pickupHand)) {
+    return "active";
+  }
 
   if (state.holding !== null) {
-    if (!canTransferToCell(sim, entity, dropPos, state.holding)) {
-      state.state = 2;
-      return;
+    if (!canTransferToCell(sim, dropHand, dropPos, state.holding)) {
+      markInserterBlocked(sim, entity, state, state.holding);
+      // A burner may have just fed its hand into its own fuel slot.
+      return entity.kind === BURNER_INSERTER_KIND ? "active" : "idle";
     }
 
-    if (!tryConsumePower(sim, POWER_COSTS.inserterMove, "inserter-move", entity)) {
-      return;
+    if (!tryPowerInserterSwing(sim, entity, "move")) {
+      return "waiting";
     }
 
     if (state.skipDropAtTick !== undefined) {
       const currentTick = compareSimTick(sim);
       if (state.skipDropAtTick === currentTick) {
         state.skipDropAtTick = undefined;
-        return;
+        return "waiting";
       }
 
       if (state.skipDropAtTick < currentTick) {
@@ -1082,42 +1625,87 @@ const tickInserterEntity = (entity: EntityBase, _dtMs: number, sim: SimLike): vo
       }
     }
 
-    if (transferToCell(sim, entity, dropPos, state.holding)) {
-      state.holding = null;
+    while (state.holding !== null && transferToCell(sim, dropHand, dropPos, state.holding)) {
+      releaseInserterHandItem(state);
+    }
+    if (state.holding === null) {
       state.state = 3;
     } else {
-      state.state = 2;
+      markInserterBlocked(sim, entity, state, state.holding);
     }
-    return;
+    return "active";
   }
 
+  const accepts = (item: ItemKind): boolean => inserterFilterAllows(state.filter, item);
+
   const sources = getEntitiesAt(sim, pickupPos);
   for (const source of sources) {
     if (source.id === entity.id) {
       continue;
     }
 
-    const item = tryTakeItem(source);
+    const item = tryTakeItem(source, pickupHand, accepts);
     if (item === null) {
       continue;
     }
 
-    if (!tryConsumePower(sim, POWER_COSTS.inserterPickup, "inserter-pickup", entity)) {
-      tryAcceptItem(source, item, entity);
-      return;
+    sim.wakeEntitiesNear?.(source.pos);
+    if (!tryPowerInserterSwing(sim, entity, "pickup")) {
+      tryAcceptItem(source, item, pickupHand);
+      return "active";
+    }
+
+    let count = 1;
+    const capacity = getInserterHandCapacity(sim, entity, state);
+    while (count < capacity && tryTakeItem(source, pickupHand, (next) => next === item) !== null) {
+      count += 1;
     }
 
     state.holding = item;
+    state.holdingCount = count;
     state.state = 1;
-    return;
+    return "active";
   }
 
   state.state = 0;
+  return "idle";
+};
+
+const isIdleMachine = (state: unknown): boolean => {
+  const machine = state as { isIdle?: unknown };
+  return typeof machine.isIdle === "function" && machine.isIdle() === true;
+};
+
+/** Hooks that report a machine's crafts as sim events; empty while nobody is listening. */
+const createCraftEventHooks = (
+  sim: SimLike,
+  entity: EntityBase,
+): { onCraftStart?: (recipe: Recipe) => void; onCraftFinish?: (recipe: Recipe) => void } => {
+  const emit = sim.emitEvent;
+  if (emit === undefined) {
+    return {};
+  }
+
+  const source = { entityId: entity.id, kind: entity.kind };
+  return {
+    onCraftStart: (recipe) => {
+      emit({ type: "craft-started", ...source, recipeId: recipe.id });
+      for (const stack of recipe.ingredients) {
+        emit({ type: "item-consumed", ...source, item: stack.item, count: stack.count });
+      }
+    },
+    onCraftFinish: (recipe) => {
+      emit({ type: "craft-finished", ...source, recipeId: recipe.id });
+      for (const stack of recipe.products) {
+        emit({ type: "item-produced", ...source, item: stack.item, count: stack.count });
+      }
+    },
+  };
 };
 
-const tickFurnaceEntity = (entity: EntityBase, dtMs: number, sim: SimLike): void => {
+const tickFurnaceEntity = (entity: EntityBase, dtMs: number, sim: SimLike): TickOutcome => {
   if (!isRecord(entity.state)) {
-    return;
+    return "waiting";
   }
 
   if (entity.kind === ASSEMBLER_TYPE) {
@@ -1126,7 +1714,7 @@ const tickFurnaceEntity = (entity: EntityBase, dtMs: number, sim: SimLike): void
       setPowerHooks?: (hooks: AssemblerPowerHooks) => void;
     };
     if (typeof assemblerState.update !== "function") {
-      return;
+      return "waiting";
     }
 
     const startPower = () =>
@@ -1134,11 +1722,11 @@ const tickFurnaceEntity = (entity: EntityBase, dtMs: number, sim: SimLike): void
     const tickPower = () =>
       tryConsumePower(sim, POWER_COSTS.assemblerTick, "assembler-tick", entity);
     if (typeof assemblerState.setPowerHooks === "function") {
-      assemblerState.setPowerHooks({ onStart: startPower, onTick: tickPower });
+      assemblerState.setPowerHooks({ onStart: startPower, onTick: tickPower, ...createCraftEventHooks(sim, entity) });
     }
 
     assemblerState.update(dtMs, { onStart: startPower, onTick: tickPower });
-    return;
+    return isIdleMachine(assemblerState) ? "idle" : "active";
   }
 
   const furnaceState = entity.state as {
@@ -1146,24 +1734,90 @@ const tickFurnaceEntity = (entity: EntityBase, dtMs: number, sim: SimLike): void
     setPowerHooks?: (hooks: FurnacePowerHooks) => void;
   };
   if (typeof furnaceState.update !== "function") {
-    return;
+    return "waiting";
   }
 
     const startPower = () => tryConsumePower(sim, POWER_COSTS.furnaceStart, "furnace-start", entity);
     const tickPower = () => tryConsumePower(sim, POWER_COSTS.furnaceTick, "furnace-tick", entity);
   const onFuelBurn = () => {
-    tryGeneratePower(sim, POWER_COSTS.furnaceFuelToPower, "furnace-fuel-burn");
+    tryGeneratePower(sim, POWER_COSTS.furnaceFuelToPower, "furnace-fuel-burn", entity);
   };
+  const craftEvents = createCraftEventHooks(sim, entity);
 
   if (typeof furnaceState.setPowerHooks === "function") {
     furnaceState.setPowerHooks({
       onStart: startPower,
       onTick: tickPower,
       onFuelBurn,
+      ...craftEvents,
     });
   }
 
-  furnaceState.update(dtMs, { onStart: startPower, onTick: tickPower, onFuelBurn });
+  furnaceState.update(dtMs, { onStart: startPower, onTick: tickPower, onFuelBurn, ...craftEvents });
+  return isIdleMachine(furnaceState) ? "idle" : "active";
+};
+
+/** The entity's fluid box, normalized in place so saved and hand-edited states stay in range. */
+const ensureFluidBox = (entity: EntityBase, kind: FluidEntityKind): FluidBox => {
+  if (!isRecord(entity.state)) {
+    entity.state = {};
+  }
+
+  const state = entity.state as { fluidBox?: unknown };
+  const normalized = normalizeFluidBox(state.fluidBox, kind);
+  if (!isRecord(state.fluidBox)) {
+    state.fluidBox = normalized;
+    return normalized;
+  }
+
+  const box = state.fluidBox as FluidBox;
+  box.fluid = normalized.fluid;
+  box.amount = normalized.amount;
+  return box;
+};
+
+const pumpWater = (entity: EntityBase, sim: SimLike): void => {
+  const map = sim.map ?? sim.getMap?.();
+  const intake = getOffshorePumpIntakeTile(entity.pos, entity.rot);
+  if (map?.isWater?.(intake.x, intake.y) !== true) {
+    return;
+  }
+
+  const box = ensureFluidBox(entity, OFFSHORE_PUMP_KIND);
+  const lifted = Math.min(OFFSHORE_PUMP_WATER_PER_TICK, FLUID_BOX_CAPACITY[OFFSHORE_PUMP_KIND] - box.amount);
+  if (lifted > 0) {
+    box.fluid = "water";
+    box.amount += lifted;
+  }
+};
+
+const getFluidLinks = (sim: SimLike, entities: ReadonlyArray<EntityBase>): Array<[EntityBase, EntityBase]> => {
+  const cached = sim.layoutToken === undefined ? undefined : fluidLinksByLayout.get(sim.layoutToken);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const links = computeFluidLinks(entities, (pos) => getEntitiesAt(sim, pos));
+  if (sim.layoutToken !== undefined) {
+    fluidLinksByLayout.set(sim.layoutToken, links);
+  }
+  return links;
+};
+
+const toFluidLinkEnd = (entity: EntityBase): FluidLinkEnd => {
+  const kind = entity.kind as FluidEntityKind;
+  return { box: ensureFluidBox(entity, kind), capacity: FLUID_BOX_CAPACITY[kind] };
+};
+
+/** Offshore pumps fill first; then fluid moves one link along each pipeline, limited per link. */
+const tickFluidEntities = (entities: ReadonlyArray<EntityBase>, sim: SimLike): void => {
+  for (const entity of entities) {
+    if (entity.kind === OFFSHORE_PUMP_KIND) {
+      pumpWater(entity, sim);
+    }
+  }
+
+  flowFluidLinks(getFluidLinks(sim, entities).map(([left, right]) => [toFluidLinkEnd(left), toFluidLinkEnd(right)] as const));
 };
 
 const runCanonicalTick = (sim: SimLike, dtMs: number): void => {
@@ -1171,29 +1825,52 @@ const runCanonicalTick = (sim: SimLike, dtMs: number): void => {
   const orderedKinds = CANONICAL_TICK_PHASES;
   const inserterDropReservations = collectInserterDropReservations(sim, grouped.inserter);
 
-  for (const kind of orderedKinds) {
+  const runPhase = (kind: CanonicalTickKind): void => {
     const entities = grouped[kind];
     if (kind === "miner") {
       for (const entity of entities) {
-        tickMinerEntity(entity, dtMs, sim);
+        if (isEntityDormant(sim, entity)) {
+          ensureMinerState(entity).tickPhase += 1;
+          continue;
+        }
+        settleTickOutcome(sim, entity, tickMinerEntity(entity, dtMs, sim));
       }
-      continue;
+      return;
     }
 
     if (kind === "belt") {
       tickBeltEntities(entities, sim, inserterDropReservations);
-      continue;
+      return;
     }
 
     if (kind === "inserter") {
       for (const entity of entities) {
-        tickInserterEntity(entity, dtMs, sim);
+        if (isEntityDormant(sim, entity)) {
+          ensureInserterState(entity).tickPhase += 1;
+          continue;
+        }
+        settleTickOutcome(sim, entity, tickInserterEntity(entity, dtMs, sim));
       }
-      continue;
+      return;
+    }
+
+    if (kind === "fluid") {
+      tickFluidEntities(entities, sim);
+      return;
     }
 
     for (const entity of entities) {
-      tickFurnaceEntity(entity, dtMs, sim);
+      if (!isEntityDormant(sim, entity)) {
+        settleTickOutcome(sim, entity, tickFurnaceEntity(entity, dtMs, sim));
+      }
+    }
+  };
+
+  for (const kind of orderedKinds) {
+    if (sim.profile === undefined) {
+      runPhase(kind);
+    } else {
+      sim.profile(`phase:${kind}`, () => runPhase(kind));
     }
   }
 };
@@ -1236,18 +1913,19 @@ const registerMiner = (): void => {
   });
 };
 
-const registerBelt = (): void => {
-  if (getDefinition("belt") !== undefined) {
+const registerBelt = (kind: BeltTierKind): void => {
+  if (getDefinition(kind) !== undefined) {
     return;
   }
 
-  registerEntity("belt", {
+  registerEntity(kind, {
     create: () => ({
       tickPhase: 0,
       item: null,
       items: [null],
       buffer: null,
       accept: null,
+      lanes: createBeltLanes(),
     }),
     tickPhase: "belt",
     update: (_entity, dtMs, sim) => runCanonicalPhasesIfNeeded(dtMs, sim as SimLike),
@@ -1266,6 +1944,7 @@ const registerSplitter = (): void => {
       items: [null],
       buffer: null,
       accept: null,
+      lanes: createBeltLanes(),
       nextOutputIndex: 0,
     }),
     tickPhase: "belt",
@@ -1273,16 +1952,40 @@ const registerSplitter = (): void => {
   });
 };
 
-const registerInserter = (): void => {
-  if (getDefinition("inserter") !== undefined) {
+const registerUndergroundBelt = (): void => {
+  if (getDefinition(UNDERGROUND_BELT_KIND) !== undefined) {
     return;
   }
 
-  registerEntity("inserter", {
+  registerEntity(UNDERGROUND_BELT_KIND, {
+    create: () => ({
+      tickPhase: 0,
+      item: null,
+      items: [null],
+      buffer: null,
+      accept: null,
+      lanes: createBeltLanes(),
+      mode: "input",
+    }),
+    tickPhase: "belt",
+    update: (_entity, dtMs, sim) => runCanonicalPhasesIfNeeded(dtMs, sim as SimLike),
+  });
+};
+
+const registerInserter = (kind: InserterKind): void => {
+  if (getDefinition(kind) !== undefined) {
+    return;
+  }
+
+  registerEntity(kind, {
     create: () => ({
       tickPhase: 0,
       holding: null,
+      holdingCount: 0,
+      filter: [],
+      stackBonus: 0,
       state: 0,
+      ...(kind === BURNER_INSERTER_KIND ? { fuelItem: null, fuel: 0, burn: 0 } : {}),
     }),
     tickPhase: "inserter",
     update: (_entity, dtMs, sim) => runCanonicalPhasesIfNeeded(dtMs, sim as SimLike),
@@ -1326,6 +2029,7 @@ const registerChest = (): void => {
   });
 };
 
+/** Output in full sun; panels scale it by the sim's daylight and make nothing at night. */
 const SOLAR_PANEL_POWER_PER_TICK = 6;
 const ACCUMULATOR_POWER_CAPACITY = 120;
 
@@ -1336,11 +2040,14 @@ const registerSolarPanel = (): void => {
 
   registerEntity("solar-panel", {
     create: () => ({}),
-    update: (_entity, _dtMs, sim) => {
+    update: (entity, _dtMs, sim) => {
       if (typeof sim.generatePower !== "function") {
         return;
       }
-      tryGeneratePower(sim, SOLAR_PANEL_POWER_PER_TICK, "solar-panel");
+      const output = Math.round(SOLAR_PANEL_POWER_PER_TICK * ((sim as SimLike).daylight ?? 1));
+      if (output > 0) {
+        tryGeneratePower(sim, output, "solar-panel", entity);
+      }
     },
   });
 };
@@ -1360,23 +2067,223 @@ const registerAccumulator = (): void => {
   });
 };
 
-const registerDefaults = (): void => {
+type BoilerState = Record<string, unknown> & {
+  /** Fuel waiting in the fuel slot; one kind at a time. */
+  fuelItem: ItemKind | null;
+  fuel: number;
+  /** Steam left to make from the fuel item currently burning. */
+  burn: number;
+  steam: number;
+  /** Water from the boiler's fluid network; each unit of steam uses one. */
+  fluidBox: FluidBox;
+  /**
+   * Set on boilers restored from saves made before boilers needed water, so existing power grids keep running;
+   * they boil without water until water first reaches them, and from then on need it like any other boiler.
+   */
+  boilsWithoutWater: boolean;
+  canAcceptItem: (item: string) => boolean;
+  acceptItem: (item: string) => boolean;
+};
+
+type SteamEngineState = {
+  /** Power made on the last tick, for the renderer. */
+  output: number;
+};
+
+const createBoilerState = (boilsWithoutWater = false): BoilerState => {
+  const state: BoilerState = {
+    fuelItem: null,
+    fuel: 0,
+    burn: 0,
+    steam: 0,
+    fluidBox: createFluidBox(),
+    boilsWithoutWater,
+    canAcceptItem(item: string): boolean {
+      return (
+        isItemKind(item) &&
+        isFuelItem(item) &&
+        state.fuel < BOILER_FUEL_CAPACITY &&
+        (state.fuelItem === null || state.fuelItem === item)
+      );
+    },
+    acceptItem(item: string): boolean {
+      if (!state.canAcceptItem(item) || !isItemKind(item)) {
+        return false;
+      }
+
+      state.fuelItem = item;
+      state.fuel += 1;
+      return true;
+    },
+  };
+  return state;
+};
+
+const ensureBoilerState = (entity: EntityBase): BoilerState => {
+  const state = entity.state as BoilerState;
+  state.fuel = Math.min(BOILER_FUEL_CAPACITY, asNonNegativeInteger(state.fuel));
+  state.fuelItem = state.fuel > 0 && isItemKind(state.fuelItem) && isFuelItem(state.fuelItem) ? state.fuelItem : null;
+  state.fuel = state.fuelItem === null ? 0 : state.fuel;
+  state.burn = asNonNegativeInteger(state.burn);
+  state.steam = Math.min(BOILER_STEAM_CAPACITY, asNonNegativeInteger(state.steam));
+  state.fluidBox = ensureFluidBox(entity, "boiler");
+  state.boilsWithoutWater = state.boilsWithoutWater === true && state.fluidBox.amount === 0;
+  return state;
+};
+
+const tickBoiler = (entity: EntityBase, sim: SimLike): void => {
+  const state = ensureBoilerState(entity);
+  const water = state.boilsWithoutWater ? Number.POSITIVE_INFINITY : state.fluidBox.amount;
+  // Without water there is nothing to boil, so the fuel is kept for later.
+  if (state.steam >= BOILER_STEAM_CAPACITY || water <= 0) {
+    return;
+  }
+
+  if (state.burn < 1 && state.fuelItem !== null) {
+    const fuelItem = state.fuelItem;
+    state.burn += (getItem(fuelItem)?.fuelValue ?? 0) * BOILER_STEAM_PER_FUEL_VALUE;
+    state.fuel -= 1;
+    if (state.fuel === 0) {
+      state.fuelItem = null;
+    }
+    // A freed fuel slot is something a waiting inserter can act on.
+    sim.wakeEntitiesNear?.(entity.pos);
+    sim.emitEvent?.({ type: "item-consumed", entityId: entity.id, kind: entity.kind, item: fuelItem, count: 1 });
+  }
+
+  const made = Math.min(BOILER_STEAM_PER_TICK, state.burn, BOILER_STEAM_CAPACITY - state.steam, water);
+  state.burn -= made;
+  state.steam += made;
+  if (state.boilsWithoutWater) {
+    return;
+  }
+  state.fluidBox.amount -= made;
+  if (state.fluidBox.amount === 0) {
+    state.fluidBox.fluid = null;
+  }
+};
+
+const getAdjacentBoilers = (sim: SimLike, entity: EntityBase): BoilerState[] => {
+  const boilers: BoilerState[] = [];
+  for (const dir of ["N", "E", "S", "W"] as const) {
+    for (const neighbor of getEntitiesAt(sim, move(entity.pos, dir))) {
+      if (neighbor.kind === "boiler") {
+        boilers.push(ensureBoilerState(neighbor));
+      }
+    }
+  }
+  return boilers;
+};
+
+const tickSteamEngine = (entity: EntityBase, sim: SimLike): void => {
+  const state = entity.state as SteamEngineState;
+  const boilers = getAdjacentBoilers(sim, entity);
+  let steam = 0;
+  for (const boiler of boilers) {
+    steam += boiler.steam;
+  }
+
+  // Asking for no more than the steam on hand means the network's free room decides how much is spent.
+  let remaining = tryGeneratePower(sim, Math.min(STEAM_ENGINE_MAX_POWER_PER_TICK, steam), "steam-engine", entity);
+  state.output = remaining;
+  for (const boiler of boilers) {
+    const drawn = Math.min(boiler.steam, remaining);
+    boiler.steam -= drawn;
+    remaining -= drawn;
+  }
+};
+
+const registerBoiler = (): void => {
+  if (getDefinition("boiler") !== undefined) {
+    return;
+  }
+
+  registerEntity("boiler", {
+    // A saved boiler without a fluid box comes from before boilers needed water.
+    create: (init: { state?: unknown }) => createBoilerState(isRecord(init.state) && !("fluidBox" in init.state)),
+    update: (entity, _dtMs, sim) => {
+      tickBoiler(entity, sim as SimLike);
+    },
+  });
+};
+
+const registerSteamEngine = (): void => {
+  if (getDefinition("steam-engine") !== undefined) {
+    return;
+  }
+
+  registerEntity("steam-engine", {
+    create: (): SteamEngineState => ({ output: 0 }),
+    update: (entity, _dtMs, sim) => {
+      tickSteamEngine(entity, sim as SimLike);
+    },
+  });
+};
+
+const registerFluidEntity = (kind: FluidEntityKind): void => {
+  if (getDefinition(kind) !== undefined) {
+    return;
+  }
+
+  registerEntity(kind, {
+    create: () => ({ fluidBox: createFluidBox() }),
+    tickPhase: "fluid",
+    update: (_entity, dtMs, sim) => runCanonicalPhasesIfNeeded(dtMs, sim as SimLike),
+  });
+};
+
+const registerPowerPole = (): void => {
+  if (getDefinition("power-pole") !== undefined) {
+    return;
+  }
+
+  registerEntity("power-pole", {
+    create: () => ({}),
+    update: () => {
+      // Poles only join entities into networks; see core/power-networks.
+    },
+  });
+};
+
+/** Registers every built-in entity kind; later calls are no-ops. */
+export const registerDefaults = (): void => {
+  if (getDefinition("miner") !== undefined) {
+    return;
+  }
+
   registerMiner();
-  registerBelt();
+  for (const kind of BELT_TIER_KINDS) {
+    registerBelt(kind);
+  }
   registerSplitter();
-  registerInserter();
+  registerUndergroundBelt();
+  for (const kind of INSERTER_KINDS) {
+    registerInserter(kind);
+  }
   registerFurnace();
   registerAssembler();
   registerChest();
   registerSolarPanel();
   registerAccumulator();
+  registerPowerPole();
+  registerBoiler();
+  registerSteamEngine();
+  // Boilers hold water too, but were registered above with their own update.
+  for (const kind of FLUID_ENTITY_KINDS) {
+    registerFluidEntity(kind);
+  }
 };
 
 registerDefaults();
 
 export const MINER_ATTEMPT_TICKS = CANONICAL_TICK_PHASE_CADENCE_TICKS.miner;
 export const BELT_ATTEMPT_TICKS = CANONICAL_TICK_PHASE_CADENCE_TICKS.belt;
+export const FAST_BELT_ATTEMPT_TICKS = BELT_TIER_CADENCE_TICKS["fast-belt"];
+export const EXPRESS_BELT_ATTEMPT_TICKS = BELT_TIER_CADENCE_TICKS["express-belt"];
 export const INSERTER_ATTEMPT_TICKS = CANONICAL_TICK_PHASE_CADENCE_TICKS.inserter;
+export const BURNER_INSERTER_ATTEMPT_TICKS = INSERTER_CADENCE_TICKS["burner-inserter"];
+export const FAST_INSERTER_ATTEMPT_TICKS = INSERTER_CADENCE_TICKS["fast-inserter"];
+export const LONG_HANDED_INSERTER_ATTEMPT_TICKS = INSERTER_CADENCE_TICKS["long-handed-inserter"];
 
 const isBoundaryTick = (tick: number, interval: number): boolean => {
   if (interval <= 0 || !Number.isInteger(interval)) {
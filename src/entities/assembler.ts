@@ -1,4 +1,15 @@
-import { getRecipeForInput, type Recipe } from "../recipes";
+import {
+  addItemCount,
+  canBufferIngredient,
+  countItems,
+  findSatisfiedRecipe,
+  firstBufferedItem,
+  getRecipe,
+  getRecipes,
+  getRecipesForProduct,
+  type ItemCounts,
+  type Recipe,
+} from "../recipes";
 import { isItemKind, type ItemKind } from "../core/types";
 
 export const ASSEMBLER_TYPE = "assembler";
@@ -13,11 +24,21 @@ type RecipeState = Recipe & {
 export type AssemblerPowerHooks = {
   onStart?: () => boolean;
   onTick?: () => boolean;
+  /** Called once the recipe's ingredients have been taken. */
+  onCraftStart?: (recipe: Recipe) => void;
+  /** Called once the recipe's products have been added. */
+  onCraftFinish?: (recipe: Recipe) => void;
 };
 
 export class Assembler {
+  /** First buffered ingredient, kept for single-slot consumers. */
   input: ItemKind | null = null;
+  /** First buffered product, kept for single-slot consumers. */
   output: ItemKind | null = null;
+  /** Selected recipe id; `null` keeps the legacy behaviour of crafting any assembling recipe. */
+  recipeId: string | null = null;
+  ingredients: ItemCounts = {};
+  products: ItemCounts = {};
   private crafting = false;
   private recipe: RecipeState | null = null;
   private powerHooks: AssemblerPowerHooks | null = null;
@@ -33,16 +54,89 @@ export class Assembler {
       : fallbackTicks;
   }
 
+  private getCandidateRecipes(): Recipe[] {
+    if (this.recipeId === null) {
+      return getRecipes("assembling");
+    }
+
+    const selected = getRecipe(this.recipeId);
+    return selected === undefined || selected.category !== "assembling" ? [] : [selected];
+  }
+
+  /**
+   * Switches the assembler to `recipeId`, dropping buffered ingredients and any craft in progress.
+   * Returns the dropped ingredients so the caller can refund them, or `null` for an unknown recipe.
+   */
+  setRecipe(recipeId: string | null): ItemCounts | null {
+    const refunded = this.previewRecipeRefund(recipeId);
+    if (refunded === null || recipeId === this.recipeId) {
+      return refunded;
+    }
+
+    this.recipeId = recipeId;
+    this.ingredients = {};
+    this.resetCraftingState();
+    this.syncSlotViews();
+    return refunded;
+  }
+
+  /** What `setRecipe(recipeId)` would refund, without changing anything; `null` for an unknown recipe. */
+  previewRecipeRefund(recipeId: string | null): ItemCounts | null {
+    if (recipeId !== null && getRecipe(recipeId)?.category !== "assembling") {
+      return null;
+    }
+
+    if (recipeId === this.recipeId) {
+      return {};
+    }
+
+    const refunded: ItemCounts = { ...this.ingredients };
+    if (this.crafting && this.recipe !== null && Array.isArray(this.recipe.ingredients)) {
+      for (const stack of this.recipe.ingredients) {
+        addItemCount(refunded, stack.item, stack.count);
+      }
+    }
+    return refunded;
+  }
+
+  private syncSlotViews(): void {
+    this.input = firstBufferedItem(this.ingredients);
+    this.output = firstBufferedItem(this.products);
+  }
+
+  /**
+   * Saves written before ingredient buffering only carry the single `input`/`output` slots and a
+   * recipe shaped as `{ input, output, timeMs }`.
+   */
+  private adoptLegacySlots(): void {
+    if (this.recipe !== null && !Array.isArray(this.recipe.products)) {
+      const legacy = this.recipe as unknown as { output?: unknown };
+      const match = typeof legacy.output === "string"
+        ? getRecipesForProduct(legacy.output, "assembling")[0]
+        : undefined;
+      this.recipe = match === undefined
+        ? null
+        : { ...match, ticks: this.recipe.ticks, elapsedTicks: this.recipe.elapsedTicks };
+      this.crafting = this.recipe !== null;
+    }
+    if (this.input !== null && countItems(this.ingredients) === 0) {
+      addItemCount(this.ingredients, this.input, 1);
+    }
+    if (this.output !== null && countItems(this.products) === 0) {
+      addItemCount(this.products, this.output, 1);
+    }
+  }
+
   canAcceptItem(item: string): boolean {
     if (!isItemKind(item)) {
       return false;
     }
 
-    if (this.output !== null || this.input !== null || this.crafting) {
+    if (this.outputOccupied || this.crafting) {
       return false;
     }
 
-    return getRecipeForInput(item) !== undefined;
+    return canBufferIngredient(this.getCandidateRecipes(), this.ingredients, item);
   }
 
   acceptItem(item: string): boolean {
@@ -50,43 +144,36 @@ export class Assembler {
       return false;
     }
 
-    this.input = item as ItemKind;
+    addItemCount(this.ingredients, item as ItemKind, 1);
+    this.syncSlotViews();
     return true;
   }
 
   canProvideItem(item: string): boolean {
-    return isItemKind(item) && item === this.output;
+    return isItemKind(item) && (this.products[item] ?? 0) > 0;
   }
 
   provideItem(item: string): ItemKind | null {
-    if (!this.canProvideItem(item) || this.output === null) {
+    if (!this.canProvideItem(item)) {
       return null;
     }
 
-    const provided = this.output;
-    this.output = null;
+    const provided = item as ItemKind;
+    addItemCount(this.products, provided, -1);
+    this.syncSlotViews();
     return provided;
   }
 
-  private canStartCrafting(): boolean {
-    if (this.input === null || this.output !== null || this.crafting) {
-      return false;
-    }
-
-    const recipe = getRecipeForInput(this.input);
-    if (recipe === undefined) {
-      return false;
+  private findStartableRecipe(): Recipe | undefined {
+    if (this.outputOccupied || this.crafting) {
+      return undefined;
     }
 
-    return true;
+    return findSatisfiedRecipe(this.getCandidateRecipes(), this.ingredients);
   }
 
   private startCrafting(): boolean {
-    if (!this.canStartCrafting()) {
-      return false;
-    }
-
-    const recipe = getRecipeForInput(this.input);
+    const recipe = this.findStartableRecipe();
     if (recipe === undefined) {
       return false;
     }
@@ -101,8 +188,13 @@ export class Assembler {
       elapsedTicks: 0,
     };
 
+    for (const stack of recipe.ingredients) {
+      addItemCount(this.ingredients, stack.item, -stack.count);
+    }
+
     this.crafting = true;
-    this.input = null;
+    this.syncSlotViews();
+    this.powerHooks?.onCraftStart?.(recipe);
     return true;
   }
 
@@ -120,8 +212,10 @@ export class Assembler {
   }
 
   update(_nowMs = 0): void {
+    this.adoptLegacySlots();
+
     if (!this.crafting) {
-      if (!this.output || this.output === null) {
+      if (!this.outputOccupied) {
         this.startCrafting();
       }
       return;
@@ -133,16 +227,26 @@ export class Assembler {
 
     if (this.recipe !== null) {
       this.recipe.elapsedTicks += 1;
-      if (this.isComplete() && this.recipe.elapsedTicks >= this.recipe.ticks) {
-        this.output = this.recipe.output;
+      if (this.isComplete()) {
+        const recipe = this.recipe;
+        for (const stack of recipe.products) {
+          addItemCount(this.products, stack.item, stack.count);
+        }
         this.resetCraftingState();
+        this.syncSlotViews();
+        this.powerHooks?.onCraftFinish?.(recipe);
       }
     }
   }
 
+  /** True when `update` has nothing to do until an item is added or taken, or the recipe changes. */
+  isIdle(): boolean {
+    return !this.crafting && this.findStartableRecipe() === undefined;
+  }
+
   get progress01(): number {
     if (!this.crafting || this.recipe === null) {
-      if (this.output !== null) {
+      if (this.outputOccupied) {
         return 1;
       }
       return 0;
@@ -156,10 +260,10 @@ export class Assembler {
   }
 
   get inputOccupied(): boolean {
-    return this.input !== null;
+    return countItems(this.ingredients) > 0;
   }
 
   get outputOccupied(): boolean {
-    return this.output !== null;
+    return countItems(this.products) > 0;
   }
 }
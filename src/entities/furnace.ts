@@ -1,26 +1,44 @@
+import { isFuelItem, isItemKind, type ItemKind } from "../core/items";
 import {
-  FURNACE_INPUT_ITEM,
-  FURNACE_OUTPUT_ITEM,
-  isItemKind,
-  type ItemKind,
-} from "../core/types";
+  addItemCount,
+  canBufferIngredient,
+  countItems,
+  findSatisfiedRecipe,
+  firstBufferedItem,
+  getRecipes,
+  IRON_ORE_TO_PLATE,
+  type ItemCounts,
+  type Recipe,
+} from "../recipes";
 
 export const FURNACE_TYPE = 'furnace';
-const FURNACE_SMELT_TICKS = 180;
+const FURNACE_DEFAULT_SMELT_TICKS = 180;
 const FURNACE_FUEL_CAPACITY = 1;
-const FURNACE_FUEL_ITEMS = new Set<ItemKind>(["coal", "wood"] as const);
 
 export type FurnacePowerHooks = {
   onStart?: () => boolean;
   onTick?: () => boolean;
   onFuelBurn?: (fuelAmount: number) => void;
+  /** Called once the recipe's ingredients and fuel have been taken. */
+  onCraftStart?: (recipe: Recipe) => void;
+  /** Called once the recipe's products have been added. */
+  onCraftFinish?: (recipe: Recipe) => void;
+};
+
+const getSmeltTicks = (recipe: Recipe): number => {
+  return recipe.timeMs <= 0 ? FURNACE_DEFAULT_SMELT_TICKS : Math.max(1, Math.floor(recipe.timeMs));
 };
 
 export class Furnace {
+  /** First buffered ingredient, kept for single-slot consumers. */
   input: ItemKind | null = null;
   private fuelAmount: number = 0;
+  /** First buffered product, kept for single-slot consumers. */
   output: ItemKind | null = null;
+  ingredients: ItemCounts = {};
+  products: ItemCounts = {};
   private crafting = false;
+  private recipe: Recipe | null = null;
   private smeltProgressTicks = 0;
   private powerHooks: FurnacePowerHooks | null = null;
 
@@ -28,21 +46,45 @@ export class Furnace {
     this.powerHooks = hooks;
   }
 
-  private canStartCrafting(): boolean {
-    return this.input === FURNACE_INPUT_ITEM && !this.crafting && this.output === null;
+  private syncSlotViews(): void {
+    this.input = firstBufferedItem(this.ingredients);
+    this.output = firstBufferedItem(this.products);
+  }
+
+  /**
+   * Saves written before ingredient buffering only carry the single `input`/`output` slots and
+   * always smelted iron ore.
+   */
+  private adoptLegacySlots(): void {
+    if (this.crafting && this.recipe === null) {
+      this.recipe = IRON_ORE_TO_PLATE;
+    }
+    if (this.input !== null && countItems(this.ingredients) === 0) {
+      addItemCount(this.ingredients, this.input, 1);
+    }
+    if (this.output !== null && countItems(this.products) === 0) {
+      addItemCount(this.products, this.output, 1);
+    }
+  }
+
+  private findStartableRecipe(): Recipe | undefined {
+    if (this.crafting || this.outputOccupied) {
+      return undefined;
+    }
+
+    return findSatisfiedRecipe(getRecipes("smelting"), this.ingredients);
   }
 
   canAcceptItem(item: string): boolean {
-    if (FURNACE_FUEL_ITEMS.has(item as ItemKind)) {
+    if (isFuelItem(item)) {
       return this.fuelAmount < FURNACE_FUEL_CAPACITY;
     }
 
     return (
       isItemKind(item) &&
-      item === FURNACE_INPUT_ITEM &&
-      this.input === null &&
       !this.crafting &&
-      this.output === null
+      !this.outputOccupied &&
+      canBufferIngredient(getRecipes("smelting"), this.ingredients, item)
     );
   }
 
@@ -51,12 +93,13 @@ export class Furnace {
       return false;
     }
 
-    if (FURNACE_FUEL_ITEMS.has(item as ItemKind)) {
+    if (isFuelItem(item)) {
       this.fuelAmount += 1;
       return true;
     }
 
-    this.input = item as ItemKind;
+    addItemCount(this.ingredients, item as ItemKind, 1);
+    this.syncSlotViews();
     return true;
   }
 
@@ -72,15 +115,15 @@ export class Furnace {
   }
 
   canProvideItem(item: string): boolean {
-    if (item === FURNACE_OUTPUT_ITEM) {
-      return isItemKind(item) && this.output === FURNACE_OUTPUT_ITEM;
+    if (isItemKind(item) && (this.products[item] ?? 0) > 0) {
+      return true;
     }
 
-    if (FURNACE_FUEL_ITEMS.has(item as ItemKind)) {
+    if (isFuelItem(item)) {
       return (
         this.fuelAmount > 0 &&
         !this.crafting &&
-        this.output === null
+        !this.outputOccupied
       );
     }
 
@@ -92,18 +135,20 @@ export class Furnace {
       return null;
     }
 
-    if (FURNACE_FUEL_ITEMS.has(item as ItemKind)) {
-      this.fuelAmount = Math.max(0, this.fuelAmount - 1);
-      return item as ItemKind;
+    const provided = item as ItemKind;
+    if ((this.products[provided] ?? 0) > 0) {
+      addItemCount(this.products, provided, -1);
+      this.syncSlotViews();
+      return provided;
     }
 
-    const provided = this.output;
-    this.output = null;
+    this.fuelAmount = Math.max(0, this.fuelAmount - 1);
     return provided;
   }
 
   startCrafting(): boolean {
-    if (!this.canStartCrafting() || !this.canConsumeFuelForStart()) {
+    const recipe = this.findStartableRecipe();
+    if (recipe === undefined || !this.canConsumeFuelForStart()) {
       return false;
     }
 
@@ -112,26 +157,37 @@ export class Furnace {
     }
 
     this.notifyFuelConsumed();
+    for (const stack of recipe.ingredients) {
+      addItemCount(this.ingredients, stack.item, -stack.count);
+    }
     this.crafting = true;
+    this.recipe = recipe;
     this.smeltProgressTicks = 0;
-    this.input = null;
+    this.syncSlotViews();
+    this.powerHooks?.onCraftStart?.(recipe);
     return true;
   }
 
+  private getActiveSmeltTicks(): number {
+    return this.recipe === null ? FURNACE_DEFAULT_SMELT_TICKS : getSmeltTicks(this.recipe);
+  }
+
   private hasReachedCompletionBoundary(): boolean {
-    return this.smeltProgressTicks >= FURNACE_SMELT_TICKS;
+    return this.smeltProgressTicks >= this.getActiveSmeltTicks();
   }
 
   private resetCraftingState(): void {
     this.crafting = false;
+    this.recipe = null;
     this.smeltProgressTicks = 0;
   }
 
   update(_nowMs: number = 0, hooks: FurnacePowerHooks = {}): void {
     this.powerHooks = hooks;
+    this.adoptLegacySlots();
 
     if (!this.crafting) {
-      if (this.output !== null) {
+      if (this.outputOccupied) {
         return;
       }
 
@@ -143,18 +199,28 @@ export class Furnace {
       return;
     }
 
-    this.smeltProgressTicks = Math.min(this.smeltProgressTicks + 1, FURNACE_SMELT_TICKS);
+    this.smeltProgressTicks = Math.min(this.smeltProgressTicks + 1, this.getActiveSmeltTicks());
 
     if (!this.hasReachedCompletionBoundary()) {
       return;
     }
 
-    if (this.output !== null) {
+    if (this.outputOccupied) {
       return;
     }
 
+    const recipe = this.recipe ?? IRON_ORE_TO_PLATE;
     this.resetCraftingState();
-    this.output = FURNACE_OUTPUT_ITEM;
+    for (const stack of recipe.products) {
+      addItemCount(this.products, stack.item, stack.count);
+    }
+    this.syncSlotViews();
+    this.powerHooks?.onCraftFinish?.(recipe);
+  }
+
+  /** True when `update` has nothing to do until an item is added or taken. */
+  isIdle(): boolean {
+    return !this.crafting && (!this.canConsumeFuelForStart() || this.findStartableRecipe() === undefined);
   }
 
   get storage(): number {
@@ -162,15 +228,15 @@ export class Furnace {
   }
 
   get inputOccupied(): boolean {
-    return this.input !== null;
+    return countItems(this.ingredients) > 0;
   }
 
   get outputOccupied(): boolean {
-    return this.output !== null;
+    return countItems(this.products) > 0;
   }
 
   get progress01(): number {
-    if (this.output !== null) {
+    if (this.outputOccupied) {
       return 1;
     }
 
@@ -178,6 +244,6 @@ export class Furnace {
       return 0;
     }
 
-    return this.smeltProgressTicks / FURNACE_SMELT_TICKS;
+    return this.smeltProgressTicks / this.getActiveSmeltTicks();
   }
 }
@@ -1,35 +1,249 @@
 import { isItemKind, type ItemKind } from './core/types';
 
+export type RecipeCategory = 'smelting' | 'assembling';
+
+export type RecipeItemStack = {
+  item: ItemKind;
+  count: number;
+};
+
 export type Recipe = {
-  input: ItemKind;
-  output: ItemKind;
+  id: string;
+  category: RecipeCategory;
+  ingredients: readonly RecipeItemStack[];
+  products: readonly RecipeItemStack[];
   timeMs: number;
 };
 
+/**
+ * Sparse item -> count map used by machines to buffer ingredients and products.
+ */
+export type ItemCounts = Partial<Record<ItemKind, number>>;
+
 export const IRON_ORE_TO_PLATE: Recipe = {
-  input: 'iron-ore',
-  output: 'iron-plate',
+  id: 'iron-plate',
+  category: 'smelting',
+  ingredients: [{ item: 'iron-ore', count: 1 }],
+  products: [{ item: 'iron-plate', count: 1 }],
   timeMs: 180,
 };
 
 export const IRON_PLATE_TO_GEAR: Recipe = {
-  input: 'iron-plate',
-  output: 'iron-gear',
+  id: 'iron-gear',
+  category: 'assembling',
+  ingredients: [{ item: 'iron-plate', count: 2 }],
+  products: [{ item: 'iron-gear', count: 1 }],
   timeMs: 220,
 };
 
-export function getRecipeForInput(input: string): Recipe | undefined {
-  if (!isItemKind(input)) {
-    return undefined;
+const recipesById = new Map<string, Recipe>();
+
+const isPositiveCount = (value: number): boolean => Number.isInteger(value) && value > 0;
+
+const validateStacks = (id: string, label: string, stacks: readonly RecipeItemStack[]): void => {
+  if (stacks.length === 0) {
+    throw new Error(`Recipe "${id}" must declare at least one ${label}`);
+  }
+
+  const seen = new Set<ItemKind>();
+  for (const stack of stacks) {
+    if (!isItemKind(stack.item)) {
+      throw new Error(`Recipe "${id}" has unknown ${label} item "${String(stack.item)}"`);
+    }
+    if (!isPositiveCount(stack.count)) {
+      throw new Error(`Recipe "${id}" has invalid ${label} count for "${stack.item}"`);
+    }
+    if (seen.has(stack.item)) {
+      throw new Error(`Recipe "${id}" lists ${label} "${stack.item}" more than once`);
+    }
+    seen.add(stack.item);
   }
+};
+
+export function registerRecipe(recipe: Recipe): void {
+  if (recipe.id.length === 0) {
+    throw new Error('Recipe id must not be empty');
+  }
+
+  if (recipesById.has(recipe.id)) {
+    throw new Error(`Recipe "${recipe.id}" is already registered`);
+  }
+
+  validateStacks(recipe.id, 'ingredient', recipe.ingredients);
+  validateStacks(recipe.id, 'product', recipe.products);
+  recipesById.set(recipe.id, recipe);
+}
 
-  if (input === 'iron-ore') {
-    return IRON_ORE_TO_PLATE;
+export function getRecipe(id: string): Recipe | undefined {
+  return recipesById.get(id);
+}
+
+/**
+ * Registered recipes in registration order, optionally limited to one machine category.
+ */
+export function getRecipes(category?: RecipeCategory): Recipe[] {
+  const recipes = Array.from(recipesById.values());
+  return category === undefined ? recipes : recipes.filter((recipe) => recipe.category === category);
+}
+
+export function getRecipesForProduct(item: string, category?: RecipeCategory): Recipe[] {
+  if (!isItemKind(item)) {
+    return [];
   }
 
-  if (input === 'iron-plate') {
-    return IRON_PLATE_TO_GEAR;
+  return getRecipes(category).filter((recipe) => recipe.products.some((stack) => stack.item === item));
+}
+
+export function getRecipesForIngredient(item: string, category?: RecipeCategory): Recipe[] {
+  if (!isItemKind(item)) {
+    return [];
   }
 
-  return undefined;
+  return getRecipes(category).filter((recipe) => recipe.ingredients.some((stack) => stack.item === item));
 }
+
+export const getIngredientCount = (recipe: Recipe, item: ItemKind): number => {
+  return recipe.ingredients.find((stack) => stack.item === item)?.count ?? 0;
+};
+
+export const countItems = (counts: ItemCounts): number => {
+  let total = 0;
+  for (const count of Object.values(counts)) {
+    total += count ?? 0;
+  }
+  return total;
+};
+
+/**
+ * A buffer fits a recipe when every buffered item is one of its ingredients and no count exceeds
+ * what a single craft consumes.
+ */
+const bufferFitsRecipe = (recipe: Recipe, buffered: ItemCounts): boolean => {
+  for (const [item, count] of Object.entries(buffered) as Array<[ItemKind, number | undefined]>) {
+    if (count === undefined || count <= 0) {
+      continue;
+    }
+    if (count > getIngredientCount(recipe, item)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * True when adding one `item` to `buffered` still leaves at least one candidate recipe reachable.
+ */
+export const canBufferIngredient = (
+  recipes: readonly Recipe[],
+  buffered: ItemCounts,
+  item: ItemKind,
+): boolean => {
+  const next: ItemCounts = { ...buffered, [item]: (buffered[item] ?? 0) + 1 };
+  return recipes.some((recipe) => getIngredientCount(recipe, item) > 0 && bufferFitsRecipe(recipe, next));
+};
+
+export const isRecipeSatisfied = (recipe: Recipe, buffered: ItemCounts): boolean => {
+  return recipe.ingredients.every((stack) => (buffered[stack.item] ?? 0) >= stack.count);
+};
+
+export const findSatisfiedRecipe = (
+  recipes: readonly Recipe[],
+  buffered: ItemCounts,
+): Recipe | undefined => {
+  return recipes.find((recipe) => isRecipeSatisfied(recipe, buffered));
+};
+
+export const addItemCount = (counts: ItemCounts, item: ItemKind, amount: number): void => {
+  const next = (counts[item] ?? 0) + amount;
+  if (next > 0) {
+    counts[item] = next;
+  } else {
+    delete counts[item];
+  }
+};
+
+/**
+ * First item present in `counts` (insertion order); used for the legacy single-slot views.
+ */
+export const firstBufferedItem = (counts: ItemCounts): ItemKind | null => {
+  for (const [item, count] of Object.entries(counts) as Array<[ItemKind, number | undefined]>) {
+    if (count !== undefined && count > 0) {
+      return item;
+    }
+  }
+
+  return null;
+};
+
+export const COPPER_ORE_TO_PLATE: Recipe = {
+  id: 'copper-plate',
+  category: 'smelting',
+  ingredients: [{ item: 'copper-ore', count: 1 }],
+  products: [{ item: 'copper-plate', count: 1 }],
+  timeMs: 180,
+};
+
+export const STONE_TO_BRICK: Recipe = {
+  id: 'stone-brick',
+  category: 'smelting',
+  ingredients: [{ item: 'stone', count: 2 }],
+  products: [{ item: 'stone-brick', count: 1 }],
+  timeMs: 180,
+};
+
+export const IRON_PLATE_TO_STEEL: Recipe = {
+  id: 'steel-plate',
+  category: 'smelting',
+  ingredients: [{ item: 'iron-plate', count: 5 }],
+  products: [{ item: 'steel-plate', count: 1 }],
+  timeMs: 900,
+};
+
+export const COPPER_PLATE_TO_CABLE: Recipe = {
+  id: 'copper-cable',
+  category: 'assembling',
+  ingredients: [{ item: 'copper-plate', count: 1 }],
+  products: [{ item: 'copper-cable', count: 2 }],
+  timeMs: 60,
+};
+
+export const ELECTRONIC_CIRCUIT: Recipe = {
+  id: 'electronic-circuit',
+  category: 'assembling',
+  ingredients: [
+    { item: 'iron-plate', count: 1 },
+    { item: 'copper-cable', count: 3 },
+  ],
+  products: [{ item: 'electronic-circuit', count: 1 }],
+  timeMs: 60,
+};
+
+export const AUTOMATION_SCIENCE_PACK: Recipe = {
+  id: 'automation-science-pack',
+  category: 'assembling',
+  ingredients: [
+    { item: 'copper-plate', count: 1 },
+    { item: 'iron-gear', count: 1 },
+  ],
+  products: [{ item: 'automation-science-pack', count: 1 }],
+  timeMs: 300,
+};
+
+/** Landfill turns a water tile into buildable ground. */
+export const LANDFILL: Recipe = {
+  id: 'landfill',
+  category: 'assembling',
+  ingredients: [{ item: 'stone', count: 20 }],
+  products: [{ item: 'landfill', count: 1 }],
+  timeMs: 500,
+};
+
+registerRecipe(IRON_ORE_TO_PLATE);
+registerRecipe(IRON_PLATE_TO_GEAR);
+registerRecipe(COPPER_ORE_TO_PLATE);
+registerRecipe(STONE_TO_BRICK);
+registerRecipe(IRON_PLATE_TO_STEEL);
+registerRecipe(COPPER_PLATE_TO_CABLE);
+registerRecipe(ELECTRONIC_CIRCUIT);
+registerRecipe(AUTOMATION_SCIENCE_PACK);
+registerRecipe(LANDFILL);
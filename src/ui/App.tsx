@@ -19,9 +19,71 @@ import {
   type Rotation,
   type Simulation,
 } from './placement';
-import { createRenderer, preloadRendererSvgs } from './renderer';
-import { createMap } from '../core/map';
+import { createRenderer, preloadRendererSvgs, type GhostOverlay } from './renderer';
+import { createChunkedMap, createMap, createMapPreview } from '../core/map';
+import { CHUNKED_MAP_SIZE, MAP_CHUNK_SIZE, MAX_TILE_AMOUNT, type MapChunkSave } from '../core/map-chunks';
+import {
+  MAP_RESOURCE_KINDS,
+  MAP_SETTING_LIMITS,
+  MAP_TERRAIN_KINDS,
+  areMapSettingsEqual,
+  createDefaultMapSettings,
+  normalizeMapSettings,
+  type MapResourceKind,
+  type MapSettingName,
+  type MapSettings,
+  type MapTerrainKind,
+} from '../core/map-settings';
+import {
+  UNDERGROUND_BELT_MAX_SPAN,
+  chooseUndergroundBeltMode,
+  isUndergroundBeltMode,
+  previewUndergroundBeltPlacement,
+  resolveUndergroundBeltPlacementFailure,
+  type UndergroundBeltMode,
+  type UndergroundBeltPreview,
+} from '../core/underground';
+import { FLUID_BOX_CAPACITY, getOffshorePumpIntakeTile, isFluidEntityKind, normalizeFluidBox } from '../core/fluids';
+import {
+  MAP_EDITOR_MAX_RADIUS,
+  MAP_EDITOR_TILES,
+  paintMapBrush,
+  type MapBrush,
+  type MapEditorTile,
+} from '../core/map-editor';
+import {
+  INSERTER_MAX_STACK_BONUS,
+  normalizeInserterFilter,
+  normalizeInserterStackBonus,
+  type InserterSettings,
+} from '../core/inserters';
+import { isInserterKind } from '../core/registry';
+import { createEmptyRuntimeMetrics, getPowerRunwayTicks, getSimulationMetrics, type RuntimeMetrics } from '../core/metrics';
+import type { SimStateHash } from '../core/state-hash';
 import { createSim } from '../core/sim';
+import { formatTimeOfDay, type DayNightState } from '../core/daylight';
+import {
+  createSimWorkerClient,
+  decodeSimWorkerState,
+  trackResourceConsumption,
+  type SimWorkerClient,
+  type SimWorkerFrame,
+  type SimWorkerResponse,
+} from '../core/sim-worker';
+import { createSnapshot, type Snapshot } from '../core/snapshot';
+import type { TickProfile } from '../core/profiler';
+import type { SimEvent } from '../core/sim-events';
+import {
+  DEFAULT_SIM_SPEED,
+  SIM_SPEED_OPTIONS,
+  createSimFrameStepper,
+  cycleSimSpeed,
+  formatSimSpeed,
+  parseSimSpeed,
+  type SimSpeed,
+} from '../core/speed';
+import { getItem, getItemKinds, isFuelItem, isItemKind, type ItemKind } from '../core/items';
+import { getRecipe, getRecipes } from '../recipes';
 import {
   detectCoarsePointer,
   type UiSettings,
@@ -32,8 +94,11 @@ import {
 import '../entities/all';
 
 const TILE_SIZE = 32;
-const WORLD_WIDTH = 60;
-const WORLD_HEIGHT = 40;
+// The world is generated in chunks as it is explored; the view is what fits the canvas at zoom 1.
+const WORLD_WIDTH = CHUNKED_MAP_SIZE;
+const WORLD_HEIGHT = CHUNKED_MAP_SIZE;
+const VIEW_WIDTH = 60;
+const VIEW_HEIGHT = 40;
 const WORLD_SEED = 'agents-ultra';
 const SIM_STEP_MS = 1000 / 60;
 const SAVE_STORAGE_KEY = 'agents-ultra-save-v1';
@@ -48,9 +113,14 @@ const CAMERA_MIN_ZOOM = 0.5;
 const CAMERA_MAX_ZOOM = 10;
 const CAMERA_ZOOM_STEP = 0.25;
 const CAMERA_DEFAULT_ZOOM = 1;
-const MINIMAP_CELL_SIZE = 3;
-const MINIMAP_WIDTH = WORLD_WIDTH * MINIMAP_CELL_SIZE;
-const MINIMAP_HEIGHT = WORLD_HEIGHT * MINIMAP_CELL_SIZE;
+const MINIMAP_CELL_SIZE = 2;
+// Tiles the minimap shows around the player; it scrolls as they move.
+const MINIMAP_VIEW_WIDTH = 96;
+const MINIMAP_VIEW_HEIGHT = 64;
+const MINIMAP_WIDTH = MINIMAP_VIEW_WIDTH * MINIMAP_CELL_SIZE;
+const MINIMAP_HEIGHT = MINIMAP_VIEW_HEIGHT * MINIMAP_CELL_SIZE;
+// Chunks beyond the visible tiles generated ahead of the player and camera.
+const EXPLORE_MARGIN_TILES = MAP_CHUNK_SIZE;
 const TOOL_PANEL_LEFT = 12;
 const HUD_LEFT = TOOL_PANEL_LEFT;
 const WORLD_CANVAS_TEST_ID = 'world-canvas';
@@ -60,6 +130,15 @@ const SAVE_SLOT_STORAGE_KEY_PREFIX = `${SAVE_STORAGE_KEY}-slot-`;
 const RUNTIME_CHECKPOINT_STORAGE_KEY = `${SAVE_STORAGE_KEY}-checkpoints-v1`;
 const RUNTIME_CHECKPOINT_SCHEMA_VERSION = 1;
 const RUNTIME_CHECKPOINT_LIMIT = 12;
+const RUNTIME_REPLAY_VERSION = 1;
+const RUNTIME_REPLAY_KEYFRAME_INTERVAL_TICKS = 600;
+const RUNTIME_REPLAY_MAX_KEYFRAMES = 120;
+const MAX_RUNTIME_REPLAY_INPUTS = 20_000;
+const MAX_RUNTIME_REPLAY_IMPORT_BYTES = 20_000_000;
+const RUNTIME_REPLAY_SPEEDS: ReadonlyArray<number> = [0.25, 0.5, 1, 2, 4, 8];
+const RUNTIME_REPLAY_FRAME_MS = 50;
+const RUNTIME_PROFILE_REFRESH_MS = 500;
+const RUNTIME_PROFILE_PANEL_ROWS = 12;
 const SAVE_SLOT_INDEX_FALLBACK = 0;
 const RUNTIME_AGENT_PLAN_STORAGE_KEY = 'agents-ultra-agent-plan-v1';
 const RUNTIME_AGENT_PLAN_STORAGE_SCHEMA_VERSION = 1;
@@ -77,6 +156,7 @@ const RUNTIME_PLAN_MIN_STEP_DELAY_MS = 20;
 const RUNTIME_PLAN_MAX_STEP_DELAY_MS = 2_000;
 const RUNTIME_PLAN_MAX_LOG_ENTRIES = 24;
 export const RUNTIME_SHARE_URL_QUERY_PARAM = 'runtime-share';
+export const RUNTIME_SIM_MODE_QUERY_PARAM = 'sim';
 
 type ShortcutHelpItem = {
   keys: string;
@@ -135,6 +215,10 @@ type RuntimeAgentPlanCommand =
       type: 'set-plan-speed';
       delayMs: number;
     }
+  | {
+      type: 'set-sim-speed';
+      speed: SimSpeed;
+    }
   | {
       type: 'set-agent-speed';
       targetAgent: string;
@@ -154,6 +238,13 @@ type RuntimeAgentPlanCommand =
       x?: number;
       y?: number;
     }
+  | {
+      type: 'configure-inserter';
+      x: number;
+      y: number;
+      filter?: ItemKind[];
+      stackBonus?: number;
+    }
   & {
     agent?: string;
     };
@@ -225,7 +316,6 @@ type RuntimeAgentPlanParseResult =
 type RuntimeSaveCompatibilityWarning = {
   code:
     | 'map-size-mismatch'
-    | 'seed-mismatch'
     | 'schema-version-upgraded'
     | 'unknown-entity-kind'
     | 'entity-position-clamped'
@@ -279,6 +369,8 @@ type RuntimeBlueprintEntity = {
   kind: RuntimeEntityKind;
   pos: Tile;
   rot: RuntimeDirection;
+  recipe?: string;
+  underground?: UndergroundBeltMode;
 };
 
 type RuntimeBlueprintState = {
@@ -301,7 +393,16 @@ type RuntimeBlueprintPlacementIssue = {
   kind: RuntimeEntityKind;
   x: number;
   y: number;
-  code: 'out-of-bounds' | 'tile-occupied' | 'player-tile' | 'resource-required' | 'unsupported-entity' | 'insufficient-fuel' | 'invalid-placement';
+  code:
+    | 'out-of-bounds'
+    | 'tile-occupied'
+    | 'player-tile'
+    | 'resource-required'
+    | 'unsupported-entity'
+    | 'insufficient-fuel'
+    | 'underground-unpaired'
+    | 'terrain-blocked'
+    | 'invalid-placement';
   message: string;
 };
 
@@ -309,6 +410,8 @@ type RuntimeBlueprintPlacementPlan = {
   kind: RuntimeEntityKind;
   tile: Tile;
   rotation: Rotation;
+  recipe?: string;
+  underground?: UndergroundBeltMode;
 };
 
 type RuntimeBlueprintPlacementInspectionContext = {
@@ -344,11 +447,13 @@ const isRuntimeAgentPlanCommandType = (value: unknown): value is RuntimeAgentPla
     || value === 'enable-agent'
     || value === 'disable-agent'
     || value === 'set-plan-speed'
+    || value === 'set-sim-speed'
     || value === 'set-agent-speed'
     || value === 'set-agent-order'
     || value === 'enable-automation'
     || value === 'disable-automation'
-    || value === 'interact';
+    || value === 'interact'
+    || value === 'configure-inserter';
 };
 
 const parseRuntimeAgentPlanTargetAgent = (value: unknown): string | null => {
@@ -607,7 +712,8 @@ export const isRuntimeAgentPlanCommandStateMutating = (command: RuntimeAgentPlan
     || command.type === 'pause'
     || command.type === 'resume'
     || command.type === 'toggle-pause'
-    || command.type === 'interact';
+    || command.type === 'interact'
+    || command.type === 'configure-inserter';
 };
 
 export const describeRuntimeAgentPlanCommand = (command: RuntimeAgentPlanCommand): RuntimeAgentPlanCommandDescription => {
@@ -677,6 +783,13 @@ export const describeRuntimeAgentPlanCommand = (command: RuntimeAgentPlanCommand
     };
   }
 
+  if (command.type === 'set-sim-speed') {
+    return {
+      label: 'set sim speed',
+      details: formatSimSpeed(command.speed),
+    };
+  }
+
   if (command.type === 'set-agent-speed') {
     return {
       label: 'set agent speed',
@@ -708,6 +821,17 @@ export const describeRuntimeAgentPlanCommand = (command: RuntimeAgentPlanCommand
     };
   }
 
+  if (command.type === 'configure-inserter') {
+    const settings = [
+      ...(command.filter === undefined ? [] : [`filter ${command.filter.length === 0 ? 'any' : command.filter.join(',')}`]),
+      ...(command.stackBonus === undefined ? [] : [`stack +${command.stackBonus}`]),
+    ];
+    return {
+      label: 'configure inserter',
+      details: `(${command.x}, ${command.y}) ${settings.join(' ')}`,
+    };
+  }
+
   return {
     label: 'pause state',
     details: command.type,
@@ -974,6 +1098,19 @@ const normalizeRuntimeAgentPlanCommand = (value: unknown): RuntimeAgentPlanComma
     };
   }
 
+  if (rawType === 'set-sim-speed') {
+    const speed = parseSimSpeed(value.speed);
+    if (speed === null) {
+      return null;
+    }
+    const agent = normalizeRuntimeAgentPlanCommandAgent(value.agent);
+    return {
+      type: rawType,
+      speed,
+      ...(agent === undefined ? {} : { agent }),
+    };
+  }
+
   if (rawType === 'set-agent-speed') {
     const targetAgent = parseRuntimeAgentPlanTargetAgent((value as { targetAgent?: unknown }).targetAgent)
       ?? parseRuntimeAgentPlanTargetAgent((value as { target?: unknown }).target)
@@ -1061,6 +1198,39 @@ const normalizeRuntimeAgentPlanCommand = (value: unknown): RuntimeAgentPlanComma
     return command;
   }
 
+  if (rawType === 'configure-inserter') {
+    const x = toInt(value.x);
+    const y = toInt(value.y);
+    if (x === null || y === null || x < 0 || y < 0 || x >= WORLD_WIDTH || y >= WORLD_HEIGHT) {
+      return null;
+    }
+
+    if (value.filter !== undefined && (!Array.isArray(value.filter) || !value.filter.every(isItemKind))) {
+      return null;
+    }
+    const filter = value.filter === undefined ? undefined : normalizeInserterFilter(value.filter);
+
+    const stackBonus = value.stackBonus === undefined ? undefined : toInt(value.stackBonus);
+    if (stackBonus === null || (stackBonus !== undefined && stackBonus > INSERTER_MAX_STACK_BONUS)) {
+      return null;
+    }
+
+    if (filter === undefined && stackBonus === undefined) {
+      return null;
+    }
+
+    const agent = normalizeRuntimeAgentPlanCommandAgent(value.agent);
+    const command: RuntimeAgentPlanCommand = {
+      type: 'configure-inserter',
+      x,
+      y,
+      ...(filter === undefined ? {} : { filter }),
+      ...(stackBonus === undefined ? {} : { stackBonus }),
+      ...(agent === undefined ? {} : { agent }),
+    };
+    return command;
+  }
+
   const agent = normalizeRuntimeAgentPlanCommandAgent(value.agent);
   const command: RuntimeAgentPlanCommand = {
     type: rawType,
@@ -1185,9 +1355,10 @@ export type CameraState = {
 };
 
 type RendererApi = {
-  setGhost(tile: Tile | null, valid: boolean): void;
+  setGhost(tile: Tile | null, valid: boolean, overlay?: GhostOverlay): void;
   setCamera?(camera: CameraState): void;
   setReducedMotionEnabled?(enabled: boolean): void;
+  setPowerOverlayEnabled?(enabled: boolean): void;
   requestRender?: () => void;
   destroy(): void;
   resize?(width: number, height: number): void;
@@ -1202,36 +1373,124 @@ type PaletteViewComponent = (props: PaletteProps) => ReturnType<typeof Palette>;
 
 const PaletteView = Palette as unknown as PaletteViewComponent;
 
-const ITEM_ORDER = ['iron-ore', 'iron-plate', 'iron-gear', 'coal', 'wood'] as const;
-type RuntimeItemKind = (typeof ITEM_ORDER)[number];
+const ITEM_ORDER: ReadonlyArray<RuntimeItemKind> = getItemKinds();
+type RuntimeItemKind = ItemKind;
+
+/**
+ * Sparse item -> count map backing the player inventory, chest snapshots and saves.
+ */
+type RuntimeInventoryItems = Partial<Record<RuntimeItemKind, number>>;
+
+const ITEM_FALLBACK_COLOR = '#d4d4d4';
+
+const getItemColor = (item: RuntimeItemKind): string => getItem(item)?.color ?? ITEM_FALLBACK_COLOR;
+
+/**
+ * Fixed inventory fields written by saves that predate the generic `items` map. Earlier aliases win.
+ */
+const LEGACY_INVENTORY_FIELDS: ReadonlyArray<readonly [string, RuntimeItemKind]> = [
+  ['ironOre', 'iron-ore'],
+  ['ore', 'iron-ore'],
+  ['plate', 'iron-plate'],
+  ['plates', 'iron-plate'],
+  ['gear', 'iron-gear'],
+  ['coal', 'coal'],
+  ['wood', 'wood'],
+];
+
+const ASSEMBLER_RECIPE_IDS: ReadonlyArray<string> = getRecipes('assembling').map((recipe) => recipe.id);
+const DEFAULT_ASSEMBLER_RECIPE_ID: string | null = ASSEMBLER_RECIPE_IDS[0] ?? null;
 
-const ITEM_COLORS: Record<RuntimeItemKind, string> = {
-  'iron-ore': '#4f86f7',
-  'iron-plate': '#f7ca4f',
-  'iron-gear': '#c084fc',
-  'coal': '#343434',
-  'wood': '#4d6b37',
+const normalizeAssemblerRecipeId = (value: unknown): string | null => {
+  return typeof value === 'string' && getRecipe(value)?.category === 'assembling' ? value : null;
 };
 
 const MINIMAP_COLORS = {
   empty: '#111111',
   ore: '#3258a3',
   coal: '#444444',
+  copper: '#b8643a',
+  stone: '#8a8274',
   tree: '#2f5f2f',
+  water: '#1f4f7a',
+  cliff: '#6b5440',
   player: '#f7d76a',
   entities: {
     miner: '#ff6f6f',
     belt: '#8ab4ff',
+    'fast-belt': '#ff8a8a',
+    'express-belt': '#6fa8ff',
+    'underground-belt': '#b0a4ff',
     splitter: '#8affd7',
     inserter: '#ffb347',
+    'burner-inserter': '#c98b4a',
+    'fast-inserter': '#5fb8e6',
+    'long-handed-inserter': '#e8665a',
     furnace: '#9e78da',
     chest: '#58b06f',
     assembler: '#7be4ff',
     'solar-panel': '#f6e85f',
     accumulator: '#d4c44a',
+    'power-pole': '#b08a5a',
+    boiler: '#8c8f96',
+    'steam-engine': '#6f9fb8',
+    pipe: '#7d8a96',
+    'pipe-to-ground': '#5f6c78',
+    'offshore-pump': '#4a90c2',
+    'storage-tank': '#9aa7b3',
   } as Record<RuntimeEntityKind, string>,
 };
 
+const getMinimapTileColor = (tile: unknown): string => {
+  if (tile === 'iron-ore') {
+    return MINIMAP_COLORS.ore;
+  }
+  if (tile === 'coal-ore') {
+    return MINIMAP_COLORS.coal;
+  }
+  if (tile === 'copper-ore') {
+    return MINIMAP_COLORS.copper;
+  }
+  if (tile === 'stone') {
+    return MINIMAP_COLORS.stone;
+  }
+  if (tile === 'tree') {
+    return MINIMAP_COLORS.tree;
+  }
+  if (tile === 'water') {
+    return MINIMAP_COLORS.water;
+  }
+  if (tile === 'cliff') {
+    return MINIMAP_COLORS.cliff;
+  }
+  return MINIMAP_COLORS.empty;
+};
+
+// Tiles around spawn shown by the new-world preview, drawn one pixel each.
+const NEW_WORLD_PREVIEW_TILES = 192;
+
+const NEW_WORLD_RESOURCE_LABELS: Readonly<Record<MapResourceKind, string>> = {
+  'iron-ore': 'Iron',
+  'copper-ore': 'Copper',
+  'coal-ore': 'Coal',
+  stone: 'Stone',
+  tree: 'Trees',
+};
+
+const NEW_WORLD_TERRAIN_LABELS: Readonly<Record<MapTerrainKind, string>> = {
+  water: 'Water',
+  cliff: 'Cliffs',
+};
+
+const NEW_WORLD_SETTING_NAMES: ReadonlyArray<MapSettingName> = ['frequency', 'size', 'richness'];
+
+const MAP_EDITOR_TILE_LABELS: Readonly<Record<MapEditorTile, string>> = {
+  ...NEW_WORLD_RESOURCE_LABELS,
+  empty: 'Clear',
+};
+
+const MAP_EDITOR_DEFAULT_BRUSH: MapBrush = { tile: 'iron-ore', amount: 50, radius: 1 };
+
 type HotkeyMap = Record<string, EntityKind>;
 
 const TOOL_HOTKEY_ORDER: ReadonlyArray<EntityKind> = TOOLBAR_ENTITY_ORDER.slice(0, 9);
@@ -1265,7 +1524,7 @@ type HudSyncOptions = {
 };
 
 type RuntimeDirection = 'N' | 'E' | 'S' | 'W';
-type RuntimeEntityKind = 'miner' | 'belt' | 'splitter' | 'inserter' | 'furnace' | 'chest' | 'assembler' | 'solar-panel' | 'accumulator';
+type RuntimeEntityKind = 'miner' | 'belt' | 'fast-belt' | 'express-belt' | 'underground-belt' | 'splitter' | 'inserter' | 'burner-inserter' | 'fast-inserter' | 'long-handed-inserter' | 'furnace' | 'chest' | 'assembler' | 'solar-panel' | 'accumulator' | 'power-pole' | 'boiler' | 'steam-engine' | 'pipe' | 'pipe-to-ground' | 'offshore-pump' | 'storage-tank';
 
 type RuntimeEntity = {
   id: string;
@@ -1283,11 +1542,7 @@ type RuntimeSaveEntity = {
 };
 
 type RuntimeSaveInventory = {
-  ore: number;
-  plate: number;
-  gear: number;
-  coal: number;
-  wood: number;
+  items: RuntimeInventoryItems;
   used: number;
   capacity: number;
 };
@@ -1327,6 +1582,12 @@ type RuntimeSaveState = {
     generatedThisTick?: number;
     shortagesThisTick?: number;
   };
+  /** Ticks into the day/night cycle; saves without it resume where a game started at noon would be. */
+  dayTicks?: number;
+  /** Map tiles that differ from a fresh generation of the seed, by chunk; saves without it keep the current map. */
+  mapChunks?: MapChunkSave[];
+  /** Resource settings the world was generated with; saves without it use the defaults. */
+  mapSettings?: MapSettings;
 };
 
 type RuntimeSaveEnvelope = RuntimeSaveState & {
@@ -1353,6 +1614,91 @@ type RuntimeNormalizedCheckpoint = RuntimeCheckpoint & {
   createdAtTime: number;
 };
 
+/**
+ * One recorded input. `tick` is the replay timeline: ticks elapsed since recording started,
+ * which keeps counting forward across loads and undos that rewind the sim clock.
+ */
+type RuntimeReplayInput =
+  | {
+      tick: number;
+      kind: 'command';
+      command: RuntimeAgentPlanCommand;
+    }
+  | {
+      tick: number;
+      kind: 'recipe';
+      /** Assembler tile, or `null` for the recipe new assemblers are placed with. */
+      tile: Tile | null;
+      recipe: string | null;
+    }
+  | {
+      tick: number;
+      kind: 'state';
+      reason: string;
+      state: RuntimeSaveState;
+    };
+
+type RuntimeReplayInputDraft = RuntimeReplayInput extends infer Input
+  ? Input extends RuntimeReplayInput ? Omit<Input, 'tick'> : never
+  : never;
+
+type RuntimeReplayRecording = {
+  replay: RuntimeReplay;
+  /** Runtime session tick the replay timeline starts from. */
+  startSessionTick: number;
+};
+
+type RuntimeReplayViewerSession = {
+  replay: RuntimeReplay;
+  cursor: RuntimeReplayCursor | null;
+  /** State to return to when the viewer closes. */
+  resumeState: RuntimeSaveState | null;
+  playing: boolean;
+  speed: number;
+  /** Fractional ticks carried between playback frames at slow speeds. */
+  pendingTicks: number;
+};
+
+type RuntimeReplayViewerState = {
+  tick: number;
+  endTick: number;
+  playing: boolean;
+  speed: number;
+  inputCount: number;
+  keyframeCount: number;
+};
+
+type RuntimeReplayKeyframe = {
+  tick: number;
+  /** Number of inputs already applied when the checkpoint was captured. */
+  inputIndex: number;
+  checkpoint: RuntimeCheckpoint;
+};
+
+type RuntimeReplay = {
+  version: number;
+  seed: string;
+  createdAt: string;
+  endTick: number;
+  placementRecipe: string | null;
+  initialState: RuntimeSaveState;
+  inputs: RuntimeReplayInput[];
+  keyframes: RuntimeReplayKeyframe[];
+};
+
+type RuntimeReplayCursor = {
+  tick: number;
+  inputIndex: number;
+};
+
+type RuntimeReplayDriver = {
+  loadState: (state: RuntimeSaveState) => boolean;
+  stepTicks: (count: number) => void;
+  applyInput: (input: RuntimeReplayInput) => void;
+  /** Returns the current state so seeking can leave keyframes behind for later seeks. */
+  captureState?: () => RuntimeSaveState | null;
+};
+
 type ParseRuntimeSaveStateOptions = {
   fallbackPlayerRotation?: RuntimeDirection;
 };
@@ -1375,6 +1721,8 @@ type HudSelectedEntity = {
   canAccept: ReadonlyArray<RuntimeItemKind>;
   canProvide: ReadonlyArray<RuntimeItemKind>;
   details: ReadonlyArray<string>;
+  recipe?: string | null;
+  inserter?: InserterSettings;
 };
 
 type RuntimeItemKindOrder = ReadonlyArray<RuntimeItemKind>;
@@ -1498,18 +1846,43 @@ const RUNTIME_KIND_LABEL: Record<RuntimeAdjacentInteractive["kind"] | string, st
   furnace: 'Furnace',
   miner: 'Miner',
   belt: 'Belt',
+  'fast-belt': 'FastBelt',
+  'express-belt': 'ExpressBelt',
+  'underground-belt': 'UndergroundBelt',
   splitter: 'Splitter',
   inserter: 'Inserter',
+  'burner-inserter': 'BurnerInserter',
+  'fast-inserter': 'FastInserter',
+  'long-handed-inserter': 'LongHandedInserter',
   assembler: 'Assembler',
   'solar-panel': 'SolarPanel',
   accumulator: 'Accumulator',
+  'power-pole': 'PowerPole',
+  boiler: 'Boiler',
+  'steam-engine': 'SteamEngine',
+  pipe: 'Pipe',
+  'pipe-to-ground': 'PipeToGround',
+  'offshore-pump': 'OffshorePump',
+  'storage-tank': 'StorageTank',
 };
 
 const RUNTIME_SAVE_ENTITY_KIND_ALIASES: Record<string, RuntimeEntityKind> = {
   Miner: 'miner',
   Belt: 'belt',
+  FastBelt: 'fast-belt',
+  'Fast Belt': 'fast-belt',
+  ExpressBelt: 'express-belt',
+  'Express Belt': 'express-belt',
+  UndergroundBelt: 'underground-belt',
+  'Underground Belt': 'underground-belt',
   Splitter: 'splitter',
   Inserter: 'inserter',
+  BurnerInserter: 'burner-inserter',
+  'Burner Inserter': 'burner-inserter',
+  FastInserter: 'fast-inserter',
+  'Fast Inserter': 'fast-inserter',
+  LongHandedInserter: 'long-handed-inserter',
+  'Long Handed Inserter': 'long-handed-inserter',
   Furnace: 'furnace',
   Chest: 'chest',
   Assembler: 'assembler',
@@ -1524,18 +1897,48 @@ const RUNTIME_SAVE_ENTITY_KIND_ALIASES: Record<string, RuntimeEntityKind> = {
   'accumulator-storage': 'accumulator',
   'accumulator storage': 'accumulator',
   accumulator: 'accumulator',
+  PowerPole: 'power-pole',
+  'Power Pole': 'power-pole',
+  'power pole': 'power-pole',
+  Boiler: 'boiler',
+  SteamEngine: 'steam-engine',
+  'Steam Engine': 'steam-engine',
+  'steam engine': 'steam-engine',
+  Pipe: 'pipe',
+  PipeToGround: 'pipe-to-ground',
+  'Pipe To Ground': 'pipe-to-ground',
+  'pipe to ground': 'pipe-to-ground',
+  OffshorePump: 'offshore-pump',
+  'Offshore Pump': 'offshore-pump',
+  'offshore pump': 'offshore-pump',
+  StorageTank: 'storage-tank',
+  'Storage Tank': 'storage-tank',
+  'storage tank': 'storage-tank',
 };
 
 const isRuntimeSaveEntityKind = (value: string): value is RuntimeEntityKind => {
   return value === 'miner'
     || value === 'belt'
+    || value === 'fast-belt'
+    || value === 'express-belt'
+    || value === 'underground-belt'
     || value === 'splitter'
     || value === 'inserter'
+    || value === 'burner-inserter'
+    || value === 'fast-inserter'
+    || value === 'long-handed-inserter'
     || value === 'furnace'
     || value === 'chest'
     || value === 'assembler'
     || value === 'solar-panel'
-    || value === 'accumulator';
+    || value === 'accumulator'
+    || value === 'power-pole'
+    || value === 'boiler'
+    || value === 'steam-engine'
+    || value === 'pipe'
+    || value === 'pipe-to-ground'
+    || value === 'offshore-pump'
+    || value === 'storage-tank';
 };
 
 const normalizeRuntimeSaveEntityKind = (value: string): {
@@ -1619,10 +2022,7 @@ type PlacementSnapshot = {
   maxFuel: number;
   player: Tile;
   inventory: {
-    ore: number;
-    plate: number;
-    gear: number;
-    coal: number;
+    items: RuntimeInventoryItems;
     used: number;
     capacity: number;
   };
@@ -1667,50 +2067,102 @@ type RuntimeSimulation = Simulation & {
   interactWithChestAtTile?: (tile: Tile, action: 'pickup' | 'deposit') => CoreActionOutcome;
   interactWithItemHostAtTile?: (tile: Tile, action: 'pickup' | 'deposit') => CoreActionOutcome;
   mineResourceAtTile?: (tile: Tile) => CoreActionOutcome;
+  getPlacementRecipe?: () => string | null;
+  setPlacementRecipe?: (recipeId: string | null) => CoreActionOutcome;
+  setPlacementUndergroundMode?: (mode: UndergroundBeltMode | null) => void;
+  getUndergroundBeltPreview?: (tile: Tile, rotation: Rotation) => UndergroundBeltPreview;
+  setAssemblerRecipeAtTile?: (tile: Tile, recipeId: string | null) => CoreActionOutcome;
+  setInserterSettingsAtTile?: (tile: Tile, settings: Partial<InserterSettings>) => CoreActionOutcome;
+  getSessionTick?: () => number;
+  getStateHash?: () => SimStateHash;
+  setStateHashRecording?: (every: number | null) => void;
+  getStateHashLog?: () => SimStateHash[];
   getTileScreenPoint?: (tile: Tile) => { x: number; y: number } | null;
   getTileCanvasPoint?: (tile: Tile) => { x: number; y: number } | null;
+  getSnapshot?: () => Snapshot;
+  getPowerState?: () => ReturnType<ReturnType<typeof createSim>['getPowerState']>;
+  getDayNight?: () => DayNightState;
+  /** Generates the map chunks within `radius` tiles of `center`; returns how many were new on the page. */
+  exploreAround?: (center: Tile, radius: number) => number;
+  getWorldSeed?: () => string;
+  getMapSettings?: () => MapSettings;
+  /** Replaces the world with a fresh one from `seed` and `settings`, and resets everything on it. */
+  startNewWorld?: (seed: string, settings: MapSettings) => void;
+  /** Map editor: paints `brush` around `tile`, anywhere on the map and for free. */
+  paintMapAtTile?: (tile: Tile, brush: MapBrush) => CoreActionOutcome;
+  getSimulationMode?: () => RuntimeSimulationMode;
+  getSimulationSpeed?: () => SimSpeed;
+  setSimulationSpeed?: (speed: SimSpeed) => void;
+  setProfiling?: (enabled: boolean) => void;
+  getProfile?: () => TickProfile | null;
+  /** Calls `listener` for every sim event, whichever thread ran the tick; returns an unsubscribe function. */
+  onSimEvent?: (listener: (event: SimEvent) => void) => () => void;
   destroy: () => void;
 };
 
+/** `worker` ticks the sim in a dedicated Web Worker; the page keeps a mirror for synchronous reads. */
+type RuntimeSimulationMode = 'main' | 'worker';
+
+// Runtime methods that never read sim entities, so worker mode need not refresh the mirror first.
+const RUNTIME_WORKER_PASSIVE_METHODS: ReadonlySet<string> = new Set([
+  'setRuntimeRenderCallback',
+  'destroy',
+  'getSnapshot',
+  'getSimulationMode',
+  'getSimulationSpeed',
+  'setSimulationSpeed',
+  'setProfiling',
+  'getProfile',
+  'onSimEvent',
+  'getPlacementSnapshot',
+  'getPlayerSnapshot',
+  'getInventorySnapshot',
+  'getSessionTick',
+  'getPlacementRecipe',
+  'setPlacementRecipe',
+  'setPlacementUndergroundMode',
+  'getMap',
+  'exploreAround',
+  'getWorldSeed',
+  'getMapSettings',
+  'isPaused',
+  'togglePause',
+  'pause',
+  'resume',
+]);
+
+// Runtime methods that may change entities or resources; worker mode sends the mirror back afterwards.
+const RUNTIME_WORKER_MUTATING_METHODS: ReadonlySet<string> = new Set([
+  'placeEntity',
+  'addEntity',
+  'removeAt',
+  'removeEntity',
+  'mineResourceAtTile',
+  'setAssemblerRecipeAtTile',
+  'setInserterSettingsAtTile',
+  'refuel',
+  'pickupItem',
+  'depositItem',
+  'interactWithItemHostAtTile',
+  'interactWithChestAtTile',
+  'loadState',
+  'stepTicks',
+  'reset',
+  'startNewWorld',
+  'paintMapAtTile',
+]);
+
+/** Picks worker mode for `?sim=worker` when the browser supports workers. */
+export const resolveRuntimeSimulationMode = (search: string): RuntimeSimulationMode => {
+  const params = new URLSearchParams(search);
+  return params.get(RUNTIME_SIM_MODE_QUERY_PARAM) === 'worker' && typeof Worker === 'function' ? 'worker' : 'main';
+};
+
 type Feedback = {
   kind: 'success' | 'error';
   message: string;
 };
 
-type RuntimeMetrics = {
-  entityCount: number;
-  miners: number;
-  belts: number;
-  splitters: number;
-  inserters: number;
-  furnaces: number;
-  chests: number;
-  assemblers: number;
-  solarPanels: number;
-  accumulators: number;
-  oreInTransit: number;
-  platesInTransit: number;
-  gearsInTransit: number;
-  coalInTransit: number;
-  woodInTransit: number;
-  chestOre: number;
-  chestPlates: number;
-  chestGears: number;
-  chestCoal: number;
-  chestWood: number;
-  oreRemaining: number;
-  coalRemaining: number;
-  woodRemaining: number;
-  furnacesCrafting: number;
-  furnacesReady: number;
-  powerStorage: number;
-  powerCapacity: number;
-  powerDemandThisTick: number;
-  powerConsumedThisTick: number;
-  powerGeneratedThisTick: number;
-  powerShortagesThisTick: number;
-};
-
 type AutomationAgentId = 'auto-refuel' | 'auto-pickup' | 'auto-deposit';
 
 type AutomationAgentConfig = {
@@ -1743,6 +2195,12 @@ const AUTOMATION_AGENTS: ReadonlyArray<AutomationAgentConfig> = [
 
 const AUTO_REFUEL_TRIGGER_RATIO = 0.35;
 
+const AUTOMATION_AGENT_INTERACT_ACTION: Record<AutomationAgentId, 'refuel' | 'pickup' | 'deposit'> = {
+  'auto-refuel': 'refuel',
+  'auto-pickup': 'pickup',
+  'auto-deposit': 'deposit',
+};
+
 type AutomationEnabledState = Record<AutomationAgentId, boolean>;
 type AutomationStatusState = Record<AutomationAgentId, string>;
 type AutomationNextRunState = Record<AutomationAgentId, number>;
@@ -1787,62 +2245,54 @@ type HudState = {
   adjacentInteractive: RuntimeAdjacentInteractive | null;
 };
 
-const createEmptyRuntimeMetrics = (): RuntimeMetrics => ({
-  entityCount: 0,
-  miners: 0,
-  belts: 0,
-  splitters: 0,
-  inserters: 0,
-  furnaces: 0,
-  chests: 0,
-  assemblers: 0,
-  solarPanels: 0,
-  accumulators: 0,
-  oreInTransit: 0,
-  platesInTransit: 0,
-  gearsInTransit: 0,
-  coalInTransit: 0,
-  woodInTransit: 0,
-  chestOre: 0,
-  chestPlates: 0,
-  chestGears: 0,
-  chestCoal: 0,
-  chestWood: 0,
-  oreRemaining: 0,
-  coalRemaining: 0,
-  woodRemaining: 0,
-  furnacesCrafting: 0,
-  furnacesReady: 0,
-  powerStorage: 0,
-  powerCapacity: 0,
-  powerDemandThisTick: 0,
-  powerConsumedThisTick: 0,
-  powerGeneratedThisTick: 0,
-  powerShortagesThisTick: 0,
-});
-
 const RUNTIME_KIND: Record<EntityKind, RuntimeEntityKind> = {
   Miner: 'miner',
   Belt: 'belt',
+  FastBelt: 'fast-belt',
+  ExpressBelt: 'express-belt',
+  UndergroundBelt: 'underground-belt',
   Splitter: 'splitter',
   Inserter: 'inserter',
+  BurnerInserter: 'burner-inserter',
+  FastInserter: 'fast-inserter',
+  LongHandedInserter: 'long-handed-inserter',
   Furnace: 'furnace',
   Chest: 'chest',
   Assembler: 'assembler',
   SolarPanel: 'solar-panel',
   Accumulator: 'accumulator',
+  PowerPole: 'power-pole',
+  Boiler: 'boiler',
+  SteamEngine: 'steam-engine',
+  Pipe: 'pipe',
+  PipeToGround: 'pipe-to-ground',
+  OffshorePump: 'offshore-pump',
+  StorageTank: 'storage-tank',
 };
 
 const RUNTIME_KIND_TO_TOOL_KIND: Readonly<Record<RuntimeEntityKind, EntityKind>> = {
   miner: 'Miner',
   belt: 'Belt',
+  'fast-belt': 'FastBelt',
+  'express-belt': 'ExpressBelt',
+  'underground-belt': 'UndergroundBelt',
   splitter: 'Splitter',
   inserter: 'Inserter',
+  'burner-inserter': 'BurnerInserter',
+  'fast-inserter': 'FastInserter',
+  'long-handed-inserter': 'LongHandedInserter',
   furnace: 'Furnace',
   chest: 'Chest',
   assembler: 'Assembler',
   'solar-panel': 'SolarPanel',
   accumulator: 'Accumulator',
+  'power-pole': 'PowerPole',
+  boiler: 'Boiler',
+  'steam-engine': 'SteamEngine',
+  pipe: 'Pipe',
+  'pipe-to-ground': 'PipeToGround',
+  'offshore-pump': 'OffshorePump',
+  'storage-tank': 'StorageTank',
 };
 
 const ROTATION_TO_DIRECTION: Record<Rotation, RuntimeDirection> = {
@@ -1973,6 +2423,8 @@ export const inspectRuntimeBlueprintPlacement = (
       kind: entry.kind,
       tile: plannedTile,
       rotation,
+      ...(entry.recipe === undefined ? {} : { recipe: entry.recipe }),
+      ...(entry.underground === undefined ? {} : { underground: entry.underground }),
     };
     planned.push(plannedPlacement);
 
@@ -2129,6 +2581,12 @@ const resolvePlacementBlockerReason = (reasonCode: string | undefined): RuntimeB
   if (reasonCode === 'player-tile') {
     return 'player-tile';
   }
+  if (reasonCode === 'underground_no_partner' || reasonCode === 'underground_out_of_range') {
+    return 'underground-unpaired';
+  }
+  if (reasonCode === 'blocked_by_water' || reasonCode === 'blocked_by_cliff' || reasonCode === 'offshore_pump_needs_water') {
+    return 'terrain-blocked';
+  }
   return 'invalid-placement';
 };
 
@@ -2172,6 +2630,7 @@ export type CameraTransformSeed = {
   zoom: number;
   canvasWidth: number;
   canvasHeight: number;
+  /** Tiles that fit the canvas at zoom 1; the default view when omitted. */
   worldWidth?: number;
   worldHeight?: number;
   tileSize?: number;
@@ -2182,8 +2641,8 @@ export const computeCameraPanForTile = ({
   zoom,
   canvasWidth,
   canvasHeight,
-  worldWidth = WORLD_WIDTH,
-  worldHeight = WORLD_HEIGHT,
+  worldWidth = VIEW_WIDTH,
+  worldHeight = VIEW_HEIGHT,
   tileSize = TILE_SIZE,
 }: CameraTransformSeed): CameraState => {
   const worldW = Math.max(1, Math.floor(worldWidth * tileSize));
@@ -2212,16 +2671,22 @@ export type MinimapPointToTileSeed = {
   point: MinimapPoint;
   minimapWidth: number;
   minimapHeight: number;
+  /** Tiles across the minimap. */
   worldWidth?: number;
   worldHeight?: number;
+  /** World tile at the minimap's top-left corner, for a minimap that scrolls. */
+  originX?: number;
+  originY?: number;
 };
 
 export const minimapPointToTile = ({
   point,
   minimapWidth,
   minimapHeight,
-  worldWidth = WORLD_WIDTH,
-  worldHeight = WORLD_HEIGHT,
+  worldWidth = MINIMAP_VIEW_WIDTH,
+  worldHeight = MINIMAP_VIEW_HEIGHT,
+  originX = 0,
+  originY = 0,
 }: MinimapPointToTileSeed): Tile | null => {
   const targetWorldWidth = worldWidth;
   const targetWorldHeight = worldHeight;
@@ -2254,7 +2719,32 @@ export const minimapPointToTile = ({
     return null;
   }
 
-  return { x, y };
+  return { x: x + originX, y: y + originY };
+};
+
+/** Top-left tile of a `width` x `height` window centred on `center` and kept inside the world. */
+const getWorldWindowOrigin = (center: Tile, width: number, height: number): Tile => ({
+  x: Math.max(0, Math.min(WORLD_WIDTH - width, Math.floor(center.x - width / 2))),
+  y: Math.max(0, Math.min(WORLD_HEIGHT - height, Math.floor(center.y - height / 2))),
+});
+
+/** Tile at the centre of the canvas: the inverse of `computeCameraPanForTile`. */
+const getCameraCenterTile = (camera: CameraState, canvasWidth: number, canvasHeight: number): Tile => {
+  const viewW = VIEW_WIDTH * TILE_SIZE;
+  const viewH = VIEW_HEIGHT * TILE_SIZE;
+  const baseScale = Math.max(0.0001, Math.min(canvasWidth / viewW, canvasHeight / viewH));
+  const tileSpan = TILE_SIZE * baseScale * clampCameraZoom(camera.zoom);
+  const offsetX = Math.floor((canvasWidth - viewW * baseScale) / 2) + camera.panX;
+  const offsetY = Math.floor((canvasHeight - viewH * baseScale) / 2) + camera.panY;
+  return {
+    x: Math.floor((canvasWidth / 2 - offsetX) / tileSpan),
+    y: Math.floor((canvasHeight / 2 - offsetY) / tileSpan),
+  };
+};
+
+/** Tiles from the centre of the view to beyond its corner, plus a chunk of margin. */
+const getExploreRadius = (zoom: number): number => {
+  return Math.ceil(Math.max(VIEW_WIDTH, VIEW_HEIGHT) / clampCameraZoom(zoom)) + EXPLORE_MARGIN_TILES;
 };
 
 const clampCameraZoom = (zoom: unknown, fallback = CAMERA_DEFAULT_ZOOM): number => {
@@ -2421,6 +2911,13 @@ export const parseRuntimeSaveState = (
     return Object.keys(power).length === 0 ? undefined : power;
   })();
 
+  const dayTicks = toCompatInt((value as { dayTicks?: unknown }).dayTicks);
+  // Chunk entries are validated tile by tile when the map restores them.
+  const rawMapChunks = (value as { mapChunks?: unknown }).mapChunks;
+  const mapChunks = Array.isArray(rawMapChunks) ? rawMapChunks.filter(isRecord) as MapChunkSave[] : null;
+  const rawMapSettings = (value as { mapSettings?: unknown }).mapSettings;
+  const mapSettings = rawMapSettings === undefined ? null : normalizeMapSettings(rawMapSettings);
+
   const rawEntities = coerceCollectionValuesToArray((value as { entities?: unknown }).entities) ?? [];
   const entities: RuntimeSaveEntity[] = [];
   for (const entity of rawEntities) {
@@ -2477,13 +2974,7 @@ export const parseRuntimeSaveState = (
         maxFuel: maxFuel === null || maxFuel <= 0 ? PLAYER_MAX_FUEL : maxFuel,
       },
       inventory: {
-        ore: toCompatInt(
-          (inventoryRecord as { ironOre?: unknown }).ironOre,
-        ) ?? toCompatInt(inventoryRecord.ore) ?? 0,
-        plate: toCompatInt(inventoryRecord.plate) ?? toCompatInt(inventoryRecord.plates) ?? 0,
-        gear: toCompatInt(inventoryRecord.gear) ?? 0,
-        coal: toCompatInt(inventoryRecord.coal) ?? 0,
-        wood: toCompatInt(inventoryRecord.wood) ?? 0,
+        items: parseSavedInventoryItems(inventoryRecord),
         used: toCompatInt(inventoryRecord.used) ?? 0,
         capacity: toCompatInt(inventoryRecord.capacity) ?? PLAYER_INVENTORY_CAPACITY,
       },
@@ -2496,6 +2987,9 @@ export const parseRuntimeSaveState = (
         generatedThisTick: getPowerField(rawPower, 'generatedThisTick'),
         shortagesThisTick: getPowerField(rawPower, 'shortagesThisTick'),
       },
+      ...(dayTicks === null ? {} : { dayTicks }),
+      ...(mapChunks === null ? {} : { mapChunks }),
+      ...(mapSettings === null ? {} : { mapSettings }),
   };
 };
 
@@ -2867,6 +3361,10 @@ export const parseRuntimeBlueprintState = (value: unknown): RuntimeBlueprintStat
     const rotation = normalizeRuntimeDirection(
       entry.rot,
     ) ?? normalizeRuntimeDirection((entry as { direction?: unknown }).direction) ?? normalizeRuntimeDirection((entry as { rotation?: unknown }).rotation) ?? 'N';
+    const recipe = normalizedKind.kind === 'assembler'
+      ? normalizeAssemblerRecipeId((entry as { recipe?: unknown }).recipe)
+      : null;
+    const underground = (entry as { underground?: unknown }).underground;
 
     entities.push({
       kind: normalizedKind.kind,
@@ -2875,6 +3373,8 @@ export const parseRuntimeBlueprintState = (value: unknown): RuntimeBlueprintStat
         y: positionY,
       },
       rot: rotation,
+      ...(recipe === null ? {} : { recipe }),
+      ...(normalizedKind.kind === 'underground-belt' && isUndergroundBeltMode(underground) ? { underground } : {}),
     });
   }
 
@@ -3146,14 +3646,6 @@ export const normalizeRuntimeSaveStateForRuntime = (
     normalizedState.height = normalizedHeight;
   }
 
-  if (normalizedState.seed !== WORLD_SEED) {
-    addRuntimeSaveWarning(warnings, {
-      code: 'seed-mismatch',
-      message: `Seed '${normalizedState.seed}' does not match current seed.`,
-    });
-    normalizedState.seed = WORLD_SEED;
-  }
-
   const playerMaxFuel = Math.max(PLAYER_MAX_FUEL, normalizedState.player.maxFuel);
   const normalizedPlayerX = Math.max(0, Math.min(normalizedState.width - 1, normalizedState.player.x));
   const normalizedPlayerY = Math.max(0, Math.min(normalizedState.height - 1, normalizedState.player.y));
@@ -3193,11 +3685,7 @@ export const normalizeRuntimeSaveStateForRuntime = (
 
   normalizedState.inventory = normalizeInventoryState({
     capacity: normalizedState.inventory.capacity,
-    ore: normalizedState.inventory.ore,
-    plate: normalizedState.inventory.plate,
-    gear: normalizedState.inventory.gear,
-    coal: normalizedState.inventory.coal,
-    wood: normalizedState.inventory.wood,
+    items: normalizedState.inventory.items,
     used: normalizedState.inventory.used,
   });
 
@@ -3369,40 +3857,298 @@ export const compareRuntimeCheckpointsNewestFirst = (
   return 0;
 };
 
+/** Commands that change the world; pause, step and agent settings are left to the replay clock. */
+export const isRuntimeReplayCommand = (command: RuntimeAgentPlanCommand): boolean => {
+  return command.type === 'select'
+    || command.type === 'rotate'
+    || command.type === 'set-rotation'
+    || command.type === 'place'
+    || command.type === 'remove'
+    || command.type === 'move'
+    || command.type === 'interact'
+    || command.type === 'configure-inserter';
+};
+
+const parseRuntimeReplayInput = (value: unknown): RuntimeReplayInput | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const tick = toInt(value.tick);
+  if (tick === null) {
+    return null;
+  }
+
+  if (value.kind === 'command') {
+    const command = normalizeRuntimeAgentPlanCommand(value.command);
+    return command === null ? null : { tick, kind: 'command', command };
+  }
+
+  if (value.kind === 'recipe') {
+    // `null` clears the recipe; an id that is not an assembling recipe could never have been recorded.
+    const recipe = normalizeAssemblerRecipeId(value.recipe);
+    if (recipe === null && value.recipe !== null && value.recipe !== undefined) {
+      return null;
+    }
+    if (value.tile === null) {
+      return { tick, kind: 'recipe', tile: null, recipe };
+    }
+    const x = isRecord(value.tile) ? toInt(value.tile.x) : null;
+    const y = isRecord(value.tile) ? toInt(value.tile.y) : null;
+    return x === null || y === null ? null : { tick, kind: 'recipe', tile: { x, y }, recipe };
+  }
+
+  if (value.kind === 'state') {
+    const state = parseRuntimeSaveState(value.state, { fallbackPlayerRotation: 'S' });
+    if (state === null) {
+      return null;
+    }
+    const reason = typeof value.reason === 'string' && value.reason.length > 0 ? value.reason : 'load';
+    return { tick, kind: 'state', reason, state };
+  }
+
+  return null;
+};
+
+const parseRuntimeReplayKeyframe = (value: unknown): RuntimeReplayKeyframe | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const tick = toInt(value.tick);
+  const inputIndex = toInt(value.inputIndex);
+  const checkpoint = normalizeAutoCheckpoint(value.checkpoint);
+  if (tick === null || inputIndex === null || checkpoint === null) {
+    return null;
+  }
+
+  const { createdAtTime: _createdAtTime, ...rest } = checkpoint;
+  return { tick, inputIndex, checkpoint: rest };
+};
+
+/** Validates a replay file; inputs come back in timeline order and keyframes sorted by tick. */
+export const parseRuntimeReplay = (value: unknown): RuntimeReplay | null => {
+  if (!isRecord(value) || toInt(value.version) !== RUNTIME_REPLAY_VERSION) {
+    return null;
+  }
+
+  const initialState = parseRuntimeSaveState(value.initialState, { fallbackPlayerRotation: 'S' });
+  if (initialState === null || !Array.isArray(value.inputs) || value.inputs.length > MAX_RUNTIME_REPLAY_INPUTS) {
+    return null;
+  }
+
+  const inputs: RuntimeReplayInput[] = [];
+  for (const rawInput of value.inputs) {
+    const input = parseRuntimeReplayInput(rawInput);
+    if (input === null) {
+      return null;
+    }
+    inputs.push(input);
+  }
+  inputs.sort((left, right) => left.tick - right.tick);
+
+  const keyframes = Array.isArray(value.keyframes)
+    ? value.keyframes
+      .map(parseRuntimeReplayKeyframe)
+      .filter((keyframe): keyframe is RuntimeReplayKeyframe => keyframe !== null && keyframe.inputIndex <= inputs.length)
+      .sort((left, right) => left.tick - right.tick)
+    : [];
+  const lastInputTick = inputs.at(-1)?.tick ?? 0;
+
+  return {
+    version: RUNTIME_REPLAY_VERSION,
+    seed: typeof value.seed === 'string' ? value.seed : WORLD_SEED,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : new Date().toISOString(),
+    endTick: Math.max(toInt(value.endTick) ?? 0, lastInputTick),
+    placementRecipe: typeof value.placementRecipe === 'string' ? value.placementRecipe : null,
+    initialState,
+    inputs,
+    keyframes,
+  };
+};
+
+/** Latest keyframe at or before `tick`, falling back to the recording's initial state. */
+export const findRuntimeReplayKeyframe = (replay: RuntimeReplay, tick: number): RuntimeReplayKeyframe => {
+  let best: RuntimeReplayKeyframe = {
+    tick: 0,
+    inputIndex: 0,
+    checkpoint: { createdAt: replay.createdAt, tick: replay.initialState.tick, reason: 'start', state: replay.initialState },
+  };
+  for (const keyframe of replay.keyframes) {
+    if (keyframe.tick <= tick && keyframe.tick >= best.tick) {
+      best = keyframe;
+    }
+  }
+  return best;
+};
+
+/**
+ * Moves the replay to `targetTick`. Seeks backwards, or past a keyframe ahead of the cursor,
+ * reload the nearest keyframe first; the rest is plain ticking with inputs applied on their tick.
+ */
+export const seekRuntimeReplay = (
+  replay: RuntimeReplay,
+  driver: RuntimeReplayDriver,
+  cursor: RuntimeReplayCursor | null,
+  targetTick: number,
+): RuntimeReplayCursor => {
+  const target = Math.max(0, Math.min(replay.endTick, Math.floor(targetTick)));
+  const keyframe = findRuntimeReplayKeyframe(replay, target);
+  let next: RuntimeReplayCursor = cursor ?? { tick: -1, inputIndex: 0 };
+
+  if (next.tick < 0 || next.tick > target || keyframe.tick > next.tick) {
+    if (!driver.loadState(keyframe.checkpoint.state)) {
+      return next;
+    }
+    next = { tick: keyframe.tick, inputIndex: keyframe.inputIndex };
+  }
+
+  for (;;) {
+    for (let input = replay.inputs[next.inputIndex]; input !== undefined && input.tick <= next.tick; input = replay.inputs[next.inputIndex]) {
+      driver.applyInput(input);
+      next = { ...next, inputIndex: next.inputIndex + 1 };
+    }
+
+    if (
+      driver.captureState !== undefined
+      && next.tick > 0
+      && next.tick % RUNTIME_REPLAY_KEYFRAME_INTERVAL_TICKS === 0
+      && !replay.keyframes.some((entry) => entry.tick === next.tick)
+    ) {
+      const state = driver.captureState();
+      if (state !== null) {
+        replay.keyframes.push({
+          tick: next.tick,
+          inputIndex: next.inputIndex,
+          checkpoint: { createdAt: new Date().toISOString(), tick: state.tick, reason: 'replay-keyframe', state },
+        });
+        replay.keyframes.sort((left, right) => left.tick - right.tick);
+      }
+    }
+
+    if (next.tick >= target) {
+      return next;
+    }
+
+    const nextInputTick = replay.inputs[next.inputIndex]?.tick ?? Number.POSITIVE_INFINITY;
+    const nextKeyframeTick = (Math.floor(next.tick / RUNTIME_REPLAY_KEYFRAME_INTERVAL_TICKS) + 1) * RUNTIME_REPLAY_KEYFRAME_INTERVAL_TICKS;
+    const stopTick = Math.min(target, nextInputTick, nextKeyframeTick);
+    driver.stepTicks(stopTick - next.tick);
+    next = { ...next, tick: stopTick };
+  }
+};
+
+const normalizeInventoryItems = (value: unknown): RuntimeInventoryItems => {
+  const items: RuntimeInventoryItems = {};
+  if (!isRecord(value)) {
+    return items;
+  }
+
+  for (const item of ITEM_ORDER) {
+    const count = toCompatInt(value[item]);
+    if (count !== null && count > 0) {
+      items[item] = count;
+    }
+  }
+  return items;
+};
+
+/**
+ * Reads the saved `items` map and migrates the fixed `ore/plate/gear/coal/wood` fields of older saves;
+ * an explicit `items` entry takes precedence over its legacy field.
+ */
+const parseSavedInventoryItems = (inventoryRecord: Record<string, unknown>): RuntimeInventoryItems => {
+  const items = normalizeInventoryItems(inventoryRecord.items);
+  const migrated = new Set<RuntimeItemKind>();
+  for (const [field, item] of LEGACY_INVENTORY_FIELDS) {
+    const count = toCompatInt(inventoryRecord[field]);
+    if (count === null || migrated.has(item)) {
+      continue;
+    }
+    migrated.add(item);
+    if (count > 0 && items[item] === undefined) {
+      items[item] = count;
+    }
+  }
+  return items;
+};
+
+const sumInventoryItems = (items: RuntimeInventoryItems): number => {
+  let total = 0;
+  for (const count of Object.values(items)) {
+    total += count ?? 0;
+  }
+  return total;
+};
+
+const areInventoryItemsEqual = (
+  left: RuntimeInventoryItems | undefined,
+  right: RuntimeInventoryItems | undefined,
+): boolean => {
+  if (left === right) {
+    return true;
+  }
+  if (left === undefined || right === undefined) {
+    return false;
+  }
+  return ITEM_ORDER.every((item) => (left[item] ?? 0) === (right[item] ?? 0));
+};
+
+const formatInventoryItems = (items: RuntimeInventoryItems): string => {
+  const parts: string[] = [];
+  for (const item of ITEM_ORDER) {
+    const count = items[item] ?? 0;
+    if (count > 0) {
+      parts.push(`${getItem(item)?.name ?? item}:${count}`);
+    }
+  }
+  return parts.length === 0 ? 'empty' : parts.join(' ');
+};
+
 const normalizeInventoryState = (state: InventoryState): InventoryState => {
   const capacity = Number.isFinite(state.capacity) ? Math.max(1, Math.floor(state.capacity)) : PLAYER_INVENTORY_CAPACITY;
-  const ore = Math.max(0, Math.floor(state.ore));
-  const plate = Math.max(0, Math.floor(state.plate));
-  const gear = Math.max(0, Math.floor(state.gear));
-  const coal = Math.max(0, Math.floor(state.coal));
-  const wood = Math.max(0, Math.floor(state.wood));
-  const used = Math.max(0, Math.min(capacity, ore + plate + gear + coal + wood));
+  const items = normalizeInventoryItems(state.items);
+  const used = Math.max(0, Math.min(capacity, sumInventoryItems(items)));
   return {
     capacity,
-    ore,
-    plate,
-    gear,
-    coal,
-    wood,
+    items,
     used,
   };
 };
 
 const readInventoryCount = (state: InventoryState, item: RuntimeItemKind): number => {
-  if (item === 'coal') {
-    return state.coal;
-  }
-  if (item === 'wood') {
-    return state.wood;
-  }
-  if (item === 'iron-gear') {
-    return state.gear;
+  return state.items[item] ?? 0;
+};
+
+/**
+ * Returns a copy of `state` holding `count` of `item`; `used` is left for the caller to recompute.
+ */
+const withInventoryCount = (state: InventoryState, item: RuntimeItemKind, count: number): InventoryState => {
+  const items: RuntimeInventoryItems = { ...state.items };
+  if (count > 0) {
+    items[item] = count;
+  } else {
+    delete items[item];
   }
-  if (item === 'iron-plate') {
-    return state.plate;
+  return { ...state, items };
+};
+
+/**
+ * A copy of `state` holding `items` as well, or `null` when they do not all fit. Refunds are all or
+ * nothing, so a full inventory refuses them instead of losing the excess.
+ */
+export const addItemsToInventory = (state: InventoryState, items: Readonly<Record<string, unknown>>): InventoryState | null => {
+  let next = state;
+  for (const [item, value] of Object.entries(items)) {
+    const kind = toRuntimeItemKind(item);
+    const count = toInt(value) ?? 0;
+    if (kind !== null && count > 0) {
+      next = withInventoryCount(next, kind, readInventoryCount(next, kind) + count);
+    }
   }
 
-  return state.ore;
+  const used = sumInventoryItems(next.items);
+  return used > state.capacity ? null : { ...next, used };
 };
 
 const resolveTile = (value: unknown): Tile | null => {
@@ -3475,20 +4221,12 @@ const getChestInventorySnapshotFromState = (chestState: unknown): InventoryState
   const storedValue = raw.stored;
   const storedRecord = isRecord(storedValue) ? storedValue : null;
   const capacity = toInt(raw.capacity) ?? PLAYER_INVENTORY_CAPACITY;
-  const ore = toInt(storedRecord?.["iron-ore"]) ?? 0;
-  const plate = toInt(storedRecord?.["iron-plate"]) ?? 0;
-  const gear = toInt(storedRecord?.["iron-gear"]) ?? 0;
-  const coal = toInt(storedRecord?.coal) ?? 0;
-  const wood = toInt(storedRecord?.wood) ?? 0;
+  const items = normalizeInventoryItems(storedRecord);
 
   return normalizeInventoryState({
     capacity,
-    ore,
-    plate,
-    gear,
-    coal,
-    wood,
-    used: ore + plate + gear + coal + wood,
+    items,
+    used: sumInventoryItems(items),
   });
 };
 
@@ -3516,11 +4254,7 @@ const formatInteractiveCapabilities = (
 };
 
 const toRuntimeItemKind = (value: unknown): RuntimeItemKind | null => {
-  if (typeof value !== 'string') {
-    return null;
-  }
-
-  return ITEM_ORDER.includes(value) ? (value as RuntimeItemKind) : null;
+  return isItemKind(value) ? value : null;
 };
 
 const toDisplayInteractiveItem = (value: unknown): string => {
@@ -3574,6 +4308,15 @@ const toDisplayInteractiveBoolean = (value: unknown): string => {
   return 'n/a';
 };
 
+const toDisplayInteractiveBeltLanes = (value: unknown): string => {
+  if (!Array.isArray(value)) {
+    return 'n/a';
+  }
+
+  const [left, right] = value as unknown[];
+  return `L${Array.isArray(left) ? left.length : 0} R${Array.isArray(right) ? right.length : 0}`;
+};
+
 const toDisplayInteractiveProgress = (value: unknown): string => {
   if (typeof value !== 'number' || !Number.isFinite(value)) {
     return 'n/a';
@@ -3582,12 +4325,26 @@ const toDisplayInteractiveProgress = (value: unknown): string => {
   return `${Math.round(Math.max(0, Math.min(1, value)) * 100)}%`;
 };
 
-const buildEntityDiagnosticLines = (kind: string, hostState: Record<string, unknown>): ReadonlyArray<string> => {
-  const lines: string[] = [];
-  const seen = new Set<string>();
+const toDisplayInteractiveInserterFilter = (value: unknown): string => {
+  const filter = normalizeInserterFilter(value);
+  return filter.length === 0 ? 'any' : filter.map(toDisplayInteractiveItem).join(',');
+};
 
-  const add = (key: string, rawValue: unknown, format: (value: unknown) => string = toDisplayInteractiveItem): void => {
-    if (rawValue === undefined || seen.has(key)) {
+const toDisplayInteractiveFluidBox = (value: unknown, kind: string): string => {
+  if (!isFluidEntityKind(kind)) {
+    return 'n/a';
+  }
+
+  const box = normalizeFluidBox(value, kind);
+  return `${box.fluid ?? 'empty'} ${box.amount}/${FLUID_BOX_CAPACITY[kind]}`;
+};
+
+const buildEntityDiagnosticLines = (kind: string, hostState: Record<string, unknown>): ReadonlyArray<string> => {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+
+  const add = (key: string, rawValue: unknown, format: (value: unknown) => string = toDisplayInteractiveItem): void => {
+    if (rawValue === undefined || seen.has(key)) {
       return;
     }
 
@@ -3601,22 +4358,38 @@ const buildEntityDiagnosticLines = (kind: string, hostState: Record<string, unkn
     add('justMined', hostState.justMined, toDisplayInteractiveBoolean);
   }
 
-  if (kind === 'belt' || kind === 'splitter') {
+  if (kind === 'underground-belt') {
+    add('mode', hostState.mode, String);
+  }
+
+  if (kind === 'belt' || kind === 'fast-belt' || kind === 'express-belt' || kind === 'underground-belt' || kind === 'splitter') {
     add('item', hostState.item);
     add('buffer', hostState.buffer);
+    add('lanes', hostState.lanes, toDisplayInteractiveBeltLanes);
     add('accept', hostState.accept);
     if (kind === 'splitter') {
       add('nextOutputIndex', hostState.nextOutputIndex, toDisplayInteractiveNumber);
     }
   }
 
-  if (kind === 'inserter') {
+  if (isInserterKind(kind)) {
     add('holding', hostState.holding);
+    add('holdingCount', hostState.holdingCount, toDisplayInteractiveNumber);
+    add('filter', hostState.filter, toDisplayInteractiveInserterFilter);
+    add('stackBonus', hostState.stackBonus, toDisplayInteractiveNumber);
+    if (kind === 'burner-inserter') {
+      add('fuelItem', hostState.fuelItem);
+      add('fuel', hostState.fuel, toDisplayInteractiveNumber);
+      add('burn', hostState.burn, toDisplayInteractiveNumber);
+    }
     add('state', hostState.state);
     add('skipDropAtTick', hostState.skipDropAtTick, toDisplayInteractiveNumber);
   }
 
   if (kind === 'furnace' || kind === 'assembler') {
+    if (kind === 'assembler') {
+      add('recipe', hostState.recipeId ?? 'auto', String);
+    }
     add('input', hostState.input);
     add('output', hostState.output);
     add('fuel', hostState.storage, toDisplayInteractiveNumber);
@@ -3626,13 +4399,17 @@ const buildEntityDiagnosticLines = (kind: string, hostState: Record<string, unkn
     add('progress', hostState.progress01, toDisplayInteractiveProgress);
   }
 
+  if (isFluidEntityKind(kind)) {
+    add('fluid', hostState.fluidBox, (value) => toDisplayInteractiveFluidBox(value, kind));
+  }
+
   if (kind === 'chest') {
     const stored = isRecord(hostState.stored) ? (hostState.stored as Record<string, unknown>) : null;
-    add('ore', stored?.['iron-ore']);
-    add('plate', stored?.['iron-plate']);
-    add('gear', stored?.['iron-gear']);
-    add('coal', stored?.coal);
-    add('wood', stored?.wood);
+    for (const item of ITEM_ORDER) {
+      if ((toInt(stored?.[item]) ?? 0) > 0) {
+        add(toDisplayInteractiveItem(item), stored?.[item], toDisplayInteractiveNumber);
+      }
+    }
     add('capacity', hostState.capacity, toDisplayInteractiveNumber);
   }
 
@@ -3680,6 +4457,15 @@ const buildSelectedEntitySnapshot = (sim: Simulation, tile: Tile): HudState["sel
     canAccept: capabilities.canAccept,
     canProvide: capabilities.canProvide,
     details: hostState === null ? [] : buildEntityDiagnosticLines(entity.kind, hostState),
+    ...(entity.kind === 'assembler' ? { recipe: normalizeAssemblerRecipeId(hostState?.recipeId) } : {}),
+    ...(isInserterKind(entity.kind)
+      ? {
+        inserter: {
+          filter: normalizeInserterFilter(hostState?.filter),
+          stackBonus: normalizeInserterStackBonus(hostState?.stackBonus),
+        },
+      }
+      : {}),
   };
 };
 
@@ -3745,7 +4531,11 @@ const getCursorResourceSummary = (
     ? 'Wood'
     : map.isCoal(tile.x, tile.y)
       ? 'Coal'
-      : 'Iron Ore';
+      : map.isCopper?.(tile.x, tile.y) === true
+        ? 'Copper Ore'
+        : map.isStone?.(tile.x, tile.y) === true
+          ? 'Stone'
+          : 'Iron Ore';
 
   const readAmount = map.getResourceAmountAt;
   if (typeof readAmount !== 'function') {
@@ -3764,6 +4554,15 @@ const getCursorResourceSummary = (
   };
 };
 
+// The map editor's readout of the tile under the cursor, amount included.
+const describeMapEditorTile = (map: ReturnType<typeof createMap> | null, tile: Tile): string => {
+  const summary = getCursorResourceSummary(map, tile);
+  const contents = summary === null
+    ? map?.getTile(tile.x, tile.y) ?? 'out of bounds'
+    : `${summary.label} ${summary.remaining}`;
+  return `(${tile.x}, ${tile.y}) ${contents}`;
+};
+
 const safeParseJson = (value: string): unknown | null => {
   try {
     return JSON.parse(value);
@@ -4174,6 +4973,14 @@ const KEYBOARD_SHORTCUT_HINTS: ReadonlyArray<ShortcutHelpSection> = [
         keys: 'H',
         description: 'Toggle HUD visibility',
       },
+      {
+        keys: 'F3',
+        description: 'Toggle tick profiler panel',
+      },
+      {
+        keys: 'F4',
+        description: 'Toggle power network overlay',
+      },
     ],
   },
   {
@@ -4187,6 +4994,14 @@ const KEYBOARD_SHORTCUT_HINTS: ReadonlyArray<ShortcutHelpSection> = [
         keys: '/ / Shift+/',
         description: 'Step simulation 1 / 10 ticks',
       },
+      {
+        keys: 'Z / C',
+        description: 'Slower / faster simulation speed (0.25x to 64x)',
+      },
+      {
+        keys: 'Shift+Z / Shift+C',
+        description: 'Reset speed to 1x / run as fast as possible',
+      },
       {
         keys: 'Mouse wheel',
         description: 'Zoom camera while on canvas',
@@ -4466,14 +5281,41 @@ type RuntimePlayer = {
   maxFuel: number;
 };
 
-function createRuntimeSimulation(): RuntimeSimulation {
-  const map = createMap(WORLD_WIDTH, WORLD_HEIGHT, WORLD_SEED);
+function createRuntimeSimulation(mode: RuntimeSimulationMode = 'main'): RuntimeSimulation {
+  const map = createChunkedMap(WORLD_SEED);
+  let worldSeed = WORLD_SEED;
+  let worldSettings = createDefaultMapSettings();
   const coreSim = createSim({
     width: WORLD_WIDTH,
     height: WORLD_HEIGHT,
     seed: WORLD_SEED,
     map,
   });
+  // In worker mode `coreSim` is a mirror: the worker runs the ticks, the mirror is refreshed from the
+  // latest frame only when page code reads it, and page-side changes are sent back as a `load`.
+  const workerResources = mode === 'worker' ? trackResourceConsumption(map) : null;
+  let workerClient: SimWorkerClient | null = null;
+  let workerRevision = 0;
+  let workerFrame: SimWorkerFrame | null = null;
+  let workerFramePending = false;
+  let workerFrameSnapshot: { frame: SimWorkerFrame; key: string; snapshot: Snapshot } | null = null;
+  // Set when a load replaced the map's changed chunks, so the next push sends them to the worker.
+  let workerMapChunksPending = false;
+  // Set when the page switched to another seed or settings, so the next push regenerates the worker's map too.
+  let workerTerrainPending = false;
+  // Each interval runs the speed setting's share of whole ticks, so runs replay the same at any speed.
+  const frameStepper = createSimFrameStepper(() => {
+    coreSim.step(SIM_STEP_MS);
+  });
+  // Page listeners for sim events. The sim is only subscribed while someone listens, so it skips
+  // building events otherwise; in worker mode the worker's events arrive with its frames.
+  const simEventListeners = new Set<(event: SimEvent) => void>();
+  let unsubscribeCoreSimEvents: (() => void) | null = null;
+  const emitRuntimeSimEvent = (event: SimEvent): void => {
+    for (const listener of Array.from(simEventListeners)) {
+      listener(event);
+    }
+  };
   const player: RuntimePlayer = {
     x: Math.floor(WORLD_WIDTH / 2),
     y: Math.floor(WORLD_HEIGHT / 2),
@@ -4482,17 +5324,18 @@ function createRuntimeSimulation(): RuntimeSimulation {
     maxFuel: PLAYER_MAX_FUEL,
   };
   const playerInventory: InventoryState = {
-    ore: 0,
-    plate: 0,
-    gear: 0,
-    coal: 0,
-    wood: 0,
+    items: {},
     used: 0,
     capacity: PLAYER_INVENTORY_CAPACITY,
   };
   let intervalId: number | null = null;
+  // Ticks run since startup; unlike the sim clock it never rewinds on load or undo.
+  let sessionTick = 0;
   let runtimeRenderCallback: (() => void) | null = null;
   let placementRevision = 0;
+  let placementRecipeId: string | null = DEFAULT_ASSEMBLER_RECIPE_ID;
+  // Explicit underground belt mode for scripted placement; `null` picks entrance or exit from the tiles behind.
+  let placementUndergroundMode: UndergroundBeltMode | null = null;
 
   const emitRuntimeRender = (): void => {
     if (typeof runtimeRenderCallback === 'function') {
@@ -4504,16 +5347,74 @@ function createRuntimeSimulation(): RuntimeSimulation {
     placementRevision += 1;
   };
 
+  const getPendingWorkerFrame = (): SimWorkerFrame | null => {
+    return workerFramePending ? workerFrame : null;
+  };
+
+  const syncMirrorFromWorker = (): void => {
+    const frame = getPendingWorkerFrame();
+    if (frame === null) {
+      return;
+    }
+
+    workerFramePending = false;
+    coreSim.restoreState({ ...decodeSimWorkerState(frame.encodedState), paused: coreSim.paused });
+  };
+
+  const pushMirrorToWorker = (): void => {
+    if (workerClient === null || workerResources === null) {
+      return;
+    }
+
+    workerRevision += 1;
+    workerFramePending = false;
+    const mapChunks = workerMapChunksPending ? map.exportChangedChunks?.() : undefined;
+    workerMapChunksPending = false;
+    const terrain = workerTerrainPending ? { seed: worldSeed, settings: worldSettings } : undefined;
+    workerTerrainPending = false;
+    workerClient.post({
+      type: 'load',
+      revision: workerRevision,
+      state: coreSim.exportState(),
+      consumed: workerResources.drain(),
+      ...(terrain === undefined ? {} : { terrain }),
+      ...(mapChunks === undefined ? {} : { mapChunks }),
+    });
+  };
+
+  // Regenerates the map when the seed or settings differ from the current world's; the worker follows on its next push.
+  const setWorldTerrain = (seed: string, settings: MapSettings): void => {
+    if (seed === worldSeed && areMapSettingsEqual(settings, worldSettings)) {
+      return;
+    }
+
+    // Mining logged before the switch belongs to the old world.
+    workerResources?.drain();
+    map.setTerrain?.(seed, settings);
+    worldSeed = seed;
+    worldSettings = settings;
+    workerTerrainPending = true;
+    workerMapChunksPending = true;
+  };
+
+  // Worker mode sends every exploration on, since the page's map may already hold chunks the worker's lacks.
+  const exploreAround = (center: Tile, radius: number): number => {
+    workerClient?.post({ type: 'explore', center: { x: center.x, y: center.y }, radius });
+    return map.generateChunksAround?.(center, radius) ?? 0;
+  };
+
   const runSimulationTick = (): void => {
     const previousTick = coreSim.tick;
     const previousTickCount = coreSim.tickCount;
-    coreSim.step(SIM_STEP_MS);
+    frameStepper.runFrame();
+    sessionTick += Math.max(0, coreSim.tickCount - previousTickCount);
     if (coreSim.tick !== previousTick || coreSim.tickCount !== previousTickCount) {
       emitRuntimeRender();
     }
   };
 
   const clearSimulationInterval = (): void => {
+    workerClient?.post({ type: 'pause' });
     if (intervalId === null) {
       return;
     }
@@ -4525,6 +5426,10 @@ function createRuntimeSimulation(): RuntimeSimulation {
     if (intervalId !== null || coreSim.paused) {
       return;
     }
+    if (workerClient !== null) {
+      workerClient.post({ type: 'run' });
+      return;
+    }
     intervalId = window.setInterval(runSimulationTick, SIM_STEP_MS);
   };
 
@@ -4549,31 +5454,16 @@ function createRuntimeSimulation(): RuntimeSimulation {
   };
 
   const getInventoryUsed = (state: InventoryState): number => {
-    return Math.max(
-      0,
-      Math.floor(state.ore) +
-        Math.floor(state.plate) +
-        Math.floor(state.gear) +
-        Math.floor(state.coal) +
-        Math.floor(state.wood),
-    );
+    return Math.max(0, sumInventoryItems(state.items));
   };
 
   const normalizeInventory = (state: InventoryState): InventoryState => {
     const capacity = Number.isFinite(state.capacity) ? Math.max(1, Math.floor(state.capacity)) : PLAYER_INVENTORY_CAPACITY;
-    const ore = Math.max(0, Math.floor(state.ore));
-    const plate = Math.max(0, Math.floor(state.plate));
-    const gear = Math.max(0, Math.floor(state.gear));
-    const coal = Math.max(0, Math.floor(state.coal));
-    const wood = Math.max(0, Math.floor(state.wood));
-    const used = Math.max(0, Math.min(capacity, ore + plate + gear + coal + wood));
+    const items = normalizeInventoryItems(state.items);
+    const used = Math.max(0, Math.min(capacity, sumInventoryItems(items)));
     return {
       capacity,
-      ore,
-      plate,
-      gear,
-      coal,
-      wood,
+      items,
       used,
     };
   };
@@ -4599,6 +5489,12 @@ function createRuntimeSimulation(): RuntimeSimulation {
     if (map.isTree(tile.x, tile.y)) {
       return 'wood';
     }
+    if (map.isCopper?.(tile.x, tile.y) === true) {
+      return 'copper-ore';
+    }
+    if (map.isStone?.(tile.x, tile.y) === true) {
+      return 'stone';
+    }
 
     return 'iron-ore';
   };
@@ -4615,8 +5511,6 @@ function createRuntimeSimulation(): RuntimeSimulation {
   };
 
   playerInventory.capacity = normalizeInventory(playerInventory).capacity;
-  playerInventory.ore = normalizeInventory(playerInventory).ore;
-  playerInventory.plate = normalizeInventory(playerInventory).plate;
   playerInventory.used = getInventoryUsed(playerInventory);
 
   const toInt = (value: unknown): number | null => {
@@ -4717,19 +5611,11 @@ function createRuntimeSimulation(): RuntimeSimulation {
     const storedValue = chestState.stored;
     const storedRecord = isRecord(storedValue) ? storedValue : null;
     const capacity = toInt(chestState.capacity) ?? PLAYER_INVENTORY_CAPACITY;
-    const ore = toInt(storedRecord?.["iron-ore"]) ?? 0;
-    const plate = toInt(storedRecord?.["iron-plate"]) ?? 0;
-    const gear = toInt(storedRecord?.["iron-gear"]) ?? 0;
-    const coal = toInt(storedRecord?.coal) ?? 0;
-    const wood = toInt(storedRecord?.wood) ?? 0;
+    const items = normalizeInventoryItems(storedRecord);
     return normalizeInventory({
       capacity,
-      ore,
-      plate,
-      gear,
-      coal,
-      wood,
-      used: ore + plate + gear + coal + wood,
+      items,
+      used: sumInventoryItems(items),
     });
   };
 
@@ -4739,11 +5625,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
 
   const setPlayerInventory = (next: InventoryState): void => {
     const normalized = normalizeInventory(next);
-    playerInventory.ore = normalized.ore;
-    playerInventory.plate = normalized.plate;
-    playerInventory.gear = normalized.gear;
-    playerInventory.coal = normalized.coal;
-    playerInventory.wood = normalized.wood;
+    playerInventory.items = normalized.items;
     playerInventory.used = normalized.used;
     playerInventory.capacity = normalized.capacity;
   };
@@ -4789,23 +5671,11 @@ function createRuntimeSimulation(): RuntimeSimulation {
           continue;
         }
 
-        const takeOrder: ReadonlyArray<RuntimeItemKind> = ['iron-ore', 'iron-plate', 'iron-gear', 'coal', 'wood'];
-        for (const wanted of takeOrder) {
-          const got = provide.call(candidate.state, wanted) as RuntimeItemKind | null;
-        if (got === 'iron-ore' || got === 'iron-plate' || got === 'iron-gear' || got === 'coal' || got === 'wood') {
-            const next = { ...playerInventory };
-            if (got === 'iron-ore') {
-              next.ore += 1;
-            } else if (got === 'iron-plate') {
-              next.plate += 1;
-            } else if (got === 'iron-gear') {
-              next.gear += 1;
-            } else if (got === 'coal') {
-              next.coal += 1;
-            } else {
-              next.wood += 1;
-            }
-
+        for (const wanted of ITEM_ORDER) {
+          const got = toRuntimeItemKind(provide.call(candidate.state, wanted));
+          if (got !== null) {
+            coreSim.notifyEntityChanged(candidate.id);
+            const next = withInventoryCount(playerInventory, got, readInventoryCount(playerInventory, got) + 1);
             next.used = getInventoryUsed(next);
             setPlayerInventory(next);
             touchPlacementRevision();
@@ -4826,7 +5696,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
       };
     }
 
-    if (playerInventory.ore + playerInventory.plate + playerInventory.gear + playerInventory.coal + playerInventory.wood <= 0) {
+    if (getInventoryUsed(playerInventory) <= 0) {
       return {
         ok: false,
         reasonCode: 'nothing_to_deposit',
@@ -4841,8 +5711,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
         continue;
       }
 
-      const putOrder: ReadonlyArray<RuntimeItemKind> = ['iron-ore', 'iron-plate', 'iron-gear', 'coal', 'wood'];
-      for (const offered of putOrder) {
+      for (const offered of ITEM_ORDER) {
         const countAvailable = readInventoryCount(playerInventory, offered);
         if (countAvailable <= 0) {
           continue;
@@ -4855,20 +5724,8 @@ function createRuntimeSimulation(): RuntimeSimulation {
 
         const accepted = acceptItem.call(candidate.state, offered);
         if (accepted === true) {
-          const next = { ...playerInventory };
-          const nextCount = countAvailable - 1;
-          if (offered === 'iron-ore') {
-            next.ore = nextCount;
-          } else if (offered === 'iron-plate') {
-            next.plate = nextCount;
-          } else if (offered === 'iron-gear') {
-            next.gear = nextCount;
-          } else if (offered === 'coal') {
-            next.coal = nextCount;
-          } else {
-            next.wood = nextCount;
-          }
-          setPlayerInventory(next);
+          coreSim.notifyEntityChanged(candidate.id);
+          setPlayerInventory(withInventoryCount(playerInventory, offered, countAvailable - 1));
           touchPlacementRevision();
           emitRuntimeRender();
           return {
@@ -4915,7 +5772,11 @@ function createRuntimeSimulation(): RuntimeSimulation {
     return map.isOre(tile.x, tile.y) || map.isTree(tile.x, tile.y);
   };
 
-  const canPlaceKind = (kind: EntityKind, tile: Tile): CoreActionOutcome => {
+  const resolveUndergroundBeltMode = (tile: Tile, rotation: Rotation): UndergroundBeltMode => {
+    return placementUndergroundMode ?? chooseUndergroundBeltMode(tile, ROTATION_TO_DIRECTION[rotation], getEntitiesAtSafe);
+  };
+
+  const canPlaceKind = (kind: EntityKind, tile: Tile, rotation: Rotation = 0): CoreActionOutcome => {
     if (!inBounds(tile)) {
       return { ok: false, reasonCode: 'out_of_bounds' };
     }
@@ -4928,14 +5789,41 @@ function createRuntimeSimulation(): RuntimeSimulation {
     if (hasEntityAt(tile)) {
       return { ok: false, reasonCode: 'occupied' };
     }
+    if (map.isWater?.(tile.x, tile.y) === true) {
+      return { ok: false, reasonCode: 'blocked_by_water', reason: 'Water: fill it with landfill first.' };
+    }
+    if (map.isCliff?.(tile.x, tile.y) === true) {
+      return { ok: false, reasonCode: 'blocked_by_cliff', reason: 'Cliffs cannot be built on.' };
+    }
     if (kind === 'Miner' && !map.isOre(tile.x, tile.y) && !map.isTree(tile.x, tile.y)) {
       return { ok: false, reasonCode: 'needs_resource' };
     }
+    if (kind === 'OffshorePump') {
+      const intake = getOffshorePumpIntakeTile(tile, ROTATION_TO_DIRECTION[rotation]);
+      if (map.isWater?.(intake.x, intake.y) !== true) {
+        return { ok: false, reasonCode: 'offshore_pump_needs_water', reason: 'Offshore pumps need water behind them.' };
+      }
+    }
+    if (kind === 'UndergroundBelt') {
+      const failure = resolveUndergroundBeltPlacementFailure(
+        tile,
+        ROTATION_TO_DIRECTION[rotation],
+        resolveUndergroundBeltMode(tile, rotation),
+        getEntitiesAtSafe,
+        UNDERGROUND_BELT_MAX_SPAN,
+      );
+      if (failure === 'underground-no-partner') {
+        return { ok: false, reasonCode: 'underground_no_partner', reason: 'No underground belt entrance behind this exit.' };
+      }
+      if (failure === 'underground-out-of-range') {
+        return { ok: false, reasonCode: 'underground_out_of_range', reason: 'Underground belt entrance is out of range.' };
+      }
+    }
     return { ok: true, reasonCode: 'ok' };
   };
 
   const placeEntity = (kind: EntityKind, tile: Tile, rotation: Rotation): CoreActionOutcome => {
-    const canPlace = canPlaceKind(kind, tile);
+    const canPlace = canPlaceKind(kind, tile, rotation);
     if (!canPlace.ok) {
       return canPlace;
     }
@@ -4943,6 +5831,8 @@ function createRuntimeSimulation(): RuntimeSimulation {
     coreSim.addEntity(RUNTIME_KIND[kind], {
       pos: { x: tile.x, y: tile.y },
       rot: ROTATION_TO_DIRECTION[rotation],
+      ...(kind === 'Assembler' && placementRecipeId !== null ? { state: { recipeId: placementRecipeId } } : {}),
+      ...(kind === 'UndergroundBelt' ? { state: { mode: resolveUndergroundBeltMode(tile, rotation) } } : {}),
     });
     consumePlayerFuel(PLAYER_BUILD_FUEL_COST);
     touchPlacementRevision();
@@ -4950,6 +5840,80 @@ function createRuntimeSimulation(): RuntimeSimulation {
     return { ok: true, reasonCode: 'placed' };
   };
 
+  const setPlacementRecipe = (recipeId: string | null): CoreActionOutcome => {
+    const normalized = normalizeAssemblerRecipeId(recipeId);
+    if (recipeId !== null && normalized === null) {
+      return { ok: false, reasonCode: 'unknown_recipe', reason: `Unknown assembler recipe '${recipeId}'.` };
+    }
+
+    placementRecipeId = normalized;
+    return { ok: true, reasonCode: 'recipe_set' };
+  };
+
+  const setAssemblerRecipeAtTile = (tile: Tile, recipeId: string | null): CoreActionOutcome => {
+    if (!inBounds(tile)) {
+      return { ok: false, reasonCode: 'out_of_bounds' };
+    }
+
+    const normalized = normalizeAssemblerRecipeId(recipeId);
+    if (recipeId !== null && normalized === null) {
+      return { ok: false, reasonCode: 'unknown_recipe', reason: `Unknown assembler recipe '${recipeId}'.` };
+    }
+
+    const assembler = getEntitiesAtSafe(tile).find((entity) => entity.kind === 'assembler');
+    const state = assembler?.state as {
+      setRecipe?: (id: string | null) => Record<string, unknown> | null;
+      previewRecipeRefund?: (id: string | null) => Record<string, unknown> | null;
+    } | undefined;
+    if (assembler === undefined || typeof state?.setRecipe !== 'function') {
+      return { ok: false, reasonCode: 'no_entity', reason: 'No assembler on this tile.' };
+    }
+
+    // The buffered ingredients go back to the player, so the change waits until they all fit.
+    const preview = typeof state.previewRecipeRefund === 'function' ? state.previewRecipeRefund(normalized) : {};
+    if (preview === null) {
+      return { ok: false, reasonCode: 'unknown_recipe', reason: `Unknown assembler recipe '${recipeId}'.` };
+    }
+    if (addItemsToInventory(playerInventory, preview) === null) {
+      return { ok: false, reasonCode: 'inventory_full', reason: 'Make room in the inventory for the assembler\'s ingredients first.' };
+    }
+
+    const refunded = state.setRecipe(normalized);
+    const next = refunded === null ? null : addItemsToInventory(playerInventory, refunded);
+    if (next === null) {
+      return { ok: false, reasonCode: 'unknown_recipe', reason: `Unknown assembler recipe '${recipeId}'.` };
+    }
+
+    setPlayerInventory(next);
+    coreSim.notifyEntityChanged(assembler.id);
+    touchPlacementRevision();
+    emitRuntimeRender();
+    return { ok: true, reasonCode: 'recipe_set' };
+  };
+
+  const setInserterSettingsAtTile = (tile: Tile, settings: Partial<InserterSettings>): CoreActionOutcome => {
+    if (!inBounds(tile)) {
+      return { ok: false, reasonCode: 'out_of_bounds' };
+    }
+
+    const inserter = getEntitiesAtSafe(tile).find((entity) => isInserterKind(entity.kind));
+    if (inserter === undefined || !isRecord(inserter.state)) {
+      return { ok: false, reasonCode: 'no_entity', reason: 'No inserter on this tile.' };
+    }
+
+    if (settings.filter !== undefined) {
+      inserter.state.filter = normalizeInserterFilter(settings.filter);
+    }
+    if (settings.stackBonus !== undefined) {
+      inserter.state.stackBonus = normalizeInserterStackBonus(settings.stackBonus);
+    }
+    coreSim.notifyEntityChanged(inserter.id);
+
+    touchPlacementRevision();
+    emitRuntimeRender();
+    return { ok: true, reasonCode: 'inserter_configured' };
+  };
+
   const removeEntityAt = (tile: Tile): CoreActionOutcome => {
     if (!inBounds(tile)) {
       return { ok: false, reasonCode: 'out_of_bounds' };
@@ -4997,6 +5961,12 @@ function createRuntimeSimulation(): RuntimeSimulation {
         reason: 'Movement blocked: tile is mineable resource.',
       };
     }
+    if (map.isWater?.(next.x, next.y) === true) {
+      return { ok: false, reasonCode: 'blocked_by_water', reason: 'Movement blocked: water.' };
+    }
+    if (map.isCliff?.(next.x, next.y) === true) {
+      return { ok: false, reasonCode: 'blocked_by_cliff', reason: 'Movement blocked: cliff.' };
+    }
 
     const blockers = getEntitiesAtSafe(next);
     if (blockers.length === 0) {
@@ -5004,6 +5974,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
       player.y = next.y;
       player.rot = direction;
       consumePlayerFuel(PLAYER_MOVE_FUEL_COST);
+      exploreAround(player, getExploreRadius(CAMERA_DEFAULT_ZOOM));
       touchPlacementRevision();
       emitRuntimeRender();
       return { ok: true, reasonCode: 'moved' };
@@ -5021,6 +5992,53 @@ function createRuntimeSimulation(): RuntimeSimulation {
     };
   };
 
+  // Mining a water tile spends one landfill to turn it into ground.
+  const fillWaterAtTile = (tile: Tile): CoreActionOutcome => {
+    const landfill = readInventoryCount(playerInventory, 'landfill');
+    if (landfill <= 0) {
+      return { ok: false, reasonCode: 'no_landfill', reason: 'Craft landfill to fill water.' };
+    }
+    if (!hasPlayerFuel(PLAYER_BUILD_FUEL_COST)) {
+      return { ok: false, reasonCode: 'no_fuel', reason: 'Landfill blocked: no fuel.' };
+    }
+    if (map.fillWater?.(tile.x, tile.y) !== true) {
+      return { ok: false, reasonCode: 'not_water', reason: 'No water at this tile.' };
+    }
+
+    const next = withInventoryCount(playerInventory, 'landfill', landfill - 1);
+    next.used = getInventoryUsed(next);
+    setPlayerInventory(next);
+    consumePlayerFuel(PLAYER_BUILD_FUEL_COST);
+    // The worker's map only learns about landfill through the changed chunks.
+    workerMapChunksPending = true;
+    touchPlacementRevision();
+    emitRuntimeRender();
+    return { ok: true, reasonCode: 'landfilled', reason: `Filled water at (${tile.x}, ${tile.y}) with landfill.` };
+  };
+
+  const paintMapAtTile = (tile: Tile, brush: MapBrush): CoreActionOutcome => {
+    if (!inBounds(tile)) {
+      return { ok: false, reasonCode: 'out_of_bounds', reason: 'Target is out of bounds.' };
+    }
+
+    const painted = paintMapBrush(map, tile, brush);
+    if (painted.length === 0) {
+      return { ok: false, reasonCode: 'unchanged', reason: 'Map editor: nothing to change here.' };
+    }
+
+    // Sleeping miners would not notice painted resources, and the worker's map only learns of them through the changed chunks.
+    coreSim.wakeAllEntities();
+    workerMapChunksPending = true;
+    touchPlacementRevision();
+    emitRuntimeRender();
+    const action = brush.tile === 'empty' ? 'Cleared' : `Painted ${MAP_EDITOR_TILE_LABELS[brush.tile]} (${brush.amount}) on`;
+    return {
+      ok: true,
+      reasonCode: 'painted',
+      reason: `${action} ${painted.length} tile${painted.length === 1 ? '' : 's'} at (${tile.x}, ${tile.y}).`,
+    };
+  };
+
   const mineResourceAtTile = (tile: Tile): CoreActionOutcome => {
     if (!inBounds(tile)) {
       return {
@@ -5038,6 +6056,10 @@ function createRuntimeSimulation(): RuntimeSimulation {
       };
     }
 
+    if (map.isWater?.(tile.x, tile.y) === true) {
+      return fillWaterAtTile(tile);
+    }
+
     const minedItem = resolveMineableItemFromTile(tile);
     if (minedItem === null) {
       return {
@@ -5077,18 +6099,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
       ? ''
       : ` (${resourceSummary.label} remaining ${resourceSummary.remaining})`;
 
-    const next = { ...playerInventory };
-    if (minedItem === 'iron-ore') {
-      next.ore += 1;
-    } else if (minedItem === 'coal') {
-      next.coal += 1;
-    } else if (minedItem === 'wood') {
-      next.wood += 1;
-    } else if (minedItem === 'iron-plate') {
-      next.plate += 1;
-    } else {
-      next.gear += 1;
-    }
+    const next = withInventoryCount(playerInventory, minedItem, readInventoryCount(playerInventory, minedItem) + 1);
     next.used = getInventoryUsed(next);
     setPlayerInventory(next);
     consumePlayerFuel(PLAYER_MINE_FUEL_COST);
@@ -5106,22 +6117,9 @@ function createRuntimeSimulation(): RuntimeSimulation {
       return { ok: false, reasonCode: 'fuel_full' };
     }
 
-    if (playerInventory.coal > 0) {
-      const next = { ...playerInventory };
-      next.coal = Math.max(0, next.coal - 1);
-      next.used = Math.max(0, next.used - 1);
-      setPlayerInventory(next);
-      player.fuel = Math.min(player.maxFuel, player.fuel + PLAYER_REFUEL_AMOUNT);
-      touchPlacementRevision();
-      emitRuntimeRender();
-      return { ok: true, reasonCode: 'refueled' };
-    }
-
-    if (playerInventory.wood > 0) {
-      const next = { ...playerInventory };
-      next.wood = Math.max(0, next.wood - 1);
-      next.used = Math.max(0, next.used - 1);
-      setPlayerInventory(next);
+    const fuelItem = ITEM_ORDER.find((item) => isFuelItem(item) && readInventoryCount(playerInventory, item) > 0);
+    if (fuelItem !== undefined) {
+      setPlayerInventory(withInventoryCount(playerInventory, fuelItem, readInventoryCount(playerInventory, fuelItem) - 1));
       player.fuel = Math.min(player.maxFuel, player.fuel + PLAYER_REFUEL_AMOUNT);
       touchPlacementRevision();
       emitRuntimeRender();
@@ -5155,6 +6153,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
 
         const consumed = state.provideItem('coal');
         if (consumed === 'coal') {
+          coreSim.notifyEntityChanged(entity.id);
           player.fuel = Math.min(player.maxFuel, player.fuel + PLAYER_REFUEL_AMOUNT);
           touchPlacementRevision();
           emitRuntimeRender();
@@ -5163,6 +6162,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
 
         const woodConsumed = state.provideItem('wood');
         if (woodConsumed === 'wood') {
+          coreSim.notifyEntityChanged(entity.id);
           player.fuel = Math.min(player.maxFuel, player.fuel + PLAYER_REFUEL_AMOUNT);
           touchPlacementRevision();
           emitRuntimeRender();
@@ -5201,7 +6201,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
 
   const getRuntimeSnapshot = (): RuntimeSaveState => ({
     version: RUNTIME_SAVE_SCHEMA_VERSION,
-    seed: WORLD_SEED,
+    seed: worldSeed,
     width: WORLD_WIDTH,
     height: WORLD_HEIGHT,
     tick: runtime.tick,
@@ -5226,6 +6226,9 @@ function createRuntimeSimulation(): RuntimeSimulation {
       ...(entry.state === undefined ? {} : { state: cloneRuntimeState(entry.state) }),
     })),
     power: getPowerSnapshot(),
+    dayTicks: coreSim.getDayNight().dayTicks,
+    mapChunks: map.exportChangedChunks?.() ?? [],
+    mapSettings: worldSettings,
   });
 
   const cloneRuntimeState = (value: unknown): Record<string, unknown> | undefined => {
@@ -5253,13 +6256,17 @@ function createRuntimeSimulation(): RuntimeSimulation {
 
   const restoreRuntimeState = (state: RuntimeSaveState): CoreActionOutcome => {
     try {
+      setWorldTerrain(state.seed, state.mapSettings ?? createDefaultMapSettings());
+      if (state.mapChunks !== undefined) {
+        // Mining logged before the load belongs to the replaced map, not the restored one.
+        workerResources?.drain();
+        map.restoreChangedChunks?.(state.mapChunks);
+        workerMapChunksPending = true;
+      }
       setPlayerFromState(state.player);
+      exploreAround(player, getExploreRadius(CAMERA_DEFAULT_ZOOM));
       setPlayerInventory({
-        ore: toInt(state.inventory.ore) ?? 0,
-        plate: toInt(state.inventory.plate) ?? 0,
-        gear: toInt(state.inventory.gear) ?? 0,
-        coal: toInt(state.inventory.coal) ?? 0,
-        wood: toInt(state.inventory.wood) ?? 0,
+        items: state.inventory.items,
         used: toInt(state.inventory.used) ?? 0,
         capacity: toInt(state.inventory.capacity) ?? PLAYER_INVENTORY_CAPACITY,
       });
@@ -5283,6 +6290,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
           generatedThisTick: state.power?.generatedThisTick,
           shortagesThisTick: state.power?.shortagesThisTick,
         },
+        dayTicks: state.dayTicks,
       });
       if (coreSim.paused) {
         clearSimulationInterval();
@@ -5320,11 +6328,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
       maxFuel: PLAYER_MAX_FUEL,
     });
     setPlayerInventory({
-      ore: 0,
-      plate: 0,
-      gear: 0,
-      coal: 0,
-      wood: 0,
+      items: {},
       used: 0,
       capacity: PLAYER_INVENTORY_CAPACITY,
     });
@@ -5359,18 +6363,111 @@ function createRuntimeSimulation(): RuntimeSimulation {
     return interactWithAdjacentItemHost(action, candidates[0].id);
   };
 
+  const getPlayerHashState = () => ({
+    x: player.x,
+    y: player.y,
+    rot: player.rot,
+    fuel: player.fuel,
+    inventory: getPlayerInventorySnapshot(),
+  });
+
+  /** The worker's snapshot has no player and no placement revision; both live on the page. */
+  const getWorkerFrameSnapshot = (frame: SimWorkerFrame): Snapshot => {
+    const key = `${placementRevision}:${player.x},${player.y}:${player.rot}:${player.fuel}/${player.maxFuel}`;
+    if (workerFrameSnapshot !== null && workerFrameSnapshot.frame === frame && workerFrameSnapshot.key === key) {
+      return workerFrameSnapshot.snapshot;
+    }
+
+    const snapshot: Snapshot = {
+      ...frame.snapshot,
+      grid: { ...frame.snapshot.grid, tileSize: TILE_SIZE },
+      time: { ...frame.snapshot.time, revision: placementRevision },
+      player: { x: player.x, y: player.y, fuel: player.fuel, maxFuel: player.maxFuel, rot: player.rot },
+    };
+    workerFrameSnapshot = { frame, key, snapshot };
+    return snapshot;
+  };
+
+  const onSimulationWorkerMessage = (message: SimWorkerResponse): void => {
+    if (message.type === 'error') {
+      // Fall back to ticking on the page; the mirror already holds the last state the worker reported.
+      syncMirrorFromWorker();
+      workerClient?.terminate();
+      workerClient = null;
+      workerResources?.untrack();
+      startSimulationInterval();
+      return;
+    }
+
+    // Mined ore is replayed even from stale frames, whose ticks the next load rolls back. The worker's map has
+    // already lost that ore and maps cannot put it back, so keeping both maps equal wins over giving back the
+    // few ticks of mining in flight.
+    workerResources?.replay(message.consumed);
+    if (message.revision !== workerRevision || message.ticks <= 0) {
+      return;
+    }
+
+    workerFrame = message;
+    workerFramePending = true;
+    sessionTick += message.ticks;
+    for (const event of message.events) {
+      emitRuntimeSimEvent(event);
+    }
+    emitRuntimeRender();
+  };
+
+  const startSimulationWorker = (): void => {
+    try {
+      workerClient = createSimWorkerClient(
+        {
+          width: WORLD_WIDTH,
+          height: WORLD_HEIGHT,
+          seed: worldSeed,
+          stepMs: SIM_STEP_MS,
+          chunked: true,
+          mapSettings: worldSettings,
+        },
+        onSimulationWorkerMessage,
+      );
+    } catch {
+      workerClient = null;
+      workerResources?.untrack();
+      return;
+    }
+    workerClient.post({ type: 'speed', speed: frameStepper.getSpeed() });
+
+    const methods = runtime as unknown as Record<string, unknown>;
+    for (const name of Object.keys(methods)) {
+      const method = methods[name];
+      if (typeof method !== 'function' || RUNTIME_WORKER_PASSIVE_METHODS.has(name)) {
+        continue;
+      }
+
+      const mutates = RUNTIME_WORKER_MUTATING_METHODS.has(name);
+      methods[name] = (...args: unknown[]): unknown => {
+        syncMirrorFromWorker();
+        const result: unknown = method.apply(runtime, args);
+        if (mutates) {
+          pushMirrorToWorker();
+        }
+        return result;
+      };
+    }
+    pushMirrorToWorker();
+  };
+
   const runtime: RuntimeSimulation = {
     width: WORLD_WIDTH,
     height: WORLD_HEIGHT,
     tileSize: TILE_SIZE,
     get tick() {
-      return coreSim.tick;
+      return getPendingWorkerFrame()?.clock.tick ?? coreSim.tick;
     },
     get tickCount() {
-      return coreSim.tickCount;
+      return getPendingWorkerFrame()?.clock.tickCount ?? coreSim.tickCount;
     },
     get elapsedMs() {
-      return coreSim.elapsedMs;
+      return getPendingWorkerFrame()?.clock.elapsedMs ?? coreSim.elapsedMs;
     },
 
     getMap: () => map,
@@ -5382,7 +6479,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
         tick: runtime.tick,
         tickCount: runtime.tickCount,
         elapsedMs: runtime.elapsedMs,
-        entityCount: coreSim.getAllEntities().length,
+        entityCount: getPendingWorkerFrame()?.snapshot.entities.length ?? coreSim.getAllEntities().length,
         fuel: player.fuel,
         maxFuel: player.maxFuel,
         player: { x: player.x, y: player.y },
@@ -5405,6 +6502,74 @@ function createRuntimeSimulation(): RuntimeSimulation {
       return getPlayerInventorySnapshot();
     },
 
+    getSessionTick() {
+      return sessionTick;
+    },
+
+    getSnapshot() {
+      const frame = getPendingWorkerFrame();
+      return frame === null
+        ? coreSim.profile('snapshot', () => createSnapshot(runtime))
+        : getWorkerFrameSnapshot(frame);
+    },
+
+    getSimulationMode() {
+      return workerClient === null ? 'main' : 'worker';
+    },
+
+    getSimulationSpeed() {
+      return frameStepper.getSpeed();
+    },
+
+    setSimulationSpeed(speed) {
+      frameStepper.setSpeed(speed);
+      workerClient?.post({ type: 'speed', speed });
+    },
+
+    setProfiling(enabled) {
+      coreSim.setProfiling(enabled ? {} : null);
+    },
+
+    getProfile() {
+      return coreSim.getProfile();
+    },
+
+    onSimEvent(listener) {
+      simEventListeners.add(listener);
+      if (unsubscribeCoreSimEvents === null) {
+        unsubscribeCoreSimEvents = coreSim.onAny(emitRuntimeSimEvent);
+      }
+      return () => {
+        simEventListeners.delete(listener);
+        if (simEventListeners.size === 0) {
+          unsubscribeCoreSimEvents?.();
+          unsubscribeCoreSimEvents = null;
+        }
+      };
+    },
+
+    getStateHash() {
+      return coreSim.getStateHash({ player: getPlayerHashState() });
+    },
+
+    getPowerState() {
+      return coreSim.getPowerState();
+    },
+
+    getDayNight() {
+      return coreSim.getDayNight();
+    },
+
+    exploreAround,
+
+    setStateHashRecording(every) {
+      coreSim.setStateHashRecording(every === null ? null : { every, player: getPlayerHashState });
+    },
+
+    getStateHashLog() {
+      return coreSim.getStateHashLog();
+    },
+
     canRemove(tile) {
       return inBounds(tile) && coreSim.getEntitiesAt(tile).length > 0;
     },
@@ -5417,12 +6582,12 @@ function createRuntimeSimulation(): RuntimeSimulation {
       return map.isOre(tile.x, tile.y) || map.isTree(tile.x, tile.y);
     },
 
-    getPlacementOutcome(kind, tile, _rotation) {
-      return canPlaceKind(kind, tile);
+    getPlacementOutcome(kind, tile, rotation) {
+      return canPlaceKind(kind, tile, rotation);
     },
 
-    canPlace(kind, tile, _rotation) {
-      return canPlaceKind(kind, tile).ok === true;
+    canPlace(kind, tile, rotation) {
+      return canPlaceKind(kind, tile, rotation).ok === true;
     },
 
     placeEntity(kind, tile, rotation) {
@@ -5437,6 +6602,39 @@ function createRuntimeSimulation(): RuntimeSimulation {
       return mineResourceAtTile(tile);
     },
 
+    paintMapAtTile(tile, brush) {
+      return paintMapAtTile(tile, brush);
+    },
+
+    getPlacementRecipe() {
+      return placementRecipeId;
+    },
+
+    setPlacementRecipe(recipeId) {
+      return setPlacementRecipe(recipeId);
+    },
+
+    setAssemblerRecipeAtTile(tile, recipeId) {
+      return setAssemblerRecipeAtTile(tile, recipeId);
+    },
+
+    setInserterSettingsAtTile(tile, settings) {
+      return setInserterSettingsAtTile(tile, settings);
+    },
+
+    setPlacementUndergroundMode(mode) {
+      placementUndergroundMode = mode;
+    },
+
+    getUndergroundBeltPreview(tile, rotation) {
+      return previewUndergroundBeltPlacement(
+        tile,
+        ROTATION_TO_DIRECTION[rotation],
+        getEntitiesAtSafe,
+        placementUndergroundMode ?? undefined,
+      );
+    },
+
     removeAt(tile) {
       return removeEntityAt(tile);
     },
@@ -5519,6 +6717,7 @@ function createRuntimeSimulation(): RuntimeSimulation {
       for (let i = 0; i < target; i += 1) {
         coreSim.step(SIM_STEP_MS);
       }
+      sessionTick += Math.max(0, runtime.tickCount - previousTickCount);
       if (wasPaused) {
         coreSim.pause?.();
       }
@@ -5539,6 +6738,17 @@ function createRuntimeSimulation(): RuntimeSimulation {
       return;
     },
 
+    getWorldSeed: () => worldSeed,
+
+    getMapSettings: () => worldSettings,
+
+    startNewWorld(seed, settings) {
+      setWorldTerrain(seed, settings);
+      resetRuntimeState();
+      exploreAround(player, getExploreRadius(CAMERA_DEFAULT_ZOOM));
+      emitRuntimeRender();
+    },
+
     interactWithItemHostAtTile,
 
     interactWithChestAtTile(tile, action) {
@@ -5547,9 +6757,20 @@ function createRuntimeSimulation(): RuntimeSimulation {
 
     destroy() {
       clearSimulationInterval();
+      workerClient?.terminate();
+      workerClient = null;
+      workerResources?.untrack();
+      simEventListeners.clear();
+      unsubscribeCoreSimEvents?.();
+      unsubscribeCoreSimEvents = null;
     },
   };
 
+  if (workerResources !== null) {
+    startSimulationWorker();
+  }
+  exploreAround(player, getExploreRadius(CAMERA_DEFAULT_ZOOM));
+
   startSimulationInterval();
 
   return runtime;
@@ -5657,248 +6878,33 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
 
-type MapResourceTotals = {
-  oreRemaining: number;
-  coalRemaining: number;
-  woodRemaining: number;
-};
-
-const EMPTY_MAP_RESOURCE_TOTALS: MapResourceTotals = {
-  oreRemaining: 0,
-  coalRemaining: 0,
-  woodRemaining: 0,
-};
-
-const mapResourceTotalsCache = new WeakMap<object, { revision: number; totals: MapResourceTotals }>();
-
-function getResourceTotalsFromMap(map: ReturnType<typeof createMap>): MapResourceTotals {
-  if (typeof map !== 'object' || map === null) {
-    return EMPTY_MAP_RESOURCE_TOTALS;
-  }
+function describeKindOrTarget(kind: EntityKind | null, tile: Tile | null): string {
+  const prefix = kind === null ? 'Selection' : kind;
+  const suffix = tile === null ? '' : ` at (${tile.x}, ${tile.y})`;
+  return `${prefix}${suffix}`;
+}
 
-  const resourceRevision = typeof map.getResourceRevision === 'function'
-    ? map.getResourceRevision()
-    : -1;
-  const cached = mapResourceTotalsCache.get(map);
-  if (cached !== undefined && cached.revision === resourceRevision) {
-    return cached.totals;
+const renderInventoryPanel = (title: string, inventory: InventoryState): JSX.Element => {
+  const capacity = Math.max(1, Math.floor(inventory.capacity));
+  const used = Math.max(0, Math.floor(inventory.used));
+  const fillRatio = Math.max(0, Math.min(1, capacity > 0 ? used / capacity : 0));
+  const barWidth = 130;
+  const segments: Array<{ item: RuntimeItemKind; width: number }> = [];
+  let remainingWidth = barWidth;
+  for (const item of ITEM_ORDER) {
+    const count = Math.max(0, Math.floor(readInventoryCount(inventory, item)));
+    const width = Math.max(0, Math.min(remainingWidth, Math.round((count / capacity) * barWidth)));
+    remainingWidth -= width;
+    segments.push({ item, width });
   }
-
-  let oreRemaining = 0;
-  let coalRemaining = 0;
-  let woodRemaining = 0;
-
-  for (let y = 0; y < map.height; y += 1) {
-    for (let x = 0; x < map.width; x += 1) {
-      const tile = map.getTile(x, y);
-      if (tile === 'iron-ore') {
-        oreRemaining += 1;
-      } else if (tile === 'coal-ore') {
-        coalRemaining += 1;
-      } else if (tile === 'tree') {
-        woodRemaining += 1;
-      }
-    }
-  }
-
-  const totals: MapResourceTotals = { oreRemaining, coalRemaining, woodRemaining };
-  mapResourceTotalsCache.set(map, {
-    revision: resourceRevision,
-    totals,
-  });
-
-  return totals;
-}
-
-function getSimulationMetrics(sim: Simulation): RuntimeMetrics | null {
-  const withEntities = sim as { getAllEntities?: () => RuntimeEntity[] };
-  if (typeof withEntities.getAllEntities !== 'function') {
-    return null;
-  }
-  const withMap = sim as { getMap?: () => ReturnType<typeof createMap> };
-
-  const entities = withEntities.getAllEntities();
-  if (!Array.isArray(entities)) {
-    return null;
-  }
-
-  const metrics: RuntimeMetrics = {
-    ...createEmptyRuntimeMetrics(),
-    entityCount: entities.length,
-  };
-
-  for (const entity of entities) {
-    if (entity.kind === 'miner') {
-      metrics.miners += 1;
-      continue;
-    }
-
-    if (entity.kind === 'belt') {
-      metrics.belts += 1;
-      const beltState = isRecord(entity.state) ? entity.state : null;
-      const beltItem = typeof beltState?.item === 'string' ? beltState.item : null;
-      if (beltItem === 'iron-ore') {
-        metrics.oreInTransit += 1;
-      } else if (beltItem === 'iron-plate') {
-        metrics.platesInTransit += 1;
-      } else if (beltItem === 'iron-gear') {
-        metrics.gearsInTransit += 1;
-      } else if (beltItem === 'coal') {
-        metrics.coalInTransit += 1;
-      } else if (beltItem === 'wood') {
-        metrics.woodInTransit += 1;
-      }
-      continue;
-    }
-
-    if (entity.kind === 'inserter') {
-      metrics.inserters += 1;
-      const inserterState = isRecord(entity.state) ? entity.state : null;
-      const held = typeof inserterState?.holding === 'string' ? inserterState.holding : null;
-      if (held === 'iron-ore') {
-        metrics.oreInTransit += 1;
-      } else if (held === 'iron-plate') {
-        metrics.platesInTransit += 1;
-      } else if (held === 'iron-gear') {
-        metrics.gearsInTransit += 1;
-      } else if (held === 'coal') {
-        metrics.coalInTransit += 1;
-      } else if (held === 'wood') {
-        metrics.woodInTransit += 1;
-      }
-      continue;
-    }
-
-    if (entity.kind === 'furnace') {
-      metrics.furnaces += 1;
-      const furnaceState = isRecord(entity.state) ? entity.state : null;
-      const output = typeof furnaceState?.output === 'string' ? furnaceState.output : null;
-      const outputOccupied = furnaceState?.outputOccupied === true;
-      const progress =
-        typeof furnaceState?.progress01 === 'number' ? furnaceState.progress01 : null;
-
-      if (output === 'iron-plate' || outputOccupied) {
-        metrics.furnacesReady += 1;
-      } else if (progress !== null && progress > 0 && progress < 1) {
-        metrics.furnacesCrafting += 1;
-      }
-      continue;
-    }
-
-    if (entity.kind === 'chest') {
-      metrics.chests += 1;
-      const chestState = isRecord(entity.state) ? entity.state : null;
-      const stored = isRecord(chestState?.stored) ? chestState.stored : null;
-      const chestOre = toInt(stored?.['iron-ore']) ?? 0;
-      const chestPlate = toInt(stored?.['iron-plate']) ?? 0;
-      const chestGear = toInt(stored?.['iron-gear']) ?? 0;
-      const chestCoal = toInt(stored?.coal) ?? 0;
-      const chestWood = toInt(stored?.wood) ?? 0;
-      metrics.chestOre += chestOre;
-      metrics.chestPlates += chestPlate;
-      metrics.chestGears += chestGear;
-      metrics.chestCoal += chestCoal;
-      metrics.chestWood += chestWood;
-      continue;
-    }
-
-    if (entity.kind === 'splitter') {
-      metrics.splitters += 1;
-      continue;
-    }
-
-    if (entity.kind === 'assembler') {
-      metrics.assemblers += 1;
-      continue;
-    }
-
-    if (entity.kind === 'solar-panel') {
-      metrics.solarPanels += 1;
-      continue;
-    }
-
-    if (entity.kind === 'accumulator') {
-      metrics.accumulators += 1;
-    }
-  }
-
-  const map = typeof withMap.getMap === 'function'
-    ? withMap.getMap()
-    : null;
-  if (map !== undefined && map !== null) {
-    const resourceTotals = getResourceTotalsFromMap(map);
-    metrics.oreRemaining = resourceTotals.oreRemaining;
-    metrics.coalRemaining = resourceTotals.coalRemaining;
-    metrics.woodRemaining = resourceTotals.woodRemaining;
-  }
-
-  const rawPowerState = (sim as { getPowerState?: () => unknown }).getPowerState;
-  const powerState = typeof rawPowerState === 'function' ? rawPowerState.call(sim) : null;
-  if (isRecord(powerState)) {
-    metrics.powerStorage = toInt(powerState.storage) ?? metrics.powerStorage;
-    metrics.powerCapacity = toInt(powerState.capacity) ?? metrics.powerCapacity;
-    metrics.powerDemandThisTick = toInt(powerState.demandThisTick) ?? metrics.powerDemandThisTick;
-    metrics.powerConsumedThisTick = toInt(powerState.consumedThisTick) ?? metrics.powerConsumedThisTick;
-    metrics.powerGeneratedThisTick = toInt(powerState.generatedThisTick) ?? metrics.powerGeneratedThisTick;
-    metrics.powerShortagesThisTick = toInt(powerState.shortagesThisTick) ?? metrics.powerShortagesThisTick;
-  }
-
-  return metrics;
-}
-
-function describeKindOrTarget(kind: EntityKind | null, tile: Tile | null): string {
-  const prefix = kind === null ? 'Selection' : kind;
-  const suffix = tile === null ? '' : ` at (${tile.x}, ${tile.y})`;
-  return `${prefix}${suffix}`;
-}
-
-const renderInventoryPanel = (title: string, inventory: InventoryState): JSX.Element => {
-  const capacity = Math.max(1, Math.floor(inventory.capacity));
-  const ore = Math.max(0, Math.floor(inventory.ore));
-  const plate = Math.max(0, Math.floor(inventory.plate));
-  const gear = Math.max(0, Math.floor(inventory.gear));
-  const coal = Math.max(0, Math.floor(inventory.coal));
-  const wood = Math.max(0, Math.floor(inventory.wood));
-  const used = Math.max(0, Math.floor(inventory.used));
-  const fillRatio = Math.max(0, Math.min(1, capacity > 0 ? used / capacity : 0));
-  const barWidth = 130;
-  const oreWidth = Math.max(0, Math.min(barWidth, Math.round((ore / capacity) * barWidth)));
-  const plateWidth = Math.max(
-    0,
-    Math.min(
-      barWidth - oreWidth,
-      Math.round((plate / capacity) * barWidth),
-    ),
-  );
-  const gearWidth = Math.max(
-    0,
-    Math.min(
-      barWidth - oreWidth - plateWidth,
-      Math.round((gear / capacity) * barWidth),
-    ),
-  );
-  const coalWidth = Math.max(
-    0,
-    Math.min(
-      barWidth - oreWidth - plateWidth - gearWidth,
-      Math.round((coal / capacity) * barWidth),
-    ),
-  );
-  const woodWidth = Math.max(
-    0,
-    Math.min(
-      barWidth - oreWidth - plateWidth - gearWidth - coalWidth,
-      Math.round((wood / capacity) * barWidth),
-    ),
-  );
-  const spareWidth = Math.max(0, barWidth - oreWidth - plateWidth - gearWidth - coalWidth - woodWidth);
+  const spareWidth = Math.max(0, remainingWidth);
 
   return (
     <div style={{ marginBottom: 8 }}>
       <div style={{ display: 'flex', justifyContent: 'space-between', gap: 10, alignItems: 'baseline' }}>
         <span style={{ opacity: 0.9 }}>{title}</span>
         <span style={{ fontFamily: 'monospace' }}>
-          O:{ore} P:{plate} G:{gear} C:{coal} W:{wood}
+          {formatInventoryItems(inventory.items)}
         </span>
       </div>
       <div
@@ -5912,11 +6918,9 @@ const renderInventoryPanel = (title: string, inventory: InventoryState): JSX.Ele
           overflow: 'hidden',
         }}
         >
-        <div style={{ width: oreWidth, background: '#4f86f7' }} />
-        <div style={{ width: plateWidth, background: '#f7ca4f' }} />
-        <div style={{ width: gearWidth, background: '#c084fc' }} />
-        <div style={{ width: coalWidth, background: ITEM_COLORS.coal }} />
-        <div style={{ width: woodWidth, background: ITEM_COLORS.wood }} />
+        {segments.map((segment) => (
+          <div key={segment.item} style={{ width: segment.width, background: getItemColor(segment.item) }} />
+        ))}
         <div style={{ width: spareWidth, background: 'rgba(255,255,255,0.08)' }} />
       </div>
       <div style={{ opacity: 0.78, marginTop: 2, fontSize: 11 }}>
@@ -5930,7 +6934,7 @@ function ensureSimulation(): RuntimeSimulation {
   if (window.__SIM__ && typeof window.__SIM__ === 'object') {
     return window.__SIM__ as RuntimeSimulation;
   }
-  const created = createRuntimeSimulation();
+  const created = createRuntimeSimulation(resolveRuntimeSimulationMode(window.location.search));
   window.__SIM__ = created;
   return created;
 }
@@ -5982,8 +6986,8 @@ export function pointerToTile(
     return null;
   }
 
-  const worldW = WORLD_WIDTH * TILE_SIZE;
-  const worldH = WORLD_HEIGHT * TILE_SIZE;
+  const worldW = VIEW_WIDTH * TILE_SIZE;
+  const worldH = VIEW_HEIGHT * TILE_SIZE;
   if (worldW <= 0 || worldH <= 0) {
     return null;
   }
@@ -5997,8 +7001,8 @@ export function pointerToTile(
   const baseScale = Math.max(0.0001, Math.min(canvasWidth / worldW, canvasHeight / worldH));
   const scale = baseScale * zoom;
   const tileSpan = TILE_SIZE * scale;
-  const viewW = worldW * scale;
-  const viewH = worldH * scale;
+  const viewW = WORLD_WIDTH * tileSpan;
+  const viewH = WORLD_HEIGHT * tileSpan;
   const offsetX = Math.floor((canvasWidth - worldW * baseScale) / 2) + panX;
   const offsetY = Math.floor((canvasHeight - worldH * baseScale) / 2) + panY;
 
@@ -6026,8 +7030,8 @@ function tileToScreenPoint(
   camera: CameraState = { zoom: CAMERA_DEFAULT_ZOOM, panX: 0, panY: 0 },
 ): { x: number; y: number } | null {
   const rect = canvas.getBoundingClientRect();
-  const worldW = WORLD_WIDTH * TILE_SIZE;
-  const worldH = WORLD_HEIGHT * TILE_SIZE;
+  const worldW = VIEW_WIDTH * TILE_SIZE;
+  const worldH = VIEW_HEIGHT * TILE_SIZE;
   if (worldW <= 0 || worldH <= 0) {
     return null;
   }
@@ -6067,6 +7071,8 @@ export default function App() {
   });
   const [cameraAutoFollow, setCameraAutoFollow] = useState(false);
   const cameraAutoFollowRef = useRef(false);
+  // World tile at the minimap's top-left corner; the minimap scrolls to keep the player in view.
+  const minimapOriginRef = useRef<Tile>({ x: 0, y: 0 });
   const simulationRef = useRef<Simulation>(NOOP_SIMULATION);
   const minimapCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const feedbackTimeoutRef = useRef<number | null>(null);
@@ -6105,11 +7111,7 @@ export default function App() {
     },
     metrics: createEmptyRuntimeMetrics(),
     inventory: {
-        ore: 0,
-        gear: 0,
-        plate: 0,
-        coal: 0,
-        wood: 0,
+        items: {},
         used: 0,
         capacity: PLAYER_INVENTORY_CAPACITY,
     },
@@ -6118,13 +7120,19 @@ export default function App() {
     adjacentInteractive: null,
   };
   const [selectedKind, setSelectedKind] = useState(null as EntityKind | null);
+  const [placementRecipe, setPlacementRecipe] = useState<string | null>(DEFAULT_ASSEMBLER_RECIPE_ID);
   const [feedback, setFeedback] = useState<Feedback | null>(null);
   const initialUiSettings = readUiSettingsFromStorage();
   const [showHud, setShowHud] = useState<boolean>(initialUiSettings.showHud);
+  const [showProfiler, setShowProfiler] = useState<boolean>(false);
+  const showProfilerRef = useRef<boolean>(false);
+  const showPowerOverlayRef = useRef<boolean>(false);
+  const [tickProfile, setTickProfile] = useState<TickProfile | null>(null);
   const [hudCollapsed, setHudCollapsed] = useState<boolean>(true);
   const [rightSidebarCollapsed, setRightSidebarCollapsed] = useState<boolean>(true);
   const [useSvgs, setUseSvgs] = useState<boolean>(initialUiSettings.showSvgs);
   const [reducedMotionEnabled, setReducedMotionEnabled] = useState<boolean>(initialUiSettings.reducedMotion);
+  const [simulationSpeed, setSimulationSpeedState] = useState<SimSpeed>(DEFAULT_SIM_SPEED);
   const [showTutorialHints, setShowTutorialHints] = useState<boolean>(initialUiSettings.showTutorialHints);
   const [tutorialMissions, setTutorialMissions] = useState<TutorialMissionProgress[]>(() => createInitialTutorialMissionState());
   const tutorialMissionBaselineRef = useRef<TutorialMissionBaseline | null>(null);
@@ -6145,9 +7153,26 @@ export default function App() {
   const [runtimePlanStepDelayMs, setRuntimePlanStepDelayMs] = useState(RUNTIME_PLAN_DEFAULT_STEP_DELAY_MS);
   const [runtimePlanLoop, setRuntimePlanLoop] = useState(initialUiSettings.runtimePlanLoop);
   const [runtimePlanExecutionLog, setRuntimePlanExecutionLog] = useState<string[]>([]);
+  const runtimeReplayRecordingRef = useRef<RuntimeReplayRecording | null>(null);
+  const runtimeReplayInputSuppressedRef = useRef(false);
+  const runtimeReplayViewerRef = useRef<RuntimeReplayViewerSession | null>(null);
+  const runtimeReplaySessionTickAtOpenRef = useRef(0);
+  const runtimeReplayImportInputRef = useRef<HTMLInputElement | null>(null);
+  const [runtimeReplayInputCount, setRuntimeReplayInputCount] = useState(0);
+  const [runtimeReplayViewer, setRuntimeReplayViewer] = useState<RuntimeReplayViewerState | null>(null);
   const [automationEnabled, setAutomationEnabled] = useState<AutomationEnabledState>(INITIAL_AUTOMATION_ENABLED_STATE);
   const [automationStatus, setAutomationStatus] = useState<AutomationStatusState>(EMPTY_AUTOMATION_STATUS_STATE);
   const [shortcutOverlayOpen, setShortcutOverlayOpen] = useState(false);
+  const [newWorldOpen, setNewWorldOpen] = useState(false);
+  const [newWorldSeed, setNewWorldSeed] = useState(WORLD_SEED);
+  const [newWorldSettings, setNewWorldSettings] = useState<MapSettings>(createDefaultMapSettings());
+  const newWorldPreviewRef = useRef<HTMLCanvasElement | null>(null);
+  const [mapEditorOpen, setMapEditorOpen] = useState(false);
+  const [mapEditorBrush, setMapEditorBrush] = useState<MapBrush>(MAP_EDITOR_DEFAULT_BRUSH);
+  // The brush canvas clicks paint with while the map editor is open; null otherwise.
+  const mapEditorBrushRef = useRef<MapBrush | null>(null);
+  const [mapEditorHover, setMapEditorHover] = useState<string | null>(null);
+  const mapEditorHoverTileRef = useRef<string | null>(null);
   const automationEnabledRef = useRef<AutomationEnabledState>(automationEnabled);
   const automationStatusRef = useRef<AutomationStatusState>(automationStatus);
   const automationNextRunRef = useRef<AutomationNextRunState>(EMPTY_AUTOMATION_NEXT_RUN_STATE);
@@ -6159,6 +7184,9 @@ export default function App() {
   useEffect(() => {
     activeSaveSlotRef.current = activeSaveSlot;
   }, [activeSaveSlot]);
+  useEffect(() => {
+    mapEditorBrushRef.current = mapEditorOpen ? mapEditorBrush : null;
+  }, [mapEditorOpen, mapEditorBrush]);
 
 const setHudState = useCallback(
   (patch: Partial<HudState>): void => {
@@ -6233,6 +7261,8 @@ const setHudState = useCallback(
         current.metrics.powerConsumedThisTick === next.metrics.powerConsumedThisTick &&
         current.metrics.powerGeneratedThisTick === next.metrics.powerGeneratedThisTick &&
         current.metrics.powerShortagesThisTick === next.metrics.powerShortagesThisTick &&
+        current.metrics.timeOfDayMinutes === next.metrics.timeOfDayMinutes &&
+        current.metrics.daylightPercent === next.metrics.daylightPercent &&
         current.selectedEntity?.id === next.selectedEntity?.id &&
         current.selectedEntity?.kind === next.selectedEntity?.kind &&
         current.selectedEntity?.x === next.selectedEntity?.x &&
@@ -6240,14 +7270,11 @@ const setHudState = useCallback(
         areItemKindArraysEqual(current.selectedEntity?.canAccept, next.selectedEntity?.canAccept) &&
         areItemKindArraysEqual(current.selectedEntity?.canProvide, next.selectedEntity?.canProvide) &&
         areItemKindArraysEqual(current.selectedEntity?.details, next.selectedEntity?.details) &&
+        current.selectedEntity?.recipe === next.selectedEntity?.recipe &&
         current.adjacentChest?.id === next.adjacentChest?.id &&
         current.adjacentChest?.x === next.adjacentChest?.x &&
         current.adjacentChest?.y === next.adjacentChest?.y &&
-        current.adjacentChest?.inventory.ore === next.adjacentChest?.inventory.ore &&
-        current.adjacentChest?.inventory.plate === next.adjacentChest?.inventory.plate &&
-        current.adjacentChest?.inventory.gear === next.adjacentChest?.inventory?.gear &&
-        current.adjacentChest?.inventory.coal === next.adjacentChest?.inventory?.coal &&
-        current.adjacentChest?.inventory.wood === next.adjacentChest?.inventory?.wood &&
+        areInventoryItemsEqual(current.adjacentChest?.inventory.items, next.adjacentChest?.inventory.items) &&
         current.adjacentChest?.inventory.used === next.adjacentChest?.inventory.used &&
         current.adjacentChest?.inventory.capacity === next.adjacentChest?.inventory.capacity &&
         current.adjacentChest?.remaining === next.adjacentChest?.remaining &&
@@ -6258,11 +7285,7 @@ const setHudState = useCallback(
         areItemKindArraysEqual(current.adjacentInteractive?.canAccept, next.adjacentInteractive?.canAccept) &&
         areItemKindArraysEqual(current.adjacentInteractive?.canProvide, next.adjacentInteractive?.canProvide) &&
         areItemKindArraysEqual(current.adjacentInteractive?.details, next.adjacentInteractive?.details) &&
-        current.inventory.ore === next.inventory.ore &&
-        current.inventory.plate === next.inventory.plate &&
-        current.inventory.gear === next.inventory.gear &&
-        current.inventory.coal === next.inventory.coal &&
-        current.inventory.wood === next.inventory.wood &&
+        areInventoryItemsEqual(current.inventory.items, next.inventory.items) &&
         current.inventory.used === next.inventory.used &&
         current.inventory.capacity === next.inventory.capacity
       ) {
@@ -6336,7 +7359,14 @@ const setHudState = useCallback(
     cameraRef.current = nextCamera;
     window.__CAMERA__ = nextCamera;
     if (rendererRef.current && typeof (rendererRef.current as { setCamera?: (camera: CameraState) => void }).setCamera === 'function') {
-      (rendererRef.current as { setCamera: (camera: CameraState) => void }).setCamera(nextCamera);
+      (rendererRef.current as { setCamera: (camera: CameraState & { viewWidth: number; viewHeight: number }) => void })
+        .setCamera({ ...nextCamera, viewWidth: VIEW_WIDTH, viewHeight: VIEW_HEIGHT });
+    }
+
+    const canvas = canvasRef.current;
+    if (canvas) {
+      const center = getCameraCenterTile(nextCamera, Math.max(1, canvas.width), Math.max(1, canvas.height));
+      (simulationRef.current as RuntimeSimulation).exploreAround?.(center, getExploreRadius(nextCamera.zoom));
     }
   }, []);
 
@@ -6424,28 +7454,22 @@ const setHudState = useCallback(
       return;
     }
 
-    const tileWidth = width / WORLD_WIDTH;
-    const tileHeight = height / WORLD_HEIGHT;
-    const playerX = player === null ? -1 : player.x;
-    const playerY = player === null ? -1 : player.y;
+    const tileWidth = width / MINIMAP_VIEW_WIDTH;
+    const tileHeight = height / MINIMAP_VIEW_HEIGHT;
+    const origin = getWorldWindowOrigin(
+      player ?? { x: Math.floor(WORLD_WIDTH / 2), y: Math.floor(WORLD_HEIGHT / 2) },
+      MINIMAP_VIEW_WIDTH,
+      MINIMAP_VIEW_HEIGHT,
+    );
+    minimapOriginRef.current = origin;
+    const playerX = player === null ? -1 : player.x - origin.x;
+    const playerY = player === null ? -1 : player.y - origin.y;
     const visibleWidth = Math.max(1, tileWidth);
     const visibleHeight = Math.max(1, tileHeight);
 
-    for (let y = 0; y < WORLD_HEIGHT; y += 1) {
-      for (let x = 0; x < WORLD_WIDTH; x += 1) {
-        let fill = MINIMAP_COLORS.empty;
-        if (typeof getTile === 'function') {
-          const tile = getTile(x, y);
-          if (tile === 'iron-ore') {
-            fill = MINIMAP_COLORS.ore;
-          } else if (tile === 'coal-ore') {
-            fill = MINIMAP_COLORS.coal;
-          } else if (tile === 'tree') {
-            fill = MINIMAP_COLORS.tree;
-          }
-        }
-
-        ctx.fillStyle = fill;
+    for (let y = 0; y < MINIMAP_VIEW_HEIGHT; y += 1) {
+      for (let x = 0; x < MINIMAP_VIEW_WIDTH; x += 1) {
+        ctx.fillStyle = getMinimapTileColor(typeof getTile === 'function' ? getTile(origin.x + x, origin.y + y) : undefined);
         ctx.fillRect(
           Math.round(x * tileWidth),
           Math.round(y * tileHeight),
@@ -6461,12 +7485,14 @@ const setHudState = useCallback(
           continue;
         }
         const rawKind = rawEntity.kind;
-        const rawX = toInt(rawEntity.pos.x);
-        const rawY = toInt(rawEntity.pos.y);
-        if (rawX === null || rawY === null) {
+        const worldX = toInt(rawEntity.pos.x);
+        const worldY = toInt(rawEntity.pos.y);
+        if (worldX === null || worldY === null) {
           continue;
         }
-        if (rawX < 0 || rawY < 0 || rawX >= WORLD_WIDTH || rawY >= WORLD_HEIGHT) {
+        const rawX = worldX - origin.x;
+        const rawY = worldY - origin.y;
+        if (rawX < 0 || rawY < 0 || rawX >= MINIMAP_VIEW_WIDTH || rawY >= MINIMAP_VIEW_HEIGHT) {
           continue;
         }
         const kind = rawKind as RuntimeEntityKind;
@@ -6497,19 +7523,23 @@ const setHudState = useCallback(
       ctx.stroke();
     }
 
-    const worldPixelWidth = WORLD_WIDTH * TILE_SIZE;
-    const worldPixelHeight = WORLD_HEIGHT * TILE_SIZE;
+    // The camera's visible tiles, worked out on the world canvas and drawn in minimap tiles.
+    const worldCanvas = canvasRef.current;
+    const canvasWidth = worldCanvas === null ? 0 : worldCanvas.width;
+    const canvasHeight = worldCanvas === null ? 0 : worldCanvas.height;
+    const viewPixelWidth = VIEW_WIDTH * TILE_SIZE;
+    const viewPixelHeight = VIEW_HEIGHT * TILE_SIZE;
     const normalizedZoom = clampCameraZoom(cameraRef.current.zoom, CAMERA_DEFAULT_ZOOM);
-    const baseScale = Math.max(0.0001, Math.min(width / worldPixelWidth, height / worldPixelHeight));
+    const baseScale = Math.max(0.0001, Math.min(canvasWidth / viewPixelWidth, canvasHeight / viewPixelHeight));
     const tileSpan = TILE_SIZE * baseScale * normalizedZoom;
-    const viewOffsetX = Math.floor((width - worldPixelWidth * baseScale) / 2) + cameraRef.current.panX;
-    const viewOffsetY = Math.floor((height - worldPixelHeight * baseScale) / 2) + cameraRef.current.panY;
+    const viewOffsetX = Math.floor((canvasWidth - viewPixelWidth * baseScale) / 2) + cameraRef.current.panX;
+    const viewOffsetY = Math.floor((canvasHeight - viewPixelHeight * baseScale) / 2) + cameraRef.current.panY;
 
-    if (tileSpan > 0) {
-      const viewLeftTile = Math.max(0, Math.min(WORLD_WIDTH, -viewOffsetX / tileSpan));
-      const viewRightTile = Math.max(0, Math.min(WORLD_WIDTH, (width - viewOffsetX) / tileSpan));
-      const viewTopTile = Math.max(0, Math.min(WORLD_HEIGHT, -viewOffsetY / tileSpan));
-      const viewBottomTile = Math.max(0, Math.min(WORLD_HEIGHT, (height - viewOffsetY) / tileSpan));
+    if (tileSpan > 0 && canvasWidth > 0 && canvasHeight > 0) {
+      const viewLeftTile = Math.max(0, Math.min(MINIMAP_VIEW_WIDTH, -viewOffsetX / tileSpan - origin.x));
+      const viewRightTile = Math.max(0, Math.min(MINIMAP_VIEW_WIDTH, (canvasWidth - viewOffsetX) / tileSpan - origin.x));
+      const viewTopTile = Math.max(0, Math.min(MINIMAP_VIEW_HEIGHT, -viewOffsetY / tileSpan - origin.y));
+      const viewBottomTile = Math.max(0, Math.min(MINIMAP_VIEW_HEIGHT, (canvasHeight - viewOffsetY) / tileSpan - origin.y));
 
       const x = Math.floor(viewLeftTile * tileWidth);
       const y = Math.floor(viewTopTile * tileHeight);
@@ -6714,7 +7744,160 @@ const setHudState = useCallback(
     return wasPaused;
   }, [resolveRuntimeSimulationForControls, setHudState, syncHudFromSimulation, syncPauseHudFromSimulation]);
 
+  const applySimulationSpeed = useCallback((speed: SimSpeed): boolean => {
+    const runtime = resolveRuntimeSimulationForControls() as Partial<RuntimeSimulation>;
+    if (typeof runtime.setSimulationSpeed !== 'function') {
+      return false;
+    }
+
+    runtime.setSimulationSpeed(speed);
+    setSimulationSpeedState(runtime.getSimulationSpeed?.() ?? speed);
+    return true;
+  }, [resolveRuntimeSimulationForControls]);
+
+
+  const captureRuntimeHistorySnapshot = useCallback((): RuntimeSaveState | null => {
+    const runtime = simulationRef.current as RuntimeSimulation;
+    const saveState = (runtime as { saveState?: () => unknown }).saveState;
+    if (typeof saveState !== 'function') {
+      return null;
+    }
+
+    const snapshot = saveState.call(runtime) as unknown;
+    if (!isRecord(snapshot) || !isRecord(snapshot.player) || !isRecord(snapshot.inventory) || !Array.isArray(snapshot.entities)) {
+      return null;
+    }
+
+    return cloneRuntimeStateDeep(snapshot as RuntimeSaveState);
+  }, []);
+
+  const getRuntimeReplaySessionTick = useCallback((): number => {
+    const runtime = simulationRef.current as RuntimeSimulation;
+    return runtime.getSessionTick?.() ?? 0;
+  }, []);
+
+  const startRuntimeReplayRecording = useCallback((): void => {
+    const initialState = captureRuntimeHistorySnapshot();
+    if (initialState === null) {
+      runtimeReplayRecordingRef.current = null;
+      return;
+    }
+
+    const runtime = simulationRef.current as RuntimeSimulation;
+    const startSessionTick = getRuntimeReplaySessionTick();
+    runtimeReplayRecordingRef.current = {
+      startSessionTick,
+      replay: {
+        version: RUNTIME_REPLAY_VERSION,
+        seed: initialState.seed,
+        createdAt: new Date().toISOString(),
+        endTick: 0,
+        placementRecipe: runtime.getPlacementRecipe?.() ?? null,
+        initialState,
+        inputs: [],
+        keyframes: [],
+      },
+    };
+    setRuntimeReplayInputCount(0);
+  }, [captureRuntimeHistorySnapshot, getRuntimeReplaySessionTick]);
+
+  const setFeedbackMessage = useCallback((nextFeedback: Feedback | null): void => {
+    if (feedbackTimeoutRef.current !== null) {
+      window.clearTimeout(feedbackTimeoutRef.current);
+      feedbackTimeoutRef.current = null;
+    }
+
+    if (nextFeedback === null) {
+      setFeedback(null);
+      return;
+    }
+
+    setFeedback(nextFeedback);
+    feedbackTimeoutRef.current = window.setTimeout((): void => {
+      setFeedback(null);
+      feedbackTimeoutRef.current = null;
+    }, 1400);
+  }, []);
+
+  const recordRuntimeReplayInput = useCallback((input: RuntimeReplayInputDraft): void => {
+    const recording = runtimeReplayRecordingRef.current;
+    if (recording === null || runtimeReplayInputSuppressedRef.current || runtimeReplayViewerRef.current !== null) {
+      return;
+    }
+
+    // A replay missing an input diverges from the session from that input on, so recording stops instead.
+    if (recording.replay.inputs.length >= MAX_RUNTIME_REPLAY_INPUTS) {
+      runtimeReplayRecordingRef.current = null;
+      setRuntimeReplayInputCount(0);
+      setFeedbackMessage({
+        kind: 'error',
+        message: `Session replay stopped: input limit reached (${MAX_RUNTIME_REPLAY_INPUTS}).`,
+      });
+      return;
+    }
+
+    const tick = getRuntimeReplaySessionTick() - recording.startSessionTick;
+    recording.replay.inputs.push({ ...input, tick } as RuntimeReplayInput);
+    setRuntimeReplayInputCount(recording.replay.inputs.length);
+  }, [getRuntimeReplaySessionTick, setFeedbackMessage]);
+
+  const recordRuntimeReplayCommand = useCallback((command: RuntimeAgentPlanCommand): void => {
+    if (isRuntimeReplayCommand(command)) {
+      recordRuntimeReplayInput({ kind: 'command', command });
+    }
+  }, [recordRuntimeReplayInput]);
+
+  const recordRuntimeReplayState = useCallback((reason: string, state?: RuntimeSaveState | null): void => {
+    const snapshot = state ?? captureRuntimeHistorySnapshot();
+    if (snapshot !== null) {
+      recordRuntimeReplayInput({ kind: 'state', reason, state: cloneRuntimeStateDeep(snapshot) });
+    }
+  }, [captureRuntimeHistorySnapshot, recordRuntimeReplayInput]);
+
+  const recordRuntimeReplayKeyframe = useCallback((checkpoint?: RuntimeCheckpoint): void => {
+    const recording = runtimeReplayRecordingRef.current;
+    if (recording === null || runtimeReplayViewerRef.current !== null) {
+      return;
+    }
+
+    const state = checkpoint?.state ?? captureRuntimeHistorySnapshot();
+    if (state === null) {
+      return;
+    }
+
+    const keyframes = recording.replay.keyframes;
+    keyframes.push({
+      tick: getRuntimeReplaySessionTick() - recording.startSessionTick,
+      inputIndex: recording.replay.inputs.length,
+      checkpoint: {
+        createdAt: checkpoint?.createdAt ?? new Date().toISOString(),
+        tick: state.tick,
+        reason: checkpoint?.reason ?? 'replay-keyframe',
+        state,
+      },
+    });
+    if (keyframes.length > RUNTIME_REPLAY_MAX_KEYFRAMES) {
+      keyframes.splice(0, keyframes.length - RUNTIME_REPLAY_MAX_KEYFRAMES);
+    }
+  }, [captureRuntimeHistorySnapshot, getRuntimeReplaySessionTick]);
+
+  const maintainRuntimeReplayKeyframes = useCallback((): void => {
+    const recording = runtimeReplayRecordingRef.current;
+    if (recording === null || runtimeReplayViewerRef.current !== null) {
+      return;
+    }
+
+    const lastKeyframeTick = recording.replay.keyframes.at(-1)?.tick ?? 0;
+    const tick = getRuntimeReplaySessionTick() - recording.startSessionTick;
+    if (tick - lastKeyframeTick >= RUNTIME_REPLAY_KEYFRAME_INTERVAL_TICKS) {
+      recordRuntimeReplayKeyframe();
+    }
+  }, [getRuntimeReplaySessionTick, recordRuntimeReplayKeyframe]);
+
   const runAutomation = useCallback((): void => {
+    if (runtimeReplayViewerRef.current !== null) {
+      return;
+    }
     if (!automationEnabledRef.current.autoRefuel && !automationEnabledRef.current.autoPickup && !automationEnabledRef.current.autoDeposit) {
       return;
     }
@@ -6770,6 +7953,7 @@ const setHudState = useCallback(
       }
 
       updateStatus(agentId, 'ok');
+      recordRuntimeReplayCommand({ type: 'interact', action: AUTOMATION_AGENT_INTERACT_ACTION[agentId] });
     };
 
     const fuelState = getSimulationFuel(sim);
@@ -6800,7 +7984,7 @@ const setHudState = useCallback(
       automationStatusRef.current = nextStatus;
       setAutomationStatus(nextStatus);
     }
-  }, [setAutomationStatus]);
+  }, [recordRuntimeReplayCommand, setAutomationStatus]);
 
   const refreshRuntimeSaveSlots = useCallback((): void => {
     setRuntimeSaveSlots(readRuntimeSaveSlotMeta());
@@ -6815,7 +7999,15 @@ const setHudState = useCallback(
     }
 
     const ghost = controller.getGhost();
-    renderer.setGhost(ghost.tile, ghost.valid);
+    const sim = simulationRef.current as RuntimeSimulation;
+    const preview = ghost.kind === 'UndergroundBelt' && ghost.tile !== null
+      ? sim.getUndergroundBeltPreview?.(ghost.tile, ghost.rotation)
+      : undefined;
+    renderer.setGhost(
+      ghost.tile,
+      ghost.valid,
+      preview === undefined ? undefined : { range: preview.range, partner: preview.partner },
+    );
   }, []);
 
   const runMinimapNavigate = useCallback((event: { clientX: number; clientY: number }): void => {
@@ -6832,8 +8024,10 @@ const setHudState = useCallback(
       },
       minimapWidth: rect.width,
       minimapHeight: rect.height,
-      worldWidth: WORLD_WIDTH,
-      worldHeight: WORLD_HEIGHT,
+      worldWidth: MINIMAP_VIEW_WIDTH,
+      worldHeight: MINIMAP_VIEW_HEIGHT,
+      originX: minimapOriginRef.current.x,
+      originY: minimapOriginRef.current.y,
     });
     if (tile === null) {
       return;
@@ -6842,23 +8036,67 @@ const setHudState = useCallback(
     centerCameraOnTile(tile, cameraRef.current.zoom);
   }, [centerCameraOnTile]);
 
-  const setFeedbackMessage = useCallback((nextFeedback: Feedback | null): void => {
-    if (feedbackTimeoutRef.current !== null) {
-      window.clearTimeout(feedbackTimeoutRef.current);
-      feedbackTimeoutRef.current = null;
+  useEffect(() => {
+    if (!showProfiler) {
+      return undefined;
     }
 
-    if (nextFeedback === null) {
-      setFeedback(null);
+    const runtime = simulationRef.current as Partial<RuntimeSimulation>;
+    runtime.setProfiling?.(true);
+    setTickProfile(runtime.getProfile?.() ?? null);
+    const intervalId = window.setInterval(() => {
+      setTickProfile(runtime.getProfile?.() ?? null);
+    }, RUNTIME_PROFILE_REFRESH_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+      runtime.setProfiling?.(false);
+      setTickProfile(null);
+    };
+  }, [showProfiler]);
+
+  const exportTickProfile = useCallback((): void => {
+    if (tickProfile === null || tickProfile.ticks === 0) {
+      setFeedbackMessage({ kind: 'error', message: 'No profiled ticks yet.' });
       return;
     }
 
-    setFeedback(nextFeedback);
-    feedbackTimeoutRef.current = window.setTimeout((): void => {
-      setFeedback(null);
-      feedbackTimeoutRef.current = null;
-    }, 1400);
-  }, []);
+    try {
+      const payload = {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        simulationMode: (simulationRef.current as Partial<RuntimeSimulation>).getSimulationMode?.() ?? 'main',
+        profile: tickProfile,
+      };
+      const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `agents-ultra-profile-${payload.createdAt.replace(/[:.]/g, '-')}.json`;
+      anchor.style.display = 'none';
+      document.body.appendChild(anchor);
+      anchor.click();
+      document.body.removeChild(anchor);
+      window.URL.revokeObjectURL(url);
+      setFeedbackMessage({ kind: 'success', message: `Profile export started (${tickProfile.ticks} ticks).` });
+    } catch {
+      setFeedbackMessage({ kind: 'error', message: 'Unable to export profile.' });
+    }
+  }, [setFeedbackMessage, tickProfile]);
+
+  const changeSimulationSpeedFromControls = useCallback((speed: SimSpeed): void => {
+    if (applySimulationSpeed(speed)) {
+      setFeedbackMessage({
+        kind: 'success',
+        message: `Simulation speed set to ${formatSimSpeed(speed)}.`,
+      });
+    } else {
+      setFeedbackMessage({
+        kind: 'error',
+        message: 'Simulation speed unavailable.',
+      });
+    }
+  }, [applySimulationSpeed, setFeedbackMessage]);
 
   useEffect(() => {
     writeUiSettingsToStorage({
@@ -7091,6 +8329,7 @@ const setHudState = useCallback(
   }, []);
 
   const appendRuntimePlanRecordingCommand = useCallback((command: RuntimeAgentPlanCommand): void => {
+    recordRuntimeReplayCommand(command);
     if (!runtimePlanRecordingRef.current || runtimePlanRunningRef.current) {
       return;
     }
@@ -7118,7 +8357,7 @@ const setHudState = useCallback(
 
     runtimePlanRecordingCommandsRef.current = runtimePlanRecordingCommandsRef.current.concat(nextCommand);
     setRuntimePlanRecordingCommandCount((current) => current + 1);
-  }, [resolveRuntimePlanRecordingAgent, setFeedbackMessage]);
+  }, [recordRuntimeReplayCommand, resolveRuntimePlanRecordingAgent, setFeedbackMessage]);
 
   const handleRuntimePlanRecordingAgentChange = useCallback((event: ChangeEvent<HTMLInputElement>): void => {
     const nextAgent = normalizeRuntimeAgentPlanCommandAgent(event.target.value);
@@ -7411,21 +8650,6 @@ const setHudState = useCallback(
     runMineAtTile(tile);
   }, [runMineAtTile, runMineInFrontOfPlayer]);
 
-  const captureRuntimeHistorySnapshot = useCallback((): RuntimeSaveState | null => {
-    const runtime = simulationRef.current as RuntimeSimulation;
-    const saveState = (runtime as { saveState?: () => unknown }).saveState;
-    if (typeof saveState !== 'function') {
-      return null;
-    }
-
-    const snapshot = saveState.call(runtime) as unknown;
-    if (!isRecord(snapshot) || !isRecord(snapshot.player) || !isRecord(snapshot.inventory) || !Array.isArray(snapshot.entities)) {
-      return null;
-    }
-
-    return cloneRuntimeStateDeep(snapshot as RuntimeSaveState);
-  }, []);
-
   const replaceHistoryWithCurrentState = useCallback((): void => {
     const snapshot = captureRuntimeHistorySnapshot();
     if (snapshot === null) {
@@ -7434,7 +8658,8 @@ const setHudState = useCallback(
 
     runtimeHistoryRef.current = [snapshot];
     runtimeHistoryCursorRef.current = 0;
-  }, [captureRuntimeHistorySnapshot]);
+    recordRuntimeReplayState('load', snapshot);
+  }, [captureRuntimeHistorySnapshot, recordRuntimeReplayState]);
 
   const appendRuntimeHistorySnapshot = useCallback((): void => {
     const snapshot = captureRuntimeHistorySnapshot();
@@ -7456,6 +8681,37 @@ const setHudState = useCallback(
     runtimeHistoryCursorRef.current = trimmedHistory.length - 1;
   }, [captureRuntimeHistorySnapshot]);
 
+  const runMapEditorPaintAtTile = useCallback((tile: Tile, brush: MapBrush, dragging = false): void => {
+    const sim = simulationRef.current as RuntimeSimulation;
+    const outcome = sim.paintMapAtTile?.(tile, brush);
+    setMapEditorHover(describeMapEditorTile(typeof sim.getMap === 'function' ? sim.getMap() : null, tile));
+    if (outcome === undefined) {
+      setFeedbackMessage({
+        kind: 'error',
+        message: 'Map editor is unavailable.',
+      });
+      return;
+    }
+
+    if (outcome.ok) {
+      appendRuntimeHistorySnapshot();
+      setFeedbackMessage({
+        kind: 'success',
+        message: String(outcome.reason ?? `Painted at (${tile.x}, ${tile.y}).`),
+      });
+      syncHudFromSimulation();
+      return;
+    }
+
+    // Dragging across tiles that already match the brush is expected, so only clicks report it.
+    if (!dragging) {
+      setFeedbackMessage({
+        kind: 'error',
+        message: String(outcome.reason ?? outcome.reasonCode ?? 'Cannot paint here.'),
+      });
+    }
+  }, [appendRuntimeHistorySnapshot, setFeedbackMessage, syncHudFromSimulation]);
+
   const captureRuntimeCheckpoint = useCallback((reason: string): RuntimeNormalizedCheckpoint | null => {
     const snapshot = captureRuntimeHistorySnapshot();
     if (snapshot === null) {
@@ -7482,6 +8738,7 @@ const setHudState = useCallback(
       return;
     }
 
+    recordRuntimeReplayKeyframe(checkpoint);
     setRuntimeCheckpoints((current) => {
       const filtered = current.filter((entry) => entry.createdAt !== checkpoint.createdAt || entry.tick !== checkpoint.tick);
       const merged = [checkpoint, ...filtered].sort(compareRuntimeCheckpointsNewestFirst);
@@ -7500,7 +8757,7 @@ const setHudState = useCallback(
       }
       return next;
     });
-  }, [captureRuntimeCheckpoint, setFeedbackMessage]);
+  }, [captureRuntimeCheckpoint, recordRuntimeReplayKeyframe, setFeedbackMessage]);
 
   const restoreRuntimeCheckpoint = useCallback((checkpoint: RuntimeNormalizedCheckpoint): CoreActionOutcome => {
     const runtime = simulationRef.current as RuntimeSimulation;
@@ -7598,6 +8855,11 @@ const setHudState = useCallback(
       return;
     }
     controller.setCursor(tile);
+    const mapEditorBrush = mapEditorBrushRef.current;
+    if (mapEditorBrush !== null) {
+      runMapEditorPaintAtTile(tile, mapEditorBrush);
+      return;
+    }
     const controllerState = controller.getState();
 
     const entities = getEntitiesAtTile(sim, tile);
@@ -7785,6 +9047,7 @@ const setHudState = useCallback(
     appendRuntimePlanRecordingCommand,
     describeKindOrTarget,
     markTutorialMissionComplete,
+    runMapEditorPaintAtTile,
     setHudState,
     syncGhostFromController,
     syncHudFromSimulation,
@@ -7804,6 +9067,12 @@ const setHudState = useCallback(
     }
 
     controller.setCursor(tile);
+    // In the map editor the secondary button erases with the brush instead of removing buildings.
+    const mapEditorBrush = mapEditorBrushRef.current;
+    if (mapEditorBrush !== null) {
+      runMapEditorPaintAtTile(tile, { ...mapEditorBrush, tile: 'empty' });
+      return;
+    }
     const clickedEntity = getEntitiesAtFromSim(sim, tile).length > 0 ? buildSelectedEntitySnapshot(sim, tile) : null;
     if (clickedEntity !== null) {
       setHudState({
@@ -7850,7 +9119,7 @@ const setHudState = useCallback(
     syncPaletteFromController();
     syncGhostFromController();
     syncHudFromSimulation();
-  }, [appendRuntimeHistorySnapshot, appendRuntimePlanRecordingCommand, setHudState, syncGhostFromController, syncHudFromSimulation, syncPaletteFromController, setFeedbackMessage]);
+  }, [appendRuntimeHistorySnapshot, appendRuntimePlanRecordingCommand, runMapEditorPaintAtTile, setHudState, syncGhostFromController, syncHudFromSimulation, syncPaletteFromController, setFeedbackMessage]);
 
   const runPrimaryActionInFrontOfPlayer = useCallback((): void => {
     const sim = simulationRef.current as RuntimeSimulation;
@@ -7914,8 +9183,9 @@ const setHudState = useCallback(
     }
 
     runtimeHistoryCursorRef.current = target;
+    recordRuntimeReplayState('history', snapshot);
     return true;
-  }, []);
+  }, [recordRuntimeReplayState]);
 
   const canUndoRuntimeHistory = (): boolean => runtimeHistoryCursorRef.current > 0;
   const canRedoRuntimeHistory = (): boolean => {
@@ -7999,14 +9269,86 @@ const setHudState = useCallback(
     [toggleToolKind],
   );
 
-  const captureRuntimeSaveEnvelope = useCallback((): RuntimeSaveEnvelope | null => {
-    const controller = controllerRef.current;
-    const runtime = simulationRef.current as RuntimeSimulation;
-    const simState = typeof runtime.saveState === 'function' ? runtime.saveState() : null;
-    if (simState === null) {
-      return;
-    }
-
+  const onPlacementRecipeChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>): void => {
+      const runtime = simulationRef.current as RuntimeSimulation;
+      const recipeId = event.target.value === '' ? null : event.target.value;
+      const outcome = runtime.setPlacementRecipe?.(recipeId);
+      if (outcome !== undefined && !outcome.ok) {
+        setFeedbackMessage({ kind: 'error', message: outcome.reason ?? 'Unable to select recipe.' });
+        return;
+      }
+      recordRuntimeReplayInput({ kind: 'recipe', tile: null, recipe: recipeId });
+      setPlacementRecipe(runtime.getPlacementRecipe?.() ?? recipeId);
+    },
+    [recordRuntimeReplayInput, setFeedbackMessage],
+  );
+
+  const onSelectedAssemblerRecipeChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>): void => {
+      const selected = hudRef.current.selectedEntity;
+      const runtime = simulationRef.current as RuntimeSimulation;
+      if (selected === null || selected.kind !== 'assembler') {
+        return;
+      }
+
+      const recipeId = event.target.value === '' ? null : event.target.value;
+      const outcome = runtime.setAssemblerRecipeAtTile?.({ x: selected.x, y: selected.y }, recipeId);
+      if (outcome === undefined || !outcome.ok) {
+        setFeedbackMessage({ kind: 'error', message: outcome?.reason ?? 'Unable to change assembler recipe.' });
+        return;
+      }
+      recordRuntimeReplayInput({ kind: 'recipe', tile: { x: selected.x, y: selected.y }, recipe: recipeId });
+      appendRuntimeHistorySnapshot();
+      syncHudFromSimulation();
+    },
+    [appendRuntimeHistorySnapshot, recordRuntimeReplayInput, setFeedbackMessage, syncHudFromSimulation],
+  );
+
+  const applySelectedInserterSettings = useCallback(
+    (settings: Partial<InserterSettings>): void => {
+      const selected = hudRef.current.selectedEntity;
+      const runtime = simulationRef.current as RuntimeSimulation;
+      if (selected === null || !isInserterKind(selected.kind)) {
+        return;
+      }
+
+      const outcome = runtime.setInserterSettingsAtTile?.({ x: selected.x, y: selected.y }, settings);
+      if (outcome === undefined || !outcome.ok) {
+        setFeedbackMessage({ kind: 'error', message: outcome?.reason ?? 'Unable to configure inserter.' });
+        return;
+      }
+      recordRuntimeReplayCommand({ type: 'configure-inserter', x: selected.x, y: selected.y, ...settings });
+      appendRuntimeHistorySnapshot();
+      syncHudFromSimulation();
+    },
+    [appendRuntimeHistorySnapshot, recordRuntimeReplayCommand, setFeedbackMessage, syncHudFromSimulation],
+  );
+
+  const onSelectedInserterFilterChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>): void => {
+      applySelectedInserterSettings({
+        filter: normalizeInserterFilter(Array.from(event.target.selectedOptions, (option: HTMLOptionElement) => option.value)),
+      });
+    },
+    [applySelectedInserterSettings],
+  );
+
+  const onSelectedInserterStackBonusChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>): void => {
+      applySelectedInserterSettings({ stackBonus: normalizeInserterStackBonus(Number(event.target.value)) });
+    },
+    [applySelectedInserterSettings],
+  );
+
+  const captureRuntimeSaveEnvelope = useCallback((): RuntimeSaveEnvelope | null => {
+    const controller = controllerRef.current;
+    const runtime = simulationRef.current as RuntimeSimulation;
+    const simState = typeof runtime.saveState === 'function' ? runtime.saveState() : null;
+    if (simState === null) {
+      return;
+    }
+
     const controllerState = controller?.getState();
     return {
       ...simState,
@@ -8531,6 +9873,12 @@ const setHudState = useCallback(
           const x = toCompatInt(entity.pos.x) ?? 0;
           const y = toCompatInt(entity.pos.y) ?? 0;
           const rot = normalizeRuntimeDirection(entity.rot) ?? 'N';
+          const recipe = normalizedKind.kind === 'assembler' && isRecord(entity.state)
+            ? normalizeAssemblerRecipeId(entity.state.recipeId)
+            : null;
+          const underground = normalizedKind.kind === 'underground-belt' && isRecord(entity.state)
+            ? entity.state.mode
+            : undefined;
           return {
             kind: normalizedKind.kind,
             pos: {
@@ -8538,6 +9886,8 @@ const setHudState = useCallback(
               y: y - playerSnapshot.y,
             },
             rot,
+            ...(recipe === null ? {} : { recipe }),
+            ...(isUndergroundBeltMode(underground) ? { underground } : {}),
           };
         })
         .filter((entry): entry is RuntimeBlueprintEntity => entry !== null)
@@ -8750,7 +10100,12 @@ const setHudState = useCallback(
     }
 
     const snapshotBefore = runtime.saveState?.();
-    for (const placement of planned) {
+    // Exits pair with entrances that are already placed, so they go last.
+    const placementOrder = [
+      ...planned.filter((placement) => placement.underground !== 'output'),
+      ...planned.filter((placement) => placement.underground === 'output'),
+    ];
+    for (const placement of placementOrder) {
       const toolKind = RUNTIME_KIND_TO_TOOL_KIND[placement.kind];
       if (toolKind === undefined) {
         return {
@@ -8759,9 +10114,11 @@ const setHudState = useCallback(
         };
       }
 
+      runtime.setPlacementUndergroundMode?.(placement.underground ?? null);
       const placementResult = typeof runtime.placeEntity === 'function'
         ? runtime.placeEntity(toolKind, placement.tile, placement.rotation)
         : runtime.addEntity?.(toolKind, placement.tile, placement.rotation);
+      runtime.setPlacementUndergroundMode?.(null);
       const failed = placementResult === false
         || placementResult === null
         || (isRecord(placementResult) && placementResult.ok !== true);
@@ -8776,9 +10133,13 @@ const setHudState = useCallback(
           message: `Blueprint import failed while placing tile (${placement.tile.x}, ${placement.tile.y}).`,
         };
       }
+      if (placement.recipe !== undefined) {
+        runtime.setAssemblerRecipeAtTile?.(placement.tile, placement.recipe);
+      }
       occupied.set(`${placement.tile.x},${placement.tile.y}`, true);
     }
 
+    recordRuntimeReplayState('blueprint');
     appendRuntimeHistorySnapshot();
     syncHudFromSimulation();
     syncPaletteFromController();
@@ -8794,6 +10155,7 @@ const setHudState = useCallback(
     };
   }, [
     appendRuntimeHistorySnapshot,
+    recordRuntimeReplayState,
     syncGhostFromController,
     syncHudFromSimulation,
     syncPaletteFromController,
@@ -9637,6 +10999,35 @@ const setHudState = useCallback(
       };
     }
 
+    if (command.type === 'configure-inserter') {
+      const runtime = sim as RuntimeSimulation;
+      if (typeof runtime.setInserterSettingsAtTile !== 'function') {
+        return {
+          ok: false,
+          message: 'configure-inserter command unavailable',
+        };
+      }
+
+      const outcome = runtime.setInserterSettingsAtTile(
+        { x: command.x, y: command.y },
+        {
+          ...(command.filter === undefined ? {} : { filter: command.filter }),
+          ...(command.stackBonus === undefined ? {} : { stackBonus: command.stackBonus }),
+        },
+      );
+      if (outcome?.ok !== true) {
+        return {
+          ok: false,
+          message: String(outcome?.reason ?? outcome?.reasonCode ?? 'configure-inserter failed'),
+        };
+      }
+
+      return {
+        ok: true,
+        message: `inserter configured at (${command.x}, ${command.y})`,
+      };
+    }
+
     if (command.type === 'pause' || command.type === 'resume' || command.type === 'toggle-pause') {
       if (typeof sim.togglePause !== 'function') {
         return {
@@ -9704,6 +11095,20 @@ const setHudState = useCallback(
       };
     }
 
+    if (command.type === 'set-sim-speed') {
+      if (!applySimulationSpeed(command.speed)) {
+        return {
+          ok: false,
+          message: 'sim speed command unavailable',
+        };
+      }
+
+      return {
+        ok: true,
+        message: `sim speed set to ${formatSimSpeed(command.speed)}`,
+      };
+    }
+
     if (command.type === 'set-agent-speed') {
       const executionState = runtimePlanExecutionStateRef.current;
       if (executionState === null) {
@@ -9794,6 +11199,7 @@ const setHudState = useCallback(
       message: `Unsupported command ${String(command.type)}`,
     };
   }, [
+    applySimulationSpeed,
     restartRuntimePlanRunner,
     setAutomationEnabled,
     setAutomationStatus,
@@ -9929,7 +11335,14 @@ const setHudState = useCallback(
     }
 
     const { command, commandIndex, agent } = nextRuntimeCommand;
-    const outcome = runRuntimeAgentPlanCommand(command);
+    runtimeReplayInputSuppressedRef.current = true;
+    const outcome = (() => {
+      try {
+        return runRuntimeAgentPlanCommand(command);
+      } finally {
+        runtimeReplayInputSuppressedRef.current = false;
+      }
+    })();
     const nextCursor = cursor + 1;
     runtimePlanCursorRef.current = nextCursor;
     setRuntimePlanProgress(nextCursor);
@@ -9937,6 +11350,7 @@ const setHudState = useCallback(
     appendRuntimePlanExecutionLog(`${nextCursor}/${plan.commands.length} ${commandLabel} -> ${outcome.message}`);
 
     if (outcome.ok) {
+      recordRuntimeReplayCommand(command);
       setRuntimePlanStatusMessage(`Command ${nextCursor}/${plan.commands.length} (${agent}): ${outcome.message}`);
       if (isRuntimeAgentPlanCommandStateMutating(command)) {
         appendRuntimeHistorySnapshot();
@@ -9984,6 +11398,7 @@ const setHudState = useCallback(
     });
   }, [
     runRuntimeAgentPlanCommand,
+    recordRuntimeReplayCommand,
     appendRuntimeHistorySnapshot,
     syncGhostFromController,
     syncHudFromSimulation,
@@ -9998,6 +11413,258 @@ const setHudState = useCallback(
 
   runtimePlanRunnerRef.current = runRuntimeAgentPlanStep;
 
+  const createRuntimeReplayDriver = useCallback((): RuntimeReplayDriver => {
+    const runtime = simulationRef.current as RuntimeSimulation;
+    const loadPaused = (state: RuntimeSaveState): boolean => {
+      const outcome = runtime.loadState(cloneRuntimeStateDeep(state));
+      runtime.pause();
+      return outcome?.ok === true;
+    };
+
+    return {
+      loadState: loadPaused,
+      stepTicks: (count) => {
+        runtime.stepTicks(count);
+      },
+      applyInput: (input) => {
+        if (input.kind === 'command') {
+          runRuntimeAgentPlanCommand(input.command);
+        } else if (input.kind === 'recipe') {
+          if (input.tile === null) {
+            runtime.setPlacementRecipe?.(input.recipe);
+          } else {
+            runtime.setAssemblerRecipeAtTile?.(input.tile, input.recipe);
+          }
+        } else {
+          loadPaused(input.state);
+        }
+      },
+      captureState: captureRuntimeHistorySnapshot,
+    };
+  }, [captureRuntimeHistorySnapshot, runRuntimeAgentPlanCommand]);
+
+  const publishRuntimeReplayViewer = useCallback((): void => {
+    const session = runtimeReplayViewerRef.current;
+    setRuntimeReplayViewer(session === null ? null : {
+      tick: Math.max(0, session.cursor?.tick ?? 0),
+      endTick: session.replay.endTick,
+      playing: session.playing,
+      speed: session.speed,
+      inputCount: session.replay.inputs.length,
+      keyframeCount: session.replay.keyframes.length,
+    });
+  }, []);
+
+  const seekRuntimeReplayViewer = useCallback((tick: number): void => {
+    const session = runtimeReplayViewerRef.current;
+    if (session === null) {
+      return;
+    }
+
+    session.cursor = seekRuntimeReplay(session.replay, createRuntimeReplayDriver(), session.cursor, tick);
+    if (session.cursor.tick >= session.replay.endTick) {
+      session.playing = false;
+    }
+    publishRuntimeReplayViewer();
+    syncHudFromSimulation();
+    syncPaletteFromController();
+    syncGhostFromController();
+  }, [createRuntimeReplayDriver, publishRuntimeReplayViewer, syncGhostFromController, syncHudFromSimulation, syncPaletteFromController]);
+
+  const openRuntimeReplayViewer = useCallback((replay: RuntimeReplay): void => {
+    if (runtimePlanRunningRef.current) {
+      setFeedbackMessage({ kind: 'error', message: 'Stop plan execution before viewing a replay.' });
+      return;
+    }
+
+    const runtime = simulationRef.current as RuntimeSimulation;
+    const current = runtimeReplayViewerRef.current;
+    runtimeReplayViewerRef.current = {
+      replay,
+      cursor: null,
+      resumeState: current?.resumeState ?? captureRuntimeHistorySnapshot(),
+      playing: false,
+      speed: 1,
+      pendingTicks: 0,
+    };
+    runtimeReplaySessionTickAtOpenRef.current = current === null
+      ? getRuntimeReplaySessionTick()
+      : runtimeReplaySessionTickAtOpenRef.current;
+    runtime.pause();
+    runtime.setPlacementRecipe?.(replay.placementRecipe);
+    seekRuntimeReplayViewer(0);
+    setFeedbackMessage({
+      kind: 'success',
+      message: `Replay loaded: ${replay.inputs.length} inputs over ${replay.endTick} ticks.`,
+    });
+  }, [captureRuntimeHistorySnapshot, getRuntimeReplaySessionTick, seekRuntimeReplayViewer, setFeedbackMessage]);
+
+  const closeRuntimeReplayViewer = useCallback((): void => {
+    const session = runtimeReplayViewerRef.current;
+    if (session === null) {
+      return;
+    }
+
+    const runtime = simulationRef.current as RuntimeSimulation;
+    runtimeReplayViewerRef.current = null;
+    if (session.resumeState !== null) {
+      runtime.loadState(cloneRuntimeStateDeep(session.resumeState));
+    }
+    runtime.setPlacementRecipe?.(placementRecipe);
+
+    // Ticks stepped while viewing never happened in the live session, so shift them out of its timeline.
+    const recording = runtimeReplayRecordingRef.current;
+    if (recording !== null) {
+      recording.startSessionTick += getRuntimeReplaySessionTick() - runtimeReplaySessionTickAtOpenRef.current;
+    }
+
+    publishRuntimeReplayViewer();
+    syncHudFromSimulation();
+    syncPaletteFromController();
+    syncGhostFromController();
+    setFeedbackMessage({ kind: 'success', message: 'Replay closed; live session restored.' });
+  }, [
+    getRuntimeReplaySessionTick,
+    placementRecipe,
+    publishRuntimeReplayViewer,
+    setFeedbackMessage,
+    syncGhostFromController,
+    syncHudFromSimulation,
+    syncPaletteFromController,
+  ]);
+
+  const setRuntimeReplayPlaying = useCallback((playing: boolean): void => {
+    const session = runtimeReplayViewerRef.current;
+    if (session === null) {
+      return;
+    }
+
+    const cursorTick = session.cursor?.tick ?? 0;
+    session.playing = playing;
+    session.pendingTicks = 0;
+    if (playing && cursorTick >= session.replay.endTick) {
+      seekRuntimeReplayViewer(0);
+      session.playing = true;
+    }
+    publishRuntimeReplayViewer();
+  }, [publishRuntimeReplayViewer, seekRuntimeReplayViewer]);
+
+  const setRuntimeReplaySpeed = useCallback((speed: number): void => {
+    const session = runtimeReplayViewerRef.current;
+    if (session === null || !RUNTIME_REPLAY_SPEEDS.includes(speed)) {
+      return;
+    }
+
+    session.speed = speed;
+    publishRuntimeReplayViewer();
+  }, [publishRuntimeReplayViewer]);
+
+  useEffect(() => {
+    if (runtimeReplayViewer?.playing !== true) {
+      return undefined;
+    }
+
+    const intervalId = window.setInterval(() => {
+      const session = runtimeReplayViewerRef.current;
+      if (session === null || !session.playing) {
+        return;
+      }
+
+      const ticks = session.pendingTicks + (session.speed * RUNTIME_REPLAY_FRAME_MS) / SIM_STEP_MS;
+      const wholeTicks = Math.floor(ticks);
+      session.pendingTicks = ticks - wholeTicks;
+      if (wholeTicks > 0) {
+        seekRuntimeReplayViewer((session.cursor?.tick ?? 0) + wholeTicks);
+      }
+    }, RUNTIME_REPLAY_FRAME_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, [runtimeReplayViewer?.playing, seekRuntimeReplayViewer]);
+
+  const captureRuntimeReplay = useCallback((): RuntimeReplay | null => {
+    const recording = runtimeReplayRecordingRef.current;
+    if (recording === null) {
+      return null;
+    }
+
+    return {
+      ...recording.replay,
+      endTick: getRuntimeReplaySessionTick() - recording.startSessionTick,
+      inputs: recording.replay.inputs.slice(),
+      keyframes: recording.replay.keyframes.slice(),
+    };
+  }, [getRuntimeReplaySessionTick]);
+
+  const exportRuntimeReplay = useCallback((): void => {
+    const replay = captureRuntimeReplay();
+    if (replay === null) {
+      setFeedbackMessage({ kind: 'error', message: 'No session recording available.' });
+      return;
+    }
+
+    try {
+      const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `agents-ultra-replay-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+      anchor.style.display = 'none';
+      document.body.appendChild(anchor);
+      anchor.click();
+      document.body.removeChild(anchor);
+      window.URL.revokeObjectURL(url);
+      setFeedbackMessage({
+        kind: 'success',
+        message: `Replay export started (${replay.inputs.length} inputs, ${replay.endTick} ticks).`,
+      });
+    } catch {
+      setFeedbackMessage({ kind: 'error', message: 'Unable to export replay.' });
+    }
+  }, [captureRuntimeReplay, setFeedbackMessage]);
+
+  const handleRuntimeReplayImportChange = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+      const selectedFile = event.target.files?.[0];
+      if (selectedFile === undefined) {
+        return;
+      }
+
+      if (selectedFile.size > MAX_RUNTIME_REPLAY_IMPORT_BYTES) {
+        setFeedbackMessage({
+          kind: 'error',
+          message: `Replay file is too large. Maximum supported size is ${MAX_RUNTIME_REPLAY_IMPORT_BYTES} bytes.`,
+        });
+        event.target.value = '';
+        return;
+      }
+
+      try {
+        const replay = parseRuntimeReplay(safeParseJson(await selectedFile.text()));
+        if (replay === null) {
+          setFeedbackMessage({ kind: 'error', message: 'Invalid replay file.' });
+          return;
+        }
+        openRuntimeReplayViewer(replay);
+      } catch {
+        setFeedbackMessage({ kind: 'error', message: 'Unable to read replay file.' });
+      } finally {
+        event.target.value = '';
+      }
+    },
+    [openRuntimeReplayViewer, setFeedbackMessage],
+  );
+
+  const viewCurrentRuntimeReplay = useCallback((): void => {
+    const replay = captureRuntimeReplay();
+    if (replay === null) {
+      setFeedbackMessage({ kind: 'error', message: 'No session recording available.' });
+      return;
+    }
+    openRuntimeReplayViewer(replay);
+  }, [captureRuntimeReplay, openRuntimeReplayViewer, setFeedbackMessage]);
+
   const startRuntimeAgentPlan = useCallback((): void => {
     const plan = runtimePlanRef.current;
     if (plan === null) {
@@ -10221,6 +11888,65 @@ const setHudState = useCallback(
     });
   }, [setFeedbackMessage, syncHudFromSimulation, replaceHistoryWithCurrentState]);
 
+  const openNewWorldDialog = useCallback((): void => {
+    const runtime = simulationRef.current as RuntimeSimulation | null;
+    setNewWorldSeed(runtime?.getWorldSeed?.() ?? WORLD_SEED);
+    setNewWorldSettings(runtime?.getMapSettings?.() ?? createDefaultMapSettings());
+    setNewWorldOpen(true);
+  }, []);
+
+  const updateNewWorldSetting = useCallback((kind: MapResourceKind, name: MapSettingName, value: number): void => {
+    setNewWorldSettings(normalizeMapSettings({
+      ...newWorldSettings,
+      resources: { ...newWorldSettings.resources, [kind]: { ...newWorldSettings.resources[kind], [name]: value } },
+    }));
+  }, [newWorldSettings]);
+
+  const updateNewWorldTerrainSetting = useCallback((kind: MapTerrainKind, name: 'frequency' | 'size', value: number): void => {
+    setNewWorldSettings(normalizeMapSettings({
+      ...newWorldSettings,
+      terrain: { ...newWorldSettings.terrain, [kind]: { ...newWorldSettings.terrain[kind], [name]: value } },
+    }));
+  }, [newWorldSettings]);
+
+  const startNewWorld = useCallback((): void => {
+    const runtime = simulationRef.current as RuntimeSimulation;
+    if (typeof runtime.startNewWorld !== 'function') {
+      return;
+    }
+
+    const seed = newWorldSeed.trim().length > 0 ? newWorldSeed.trim() : WORLD_SEED;
+    runtime.startNewWorld(seed, newWorldSettings);
+    setTutorialMissions(createInitialTutorialMissionState());
+    tutorialMissionBaselineRef.current = null;
+    tutorialMoveOriginRef.current = null;
+    replaceHistoryWithCurrentState();
+    syncHudFromSimulation();
+    setCameraToPlayer();
+    setNewWorldOpen(false);
+    setFeedbackMessage({
+      kind: 'success',
+      message: `Started a new world on seed '${seed}'.`,
+    });
+  }, [newWorldSeed, newWorldSettings, setCameraToPlayer, setFeedbackMessage, syncHudFromSimulation, replaceHistoryWithCurrentState]);
+
+  useEffect(() => {
+    const canvas = newWorldPreviewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!newWorldOpen || !ctx) {
+      return;
+    }
+
+    const seed = newWorldSeed.trim().length > 0 ? newWorldSeed.trim() : WORLD_SEED;
+    const preview = createMapPreview(seed, newWorldSettings, NEW_WORLD_PREVIEW_TILES);
+    preview.tiles.forEach((tile, index) => {
+      ctx.fillStyle = getMinimapTileColor(tile);
+      ctx.fillRect(index % preview.size, Math.floor(index / preview.size), 1, 1);
+    });
+    ctx.fillStyle = MINIMAP_COLORS.player;
+    ctx.fillRect(Math.floor(preview.size / 2) - 1, Math.floor(preview.size / 2) - 1, 2, 2);
+  }, [newWorldOpen, newWorldSeed, newWorldSettings]);
+
   useEffect(() => {
     loadRuntimePlanFromStorage();
   }, [loadRuntimePlanFromStorage]);
@@ -10292,8 +12018,34 @@ const setHudState = useCallback(
     };
 
     const onPointerMove = (event: PointerEvent): void => {
-      controller.setCursor(pointerToTile(event, canvas, cameraRef.current));
+      const tile = pointerToTile(event, canvas, cameraRef.current);
+      controller.setCursor(tile);
       syncGhostFromController();
+      // Dragging with a button held keeps painting while the map editor is open, once per tile entered.
+      const mapEditorBrush = mapEditorBrushRef.current;
+      if (mapEditorBrush === null || tile === null) {
+        return;
+      }
+      const tileKey = `${tile.x},${tile.y}`;
+      if (mapEditorHoverTileRef.current !== tileKey) {
+        const runtime = simulationRef.current as RuntimeSimulation;
+        mapEditorHoverTileRef.current = tileKey;
+        setMapEditorHover(describeMapEditorTile(typeof runtime.getMap === 'function' ? runtime.getMap() : null, tile));
+      }
+      if ((event.buttons & 3) === 0) {
+        return;
+      }
+      const erase = (event.buttons & 1) === 0;
+      const previous = inputActionEventRef.current;
+      if (previous !== null && previous.tile === tileKey && previous.button === (erase ? "secondary" : "primary")) {
+        return;
+      }
+      inputActionEventRef.current = {
+        time: Number.isFinite(event.timeStamp) ? event.timeStamp : performance.now(),
+        tile: tileKey,
+        button: erase ? "secondary" : "primary",
+      };
+      runMapEditorPaintAtTile(tile, erase ? { ...mapEditorBrush, tile: 'empty' } : mapEditorBrush, true);
     };
 
     const onPointerLeave = (): void => {
@@ -10560,6 +12312,26 @@ const setHudState = useCallback(
         return;
       }
 
+      if (event.code === 'F3') {
+        const next = !showProfilerRef.current;
+        showProfilerRef.current = next;
+        setShowProfiler(next);
+        event.preventDefault();
+        return;
+      }
+
+      if (event.code === 'F4') {
+        const next = !showPowerOverlayRef.current;
+        showPowerOverlayRef.current = next;
+        rendererRef.current?.setPowerOverlayEnabled?.(next);
+        setFeedbackMessage({
+          kind: 'success',
+          message: next ? 'Power network overlay shown.' : 'Power network overlay hidden.',
+        });
+        event.preventDefault();
+        return;
+      }
+
       if (event.code === 'KeyH') {
         setShowHud((current) => {
           const next = !current;
@@ -10693,6 +12465,17 @@ const setHudState = useCallback(
         return;
       }
 
+      if (!controlLike && (event.code === 'KeyZ' || event.code === 'KeyC')) {
+        const faster = event.code === 'KeyC';
+        const current = (sim as unknown as RuntimeSimulation).getSimulationSpeed?.() ?? DEFAULT_SIM_SPEED;
+        const next = event.shiftKey
+          ? faster ? 'max' : DEFAULT_SIM_SPEED
+          : cycleSimSpeed(current, faster ? 1 : -1);
+        changeSimulationSpeedFromControls(next);
+        event.preventDefault();
+        return;
+      }
+
       if (event.code === 'Slash' || event.code === 'Period') {
         const runtime = sim as unknown as RuntimeSimulation;
         const steps = event.shiftKey ? 10 : 1;
@@ -10822,11 +12605,17 @@ const setHudState = useCallback(
 
       syncHudFromSimulation();
       runAutomation();
+      maintainRuntimeReplayKeyframes();
     }, 250);
 
     resizeCanvas();
+    // The world is far larger than the view, so open on the player rather than its corner.
+    setCameraToPlayer();
     syncFromController();
     replaceHistoryWithCurrentState();
+    if (runtimeReplayRecordingRef.current === null) {
+      startRuntimeReplayRecording();
+    }
     refreshRuntimeSaveSlots();
     if (window.location.search.length > 0) {
       loadRuntimeShareFromLocation(window.location.href);
@@ -10884,6 +12673,7 @@ const setHudState = useCallback(
       }
 
       runtimePlanRunningRef.current = false;
+      runtimeReplayRecordingRef.current = null;
 
       delete window.__SIM__;
     };
@@ -10893,6 +12683,7 @@ const setHudState = useCallback(
     setCameraToSpawn,
     setFeedbackMessage,
     setHudState,
+    runMapEditorPaintAtTile,
     runPrimaryActionAtTile,
     runSecondaryActionAtTile,
     zoomCamera,
@@ -10902,14 +12693,18 @@ const setHudState = useCallback(
     syncPaletteFromController,
     markTutorialMissionComplete,
     runAutomation,
+    maintainRuntimeReplayKeyframes,
+    startRuntimeReplayRecording,
     replaceHistoryWithCurrentState,
     refreshRuntimeSaveSlots,
     loadRuntimeShareFromLocation,
+    changeSimulationSpeedFromControls,
   ]);
 
   const hudToolValue = hud.tool ?? 'None';
   const hudRotationValue = ROTATION_TO_DIRECTION[hud.rotation];
   const hudPauseValue = hud.paused ? 'Paused' : 'Running';
+  const hudSpeedValue = formatSimSpeed(simulationSpeed);
   const hudPanelBottomOffset = showTouchControls ? 136 : 12;
   const rightSidebarStyle = rightSidebarCollapsed
     ? ({
@@ -10979,14 +12774,11 @@ const setHudState = useCallback(
   const runtimePlanAllAgentsEnabled = hasEnabledRuntimePlanAgents(runtimePlanEnabledAgents)
     && runtimePlanAgentSummaries.every((summary) => summary.enabled);
   const hudChestInventory = hud.adjacentChest?.inventory ?? {
-    ore: 0,
-    plate: 0,
-    gear: 0,
-    coal: 0,
-    wood: 0,
+    items: {},
     used: 0,
     capacity: 1,
   };
+  const hudPowerRunwayTicks = getPowerRunwayTicks(hud.metrics);
   const touchControlButtonStyle = {
     width: 38,
     height: 38,
@@ -11100,15 +12892,42 @@ const setHudState = useCallback(
             Hand (0/Esc)
           </button>
         <PaletteView selectedKind={selectedKind} onSelectKind={onPaletteSelect} />
-      </div>
-      <div
-        style={rightSidebarStyle}
-      >
-        <button
-          data-testid="control-sidebar-toggle"
-          type="button"
-          onClick={() => {
-            setRightSidebarCollapsed((current) => !current);
+        {selectedKind === 'Assembler' ? (
+          <label
+            data-testid="placement-recipe"
+            style={{
+              display: 'block',
+              marginTop: 6,
+              color: 'white',
+              fontFamily:
+                'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+              fontSize: 11,
+            }}
+          >
+            Recipe:{' '}
+            <select
+              data-testid="placement-recipe-select"
+              value={placementRecipe ?? ''}
+              onChange={onPlacementRecipeChange}
+            >
+              <option value="">auto</option>
+              {ASSEMBLER_RECIPE_IDS.map((recipeId) => (
+                <option key={recipeId} value={recipeId}>
+                  {recipeId}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+      </div>
+      <div
+        style={rightSidebarStyle}
+      >
+        <button
+          data-testid="control-sidebar-toggle"
+          type="button"
+          onClick={() => {
+            setRightSidebarCollapsed((current) => !current);
           }}
           style={{
             marginBottom: rightSidebarCollapsed ? 0 : 6,
@@ -11283,6 +13102,25 @@ const setHudState = useCallback(
           >
             Step 10
           </button>
+          <select
+            data-testid="control-sim-speed"
+            aria-label="Simulation speed"
+            title="Simulation speed (Z / C)"
+            value={String(simulationSpeed)}
+            onChange={(event) => {
+              const next = parseSimSpeed(event.target.value);
+              if (next !== null) {
+                changeSimulationSpeedFromControls(next);
+              }
+            }}
+            style={{ fontSize: 11 }}
+          >
+            {SIM_SPEED_OPTIONS.map((speed) => (
+              <option key={speed} value={String(speed)}>
+                {speed === 'max' ? 'As fast as possible' : formatSimSpeed(speed)}
+              </option>
+            ))}
+          </select>
           <button
             data-testid="control-slot-prev"
             type="button"
@@ -11645,6 +13483,189 @@ const setHudState = useCallback(
               )}
             </div>
           </div>
+          <div
+            data-testid="control-replay"
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '1fr',
+              gap: 6,
+              marginBottom: 4,
+              color: '#d2d2d2',
+              borderTop: '1px solid rgba(255,255,255,0.15)',
+              paddingTop: 6,
+            }}
+          >
+            <div style={{ fontSize: 11, fontWeight: 'bold', opacity: 0.95 }}>
+              Session Replay ({runtimeReplayViewer === null ? `${runtimeReplayInputCount} inputs recorded` : 'viewing'})
+            </div>
+            <input
+              ref={runtimeReplayImportInputRef}
+              data-testid="control-replay-import-input"
+              type="file"
+              accept=".json,application/json"
+              aria-label="Select replay file to view"
+              title="Select a JSON replay file"
+              style={{ display: 'none' }}
+              onChange={handleRuntimeReplayImportChange}
+            />
+            {runtimeReplayViewer === null ? (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 6 }}>
+                <button
+                  data-testid="control-replay-export"
+                  type="button"
+                  aria-label="Export session replay"
+                  title="Download the recorded session inputs as a replay file"
+                  onClick={() => {
+                    exportRuntimeReplay();
+                  }}
+                  style={{
+                    padding: '6px 10px',
+                    borderRadius: 6,
+                    border: 'none',
+                    background: '#444',
+                    color: 'white',
+                    cursor: 'pointer',
+                    fontFamily:
+                      'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, "Courier New", monospace',
+                    fontSize: 11,
+                    fontWeight: 'bold',
+                  }}
+                >
+                  Export
+                </button>
+                <button
+                  data-testid="control-replay-view"
+                  type="button"
+                  aria-label="View session replay"
+                  title="Replay the current session from its start"
+                  onClick={() => {
+                    viewCurrentRuntimeReplay();
+                  }}
+                  style={{
+                    padding: '6px 10px',
+                    borderRadius: 6,
+                    border: 'none',
+                    background: '#4f46e5',
+                    color: 'white',
+                    cursor: 'pointer',
+                    fontFamily:
+                      'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, "Courier New", monospace',
+                    fontSize: 11,
+                    fontWeight: 'bold',
+                  }}
+                >
+                  View
+                </button>
+                <button
+                  data-testid="control-replay-load"
+                  type="button"
+                  aria-label="Load replay file"
+                  title="Open a replay file in the viewer"
+                  onClick={() => {
+                    runtimeReplayImportInputRef.current?.click();
+                  }}
+                  style={{
+                    padding: '6px 10px',
+                    borderRadius: 6,
+                    border: 'none',
+                    background: '#444',
+                    color: 'white',
+                    cursor: 'pointer',
+                    fontFamily:
+                      'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, "Courier New", monospace',
+                    fontSize: 11,
+                    fontWeight: 'bold',
+                  }}
+                >
+                  Load
+                </button>
+              </div>
+            ) : (
+              <>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr auto auto', gap: 6 }}>
+                  <button
+                    data-testid="control-replay-play"
+                    type="button"
+                    aria-label={runtimeReplayViewer.playing ? 'Pause replay' : 'Play replay'}
+                    title={runtimeReplayViewer.playing ? 'Pause replay' : 'Play replay'}
+                    onClick={() => {
+                      setRuntimeReplayPlaying(!runtimeReplayViewer.playing);
+                    }}
+                    style={{
+                      padding: '6px 10px',
+                      borderRadius: 6,
+                      border: 'none',
+                      background: runtimeReplayViewer.playing ? '#444' : '#4caf50',
+                      color: 'white',
+                      cursor: 'pointer',
+                      fontFamily:
+                        'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, "Courier New", monospace',
+                      fontSize: 11,
+                      fontWeight: 'bold',
+                    }}
+                  >
+                    {runtimeReplayViewer.playing ? 'Pause' : 'Play'}
+                  </button>
+                  <select
+                    data-testid="control-replay-speed"
+                    aria-label="Replay speed"
+                    title="Replay speed"
+                    value={runtimeReplayViewer.speed}
+                    onChange={(event) => {
+                      setRuntimeReplaySpeed(Number(event.target.value));
+                    }}
+                    style={{ fontSize: 11 }}
+                  >
+                    {RUNTIME_REPLAY_SPEEDS.map((speed) => (
+                      <option key={speed} value={speed}>
+                        {speed}x
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    data-testid="control-replay-exit"
+                    type="button"
+                    aria-label="Exit replay viewer"
+                    title="Close the replay and restore the live session"
+                    onClick={() => {
+                      closeRuntimeReplayViewer();
+                    }}
+                    style={{
+                      padding: '6px 10px',
+                      borderRadius: 6,
+                      border: 'none',
+                      background: '#444',
+                      color: 'white',
+                      cursor: 'pointer',
+                      fontFamily:
+                        'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, Liberation Mono, "Courier New", monospace',
+                      fontSize: 11,
+                      fontWeight: 'bold',
+                    }}
+                  >
+                    Exit
+                  </button>
+                </div>
+                <input
+                  data-testid="control-replay-seek"
+                  type="range"
+                  aria-label="Seek replay"
+                  min={0}
+                  max={runtimeReplayViewer.endTick}
+                  step={1}
+                  value={runtimeReplayViewer.tick}
+                  onChange={(event) => {
+                    setRuntimeReplayPlaying(false);
+                    seekRuntimeReplayViewer(Number(event.target.value));
+                  }}
+                />
+                <div data-testid="control-replay-tick" style={{ fontSize: 10, opacity: 0.75 }}>
+                  tick {runtimeReplayViewer.tick} / {runtimeReplayViewer.endTick} · {runtimeReplayViewer.inputCount} inputs ·{' '}
+                  {runtimeReplayViewer.keyframeCount} keyframes
+                </div>
+              </>
+            )}
+          </div>
           <input
             ref={runtimeSaveImportInputRef}
             data-testid="control-import-state-input"
@@ -12568,6 +14589,56 @@ const setHudState = useCallback(
           >
             Reset
           </button>
+          <button
+            data-testid="control-new-world"
+            type="button"
+            aria-label="Start a new world"
+            title="Pick a seed and map settings for a new world"
+            aria-expanded={newWorldOpen}
+            aria-controls="new-world-dialog"
+            onClick={() => {
+              openNewWorldDialog();
+            }}
+            style={{
+              padding: '6px 10px',
+              borderRadius: 6,
+              border: 'none',
+              background: '#444',
+              color: 'white',
+              cursor: 'pointer',
+              fontFamily:
+                'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+              fontSize: 11,
+              fontWeight: 'bold',
+            }}
+          >
+            New World
+          </button>
+          <button
+            data-testid="control-map-editor"
+            type="button"
+            aria-label="Toggle map editor"
+            title="Paint resources and trees, or clear tiles, anywhere on the map"
+            aria-pressed={mapEditorOpen}
+            aria-controls="map-editor-panel"
+            onClick={() => {
+              setMapEditorOpen(!mapEditorOpen);
+            }}
+            style={{
+              padding: '6px 10px',
+              borderRadius: 6,
+              border: 'none',
+              background: mapEditorOpen ? '#2e7d32' : '#444',
+              color: 'white',
+              cursor: 'pointer',
+              fontFamily:
+                'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+              fontSize: 11,
+              fontWeight: 'bold',
+            }}
+          >
+            Map Editor
+          </button>
           <button
             data-testid="control-shortcuts"
             type="button"
@@ -12811,6 +14882,314 @@ const setHudState = useCallback(
           </div>
         </div>
       ) : null}
+      {mapEditorOpen ? (
+        <div
+          id="map-editor-panel"
+          data-testid="map-editor-panel"
+          role="region"
+          aria-label="Map editor"
+          style={{
+            position: 'absolute',
+            top: 80,
+            left: 12,
+            zIndex: 2,
+            width: 220,
+            padding: '10px',
+            borderRadius: 8,
+            background: 'rgba(12, 12, 12, 0.92)',
+            color: 'white',
+            fontFamily:
+              'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+            fontSize: 11,
+            lineHeight: 1.25,
+            boxShadow: '0 8px 20px rgba(0,0,0,0.45)',
+            border: '1px solid rgba(255,255,255,0.2)',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+            <div style={{ fontWeight: 'bold' }}>Map Editor</div>
+            <button
+              data-testid="map-editor-close"
+              type="button"
+              aria-label="Close map editor"
+              onClick={() => {
+                setMapEditorOpen(false);
+              }}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 4,
+                border: 'none',
+                background: '#444',
+                color: 'white',
+                cursor: 'pointer',
+                fontFamily:
+                  'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+                fontSize: 10,
+                fontWeight: 'bold',
+              }}
+            >
+              Close
+            </button>
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 4, marginBottom: 8 }}>
+            {MAP_EDITOR_TILES.map((tile) => (
+              <button
+                key={tile}
+                data-testid={`map-editor-tile-${tile}`}
+                type="button"
+                aria-pressed={mapEditorBrush.tile === tile}
+                onClick={() => {
+                  setMapEditorBrush({ ...mapEditorBrush, tile });
+                }}
+                style={{
+                  padding: '4px 6px',
+                  borderRadius: 4,
+                  border: mapEditorBrush.tile === tile ? '1px solid white' : '1px solid transparent',
+                  background: tile === 'empty' ? '#444' : getMinimapTileColor(tile),
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontFamily: 'inherit',
+                  fontSize: 10,
+                  fontWeight: 'bold',
+                  textShadow: '0 1px 2px rgba(0,0,0,0.8)',
+                }}
+              >
+                {MAP_EDITOR_TILE_LABELS[tile]}
+              </button>
+            ))}
+          </div>
+          <label style={{ display: 'grid', gridTemplateColumns: '60px 1fr 30px', gap: 4, alignItems: 'center', marginBottom: 4 }}>
+            <span style={{ opacity: 0.75 }}>Amount</span>
+            <input
+              data-testid="map-editor-amount"
+              type="range"
+              aria-label="Amount per tile"
+              min={1}
+              max={MAX_TILE_AMOUNT}
+              step={1}
+              value={mapEditorBrush.amount}
+              disabled={mapEditorBrush.tile === 'empty'}
+              onChange={(event) => {
+                setMapEditorBrush({ ...mapEditorBrush, amount: Number(event.target.value) });
+              }}
+            />
+            <span>{mapEditorBrush.amount}</span>
+          </label>
+          <label style={{ display: 'grid', gridTemplateColumns: '60px 1fr 30px', gap: 4, alignItems: 'center', marginBottom: 8 }}>
+            <span style={{ opacity: 0.75 }}>Brush</span>
+            <input
+              data-testid="map-editor-radius"
+              type="range"
+              aria-label="Brush radius"
+              min={0}
+              max={MAP_EDITOR_MAX_RADIUS}
+              step={1}
+              value={mapEditorBrush.radius}
+              onChange={(event) => {
+                setMapEditorBrush({ ...mapEditorBrush, radius: Number(event.target.value) });
+              }}
+            />
+            <span>{mapEditorBrush.radius}</span>
+          </label>
+          <div style={{ opacity: 0.75 }}>
+            Click or drag to paint, right-click to clear. Edits save with the game.
+          </div>
+          <div data-testid="map-editor-hover" style={{ marginTop: 6 }}>
+            {mapEditorHover ?? 'Hover a tile to see its amount.'}
+          </div>
+        </div>
+      ) : null}
+      {newWorldOpen ? (
+        <div
+          data-testid="new-world-dialog-backdrop"
+          onClick={() => {
+            setNewWorldOpen(false);
+          }}
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            zIndex: 2,
+            background: 'rgba(0, 0, 0, 0.25)',
+          }}
+        >
+          <div
+            id="new-world-dialog"
+            data-testid="new-world-dialog"
+            role="dialog"
+            aria-label="New world"
+            onClick={(event) => {
+              event.stopPropagation();
+            }}
+            style={{
+              position: 'absolute',
+              top: 80,
+              right: 12,
+              maxWidth: 420,
+              maxHeight: 'calc(100% - 100px)',
+              padding: '10px',
+              overflow: 'auto',
+              borderRadius: 8,
+              background: 'rgba(12, 12, 12, 0.98)',
+              color: 'white',
+              fontFamily:
+                'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+              fontSize: 11,
+              lineHeight: 1.25,
+              boxShadow: '0 8px 20px rgba(0,0,0,0.45)',
+              border: '1px solid rgba(255,255,255,0.2)',
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+              <div style={{ fontWeight: 'bold' }}>New World</div>
+              <button
+                data-testid="new-world-close"
+                type="button"
+                aria-label="Close new world dialog"
+                onClick={() => {
+                  setNewWorldOpen(false);
+                }}
+                style={{
+                  padding: '4px 8px',
+                  borderRadius: 4,
+                  border: 'none',
+                  background: '#444',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontFamily:
+                    'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+                  fontSize: 10,
+                  fontWeight: 'bold',
+                }}
+              >
+                Close
+              </button>
+            </div>
+            <label style={{ display: 'grid', gridTemplateColumns: '90px 1fr', gap: 6, alignItems: 'center', marginBottom: 8 }}>
+              <span style={{ opacity: 0.75 }}>Seed</span>
+              <input
+                data-testid="new-world-seed"
+                type="text"
+                value={newWorldSeed}
+                onChange={(event) => {
+                  setNewWorldSeed(event.target.value);
+                }}
+                style={{ fontFamily: 'inherit', fontSize: 11 }}
+              />
+            </label>
+            <canvas
+              data-testid="new-world-preview"
+              ref={newWorldPreviewRef}
+              width={NEW_WORLD_PREVIEW_TILES}
+              height={NEW_WORLD_PREVIEW_TILES}
+              style={{
+                display: 'block',
+                width: NEW_WORLD_PREVIEW_TILES * 1.5,
+                height: NEW_WORLD_PREVIEW_TILES * 1.5,
+                margin: '0 auto 8px',
+                imageRendering: 'pixelated',
+                border: '1px solid rgba(255,255,255,0.2)',
+              }}
+            />
+            <div style={{ display: 'grid', gridTemplateColumns: '60px repeat(3, 1fr)', gap: 4, alignItems: 'center' }}>
+              <span />
+              {NEW_WORLD_SETTING_NAMES.map((name) => (
+                <span key={name} style={{ opacity: 0.75, textTransform: 'capitalize' }}>{name}</span>
+              ))}
+              {MAP_RESOURCE_KINDS.flatMap((kind) => [
+                <span key={kind}>{NEW_WORLD_RESOURCE_LABELS[kind]}</span>,
+                ...NEW_WORLD_SETTING_NAMES.map((name) => (
+                  <label key={`${kind}-${name}`} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <input
+                      data-testid={`new-world-${kind}-${name}`}
+                      type="range"
+                      aria-label={`${NEW_WORLD_RESOURCE_LABELS[kind]} ${name}`}
+                      min={MAP_SETTING_LIMITS[name].min}
+                      max={MAP_SETTING_LIMITS[name].max}
+                      step={0.25}
+                      value={newWorldSettings.resources[kind][name]}
+                      onChange={(event) => {
+                        updateNewWorldSetting(kind, name, Number(event.target.value));
+                      }}
+                      style={{ width: 60 }}
+                    />
+                    <span>{newWorldSettings.resources[kind][name].toFixed(2)}</span>
+                  </label>
+                )),
+              ])}
+              {MAP_TERRAIN_KINDS.flatMap((kind) => [
+                <span key={kind}>{NEW_WORLD_TERRAIN_LABELS[kind]}</span>,
+                ...(['frequency', 'size'] as const).map((name) => (
+                  <label key={`${kind}-${name}`} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <input
+                      data-testid={`new-world-${kind}-${name}`}
+                      type="range"
+                      aria-label={`${NEW_WORLD_TERRAIN_LABELS[kind]} ${name}`}
+                      min={MAP_SETTING_LIMITS[name].min}
+                      max={MAP_SETTING_LIMITS[name].max}
+                      step={0.25}
+                      value={newWorldSettings.terrain[kind][name]}
+                      onChange={(event) => {
+                        updateNewWorldTerrainSetting(kind, name, Number(event.target.value));
+                      }}
+                      style={{ width: 60 }}
+                    />
+                    <span>{newWorldSettings.terrain[kind][name].toFixed(2)}</span>
+                  </label>
+                )),
+                <span key={`${kind}-richness`} />,
+              ])}
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6, marginTop: 10 }}>
+              <button
+                data-testid="new-world-defaults"
+                type="button"
+                onClick={() => {
+                  setNewWorldSettings(createDefaultMapSettings());
+                }}
+                style={{
+                  padding: '4px 8px',
+                  borderRadius: 4,
+                  border: 'none',
+                  background: '#444',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontFamily:
+                    'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+                  fontSize: 10,
+                  fontWeight: 'bold',
+                }}
+              >
+                Defaults
+              </button>
+              <button
+                data-testid="new-world-start"
+                type="button"
+                title="Replace the current world and everything built on it"
+                onClick={() => {
+                  startNewWorld();
+                }}
+                style={{
+                  padding: '4px 8px',
+                  borderRadius: 4,
+                  border: 'none',
+                  background: '#2e7d32',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontFamily:
+                    'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+                  fontSize: 10,
+                  fontWeight: 'bold',
+                }}
+              >
+                Start
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
       {showTouchControls ? (
         <div
           data-testid="touch-controls"
@@ -13007,6 +15386,12 @@ const setHudState = useCallback(
                 {hudPauseValue}
               </span>
             </div>
+            <div data-testid="hud-speed">
+              <span>Speed:</span>{' '}
+              <span data-testid="hud-speed-value" data-value={hudSpeedValue}>
+                {hudSpeedValue}
+              </span>
+            </div>
             <div data-testid="hud-tick">
               <span>Tick:</span>{' '}
               <span data-testid="hud-tick-value" data-value={String(hud.tick)}>
@@ -13030,6 +15415,57 @@ const setHudState = useCallback(
                 >
                   {formatSelectedEntityDetails(hud.selectedEntity)}
                 </div>
+                {hud.selectedEntity?.kind === 'assembler' ? (
+                  <label data-testid="hud-selected-entity-recipe" style={{ pointerEvents: 'auto' }}>
+                    <span>Recipe:</span>{' '}
+                    <select
+                      data-testid="hud-selected-entity-recipe-select"
+                      value={hud.selectedEntity.recipe ?? ''}
+                      onChange={onSelectedAssemblerRecipeChange}
+                    >
+                      <option value="">auto</option>
+                      {ASSEMBLER_RECIPE_IDS.map((recipeId) => (
+                        <option key={recipeId} value={recipeId}>
+                          {recipeId}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+                {hud.selectedEntity?.inserter !== undefined ? (
+                  <>
+                    <label data-testid="hud-selected-entity-filter" style={{ pointerEvents: 'auto' }}>
+                      <span>Filter:</span>{' '}
+                      <select
+                        data-testid="hud-selected-entity-filter-select"
+                        multiple
+                        size={4}
+                        value={hud.selectedEntity.inserter.filter}
+                        onChange={onSelectedInserterFilterChange}
+                      >
+                        {ITEM_ORDER.map((item) => (
+                          <option key={item} value={item}>
+                            {toDisplayInteractiveItem(item)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label data-testid="hud-selected-entity-stack-bonus" style={{ pointerEvents: 'auto' }}>
+                      <span>Stack bonus:</span>{' '}
+                      <select
+                        data-testid="hud-selected-entity-stack-bonus-select"
+                        value={hud.selectedEntity.inserter.stackBonus}
+                        onChange={onSelectedInserterStackBonusChange}
+                      >
+                        {Array.from({ length: INSERTER_MAX_STACK_BONUS + 1 }, (_, bonus) => (
+                          <option key={bonus} value={bonus}>
+                            +{bonus}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </>
+                ) : null}
                 <div data-testid="hud-player">
                   <span>Player:</span>{' '}
                   <span data-testid="hud-player-value" data-value={`${hud.player.x},${hud.player.y}`}>
@@ -13087,9 +15523,9 @@ const setHudState = useCallback(
                   <span>Inv:</span>{' '}
                   <span
                     data-testid="hud-inventory-value"
-                    data-value={`${hud.inventory.ore}/${hud.inventory.plate}/${hud.inventory.gear}/${hud.inventory.coal}/${hud.inventory.wood}/${hud.inventory.used}/${hud.inventory.capacity}`}
+                    data-value={`${ITEM_ORDER.map((item) => readInventoryCount(hud.inventory, item)).join('/')}/${hud.inventory.used}/${hud.inventory.capacity}`}
                   >
-                    O:{hud.inventory.ore} P:{hud.inventory.plate} G:{hud.inventory.gear} C:{hud.inventory.coal} W:{hud.inventory.wood} ({hud.inventory.used}/{hud.inventory.capacity})
+                    {formatInventoryItems(hud.inventory.items)} ({hud.inventory.used}/{hud.inventory.capacity})
                   </span>
                 </div>
                 {renderInventoryPanel('Inventory', hud.inventory)}
@@ -13119,7 +15555,7 @@ const setHudState = useCallback(
                   >
                     {hud.adjacentChest === null
                       ? 'none'
-                      : `(${hud.adjacentChest.x}, ${hud.adjacentChest.y}) O:${hud.adjacentChest.inventory.ore} P:${hud.adjacentChest.inventory.plate} G:${hud.adjacentChest.inventory.gear} C:${hud.adjacentChest.inventory.coal} W:${hud.adjacentChest.inventory.wood}`}
+                      : `(${hud.adjacentChest.x}, ${hud.adjacentChest.y}) ${formatInventoryItems(hud.adjacentChest.inventory.items)}`}
                   </span>
                 </div>
                 {hud.adjacentChest === null ? (
@@ -13153,6 +15589,17 @@ const setHudState = useCallback(
                     D:{hud.metrics.powerDemandThisTick} C:{hud.metrics.powerConsumedThisTick} G:{hud.metrics.powerGeneratedThisTick} S:{hud.metrics.powerShortagesThisTick}
                   </span>
                 </div>
+                <div data-testid="hud-daylight">
+                  <span>Time:</span>{' '}
+                  <span data-testid="hud-daylight-value" data-value={hud.metrics.timeOfDayMinutes}>
+                    {formatTimeOfDay(hud.metrics.timeOfDayMinutes / (24 * 60))} · sun {hud.metrics.daylightPercent}%
+                  </span>
+                  <span data-testid="hud-power-runway" style={{ marginLeft: 8, opacity: 0.75 }}>
+                    {hudPowerRunwayTicks === null
+                      ? 'charging'
+                      : `runway ${Math.floor((hudPowerRunwayTicks * SIM_STEP_MS) / 1000)}s`}
+                  </span>
+                </div>
                 {showTutorialHints ? (
                   <div data-testid="hud-tutorial-next" style={{ marginBottom: 8 }}>
                     <div style={{ fontWeight: 'bold', marginBottom: 4 }}>
@@ -13259,6 +15706,84 @@ const setHudState = useCallback(
           </div>
         </div>
       ) : null}
+      {showProfiler ? (
+        <div
+          data-testid="profiler"
+          style={{
+            position: 'absolute',
+            top: 12,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 2,
+            width: 'min(360px, calc(100vw - 24px))',
+            boxSizing: 'border-box',
+            padding: '8px 10px',
+            borderRadius: 8,
+            background: 'rgba(20, 20, 20, 0.85)',
+            color: 'white',
+            fontFamily:
+              'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+            fontSize: 11,
+            lineHeight: 1.35,
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+            <strong>Tick Profiler</strong>
+            <button
+              data-testid="profiler-export"
+              type="button"
+              aria-label="Export tick profile"
+              title="Download the current profile window as JSON"
+              onClick={() => {
+                exportTickProfile();
+              }}
+              style={{
+                padding: '2px 8px',
+                borderRadius: 4,
+                border: 'none',
+                background: '#444',
+                color: 'white',
+                cursor: 'pointer',
+                fontSize: 11,
+              }}
+            >
+              Export
+            </button>
+          </div>
+          {tickProfile === null || tickProfile.ticks === 0 ? (
+            <div data-testid="profiler-empty" style={{ marginTop: 6, opacity: 0.8 }}>
+              Waiting for ticks on this page. Worker mode ticks are not profiled.
+            </div>
+          ) : (
+            <>
+              <div data-testid="profiler-summary" style={{ marginTop: 6 }}>
+                {tickProfile.ticks}/{tickProfile.windowTicks} ticks, mean {tickProfile.meanTickMs.toFixed(3)}ms, max{' '}
+                {tickProfile.maxTickMs.toFixed(3)}ms
+              </div>
+              <table style={{ width: '100%', marginTop: 4, borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ textAlign: 'right', opacity: 0.7 }}>
+                    <th style={{ textAlign: 'left', fontWeight: 'normal' }}>Section</th>
+                    <th style={{ fontWeight: 'normal' }}>Mean</th>
+                    <th style={{ fontWeight: 'normal' }}>Max</th>
+                    <th style={{ fontWeight: 'normal' }}>Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tickProfile.sections.slice(0, RUNTIME_PROFILE_PANEL_ROWS).map((stat) => (
+                    <tr key={stat.section} data-testid="profiler-section" data-section={stat.section} style={{ textAlign: 'right' }}>
+                      <td style={{ textAlign: 'left' }}>{stat.section}</td>
+                      <td>{stat.meanMs.toFixed(3)}</td>
+                      <td>{stat.maxMs.toFixed(3)}</td>
+                      <td>{(stat.share * 100).toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      ) : null}
       {feedback === null ? null : (
         <div
           style={{
@@ -1,7 +1,7 @@
 /**
  * Supported buildable entity kinds for placement.
  */
-export type EntityKind = 'Miner' | 'Belt' | 'Splitter' | 'Inserter' | 'Furnace' | 'Assembler' | 'Chest' | 'SolarPanel' | 'Accumulator';
+export type EntityKind = 'Miner' | 'Belt' | 'FastBelt' | 'ExpressBelt' | 'UndergroundBelt' | 'Splitter' | 'Inserter' | 'BurnerInserter' | 'FastInserter' | 'LongHandedInserter' | 'Furnace' | 'Assembler' | 'Chest' | 'SolarPanel' | 'Accumulator' | 'PowerPole' | 'Boiler' | 'SteamEngine' | 'Pipe' | 'PipeToGround' | 'OffshorePump' | 'StorageTank';
 
 /**
  * Quarter-turn clockwise rotations.
@@ -38,6 +38,7 @@ export type PlacementFeedbackToken =
   | "blocked-out-of-bounds"
   | "blocked-resource-required"
   | "blocked-resource"
+  | "blocked-terrain"
   | "blocked-empty"
   | "blocked-invalid-target"
   | "blocked";
@@ -63,6 +64,19 @@ export const TOOLBAR_ENTITY_ORDER: readonly EntityKind[] = [
   'Assembler',
   'SolarPanel',
   'Accumulator',
+  'FastBelt',
+  'ExpressBelt',
+  'UndergroundBelt',
+  'BurnerInserter',
+  'FastInserter',
+  'LongHandedInserter',
+  'PowerPole',
+  'Boiler',
+  'SteamEngine',
+  'OffshorePump',
+  'Pipe',
+  'PipeToGround',
+  'StorageTank',
 ];
 
 export const ALL_ENTITY_KINDS: EntityKind[] = [...TOOLBAR_ENTITY_ORDER];
@@ -226,6 +240,9 @@ const PLACEMENT_FEEDBACK_BY_REASON: Readonly<Record<string, { token: PlacementFe
   no_fuel: { token: "blocked", message: "Out of fuel" },
   no_fuel_source: { token: "blocked", message: "No fuel source" },
   fuel_full: { token: "blocked", message: "Fuel full" },
+  blocked_by_water: { token: "blocked-terrain", message: "Water: use landfill" },
+  blocked_by_cliff: { token: "blocked-terrain", message: "Cliff" },
+  offshore_pump_needs_water: { token: "blocked-terrain", message: "Needs water behind" },
   resource_tile: { token: "blocked-resource", message: "Resource locked" },
   cannot_remove_resource: { token: "blocked-resource", message: "Resource locked" },
   non_removable_resource: { token: "blocked-resource", message: "Resource locked" },
@@ -4,12 +4,20 @@
   - Miners, belts (with direction glyph), inserters (animated arm), furnaces (progress bar)
   - Belt items as small shapes when exposed by snapshot state
   - Placement ghost/hover highlight
+  - Boilers (steam gauge) and steam engines (flywheel turning with output)
+  - Pipes, pipes-to-ground, offshore pumps and storage tanks, each with a fill gauge
+  - Optional power network overlay: members tinted per network, pole supply areas and wires
 
   Designed to match App.tsx usage: createRenderer(canvas) -> { setGhost, resize?, destroy }
 */
 
-import { createSnapshot, type Snapshot } from "../core/snapshot";
-import { rotateDirection } from "../core/types";
+import { createSnapshot, type Snapshot, type SnapshotBeltLaneItem, type SnapshotFluidBox } from "../core/snapshot";
+import { getItem, isItemKind } from "../core/items";
+import { BELT_LANE_CAPACITY } from "../core/belt-lanes";
+import { INSERTER_REACH, type BeltTierKind, type InserterKind } from "../core/registry";
+import { computePowerGridLayout, POWER_POLE_SUPPLY_RADIUS, type PowerGridLayout } from "../core/power-networks";
+import type { FluidKind } from "../core/fluids";
+import { DIRECTION_VECTORS, rotateDirection } from "../core/types";
 import type { Direction, EntityKind, ItemKind } from "../core/types";
 
 declare global {
@@ -23,11 +31,23 @@ const imageCache: Record<string, HTMLImageElement> = {};
 const SVG_ASSET_NAMES = [
   "miner",
   "transport-belt-basic-yellow",
+  "transport-belt-fast-red",
+  "transport-belt-express-blue",
   "basic-inserter",
+  "burner-inserter",
+  "fast-inserter",
+  "long-handed-inserter",
   "furnace",
   "solar-panel",
   "chest",
   "iron-ore",
+  "iron-plate",
+  "iron-gear-wheel",
+  "copper-plate",
+  "steel-plate",
+  "stone",
+  "electronic-circuit(green)",
+  "automation-science-pack",
   "coal",
   "player",
   "tree",
@@ -44,6 +64,7 @@ const SVG_ROTATION_OFFSETS_RAD: Readonly<Record<string, number>> = {
   "basic-inserter": Math.PI / 2,
   "burner-inserter": Math.PI / 2,
   "fast-inserter": Math.PI / 2,
+  "long-handed-inserter": Math.PI / 2,
   player: 0,
 };
 
@@ -94,29 +115,62 @@ type Tile = { x: number; y: number };
 const GRID_COLOR = "#3e4a57";
 const ORE_COLOR = "#c47f2d";
 const COAL_COLOR = "#2f2f2f";
+const COPPER_COLOR = "#c8643b";
+const STONE_COLOR = "#9a8f7c";
+const WATER_COLOR = "#1f4f7a";
+const CLIFF_COLOR = "#6b5440";
 const WOOD_COLOR = "#4d6b37";
 const GHOST_OK_FILL = "rgba(139, 233, 253, 0.18)"; // cyan-ish
 const GHOST_BAD_FILL = "rgba(255, 99, 99, 0.18)"; // red-ish
 const GHOST_STROKE_OK = "#8be9fd";
 const GHOST_STROKE_BAD = "#ff6b6b";
+const GHOST_RANGE_FILL = "rgba(139, 233, 253, 0.08)";
 const MINER_COLOR = "#66c2a5";
 const BELT_COLOR = "#8da0cb";
+const FAST_BELT_COLOR = "#d9675f";
+const EXPRESS_BELT_COLOR = "#5f9bd9";
+
+const BELT_TIER_STYLES: Readonly<Record<BeltTierKind, { sprite: string; color: string }>> = {
+  belt: { sprite: "transport-belt-basic-yellow", color: BELT_COLOR },
+  "fast-belt": { sprite: "transport-belt-fast-red", color: FAST_BELT_COLOR },
+  "express-belt": { sprite: "transport-belt-express-blue", color: EXPRESS_BELT_COLOR },
+};
 const SPLITTER_COLOR = "#6dd3f7";
+const UNDERGROUND_MOUTH_COLOR = "rgba(24, 26, 34, 0.85)";
 const INSERTER_BASE = "#e78ac3";
 const INSERTER_ARM = "#ffb3de";
+
+const INSERTER_STYLES: Readonly<Record<InserterKind, { sprite: string; base: string; arm: string }>> = {
+  inserter: { sprite: "basic-inserter", base: INSERTER_BASE, arm: INSERTER_ARM },
+  "burner-inserter": { sprite: "burner-inserter", base: "#8a5a2b", arm: "#d9a066" },
+  "fast-inserter": { sprite: "fast-inserter", base: "#2f7fb0", arm: "#8fd3f7" },
+  "long-handed-inserter": { sprite: "long-handed-inserter", base: "#a8362c", arm: "#f28b80" },
+};
 const FURNACE_COLOR = "#fc8d62";
 const ASSEMBLER_COLOR = "#8f78ff";
 const ACCUMULATOR_COLOR = "#f8d568";
-const ITEM_ORE = "#b0792a";
-const ITEM_PLATE = "#c0c5cf";
-const ITEM_COAL = "#2f2f2f";
-const ITEM_WOOD = WOOD_COLOR;
-const ITEM_GEAR = "#c084fc";
+const POWER_POLE_COLOR = "#a0784a";
+const BOILER_COLOR = "#8c8f96";
+const STEAM_ENGINE_COLOR = "#6f9fb8";
+const STEAM_COLOR = "rgba(235, 240, 245, 0.85)";
+const PIPE_COLOR = "#7d8a96";
+const OFFSHORE_PUMP_COLOR = "#4a90c2";
+const STORAGE_TANK_COLOR = "#9aa7b3";
+const FLUID_COLORS: Readonly<Record<FluidKind, string>> = {
+  water: "#3f8fd8",
+};
+const FLUID_EMPTY_COLOR = "rgba(0, 0, 0, 0.35)";
+const POWER_WIRE_COLOR = "rgba(232, 196, 120, 0.9)";
+/** Hues cycled through so neighbouring networks are told apart in the power overlay. */
+const POWER_NETWORK_HUES = [48, 200, 120, 300, 20, 260, 160, 340] as const;
 const ITEM_GENERIC = "#d4d4d4";
 const CONVEYOR_HINT_LOW = "#22c55e";
 const CONVEYOR_HINT_MID = "#facc15";
 const CONVEYOR_HINT_HIGH = "#ef4444";
 
+const getItemColor = (kind: ItemKind): string => getItem(kind)?.color ?? ITEM_GENERIC;
+const getItemSvgName = (kind: ItemKind): string => getItem(kind)?.sprite ?? kind;
+
 // Direction helpers
 const dirToAngleRad = (d: Direction): number => {
   switch (d) {
@@ -144,6 +198,9 @@ type CameraTransform = {
   zoom: number;
   panX: number;
   panY: number;
+  /** Tiles that fit the canvas at zoom 1, for worlds too large to show whole; the whole grid when omitted. */
+  viewWidth?: number;
+  viewHeight?: number;
 };
 
 type SnapshotWithOptionalPlayer = Snapshot & {
@@ -156,6 +213,9 @@ type SnapshotWithOptionalPlayer = Snapshot & {
   };
 };
 
+const isPositiveSpan = (value: number | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
 function computeTransform(
   canvas: HTMLCanvasElement,
   gridWidth: number,
@@ -163,8 +223,10 @@ function computeTransform(
   tileSize: number,
   camera?: CameraTransform,
 ): Transform {
-  const worldW = gridWidth * tileSize;
-  const worldH = gridHeight * tileSize;
+  const viewWidth = camera?.viewWidth;
+  const viewHeight = camera?.viewHeight;
+  const worldW = (isPositiveSpan(viewWidth) ? viewWidth : gridWidth) * tileSize;
+  const worldH = (isPositiveSpan(viewHeight) ? viewHeight : gridHeight) * tileSize;
   const baseScale = Math.max(0.0001, Math.min(canvas.width / worldW, canvas.height / worldH));
   const zoom = typeof camera?.zoom === 'number' ? Math.max(0.05, camera.zoom) : 1;
   const scale = baseScale * zoom;
@@ -182,8 +244,13 @@ function drawGrid(ctx: CanvasRenderingContext2D, gridW: number, gridH: number, t
   ctx.translate(t.offsetX, t.offsetY);
   ctx.strokeStyle = GRID_COLOR;
   ctx.lineWidth = Math.max(0.3, t.scale * 0.06);
+  // Only the lines on screen; a large world would otherwise stroke thousands every frame.
+  const minX = Math.max(0, Math.floor(-t.offsetX / t.tileRender));
+  const maxX = Math.min(gridW, Math.ceil((ctx.canvas.width - t.offsetX) / t.tileRender));
+  const minY = Math.max(0, Math.floor(-t.offsetY / t.tileRender));
+  const maxY = Math.min(gridH, Math.ceil((ctx.canvas.height - t.offsetY) / t.tileRender));
   // vertical lines
-  for (let x = 0; x <= gridW; x += 1) {
+  for (let x = minX; x <= maxX; x += 1) {
     const px = Math.floor(x * t.tileRender) + 0.5;
     ctx.beginPath();
     ctx.moveTo(px, 0);
@@ -191,7 +258,7 @@ function drawGrid(ctx: CanvasRenderingContext2D, gridW: number, gridH: number, t
     ctx.stroke();
   }
   // horizontal lines
-  for (let y = 0; y <= gridH; y += 1) {
+  for (let y = minY; y <= maxY; y += 1) {
     const py = Math.floor(y * t.tileRender) + 0.5;
     ctx.beginPath();
     ctx.moveTo(0, py);
@@ -237,12 +304,60 @@ function drawCoal(ctx: CanvasRenderingContext2D, coal: ReadonlyArray<{ x: number
   drawResourceTiles(ctx, coal, t, "coal", COAL_COLOR);
 }
 
+function drawCopper(ctx: CanvasRenderingContext2D, copper: ReadonlyArray<{ x: number; y: number }>, t: Transform): void {
+  drawResourceTiles(ctx, copper, t, "copper-ore", COPPER_COLOR);
+}
+
+function drawStone(ctx: CanvasRenderingContext2D, stone: ReadonlyArray<{ x: number; y: number }>, t: Transform): void {
+  drawResourceTiles(ctx, stone, t, "stone", STONE_COLOR);
+}
+
+function drawWater(ctx: CanvasRenderingContext2D, water: ReadonlyArray<{ x: number; y: number }>, t: Transform): void {
+  drawResourceTiles(ctx, water, t, "water", WATER_COLOR);
+}
+
+function drawCliffs(ctx: CanvasRenderingContext2D, cliffs: ReadonlyArray<{ x: number; y: number }>, t: Transform): void {
+  drawResourceTiles(ctx, cliffs, t, "cliff", CLIFF_COLOR);
+}
+
 function drawWood(ctx: CanvasRenderingContext2D, wood: ReadonlyArray<{ x: number; y: number }>, t: Transform): void {
   drawResourceTiles(ctx, wood, t, "tree", WOOD_COLOR);
 }
 
-function drawGhost(ctx: CanvasRenderingContext2D, ghost: { tile: Tile | null; valid: boolean }, t: Transform): void {
+/** Extra tiles drawn with the placement ghost, e.g. the reach of an underground belt. */
+export type GhostOverlay = {
+  range: ReadonlyArray<Tile>;
+  partner: Tile | null;
+};
+
+type GhostState = { tile: Tile | null; valid: boolean; overlay?: GhostOverlay };
+
+function drawGhostOverlay(ctx: CanvasRenderingContext2D, overlay: GhostOverlay, t: Transform): void {
+  ctx.save();
+  ctx.fillStyle = GHOST_RANGE_FILL;
+  for (const tile of overlay.range) {
+    ctx.fillRect(t.offsetX + tile.x * t.tileRender, t.offsetY + tile.y * t.tileRender, t.tileRender, t.tileRender);
+  }
+
+  if (overlay.partner !== null) {
+    ctx.strokeStyle = GHOST_STROKE_OK;
+    ctx.lineWidth = Math.max(1, Math.floor(t.scale * 2));
+    ctx.setLineDash([4, 3]);
+    ctx.strokeRect(
+      Math.floor(t.offsetX + overlay.partner.x * t.tileRender) + 0.5,
+      Math.floor(t.offsetY + overlay.partner.y * t.tileRender) + 0.5,
+      Math.ceil(t.tileRender) - 1,
+      Math.ceil(t.tileRender) - 1,
+    );
+  }
+  ctx.restore();
+}
+
+function drawGhost(ctx: CanvasRenderingContext2D, ghost: GhostState, t: Transform): void {
   if (ghost.tile === null) return;
+  if (ghost.overlay !== undefined) {
+    drawGhostOverlay(ctx, ghost.overlay, t);
+  }
   const gx = t.offsetX + ghost.tile.x * t.tileRender;
   const gy = t.offsetY + ghost.tile.y * t.tileRender;
   ctx.save();
@@ -256,6 +371,15 @@ function drawGhost(ctx: CanvasRenderingContext2D, ghost: { tile: Tile | null; va
   ctx.restore();
 }
 
+function getGhostOverlaySignature(overlay: GhostOverlay | undefined): string {
+  if (overlay === undefined) {
+    return "";
+  }
+
+  const partner = overlay.partner === null ? "-" : `${overlay.partner.x},${overlay.partner.y}`;
+  return `${overlay.range.map((tile) => `${tile.x},${tile.y}`).join(";")}>${partner}`;
+}
+
 function drawPlayerMarker(
   ctx: CanvasRenderingContext2D,
   gridW: number,
@@ -366,17 +490,25 @@ function drawBelt(
   x: number,
   y: number,
   rot: Direction,
+  tier: BeltTierKind,
   itemHint: ReadonlyArray<ItemKind | null> | undefined,
+  laneHint: ReadonlyArray<ReadonlyArray<SnapshotBeltLaneItem>> | undefined,
   t: Transform,
   timeTick: number,
   motionEnabled: boolean,
 ): void {
   const animate = motionEnabled && !(typeof navigator !== "undefined" && navigator.webdriver === true);
   const useSvgs = !!window.__USE_SVGS__;
+  const style = BELT_TIER_STYLES[tier];
   const px = t.offsetX + x * t.tileRender;
   const py = t.offsetY + y * t.tileRender;
-  const laneCapacity = itemHint === undefined ? 0 : itemHint.length;
-  const items = parseBeltItems(itemHint);
+  const laneCapacity = laneHint !== undefined
+    ? laneHint.length * BELT_LANE_CAPACITY
+    : itemHint === undefined ? 0 : itemHint.length;
+  const items = laneHint !== undefined ? parseBeltLaneItems(laneHint) : parseBeltItems(itemHint);
+  // Lane items sit across the whole tile; legacy slot items are spread over its middle half.
+  const span = laneHint !== undefined ? 0.8 : 0.5;
+  const itemScale = laneHint !== undefined ? 0.7 : 1;
   const active = items.length > 0;
   const pulse =
     active && animate ? 1 + 0.02 * Math.sin(timeTick * 0.55 + x * 0.8 + y * 0.4) : 1;
@@ -385,7 +517,7 @@ function drawBelt(
       ? Math.sin(timeTick * 0.6 + x * 0.7 + y * 0.3) * t.tileRender * 0.008
       : 0;
 
-  if (useSvgs && drawSvg(ctx, "transport-belt-basic-yellow", x, y, rot, t, pulse, bob)) {
+  if (useSvgs && drawSvg(ctx, style.sprite, x, y, rot, t, pulse, bob)) {
     ctx.save();
     const cx = px + t.tileRender / 2;
     const cy = py + t.tileRender / 2;
@@ -395,7 +527,7 @@ function drawBelt(
     // Base belt body
     const pad = t.tileRender * 0.15;
     ctx.save();
-    ctx.fillStyle = BELT_COLOR;
+    ctx.fillStyle = style.color;
     ctx.fillRect(px + pad, py + pad, t.tileRender - 2 * pad, t.tileRender - 2 * pad);
 
     // Direction arrow
@@ -412,38 +544,27 @@ function drawBelt(
     ctx.fill();
   }
 
-  // Items on belt (read from committed snapshot slot list)
+  // Items on belt (read from committed snapshot lanes, or the legacy slot list)
   for (const it of items) {
+    const ix = (it.pos - 0.5) * span * t.tileRender;
+    const iy = it.offset * t.tileRender;
     if (useSvgs) {
-      const img = getSvg(it.kind);
+      const img = getSvg(getItemSvgName(it.kind));
       if (img && img.complete && img.naturalWidth > 0) {
-        const iz = t.tileRender * 0.45;
-        const ix = -t.tileRender * 0.25 + it.pos * (t.tileRender * 0.5);
+        const iz = t.tileRender * 0.45 * itemScale;
         ctx.globalAlpha = 1.0;
 
         ctx.save();
-        ctx.drawImage(img, ix - iz / 2, -iz / 2, iz, iz);
+        ctx.drawImage(img, ix - iz / 2, iy - iz / 2, iz, iz);
         ctx.restore();
         continue;
       }
     }
 
-    const color =
-      it.kind === "iron-ore"
-        ? ITEM_ORE
-        : it.kind === "iron-plate"
-          ? ITEM_PLATE
-          : it.kind === "coal"
-            ? ITEM_COAL
-            : it.kind === "iron-gear"
-              ? ITEM_GEAR
-              : it.kind === "wood"
-                ? ITEM_WOOD
-                : ITEM_GENERIC;
-    const ix = -t.tileRender * 0.25 + it.pos * (t.tileRender * 0.5);
+    const color = getItemColor(it.kind);
     ctx.fillStyle = color;
     ctx.beginPath();
-    ctx.arc(ix, 0, Math.max(2, t.tileRender * 0.08), 0, Math.PI * 2);
+    ctx.arc(ix, iy, Math.max(2, t.tileRender * 0.08 * itemScale), 0, Math.PI * 2);
     ctx.fill();
   }
 
@@ -454,6 +575,33 @@ function drawBelt(
   ctx.restore();
 }
 
+/**
+ * Underground belts draw as a basic belt with a dark tunnel mouth: in front for an
+ * entrance, behind for an exit.
+ */
+function drawUndergroundBelt(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  rot: Direction,
+  mode: "input" | "output",
+  laneHint: ReadonlyArray<ReadonlyArray<SnapshotBeltLaneItem>> | undefined,
+  t: Transform,
+  timeTick: number,
+  motionEnabled: boolean,
+): void {
+  drawBelt(ctx, x, y, rot, "belt", undefined, laneHint, t, timeTick, motionEnabled);
+
+  const size = t.tileRender;
+  ctx.save();
+  ctx.translate(t.offsetX + (x + 0.5) * size, t.offsetY + (y + 0.5) * size);
+  ctx.rotate(dirToAngleRad(rot));
+  ctx.fillStyle = UNDERGROUND_MOUTH_COLOR;
+  const mouthX = mode === "input" ? size * 0.15 : -size * 0.5;
+  ctx.fillRect(mouthX, -size * 0.4, size * 0.35, size * 0.8);
+  ctx.restore();
+}
+
 function drawSplitter(
   ctx: CanvasRenderingContext2D,
   x: number,
@@ -516,7 +664,7 @@ function drawSplitter(
   ctx.fill();
 
   for (const it of items) {
-    const img = getSvg(it.kind);
+    const img = getSvg(getItemSvgName(it.kind));
     if (img && img.complete && img.naturalWidth > 0) {
       const iconSize = t.tileRender * 0.32;
       const offsetY = it.kind === "coal" ? t.tileRender * 0.07 : -t.tileRender * 0.07;
@@ -524,18 +672,7 @@ function drawSplitter(
       continue;
     }
 
-    const color =
-      it.kind === "iron-ore"
-        ? ITEM_ORE
-        : it.kind === "iron-plate"
-          ? ITEM_PLATE
-          : it.kind === "coal"
-            ? ITEM_COAL
-            : it.kind === "iron-gear"
-              ? ITEM_GEAR
-              : it.kind === "wood"
-                ? ITEM_WOOD
-                : ITEM_GENERIC;
+    const color = getItemColor(it.kind);
     ctx.fillStyle = color;
     ctx.beginPath();
     ctx.arc(centerX, centerY, Math.max(2, t.tileRender * 0.07), 0, Math.PI * 2);
@@ -554,6 +691,7 @@ function drawInserter(
   x: number,
   y: number,
   rot: Direction,
+  kind: InserterKind,
   state: InserterState | undefined,
   t: Transform,
   timeTick: number,
@@ -564,13 +702,14 @@ function drawInserter(
   const pulse =
     active && animate ? 1 + 0.025 * Math.sin(timeTick * 0.5 + x * 0.4 + y * 0.4) : 1;
   const bob = active && animate ? Math.sin(timeTick * 0.45 + x * 0.25) * t.tileRender * 0.01 : 0;
-  if (!!window.__USE_SVGS__ && drawSvg(ctx, "basic-inserter", x, y, rot, t, pulse, bob)) return;
+  const style = INSERTER_STYLES[kind];
+  if (!!window.__USE_SVGS__ && drawSvg(ctx, style.sprite, x, y, rot, t, pulse, bob)) return;
 
   const baseX = t.offsetX + (x + 0.5) * t.tileRender;
   const baseY = t.offsetY + (y + 0.5) * t.tileRender;
   ctx.save();
   // base
-  ctx.fillStyle = INSERTER_BASE;
+  ctx.fillStyle = style.base;
   ctx.beginPath();
   ctx.arc(baseX, baseY, Math.max(2, t.tileRender * 0.12), 0, Math.PI * 2);
   ctx.fill();
@@ -578,9 +717,9 @@ function drawInserter(
   // arm rotation: parse from state; fallback to time-based sweep
   const phase = parseInserterPhase(state, timeTick, animate);
   const angle = dirToAngleRad(rot) + (phase - 0.5) * Math.PI * 0.75; // +/- 67.5deg around facing
-  const armLen = t.tileRender * 0.42;
+  const armLen = t.tileRender * 0.42 * INSERTER_REACH[kind];
 
-  ctx.strokeStyle = INSERTER_ARM;
+  ctx.strokeStyle = style.arm;
   ctx.lineWidth = Math.max(2, t.tileRender * 0.08);
   ctx.lineCap = "round";
   ctx.beginPath();
@@ -826,6 +965,303 @@ function drawAccumulator(
   ctx.restore();
 }
 
+function drawPowerPole(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  t: Transform,
+): void {
+  const px = t.offsetX + x * t.tileRender;
+  const py = t.offsetY + y * t.tileRender;
+  const postW = t.tileRender * 0.14;
+  const armW = t.tileRender * 0.56;
+  const armH = t.tileRender * 0.1;
+
+  ctx.save();
+  ctx.fillStyle = POWER_POLE_COLOR;
+  ctx.fillRect(px + (t.tileRender - postW) / 2, py + t.tileRender * 0.18, postW, t.tileRender * 0.7);
+  ctx.fillRect(px + (t.tileRender - armW) / 2, py + t.tileRender * 0.22, armW, armH);
+  ctx.fillStyle = POWER_WIRE_COLOR;
+  ctx.beginPath();
+  ctx.arc(px + (t.tileRender - armW) / 2, py + t.tileRender * 0.22, Math.max(1, t.tileRender * 0.05), 0, Math.PI * 2);
+  ctx.arc(px + (t.tileRender + armW) / 2, py + t.tileRender * 0.22, Math.max(1, t.tileRender * 0.05), 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawBoiler(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  steam01: number,
+  water: SnapshotFluidBox | undefined,
+  t: Transform,
+): void {
+  const px = t.offsetX + x * t.tileRender;
+  const py = t.offsetY + y * t.tileRender;
+  const inset = t.tileRender * 0.12;
+  const size = t.tileRender - inset * 2;
+
+  ctx.save();
+  ctx.fillStyle = BOILER_COLOR;
+  ctx.fillRect(px + inset, py + inset, size, size);
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.45)";
+  ctx.lineWidth = Math.max(1, t.scale);
+  ctx.strokeRect(px + inset, py + inset, size, size);
+  // Water tank over the firebox at the bottom, steam gauge filling upwards on the right.
+  drawFluidLevel(ctx, px + t.tileRender * 0.22, py + t.tileRender * 0.24, t.tileRender * 0.34, t.tileRender * 0.3, water);
+  ctx.fillStyle = steam01 > 0 ? "#ff9f43" : "#3a3a3a";
+  ctx.fillRect(px + t.tileRender * 0.22, py + t.tileRender * 0.62, t.tileRender * 0.34, t.tileRender * 0.16);
+  const gaugeH = size * 0.76;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
+  ctx.fillRect(px + t.tileRender * 0.66, py + t.tileRender * 0.24, t.tileRender * 0.12, gaugeH);
+  ctx.fillStyle = STEAM_COLOR;
+  ctx.fillRect(
+    px + t.tileRender * 0.66,
+    py + t.tileRender * 0.24 + gaugeH * (1 - steam01),
+    t.tileRender * 0.12,
+    gaugeH * steam01,
+  );
+  ctx.restore();
+}
+
+function drawSteamEngine(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  output01: number,
+  t: Transform,
+  tick: number,
+  motionEnabled: boolean,
+): void {
+  const px = t.offsetX + x * t.tileRender;
+  const py = t.offsetY + y * t.tileRender;
+  const cx = px + t.tileRender / 2;
+  const cy = py + t.tileRender / 2;
+  const radius = t.tileRender * 0.3;
+  const angle = motionEnabled ? (tick / 10) * output01 : 0;
+
+  ctx.save();
+  ctx.fillStyle = STEAM_ENGINE_COLOR;
+  ctx.fillRect(px + t.tileRender * 0.08, py + t.tileRender * 0.08, t.tileRender * 0.84, t.tileRender * 0.84);
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.5)";
+  ctx.lineWidth = Math.max(1, t.scale * 1.5);
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.moveTo(cx, cy);
+  ctx.lineTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+  ctx.stroke();
+  ctx.fillStyle = output01 > 0 ? "#ffe066" : "#55606a";
+  ctx.beginPath();
+  ctx.arc(cx, cy, Math.max(1.5, t.tileRender * 0.07), 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+/** Darkest the world gets at midnight, as the alpha of the shade drawn over it. */
+const NIGHT_SHADE_MAX_ALPHA = 0.6;
+
+/** Fill level of a fluid box, or 0 when the entity reports none. */
+const getFluidFill01 = (fluid: SnapshotFluidBox | undefined): number => {
+  return fluid === undefined || fluid.capacity <= 0 ? 0 : clamp01(fluid.amount / fluid.capacity);
+};
+
+/** A gauge that fills upwards with the fluid's colour. */
+function drawFluidLevel(
+  ctx: CanvasRenderingContext2D,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  fluid: SnapshotFluidBox | undefined,
+): void {
+  const fill01 = getFluidFill01(fluid);
+  ctx.fillStyle = FLUID_EMPTY_COLOR;
+  ctx.fillRect(left, top, width, height);
+  if (fill01 > 0 && fluid !== undefined && fluid.fluid !== null) {
+    ctx.fillStyle = FLUID_COLORS[fluid.fluid];
+    ctx.fillRect(left, top + height * (1 - fill01), width, height * fill01);
+  }
+}
+
+/** Pipe body: a hub in the middle of the tile with an arm out to every connected side. */
+function drawPipeBody(
+  ctx: CanvasRenderingContext2D,
+  px: number,
+  py: number,
+  connections: ReadonlyArray<Direction>,
+  t: Transform,
+): void {
+  const center = t.tileRender / 2;
+  const half = t.tileRender * 0.2;
+  ctx.fillStyle = PIPE_COLOR;
+  ctx.fillRect(px + center - half, py + center - half, half * 2, half * 2);
+  for (const side of connections) {
+    const v = DIRECTION_VECTORS[side];
+    ctx.fillRect(
+      v.x === 0 ? px + center - half : v.x > 0 ? px + center : px,
+      v.y === 0 ? py + center - half : v.y > 0 ? py + center : py,
+      v.x === 0 ? half * 2 : center,
+      v.y === 0 ? half * 2 : center,
+    );
+  }
+}
+
+function drawPipe(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  fluid: SnapshotFluidBox | undefined,
+  t: Transform,
+): void {
+  const px = t.offsetX + x * t.tileRender;
+  const py = t.offsetY + y * t.tileRender;
+  const gauge = t.tileRender * 0.24;
+
+  ctx.save();
+  drawPipeBody(ctx, px, py, fluid?.connections ?? [], t);
+  drawFluidLevel(ctx, px + (t.tileRender - gauge) / 2, py + (t.tileRender - gauge) / 2, gauge, gauge, fluid);
+  ctx.restore();
+}
+
+function drawPipeToGround(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  rot: Direction,
+  fluid: SnapshotFluidBox | undefined,
+  t: Transform,
+): void {
+  const px = t.offsetX + x * t.tileRender;
+  const py = t.offsetY + y * t.tileRender;
+  const gauge = t.tileRender * 0.24;
+
+  ctx.save();
+  drawPipeBody(ctx, px, py, fluid?.connections ?? [], t);
+  drawFluidLevel(ctx, px + (t.tileRender - gauge) / 2, py + (t.tileRender - gauge) / 2, gauge, gauge, fluid);
+  // The mouth faces the partner the pipe runs underground to.
+  ctx.translate(px + t.tileRender / 2, py + t.tileRender / 2);
+  ctx.rotate(dirToAngleRad(rot));
+  ctx.fillStyle = UNDERGROUND_MOUTH_COLOR;
+  ctx.fillRect(t.tileRender * 0.2, -t.tileRender * 0.3, t.tileRender * 0.3, t.tileRender * 0.6);
+  ctx.restore();
+}
+
+function drawOffshorePump(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  rot: Direction,
+  fluid: SnapshotFluidBox | undefined,
+  t: Transform,
+): void {
+  const px = t.offsetX + x * t.tileRender;
+  const py = t.offsetY + y * t.tileRender;
+  const inset = t.tileRender * 0.18;
+  const size = t.tileRender - inset * 2;
+
+  ctx.save();
+  drawPipeBody(ctx, px, py, fluid?.connections ?? [], t);
+  ctx.fillStyle = OFFSHORE_PUMP_COLOR;
+  ctx.fillRect(px + inset, py + inset, size, size);
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.45)";
+  ctx.lineWidth = Math.max(1, t.scale);
+  ctx.strokeRect(px + inset, py + inset, size, size);
+  drawFluidLevel(ctx, px + t.tileRender * 0.36, py + t.tileRender * 0.36, t.tileRender * 0.28, t.tileRender * 0.28, fluid);
+  // An arrow points away from the water, towards the side the pump feeds.
+  ctx.translate(px + t.tileRender / 2, py + t.tileRender / 2);
+  ctx.rotate(dirToAngleRad(rot));
+  ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+  ctx.beginPath();
+  ctx.moveTo(t.tileRender * 0.3, 0);
+  ctx.lineTo(t.tileRender * 0.18, -t.tileRender * 0.1);
+  ctx.lineTo(t.tileRender * 0.18, t.tileRender * 0.1);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawStorageTank(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  fluid: SnapshotFluidBox | undefined,
+  t: Transform,
+): void {
+  const px = t.offsetX + x * t.tileRender;
+  const py = t.offsetY + y * t.tileRender;
+  const inset = t.tileRender * 0.06;
+  const size = t.tileRender - inset * 2;
+
+  ctx.save();
+  ctx.fillStyle = STORAGE_TANK_COLOR;
+  ctx.fillRect(px + inset, py + inset, size, size);
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.45)";
+  ctx.lineWidth = Math.max(1, t.scale);
+  ctx.strokeRect(px + inset, py + inset, size, size);
+  drawFluidLevel(ctx, px + t.tileRender * 0.22, py + t.tileRender * 0.16, t.tileRender * 0.56, t.tileRender * 0.68, fluid);
+  ctx.restore();
+}
+
+function drawNightShade(ctx: CanvasRenderingContext2D, gridW: number, gridH: number, daylight: number, t: Transform): void {
+  const alpha = (1 - clamp01(daylight)) * NIGHT_SHADE_MAX_ALPHA;
+  if (alpha <= 0) {
+    return;
+  }
+
+  ctx.save();
+  ctx.translate(t.offsetX, t.offsetY);
+  ctx.fillStyle = `rgba(8, 12, 36, ${alpha.toFixed(3)})`;
+  ctx.fillRect(0, 0, gridW * t.tileRender, gridH * t.tileRender);
+  ctx.restore();
+}
+
+function drawPowerOverlay(
+  ctx: CanvasRenderingContext2D,
+  grid: PowerGridLayout,
+  entities: Snapshot["entities"],
+  t: Transform,
+): void {
+  const entityById = new Map(entities.map((entity) => [entity.id, entity]));
+  ctx.save();
+  grid.networks.forEach((network, index) => {
+    const hue = POWER_NETWORK_HUES[index % POWER_NETWORK_HUES.length] ?? 0;
+    for (const id of network.memberIds) {
+      const entity = entityById.get(id);
+      if (entity === undefined) continue;
+      const pos = entity.pos;
+      if (entity.kind === "power-pole") {
+        const reach = POWER_POLE_SUPPLY_RADIUS;
+        ctx.fillStyle = `hsla(${hue}, 80%, 60%, 0.08)`;
+        ctx.fillRect(
+          t.offsetX + (pos.x - reach) * t.tileRender,
+          t.offsetY + (pos.y - reach) * t.tileRender,
+          (reach * 2 + 1) * t.tileRender,
+          (reach * 2 + 1) * t.tileRender,
+        );
+      }
+      ctx.strokeStyle = `hsla(${hue}, 80%, 60%, 0.85)`;
+      ctx.lineWidth = Math.max(1, Math.floor(t.scale * 2));
+      ctx.strokeRect(
+        Math.floor(t.offsetX + pos.x * t.tileRender) + 1.5,
+        Math.floor(t.offsetY + pos.y * t.tileRender) + 1.5,
+        Math.ceil(t.tileRender) - 3,
+        Math.ceil(t.tileRender) - 3,
+      );
+    }
+  });
+
+  ctx.strokeStyle = POWER_WIRE_COLOR;
+  ctx.lineWidth = Math.max(1, t.scale * 1.5);
+  ctx.beginPath();
+  for (const wire of grid.wires) {
+    ctx.moveTo(t.offsetX + (wire.from.x + 0.5) * t.tileRender, t.offsetY + (wire.from.y + 0.3) * t.tileRender);
+    ctx.lineTo(t.offsetX + (wire.to.x + 0.5) * t.tileRender, t.offsetY + (wire.to.y + 0.3) * t.tileRender);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
 function clamp01(n: number): number {
   if (!Number.isFinite(n)) return 0;
   if (n < 0) return 0;
@@ -838,8 +1274,12 @@ type InserterState = "idle" | "pickup" | "swing" | "drop";
 type BeltItem = {
   kind: ItemKind;
   pos: number;
+  /** Sideways offset from the belt centre line, in tiles (negative is the left lane). */
+  offset: number;
 };
 
+const BELT_LANE_OFFSET = 0.17;
+
 const drawConveyorLoadHint = (
   ctx: CanvasRenderingContext2D,
   px: number,
@@ -876,25 +1316,37 @@ function parseBeltItems(items: ReadonlyArray<ItemKind | null> | undefined): Belt
 
   for (let index = 0; index < items.length; index += 1) {
     const itemKind = items[index];
-    if (
-      itemKind !== "iron-ore" &&
-      itemKind !== "iron-plate" &&
-      itemKind !== "coal" &&
-      itemKind !== "iron-gear" &&
-      itemKind !== "wood"
-    ) {
+    if (itemKind === null || itemKind === undefined || !isItemKind(itemKind)) {
       continue;
     }
 
     result.push({
       kind: itemKind,
       pos: clamp01((index + 0.5) / denom),
+      offset: 0,
     });
   }
 
   return result;
 }
 
+function parseBeltLaneItems(lanes: ReadonlyArray<ReadonlyArray<SnapshotBeltLaneItem>>): BeltItem[] {
+  const result: BeltItem[] = [];
+
+  lanes.forEach((lane, laneIndex) => {
+    const offset = laneIndex === 0 ? -BELT_LANE_OFFSET : BELT_LANE_OFFSET;
+    for (const entry of lane) {
+      if (!isItemKind(entry.item)) {
+        continue;
+      }
+
+      result.push({ kind: entry.item, pos: clamp01(entry.pos), offset });
+    }
+  });
+
+  return result;
+}
+
 function parseInserterPhase(state: InserterState | undefined, tick: number, motionEnabled: boolean): number {
   const base = state === "pickup" ? 0.2 : state === "swing" ? 0.5 : state === "drop" ? 0.8 : 0.15;
   const sweep = motionEnabled ? ((tick % 20) / 20 - 0.5) * 0.12 : 0;
@@ -909,9 +1361,11 @@ function parseFurnaceProgress(progress01: number | undefined): number | null {
 }
 
 type RendererApi = {
-  setGhost(tile: Tile | null, valid: boolean): void;
+  setGhost(tile: Tile | null, valid: boolean, overlay?: GhostOverlay): void;
   setPaused(paused: boolean): void;
   setReducedMotionEnabled(enabled: boolean): void;
+  /** Tints each power network's members and draws pole supply areas and wires. */
+  setPowerOverlayEnabled(enabled: boolean): void;
   requestRender(): void;
   resize?(width: number, height: number): void;
   destroy(): void;
@@ -930,6 +1384,12 @@ const toBoundaryCounter = (value: unknown): number | null => {
   return Math.floor(value);
 };
 
+/** Prefers the sim's own snapshot, e.g. the latest worker frame, over building one from its entities. */
+const readSimSnapshot = (sim: object): Snapshot => {
+  const getSnapshot = (sim as { getSnapshot?: () => Snapshot }).getSnapshot;
+  return typeof getSnapshot === "function" ? getSnapshot.call(sim) : createSnapshot(sim);
+};
+
 type PlacementTiming = {
   tick: number | null;
   revision: number | null;
@@ -1000,7 +1460,7 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
   ctx.imageSmoothingEnabled = true;
   ctx.imageSmoothingQuality = "high";
 
-  let ghost: { tile: Tile | null; valid: boolean } = { tile: null, valid: false };
+  let ghost: GhostState = { tile: null, valid: false };
   let committedTick: number | null = null;
   let committedRevision: number | null = null;
   let committedSnapshot: Snapshot | null = null;
@@ -1011,6 +1471,11 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
   let lastRenderedSvgs = !!window.__USE_SVGS__;
   let reducedMotionEnabled = false;
   let lastRenderedReducedMotion = false;
+  let powerOverlayEnabled = false;
+  let lastRenderedPowerOverlay = false;
+  let lastRenderedDaylight: number | null = null;
+  let powerGridSnapshot: Snapshot | null = null;
+  let powerGrid: PowerGridLayout | null = null;
   let rafId: number | null = null;
   let renderQueued = false;
   let destroyed = false;
@@ -1029,7 +1494,7 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
     const nextRevisionValue = nextRevision === null ? 0 : nextRevision;
     if (nextTick === null && nextRevision === null) {
       try {
-        const snapshot = createSnapshot(sim);
+        const snapshot = readSimSnapshot(sim);
         const snapshotTick = toBoundaryCounter(snapshot.time.tick);
         const snapshotRevision = toBoundaryCounter(snapshot.time.revision);
         if (committedSnapshot !== null && committedTick === snapshotTick && committedRevision === snapshotRevision) {
@@ -1049,7 +1514,7 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
     }
 
     try {
-      const snapshot = createSnapshot(sim);
+      const snapshot = readSimSnapshot(sim);
       const snapshotTick = toBoundaryCounter(snapshot.time.tick);
       const snapshotRevision = toBoundaryCounter(snapshot.time.revision);
       committedSnapshot = snapshot;
@@ -1077,7 +1542,7 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
     const snapshotRevision = toBoundaryCounter(snapshot.time.revision);
     const ghostSignature = ghost.tile === null
       ? "null"
-      : `${ghost.tile.x},${ghost.tile.y}:${ghost.valid ? 1 : 0}`;
+      : `${ghost.tile.x},${ghost.tile.y}:${ghost.valid ? 1 : 0}:${getGhostOverlaySignature(ghost.overlay)}`;
     const nextSvgs = !!window.__USE_SVGS__;
     const motionEnabled = !reducedMotionEnabled && !(typeof navigator !== "undefined" && navigator.webdriver === true);
 
@@ -1089,7 +1554,9 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
       ghostSignature === lastRenderedGhostSignature &&
       isPaused === lastRenderedPaused &&
       lastRenderedSvgs === nextSvgs &&
-      lastRenderedReducedMotion === reducedMotionEnabled
+      lastRenderedReducedMotion === reducedMotionEnabled &&
+      lastRenderedPowerOverlay === powerOverlayEnabled &&
+      lastRenderedDaylight === (snapshot.dayNight?.daylight ?? null)
     ) {
       return;
     }
@@ -1109,8 +1576,12 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
 
     // Layers
     drawGrid(ctx, gridW, gridH, tile, t);
+    drawWater(ctx, snapshot.water, t);
+    drawCliffs(ctx, snapshot.cliffs, t);
     drawOre(ctx, snapshot.ore, t);
     drawCoal(ctx, snapshot.coal, t);
+    drawCopper(ctx, snapshot.copper, t);
+    drawStone(ctx, snapshot.stone, t);
     drawWood(ctx, snapshot.wood, t);
 
     // Entities
@@ -1120,13 +1591,31 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
           drawMiner(ctx, e.pos.x, e.pos.y, e.rot, t, e.hasOutput, e.justMined, snapshot.time.tick, motionEnabled);
           break;
         case "belt":
-          drawBelt(ctx, e.pos.x, e.pos.y, e.rot, e.items, t, snapshot.time.tick, motionEnabled);
+        case "fast-belt":
+        case "express-belt":
+          drawBelt(ctx, e.pos.x, e.pos.y, e.rot, e.kind as BeltTierKind, e.items, e.lanes, t, snapshot.time.tick, motionEnabled);
+          break;
+        case "underground-belt":
+          drawUndergroundBelt(
+            ctx,
+            e.pos.x,
+            e.pos.y,
+            e.rot,
+            e.underground?.mode ?? "input",
+            e.lanes,
+            t,
+            snapshot.time.tick,
+            motionEnabled,
+          );
           break;
         case "splitter":
           drawSplitter(ctx, e.pos.x, e.pos.y, e.rot, e.items, t, snapshot.time.tick, motionEnabled);
           break;
         case "inserter":
-          drawInserter(ctx, e.pos.x, e.pos.y, e.rot, e.state, t, snapshot.time.tick, motionEnabled);
+        case "burner-inserter":
+        case "fast-inserter":
+        case "long-handed-inserter":
+          drawInserter(ctx, e.pos.x, e.pos.y, e.rot, e.kind as InserterKind, e.state, t, snapshot.time.tick, motionEnabled);
           break;
         case "furnace": {
           const progress = parseFurnaceProgress(e.progress01);
@@ -1147,12 +1636,44 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
       case "accumulator":
         drawAccumulator(ctx, e.pos.x, e.pos.y, t);
         break;
+      case "power-pole":
+        drawPowerPole(ctx, e.pos.x, e.pos.y, t);
+        break;
+      case "boiler":
+        drawBoiler(ctx, e.pos.x, e.pos.y, clamp01(e.progress01 ?? 0), e.fluid, t);
+        break;
+      case "steam-engine":
+        drawSteamEngine(ctx, e.pos.x, e.pos.y, clamp01(e.progress01 ?? 0), t, snapshot.time.tick, motionEnabled);
+        break;
+      case "pipe":
+        drawPipe(ctx, e.pos.x, e.pos.y, e.fluid, t);
+        break;
+      case "pipe-to-ground":
+        drawPipeToGround(ctx, e.pos.x, e.pos.y, e.rot, e.fluid, t);
+        break;
+      case "offshore-pump":
+        drawOffshorePump(ctx, e.pos.x, e.pos.y, e.rot, e.fluid, t);
+        break;
+      case "storage-tank":
+        drawStorageTank(ctx, e.pos.x, e.pos.y, e.fluid, t);
+        break;
       default:
         // resource/unknown: skip
         break;
       }
     }
 
+    // Night falls on the world, not on the overlays, player marker and ghost drawn after it.
+    drawNightShade(ctx, gridW, gridH, snapshot.dayNight?.daylight ?? 1, t);
+
+    if (powerOverlayEnabled) {
+      if (powerGrid === null || powerGridSnapshot !== snapshot) {
+        powerGrid = computePowerGridLayout(snapshot.entities);
+        powerGridSnapshot = snapshot;
+      }
+      drawPowerOverlay(ctx, powerGrid, snapshot.entities, t);
+    }
+
     const snapshotWithPlayer = snapshot as SnapshotWithOptionalPlayer;
     drawPlayerMarker(ctx, gridW, gridH, t, snapshotWithPlayer, snapshot.time.tick, motionEnabled);
 
@@ -1165,6 +1686,8 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
     lastRenderedPaused = isPaused;
     lastRenderedSvgs = nextSvgs;
     lastRenderedReducedMotion = reducedMotionEnabled;
+    lastRenderedPowerOverlay = powerOverlayEnabled;
+    lastRenderedDaylight = snapshot.dayNight?.daylight ?? null;
   };
 
   const requestRender = (): void => {
@@ -1182,8 +1705,8 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
   requestRender();
 
   return {
-    setGhost(tile: Tile | null, valid: boolean): void {
-      ghost = { tile, valid };
+    setGhost(tile: Tile | null, valid: boolean, overlay?: GhostOverlay): void {
+      ghost = overlay === undefined ? { tile, valid } : { tile, valid, overlay };
       requestRender();
     },
     setPaused(paused: boolean): void {
@@ -1194,6 +1717,10 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
       reducedMotionEnabled = !!enabled;
       requestRender();
     },
+    setPowerOverlayEnabled(enabled: boolean): void {
+      powerOverlayEnabled = !!enabled;
+      requestRender();
+    },
     setCamera(nextCamera: CameraTransform): void {
       const nextZoom = typeof nextCamera.zoom === 'number' && Number.isFinite(nextCamera.zoom)
         ? Math.max(0.05, nextCamera.zoom)
@@ -1208,6 +1735,8 @@ export function createRenderer(canvas: HTMLCanvasElement): RendererApi {
         zoom: nextZoom,
         panX: nextPanX,
         panY: nextPanY,
+        viewWidth: isPositiveSpan(nextCamera.viewWidth) ? nextCamera.viewWidth : camera.viewWidth,
+        viewHeight: isPositiveSpan(nextCamera.viewHeight) ? nextCamera.viewHeight : camera.viewHeight,
       };
       requestRender();
     },
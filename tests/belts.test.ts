@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSim } from '../src/core/sim';
+import { createSnapshot } from '../src/core/snapshot';
+import type { BeltLanes } from '../src/core/belt-lanes';
+import type { Direction, GridCoord, ItemKind } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+
+type BeltState = {
+  item: ItemKind | null;
+  lanes: BeltLanes;
+};
+
+type InserterState = {
+  holding: ItemKind | null;
+  tickPhase: number;
+};
+
+const stepTicks = (sim: ReturnType<typeof createSim>, ticks: number): void => {
+  for (let i = 0; i < ticks; i += 1) {
+    sim.step(TICK_MS);
+  }
+};
+
+const addEntity = <T>(
+  sim: ReturnType<typeof createSim>,
+  kind: string,
+  pos: GridCoord,
+  rot: Direction,
+): T => {
+  const id = sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+  const state = sim.getEntityById(id)?.state;
+  expect(state).toBeDefined();
+  return state as T;
+};
+
+const laneItems = (belt: BeltState): Array<Array<[ItemKind, number]>> =>
+  belt.lanes.map((lane) => lane.map((entry): [ItemKind, number] => [entry.item, entry.progress]));
+
+describe('two-lane belts', () => {
+  it('carries several items per tile on independent lanes', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 501 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const first = addEntity<BeltState>(sim, 'belt', { x: 1, y: 1 }, 'E');
+    const second = addEntity<BeltState>(sim, 'belt', { x: 2, y: 1 }, 'E');
+
+    first.lanes = [
+      [{ item: 'iron-ore', progress: 60 }],
+      [
+        { item: 'coal', progress: 90 },
+        { item: 'iron-plate', progress: 30 },
+      ],
+    ];
+
+    stepTicks(sim, 4);
+    expect(laneItems(first)).toEqual([[['iron-ore', 92]], [['iron-plate', 62]]]);
+    expect(laneItems(second)).toEqual([[], [['coal', 0]]]);
+
+    stepTicks(sim, 4);
+    expect(laneItems(first)).toEqual([[], [['iron-plate', 94]]]);
+    expect(laneItems(second)).toEqual([[['iron-ore', 0]], [['coal', 32]]]);
+    expect(second.item).toBe('coal');
+  });
+
+  it('queues items at the tile end when the belt ahead is missing', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 502 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const belt = addEntity<BeltState>(sim, 'belt', { x: 1, y: 1 }, 'E');
+
+    belt.lanes = [
+      [],
+      [
+        { item: 'iron-ore', progress: 60 },
+        { item: 'iron-ore', progress: 50 },
+        { item: 'coal', progress: 0 },
+      ],
+    ];
+
+    stepTicks(sim, 30);
+    expect(laneItems(belt)).toEqual([[], [['iron-ore', 120], ['iron-ore', 90], ['coal', 60]]]);
+  });
+
+  it('side-loads onto the near lane when the target belt has a straight feeder', () => {
+    const sim = createSim({ width: 8, height: 5, seed: 503 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 1 }, 'N');
+    addEntity<BeltState>(sim, 'belt', { x: 1, y: 2 }, 'E');
+    const main = addEntity<BeltState>(sim, 'belt', { x: 2, y: 2 }, 'E');
+    const side = addEntity<BeltState>(sim, 'belt', { x: 2, y: 1 }, 'S');
+
+    side.lanes = [[], [{ item: 'iron-plate', progress: 112 }]];
+    stepTicks(sim, 1);
+
+    expect(laneItems(side)).toEqual([[], []]);
+    expect(laneItems(main)).toEqual([[['iron-plate', 60]], []]);
+  });
+
+  it('keeps the lane through a curve with no straight feeder', () => {
+    const sim = createSim({ width: 8, height: 5, seed: 504 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 1 }, 'N');
+    const main = addEntity<BeltState>(sim, 'belt', { x: 2, y: 2 }, 'E');
+    const side = addEntity<BeltState>(sim, 'belt', { x: 2, y: 1 }, 'S');
+
+    side.lanes = [[], [{ item: 'iron-plate', progress: 112 }]];
+    stepTicks(sim, 1);
+
+    expect(laneItems(main)).toEqual([[], [['iron-plate', 0]]]);
+  });
+
+  it('drops onto the far lane and picks from the near lane', () => {
+    const sim = createSim({ width: 8, height: 6, seed: 505 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 1 }, 'N');
+    const dropper = addEntity<InserterState>(sim, 'inserter', { x: 2, y: 1 }, 'S');
+    const belt = addEntity<BeltState>(sim, 'belt', { x: 2, y: 2 }, 'E');
+    const picker = addEntity<InserterState>(sim, 'inserter', { x: 2, y: 3 }, 'S');
+    addEntity(sim, 'solar-panel', { x: 1, y: 3 }, 'N');
+
+    belt.lanes = [[{ item: 'iron-ore', progress: 0 }], [{ item: 'coal', progress: 0 }]];
+    dropper.holding = 'iron-plate';
+    dropper.tickPhase = 18;
+    picker.tickPhase = 19;
+
+    stepTicks(sim, 1);
+    expect(picker.holding).toBe('coal');
+    expect(laneItems(belt)).toEqual([[['iron-ore', 8]], []]);
+
+    stepTicks(sim, 1);
+    expect(dropper.holding).toBeNull();
+    expect(laneItems(belt)).toEqual([[['iron-ore', 16]], [['iron-plate', 60]]]);
+  });
+
+  it('exposes per-item lane positions in snapshots', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 506 });
+    const belt = addEntity<BeltState>(sim, 'belt', { x: 1, y: 1 }, 'E');
+    belt.lanes = [[{ item: 'iron-ore', progress: 82 }], [{ item: 'coal', progress: 22 }]];
+    stepTicks(sim, 1);
+
+    const entity = createSnapshot(sim).entities.find((candidate) => candidate.kind === 'belt');
+    expect(entity?.lanes).toEqual([[{ item: 'iron-ore', pos: 0.75 }], [{ item: 'coal', pos: 0.25 }]]);
+  });
+
+  it('adopts single-slot writes onto the entry of the default lane', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 507 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const source = addEntity<BeltState>(sim, 'belt', { x: 1, y: 1 }, 'E');
+    const target = addEntity<BeltState>(sim, 'belt', { x: 2, y: 1 }, 'E');
+
+    source.item = 'iron-ore';
+    stepTicks(sim, 14);
+    expect(laneItems(source)).toEqual([[], [['iron-ore', 112]]]);
+
+    stepTicks(sim, 1);
+    expect(source.item).toBeNull();
+    expect(target.item).toBe('iron-ore');
+  });
+});
+
+describe('belt tiers', () => {
+  it.each([
+    ['fast-belt', 7, 105],
+    ['express-belt', 4, 96],
+  ])('moves items across a %s tile at its own cadence', (kind, ticks, progress) => {
+    const sim = createSim({ width: 8, height: 4, seed: 601 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const source = addEntity<BeltState>(sim, kind, { x: 1, y: 1 }, 'E');
+    const target = addEntity<BeltState>(sim, kind, { x: 2, y: 1 }, 'E');
+
+    source.item = 'iron-ore';
+    stepTicks(sim, ticks);
+    expect(laneItems(source)).toEqual([[], [['iron-ore', progress]]]);
+
+    stepTicks(sim, 1);
+    expect(source.item).toBeNull();
+    expect(laneItems(target)).toEqual([[], [['iron-ore', 0]]]);
+  });
+
+  it('hands items across tier boundaries in both directions', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 602 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const express = addEntity<BeltState>(sim, 'express-belt', { x: 1, y: 1 }, 'E');
+    const basic = addEntity<BeltState>(sim, 'belt', { x: 2, y: 1 }, 'E');
+    const fast = addEntity<BeltState>(sim, 'fast-belt', { x: 3, y: 1 }, 'E');
+
+    express.lanes = [[{ item: 'coal', progress: 96 }], [{ item: 'iron-plate', progress: 48 }]];
+    stepTicks(sim, 1);
+    expect(laneItems(express)).toEqual([[], [['iron-plate', 72]]]);
+    expect(laneItems(basic)).toEqual([[['coal', 0]], []]);
+
+    stepTicks(sim, 2);
+    expect(laneItems(express)).toEqual([[], []]);
+    expect(laneItems(basic)).toEqual([[['coal', 16]], [['iron-plate', 0]]]);
+
+    stepTicks(sim, 13);
+    expect(laneItems(basic)).toEqual([[], [['iron-plate', 104]]]);
+    expect(laneItems(fast)).toEqual([[['coal', 0]], []]);
+
+    stepTicks(sim, 1);
+    expect(laneItems(fast)).toEqual([[['coal', 15]], []]);
+  });
+
+  it('charges each tier its own transfer power', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 603 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const express = addEntity<BeltState>(sim, 'express-belt', { x: 1, y: 1 }, 'E');
+    addEntity<BeltState>(sim, 'belt', { x: 2, y: 1 }, 'E');
+
+    express.lanes = [[], [{ item: 'coal', progress: 96 }]];
+    stepTicks(sim, 1);
+
+    expect(sim.getPowerState().consumedByKind['belt-transfer']).toBe(3);
+  });
+});
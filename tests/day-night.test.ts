@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { DAY_LENGTH_TICKS, formatTimeOfDay, getDaylight } from '../src/core/daylight';
+import { createMap } from '../src/core/map';
+import { getPowerRunwayTicks, getSimulationMetrics } from '../src/core/metrics';
+import { createSim } from '../src/core/sim';
+import { createSnapshot } from '../src/core/snapshot';
+import type { GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+const CONFIG = { width: 12, height: 6, seed: 404 };
+
+const createSolarSim = () => {
+  const sim = createSim({ ...CONFIG, map: createMap(CONFIG.width, CONFIG.height, CONFIG.seed) });
+  sim.restoreState({ power: { storage: 0 } });
+  const add = (kind: string, pos: GridCoord): string =>
+    sim.addEntity({ kind, pos, rot: 'N' } as Parameters<typeof sim.addEntity>[0]);
+  const run = (ticks: number): void => {
+    for (let tick = 0; tick < ticks; tick += 1) {
+      sim.step(TICK_MS);
+    }
+  };
+  return { sim, add, run };
+};
+
+describe('day/night cycle', () => {
+  it('ramps daylight through dawn and dusk', () => {
+    expect(getDaylight(0)).toBe(0);
+    expect(getDaylight(0.25)).toBeCloseTo(0.5);
+    expect(getDaylight(0.5)).toBe(1);
+    expect(getDaylight(0.75)).toBeCloseTo(0.5);
+    expect(getDaylight(0.9)).toBe(0);
+    expect(formatTimeOfDay(0.5)).toBe('12:00');
+    expect(formatTimeOfDay(0.2604)).toBe('06:14');
+  });
+
+  it('starts at noon, advances with ticks and scales solar output by daylight', () => {
+    const { sim, add, run } = createSolarSim();
+    add('solar-panel', { x: 1, y: 1 });
+    expect(sim.getDayNight()).toMatchObject({ dayTicks: DAY_LENGTH_TICKS / 2, timeOfDay: 0.5, daylight: 1 });
+
+    run(1);
+    expect(sim.getPowerState().generatedThisTick).toBe(6);
+    expect(sim.getDayNight().dayTicks).toBe(DAY_LENGTH_TICKS / 2 + 1);
+
+    sim.setTimeOfDay(0.75);
+    run(1);
+    expect(sim.getPowerState().generatedThisTick).toBe(3);
+
+    sim.setTimeOfDay(0);
+    run(1);
+    expect(sim.getPowerState().generatedThisTick).toBe(0);
+    expect(sim.getPowerState().storage).toBe(9);
+  });
+
+  it('wraps at the end of the day and keeps the phase through export and restore', () => {
+    const { sim, run } = createSolarSim();
+    sim.setTimeOfDay(1 - 2 / DAY_LENGTH_TICKS);
+    run(3);
+    expect(sim.getDayNight().dayTicks).toBe(1);
+
+    const exported = sim.exportState();
+    expect(exported.dayTicks).toBe(1);
+    const { sim: restored } = createSolarSim();
+    restored.restoreState(exported);
+    expect(restored.getDayNight().dayTicks).toBe(1);
+    expect(restored.getStateHash()).toEqual(sim.getStateHash());
+
+    // A save from before the cycle existed resumes where a game started at noon would be.
+    restored.restoreState({ ...exported, dayTicks: undefined, tick: 100 });
+    expect(restored.getDayNight().dayTicks).toBe(DAY_LENGTH_TICKS / 2 + 100);
+  });
+
+  it('reports the cycle in snapshots and metrics, with runway while storage drains', () => {
+    const { sim, add, run } = createSolarSim();
+    sim.restoreState({ power: { storage: 100 } });
+    const accumulator = add('accumulator', { x: 1, y: 1 });
+    sim.setTimeOfDay(0.25);
+    run(1);
+
+    expect(createSnapshot(sim).dayNight).toEqual({
+      dayTicks: DAY_LENGTH_TICKS / 4 + 1,
+      dayLengthTicks: DAY_LENGTH_TICKS,
+      timeOfDay: (DAY_LENGTH_TICKS / 4 + 1) / DAY_LENGTH_TICKS,
+      daylight: getDaylight((DAY_LENGTH_TICKS / 4 + 1) / DAY_LENGTH_TICKS),
+    });
+    expect(getSimulationMetrics(sim)).toMatchObject({ timeOfDayMinutes: 360, daylightPercent: 50 });
+
+    expect(sim.consumePower(4, 'test', accumulator)).toBe(true);
+    const metrics = getSimulationMetrics(sim);
+    expect(metrics === null ? null : getPowerRunwayTicks(metrics)).toBe(24);
+    expect(getPowerRunwayTicks({ powerStorage: 50, powerConsumedThisTick: 2, powerGeneratedThisTick: 3 })).toBeNull();
+  });
+});
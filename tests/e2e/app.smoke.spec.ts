@@ -514,10 +514,7 @@ const VALID_SLOT_STATE = {
     maxFuel: 100,
   },
   inventory: {
-    ore: 0,
-    plate: 0,
-    gear: 0,
-    coal: 0,
+    items: {},
     used: 0,
     capacity: 24,
   },
@@ -832,12 +829,15 @@ const readRuntimeInventory = async (page: Page): Promise<RuntimeItemInventory> =
       return Math.max(0, Math.floor(value));
     };
 
+    const rawItems = (inventory as { items?: unknown }).items;
+    const items = rawItems !== null && typeof rawItems === "object" ? (rawItems as Record<string, unknown>) : {};
+
     return {
-      ore: normalize((inventory as { ore?: unknown }).ore),
-      plate: normalize((inventory as { plate?: unknown }).plate),
-      gear: normalize((inventory as { gear?: unknown }).gear),
-      coal: normalize((inventory as { coal?: unknown }).coal),
-      wood: normalize((inventory as { wood?: unknown }).wood),
+      ore: normalize(items["iron-ore"]),
+      plate: normalize(items["iron-plate"]),
+      gear: normalize(items["iron-gear"]),
+      coal: normalize(items.coal),
+      wood: normalize(items.wood),
       used: normalize((inventory as { used?: unknown }).used),
       capacity: normalize((inventory as { capacity?: unknown }).capacity),
     };
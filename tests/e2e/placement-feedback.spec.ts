@@ -142,12 +142,14 @@ const readPlayerInventory = async (
       return null;
     }
 
-    const ore = typeof (rawInventory as { ore?: unknown }).ore === "number" ? Math.floor((rawInventory as { ore: number }).ore) : 0;
-    const plate =
-      typeof (rawInventory as { plate?: unknown }).plate === "number" ? Math.floor((rawInventory as { plate: number }).plate) : 0;
-    const gear = typeof (rawInventory as { gear?: unknown }).gear === "number" ? Math.floor((rawInventory as { gear: number }).gear) : 0;
-    const coal = typeof (rawInventory as { coal?: unknown }).coal === "number" ? Math.floor((rawInventory as { coal: number }).coal) : 0;
-    const wood = typeof (rawInventory as { wood?: unknown }).wood === "number" ? Math.floor((rawInventory as { wood: number }).wood) : 0;
+    const rawItems = (rawInventory as { items?: unknown }).items;
+    const items = rawItems !== null && typeof rawItems === "object" ? (rawItems as Record<string, unknown>) : {};
+    const readItem = (item: string): number => (typeof items[item] === "number" ? Math.floor(items[item] as number) : 0);
+    const ore = readItem("iron-ore");
+    const plate = readItem("iron-plate");
+    const gear = readItem("iron-gear");
+    const coal = readItem("coal");
+    const wood = readItem("wood");
     const used = Math.floor(
       typeof (rawInventory as { used?: unknown }).used === "number" ? (rawInventory as { used: number }).used : ore + plate + gear + coal + wood,
     );
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+
+import '../src/entities/all';
+import {
+  FLUID_BOX_CAPACITY,
+  FLUID_FLOW_PER_TICK,
+  OFFSHORE_PUMP_WATER_PER_TICK,
+  PIPE_TO_GROUND_MAX_SPAN,
+  computeFluidNetworks,
+  flowFluidLinks,
+  type FluidBox,
+} from '../src/core/fluids';
+import { createChunkedMap, createMap, type GeneratedMap } from '../src/core/map';
+import { CHUNKED_MAP_SIZE } from '../src/core/map-chunks';
+import { createSim } from '../src/core/sim';
+import { createSnapshot } from '../src/core/snapshot';
+import type { Direction, GridCoord } from '../src/core/types';
+
+const TICK_MS = 1000 / 60;
+const SPAWN = CHUNKED_MAP_SIZE / 2;
+
+/** A land tile with water to its west and land for a few tiles to its east. */
+const findShore = (map: GeneratedMap): GridCoord => {
+  for (let y = SPAWN - 200; y < SPAWN + 200; y += 1) {
+    for (let x = SPAWN - 200; x < SPAWN + 200; x += 1) {
+      if (map.isWater?.(x - 1, y) !== true) {
+        continue;
+      }
+      const row = [0, 1, 2, 3, 4, 5, 6].map((dx) => map.getTile(x + dx, y));
+      if (row.every((tile) => tile !== 'water' && tile !== 'cliff')) {
+        return { x, y };
+      }
+    }
+  }
+  throw new Error('no shore near spawn');
+};
+
+const createFluidSim = (map: GeneratedMap = createMap(24, 8, 5)) => {
+  const sim = createSim({ width: map.width, height: map.height, seed: 1, map });
+  const add = (kind: string, pos: GridCoord, rot: Direction = 'N'): string =>
+    sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+  const box = (id: string): FluidBox => (sim.getEntityById(id)?.state as { fluidBox: FluidBox }).fluidBox;
+  const fill = (id: string, amount: number): void => {
+    (sim.getEntityById(id)?.state as { fluidBox: FluidBox }).fluidBox = { fluid: 'water', amount };
+  };
+  const run = (ticks: number): void => {
+    for (let tick = 0; tick < ticks; tick += 1) {
+      sim.step(TICK_MS);
+    }
+  };
+  return { sim, add, box, fill, run };
+};
+
+describe('fluids', () => {
+  it('pumps water from a lake through pipes into a storage tank', () => {
+    const map = createChunkedMap(1);
+    const shore = findShore(map);
+    const build = () => {
+      const fluidSim = createFluidSim(createChunkedMap(1));
+      const ids = [fluidSim.add('offshore-pump', shore, 'E')];
+      for (let dx = 1; dx <= 4; dx += 1) {
+        ids.push(fluidSim.add('pipe', { x: shore.x + dx, y: shore.y }));
+      }
+      ids.push(fluidSim.add('storage-tank', { x: shore.x + 5, y: shore.y }));
+      fluidSim.run(60);
+      return { ...fluidSim, ids };
+    };
+
+    const { sim, box, ids } = build();
+    // Nothing drains the network, so it holds everything pumped; the pump slows down once its own box backs up.
+    const total = ids.reduce((sum, id) => sum + box(id).amount, 0);
+    expect(total).toBeGreaterThan(0);
+    expect(total).toBeLessThanOrEqual(OFFSHORE_PUMP_WATER_PER_TICK * 60);
+    expect(box(ids[5] ?? '')).toMatchObject({ fluid: 'water', amount: expect.any(Number) });
+    expect(box(ids[5] ?? '').amount).toBeGreaterThan(0);
+    expect(build().sim.exportState().entities).toEqual(sim.exportState().entities);
+  });
+
+  it('only places offshore pumps with water behind them', () => {
+    const map = createChunkedMap(1);
+    const shore = findShore(map);
+    expect(map.place('offshore-pump', shore, { rot: 'W' })).toMatchObject({ ok: false, reason: 'offshore-pump-needs-water' });
+    expect(map.place('offshore-pump', shore, { rot: 'E' })).toMatchObject({ ok: true });
+
+    const { add, box, run } = createFluidSim();
+    const dry = add('offshore-pump', { x: 4, y: 4 }, 'E');
+    run(10);
+    expect(box(dry)).toEqual({ fluid: null, amount: 0 });
+  });
+
+  it('evens out fluid across a network by capacity and leaves other networks alone', () => {
+    const { add, box, fill, run } = createFluidSim();
+    const tank = add('storage-tank', { x: 2, y: 2 });
+    const pipe = add('pipe', { x: 3, y: 2 });
+    const apart = add('pipe', { x: 5, y: 2 });
+    fill(tank, 1300);
+
+    run(1);
+    expect(box(tank).amount).toBe(1250);
+    expect(box(pipe)).toEqual({ fluid: 'water', amount: 50 });
+    expect(box(apart)).toEqual({ fluid: null, amount: 0 });
+  });
+
+  it('joins pipes-to-ground that face each other within range', () => {
+    const { sim, add, box, fill, run } = createFluidSim();
+    const tank = add('storage-tank', { x: 1, y: 2 });
+    add('pipe-to-ground', { x: 2, y: 2 }, 'E');
+    add('pipe-to-ground', { x: 3 + PIPE_TO_GROUND_MAX_SPAN, y: 2 }, 'W');
+    const far = add('pipe', { x: 4 + PIPE_TO_GROUND_MAX_SPAN, y: 2 });
+    // A pipe beside the entrance's underground side does not connect to it.
+    const beside = add('pipe', { x: 3, y: 3 });
+    fill(tank, 2000);
+
+    // Fluid moves one link a tick: into the entrance, underground to the exit, then into the pipe.
+    run(2);
+    expect(box(far).amount).toBe(0);
+    run(1);
+    expect(box(far).amount).toBeGreaterThan(0);
+    expect(box(beside).amount).toBe(0);
+
+    const networks = computeFluidNetworks(sim.getAllEntities(), (pos) => sim.getEntitiesAt(pos));
+    expect(networks.map((network) => network.length)).toEqual([4, 1]);
+  });
+
+  it('does not join pipes-to-ground beyond their span', () => {
+    const { add, box, fill, run } = createFluidSim();
+    const tank = add('storage-tank', { x: 1, y: 2 });
+    add('pipe-to-ground', { x: 2, y: 2 }, 'E');
+    const exit = add('pipe-to-ground', { x: 4 + PIPE_TO_GROUND_MAX_SPAN, y: 2 }, 'W');
+    fill(tank, 2000);
+
+    run(5);
+    expect(box(exit).amount).toBe(0);
+  });
+
+  it('boils water from its network and keeps its fuel while dry', () => {
+    const { sim, add, box, fill, run } = createFluidSim();
+    const boiler = add('boiler', { x: 3, y: 2 });
+    const state = () => sim.getEntityById(boiler)?.state as { fuel: number; steam: number; acceptItem: (item: string) => boolean };
+    state().acceptItem('coal');
+
+    run(5);
+    expect(state()).toMatchObject({ fuel: 1, steam: 0 });
+
+    const tank = add('storage-tank', { x: 3, y: 3 });
+    fill(tank, 1350);
+    run(1);
+    // The link passes at most FLUID_FLOW_PER_TICK a tick; each unit of steam uses one.
+    expect(state()).toMatchObject({ fuel: 0, steam: 10 });
+    expect(box(boiler).amount).toBe(FLUID_FLOW_PER_TICK - 10);
+    expect(box(tank).amount + box(boiler).amount).toBe(1340);
+  });
+
+  it('reports fluid boxes and pipe joints in snapshots', () => {
+    const { sim, add, fill, run } = createFluidSim();
+    const tank = add('storage-tank', { x: 2, y: 2 });
+    const pipe = add('pipe', { x: 3, y: 2 });
+    add('pipe-to-ground', { x: 4, y: 2 }, 'E');
+    fill(tank, 1000);
+    run(1);
+
+    const entities = createSnapshot(sim).entities;
+    const pipeSnapshot = entities.find((entity) => entity.id === pipe);
+    expect(pipeSnapshot?.fluid).toEqual({ fluid: 'water', amount: expect.any(Number), capacity: 100, connections: ['E', 'W'] });
+    expect(entities.find((entity) => entity.kind === 'pipe-to-ground')?.fluid?.connections).toEqual(['W']);
+  });
+
+  it('moves whole units along each link from the levels at the start of the tick', () => {
+    const ends = [
+      { box: { fluid: 'water', amount: 7 } as FluidBox, capacity: 100 },
+      { box: { fluid: null, amount: 0 } as FluidBox, capacity: 100 },
+      { box: { fluid: null, amount: 0 } as FluidBox, capacity: 100 },
+    ] as const;
+    const links = [[ends[0], ends[1]], [ends[1], ends[2]]] as const;
+    flowFluidLinks(links);
+    expect(ends.map((end) => end.box)).toEqual([
+      { fluid: 'water', amount: 4 },
+      { fluid: 'water', amount: 3 },
+      { fluid: null, amount: 0 },
+    ]);
+
+    const full = { box: { fluid: 'water', amount: 2500 } as FluidBox, capacity: 2500 };
+    const empty = { box: { fluid: null, amount: 0 } as FluidBox, capacity: 2500 };
+    flowFluidLinks([[full, empty]]);
+    expect(empty.box.amount).toBe(FLUID_FLOW_PER_TICK);
+    expect(full.box.amount + empty.box.amount).toBe(2500);
+  });
+
+  it('carries less through a long pipeline than a short one', () => {
+    const deliveredThrough = (pipes: number): number => {
+      const { add, box, fill, run } = createFluidSim();
+      const source = add('storage-tank', { x: 1, y: 2 });
+      for (let dx = 1; dx <= pipes; dx += 1) {
+        add('pipe', { x: 1 + dx, y: 2 });
+      }
+      const sink = add('storage-tank', { x: 2 + pipes, y: 2 });
+      fill(source, 2500);
+      run(60);
+      return box(sink).amount;
+    };
+
+    const short = deliveredThrough(1);
+    const long = deliveredThrough(12);
+    expect(long).toBeGreaterThan(0);
+    expect(short).toBeGreaterThan(long);
+    expect(short).toBeLessThanOrEqual(FLUID_FLOW_PER_TICK * 60);
+  });
+});
@@ -107,7 +107,7 @@ const runFurnaceReplay = (): FurnaceReplayRun => {
 
 describe('Furnace', () => {
   it('keeps furnace after a blocked output handoff on the transport phase and updates ranks deterministically', () => {
-    expect(CANONICAL_TICK_PHASES).toEqual(['miner', 'belt', 'furnace', 'inserter']);
+    expect(CANONICAL_TICK_PHASES).toEqual(['miner', 'belt', 'furnace', 'inserter', 'fluid']);
   });
 
   it('produces iron-plate on exact smelt completion boundaries', () => {
@@ -325,10 +325,10 @@ describe('Furnace', () => {
   it('accepts only slice furnace input and emits only slice furnace output', () => {
     const furnace = new Furnace();
 
-    expect(furnace.canAcceptItem('copper-ore')).toBe(false);
-    expect(furnace.acceptItem('copper-ore')).toBe(false);
-    expect(furnace.canAcceptItem(FURNACE_OUTPUT_ITEM)).toBe(false);
-    expect(furnace.acceptItem(FURNACE_OUTPUT_ITEM)).toBe(false);
+    expect(furnace.canAcceptItem('iron-gear')).toBe(false);
+    expect(furnace.acceptItem('iron-gear')).toBe(false);
+    expect(furnace.canAcceptItem('copper-cable')).toBe(false);
+    expect(furnace.acceptItem('copper-cable')).toBe(false);
     expect(furnace.input).toBeNull();
     expect(furnace.output).toBeNull();
 
@@ -436,4 +436,36 @@ describe('Furnace', () => {
     expect(furnace.canProvideItem('coal')).toBe(false);
     expect(furnace.canProvideItem('iron-plate')).toBe(true);
   });
+
+  it('smelts copper ore into copper plates', () => {
+    const furnace = new Furnace();
+
+    expect(furnace.acceptItem(FURNACE_FUEL_ITEM)).toBe(true);
+    expect(furnace.acceptItem('copper-ore')).toBe(true);
+    furnace.update(0);
+    runTicks(furnace, FURNACE_SMELT_TICKS);
+
+    expect(furnace.canProvideItem('copper-plate')).toBe(true);
+    expect(furnace.provideItem('copper-plate')).toBe('copper-plate');
+  });
+
+  it('waits for five iron plates before smelting steel', () => {
+    const furnace = new Furnace();
+
+    expect(furnace.acceptItem(FURNACE_FUEL_ITEM)).toBe(true);
+    for (let i = 0; i < 4; i += 1) {
+      expect(furnace.acceptItem(FURNACE_OUTPUT_ITEM)).toBe(true);
+    }
+    expect(furnace.acceptItem(FURNACE_INPUT_ITEM)).toBe(false);
+    furnace.update(0);
+    expect(furnace.progress01).toBe(0);
+
+    expect(furnace.acceptItem(FURNACE_OUTPUT_ITEM)).toBe(true);
+    expect(furnace.acceptItem(FURNACE_OUTPUT_ITEM)).toBe(false);
+    furnace.update(0);
+    runTicks(furnace, 899);
+    expect(furnace.canProvideItem('steel-plate')).toBe(false);
+    runTicks(furnace, 1);
+    expect(furnace.provideItem('steel-plate')).toBe('steel-plate');
+  });
 });
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatHeadlessResult, loadHeadlessScenario, runHeadless } from '../src/core/headless';
+
+const chestLine = [
+  { kind: 'solar-panel', pos: { x: 1, y: 0 }, rot: 'N' },
+  { kind: 'chest', pos: { x: 0, y: 1 }, rot: 'N', state: { stored: { 'iron-plate': 3 } } },
+  { kind: 'inserter', pos: { x: 1, y: 1 }, rot: 'E' },
+  { kind: 'chest', pos: { x: 2, y: 1 }, rot: 'N' },
+];
+
+describe('headless runner', () => {
+  it('restores a save envelope and samples metrics while it runs', () => {
+    const scenario = loadHeadlessScenario({
+      state: { version: 1, seed: 'headless', width: 8, height: 6, tick: 100, tickCount: 100, elapsedMs: 0, paused: true, entities: chestLine },
+    });
+    expect(scenario.source).toBe('save');
+    expect(scenario.warnings).toEqual([]);
+
+    const result = runHeadless(scenario.sim, { ticks: 120, sampleEvery: 50 });
+    expect(result.samples.map((sample) => sample.tick)).toEqual([150, 200, 220]);
+    expect(result.samples.at(-1)).toMatchObject({ entityCount: 4, chests: 2, inserters: 1, chestPlates: 3 });
+  });
+
+  it('places a blueprint around its origin and reports skipped entries', () => {
+    const scenario = loadHeadlessScenario(
+      {
+        version: 1,
+        anchor: { x: 1, y: 1 },
+        entities: [...chestLine, { kind: 'warp-drive', pos: { x: 0, y: 0 }, rot: 'N' }],
+      },
+      { origin: { x: 10, y: 10 } },
+    );
+
+    expect(scenario.source).toBe('blueprint');
+    expect(scenario.sim.getEntitiesAt({ x: 10, y: 10 }).map((entity) => entity.kind)).toEqual(['inserter']);
+    expect(scenario.warnings).toEqual(['entity 4: unknown kind "warp-drive" skipped']);
+  });
+
+  it('formats samples as csv with a metrics header', () => {
+    const scenario = loadHeadlessScenario({ entities: chestLine });
+    const csv = formatHeadlessResult(runHeadless(scenario.sim, { ticks: 10 }), 'csv').split('\n');
+
+    expect(csv).toHaveLength(2);
+    expect(csv[0]?.startsWith('tick,entityCount,miners,belts')).toBe(true);
+    expect(csv[1]?.startsWith('10,4,0,0')).toBe(true);
+    expect(csv[0]?.split(',')).toEqual(expect.arrayContaining(['itemsInTransit.landfill', 'itemsInChests.copper-cable']));
+  });
+
+  it('counts every registered item, not just the iron chain', () => {
+    const scenario = loadHeadlessScenario({
+      entities: [
+        { kind: 'chest', pos: { x: 0, y: 0 }, rot: 'N', state: { stored: { 'copper-cable': 4, 'steel-plate': 2, 'automation-science-pack': 1 } } },
+        { kind: 'chest', pos: { x: 2, y: 0 }, rot: 'N', state: { stored: { 'steel-plate': 3, 'iron-plate': 1 } } },
+      ],
+    });
+    const sample = runHeadless(scenario.sim, { ticks: 1 }).samples.at(-1);
+
+    expect(sample?.itemsInChests).toMatchObject({
+      'copper-cable': 4,
+      'steel-plate': 5,
+      'automation-science-pack': 1,
+      'iron-plate': 1,
+      landfill: 0,
+    });
+    expect(sample?.chestPlates).toBe(1);
+    expect(Object.values(sample?.itemsInTransit ?? {}).every((count) => count === 0)).toBe(true);
+  });
+
+  it('generates water on a small fixed map, which blocks building until landfilled', () => {
+    const scenario = loadHeadlessScenario({ seed: 2, width: 60, height: 40, mapSettings: {}, entities: [] });
+    const { map } = scenario;
+    const water: Array<{ x: number; y: number }> = [];
+    for (let y = 0; y < map.height; y += 1) {
+      for (let x = 0; x < map.width; x += 1) {
+        if (map.isWater?.(x, y) === true) {
+          water.push({ x, y });
+        }
+      }
+    }
+    expect(water.length).toBeGreaterThan(0);
+
+    const tile = water[0] ?? { x: 0, y: 0 };
+    expect(map.place('chest', tile)).toMatchObject({ ok: false, reason: 'blocked-by-water' });
+    expect(map.fillWater?.(tile.x, tile.y)).toBe(true);
+    expect(map.place('chest', tile)).toMatchObject({ ok: true });
+
+    const shore = water.find((candidate) => map.isWater?.(candidate.x, candidate.y) === true && map.getTile(candidate.x + 1, candidate.y) === 'empty');
+    const pump = shore === undefined ? null : { x: shore.x + 1, y: shore.y };
+    expect(pump).not.toBeNull();
+    const id = scenario.sim.addEntity({ kind: 'offshore-pump', pos: pump ?? tile, rot: 'E' });
+    runHeadless(scenario.sim, { ticks: 1 });
+    expect(scenario.sim.getEntityById(id)?.state).toMatchObject({ fluidBox: { fluid: 'water', amount: 20 } });
+  });
+
+  it('rejects input that is neither a save nor a blueprint', () => {
+    expect(() => loadHeadlessScenario({ version: 1 })).toThrow(TypeError);
+    expect(() => loadHeadlessScenario([])).toThrow(TypeError);
+  });
+});
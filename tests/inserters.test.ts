@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSim } from '../src/core/sim';
+import { createSnapshot } from '../src/core/snapshot';
+import type { BeltLanes } from '../src/core/belt-lanes';
+import type { Direction, GridCoord, ItemKind } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+
+type BeltState = {
+  lanes: BeltLanes;
+};
+
+type InserterState = {
+  holding: ItemKind | null;
+  holdingCount: number;
+  tickPhase: number;
+};
+
+type ChestState = {
+  stored: Record<ItemKind, number>;
+  acceptItem: (item: string) => boolean;
+};
+
+const stepTicks = (sim: ReturnType<typeof createSim>, ticks: number): void => {
+  for (let i = 0; i < ticks; i += 1) {
+    sim.step(TICK_MS);
+  }
+};
+
+const addEntity = <T>(
+  sim: ReturnType<typeof createSim>,
+  kind: string,
+  pos: GridCoord,
+  rot: Direction,
+  state?: Record<string, unknown>,
+): T => {
+  const id = sim.addEntity({ kind, pos, rot, state } as Parameters<typeof sim.addEntity>[0]);
+  const entityState = sim.getEntityById(id)?.state;
+  expect(entityState).toBeDefined();
+  return entityState as T;
+};
+
+const fillChest = (chest: ChestState, item: ItemKind, count: number): void => {
+  for (let i = 0; i < count; i += 1) {
+    expect(chest.acceptItem(item)).toBe(true);
+  }
+};
+
+describe('inserter filters', () => {
+  it('picks only whitelisted items off a mixed belt', () => {
+    const sim = createSim({ width: 8, height: 6, seed: 801 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 3 }, 'N');
+    const belt = addEntity<BeltState>(sim, 'belt', { x: 2, y: 2 }, 'E');
+    const picker = addEntity<InserterState>(sim, 'inserter', { x: 2, y: 3 }, 'S', { filter: ['iron-ore'] });
+    addEntity(sim, 'chest', { x: 2, y: 4 }, 'N');
+
+    belt.lanes = [[], [{ item: 'coal', progress: 60 }, { item: 'iron-ore', progress: 30 }]];
+    picker.tickPhase = 19;
+    stepTicks(sim, 1);
+
+    expect(picker.holding).toBe('iron-ore');
+    expect(belt.lanes[1].map((entry) => entry.item)).toEqual(['coal']);
+  });
+
+  it('leaves a source untouched when nothing matches the filter', () => {
+    const sim = createSim({ width: 8, height: 6, seed: 802 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 2 }, 'N');
+    const source = addEntity<ChestState>(sim, 'chest', { x: 2, y: 1 }, 'N');
+    const inserter = addEntity<InserterState>(sim, 'inserter', { x: 2, y: 2 }, 'S', { filter: ['coal'] });
+    addEntity(sim, 'chest', { x: 2, y: 3 }, 'N');
+
+    fillChest(source, 'iron-plate', 2);
+    inserter.tickPhase = 19;
+    stepTicks(sim, 1);
+
+    expect(inserter.holding).toBeNull();
+    expect(source.stored['iron-plate']).toBe(2);
+  });
+
+  it('reports the filter in snapshots only when one is set', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 803 });
+    addEntity(sim, 'inserter', { x: 1, y: 1 }, 'E', { filter: ['coal', 'iron-ore', 'coal', 'unobtainium'] });
+    addEntity(sim, 'inserter', { x: 3, y: 1 }, 'E');
+    stepTicks(sim, 1);
+
+    const filters = createSnapshot(sim)
+      .entities.filter((entity) => entity.kind === 'inserter')
+      .map((entity) => entity.filter);
+    expect(filters).toEqual([['iron-ore', 'coal'], undefined]);
+  });
+});
+
+describe('inserter stack bonus', () => {
+  it('moves several items per swing into a chest', () => {
+    const sim = createSim({ width: 8, height: 6, seed: 804 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 2 }, 'N');
+    const source = addEntity<ChestState>(sim, 'chest', { x: 2, y: 1 }, 'N');
+    const inserter = addEntity<InserterState>(sim, 'inserter', { x: 2, y: 2 }, 'S', { stackBonus: 2 });
+    const target = addEntity<ChestState>(sim, 'chest', { x: 2, y: 3 }, 'N');
+
+    fillChest(source, 'iron-plate', 5);
+    inserter.tickPhase = 19;
+    stepTicks(sim, 1);
+    expect(inserter.holding).toBe('iron-plate');
+    expect(inserter.holdingCount).toBe(3);
+    expect(source.stored['iron-plate']).toBe(2);
+
+    stepTicks(sim, 20);
+    expect(inserter.holding).toBeNull();
+    expect(target.stored['iron-plate']).toBe(3);
+  });
+
+  it('still carries a single item when dropping onto a belt', () => {
+    const sim = createSim({ width: 8, height: 6, seed: 805 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 2 }, 'N');
+    const source = addEntity<ChestState>(sim, 'chest', { x: 2, y: 1 }, 'N');
+    const inserter = addEntity<InserterState>(sim, 'inserter', { x: 2, y: 2 }, 'S', { stackBonus: 4 });
+    addEntity(sim, 'belt', { x: 2, y: 3 }, 'E');
+
+    fillChest(source, 'iron-plate', 5);
+    inserter.tickPhase = 19;
+    stepTicks(sim, 1);
+
+    expect(inserter.holdingCount).toBe(1);
+    expect(source.stored['iron-plate']).toBe(4);
+  });
+});
+
+describe('inserter variants', () => {
+  it('swings a fast inserter on its own cadence at a higher power cost', () => {
+    const sim = createSim({ width: 8, height: 6, seed: 806 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 2 }, 'N');
+    const source = addEntity<ChestState>(sim, 'chest', { x: 2, y: 1 }, 'N');
+    const inserter = addEntity<InserterState>(sim, 'fast-inserter', { x: 2, y: 2 }, 'S');
+    const target = addEntity<ChestState>(sim, 'chest', { x: 2, y: 3 }, 'N');
+
+    fillChest(source, 'iron-plate', 2);
+    stepTicks(sim, 8);
+    expect(inserter.holding).toBe('iron-plate');
+    expect(sim.getPowerState().consumedByKind['inserter-pickup']).toBe(2);
+
+    stepTicks(sim, 8);
+    expect(target.stored['iron-plate']).toBe(1);
+  });
+
+  it('reaches over the neighbouring tile with a long-handed inserter', () => {
+    const sim = createSim({ width: 8, height: 4, seed: 807 });
+    addEntity(sim, 'solar-panel', { x: 3, y: 0 }, 'N');
+    const source = addEntity<ChestState>(sim, 'chest', { x: 1, y: 1 }, 'N');
+    const between = addEntity<ChestState>(sim, 'chest', { x: 2, y: 1 }, 'N');
+    const inserter = addEntity<InserterState>(sim, 'long-handed-inserter', { x: 3, y: 1 }, 'E');
+    const target = addEntity<ChestState>(sim, 'chest', { x: 5, y: 1 }, 'N');
+
+    fillChest(source, 'coal', 1);
+    fillChest(between, 'iron-ore', 1);
+    inserter.tickPhase = 14;
+    stepTicks(sim, 1);
+    expect(inserter.holding).toBe('coal');
+    expect(between.stored['iron-ore']).toBe(1);
+
+    stepTicks(sim, 15);
+    expect(target.stored.coal).toBe(1);
+  });
+
+  it('runs a burner inserter from its own fuel slot without a power network', () => {
+    const sim = createSim({ width: 8, height: 6, seed: 808 });
+    const source = addEntity<ChestState>(sim, 'chest', { x: 2, y: 1 }, 'N');
+    const inserter = addEntity<InserterState & { fuel: number; fuelItem: ItemKind | null }>(
+      sim,
+      'burner-inserter',
+      { x: 2, y: 2 },
+      'S',
+    );
+    const target = addEntity<ChestState>(sim, 'chest', { x: 2, y: 3 }, 'N');
+
+    fillChest(source, 'coal', 1);
+    fillChest(source, 'iron-plate', 1);
+    inserter.tickPhase = 29;
+    stepTicks(sim, 1);
+    expect(inserter).toMatchObject({ holding: null, fuelItem: 'coal', fuel: 1 });
+
+    stepTicks(sim, 30);
+    expect(inserter).toMatchObject({ holding: 'iron-plate', fuelItem: null, fuel: 0 });
+
+    stepTicks(sim, 30);
+    expect(target.stored['iron-plate']).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { describe, expect, it } from 'vitest';
+
+import { BUILTIN_ITEMS, getItem, getItemKinds, isFuelItem, isItemKind, registerItem } from '../src/core/items';
+import { getRecipes } from '../src/recipes';
+
+const PUBLIC_DIR = join(dirname(fileURLToPath(import.meta.url)), '../public');
+
+describe('item registry', () => {
+  it('registers every built-in item with display metadata', () => {
+    expect(getItemKinds().slice(0, 5)).toEqual(['iron-ore', 'iron-plate', 'iron-gear', 'coal', 'wood']);
+    expect(getItem('iron-gear')).toMatchObject({ name: 'Iron gear', stackSize: 100, sprite: 'iron-gear-wheel' });
+    expect(getItem('electronic-circuit')?.sprite).toBe('electronic-circuit(green)');
+    expect(isItemKind('copper-cable')).toBe(true);
+    expect(isItemKind('unobtainium')).toBe(false);
+    expect(isItemKind(7)).toBe(false);
+  });
+
+  it('ships a sprite for every built-in item', () => {
+    const missing = BUILTIN_ITEMS.filter((item) => !existsSync(join(PUBLIC_DIR, `${item.sprite}.svg`)));
+    expect(missing.map((item) => item.id)).toEqual([]);
+  });
+
+  it('marks only items with a fuel value as fuel', () => {
+    expect(isFuelItem('coal')).toBe(true);
+    expect(isFuelItem('wood')).toBe(true);
+    expect(isFuelItem('iron-ore')).toBe(false);
+    expect(isFuelItem('unobtainium')).toBe(false);
+  });
+
+  it('covers every item used by a recipe', () => {
+    for (const recipe of getRecipes()) {
+      for (const stack of [...recipe.ingredients, ...recipe.products]) {
+        expect(getItem(stack.item)).toBeDefined();
+      }
+    }
+  });
+
+  it('rejects duplicate ids and invalid stack sizes', () => {
+    expect(() =>
+      registerItem({ id: 'coal', name: 'Coal', stackSize: 50, fuelValue: 4, sprite: 'coal', color: '#000000' }),
+    ).toThrow(/already registered/);
+    expect(() =>
+      registerItem({ id: 'broken-stack', name: 'Broken', stackSize: 0, fuelValue: 0, sprite: 'x', color: '#000000' }),
+    ).toThrow(/invalid stack size/);
+    expect(getItem('broken-stack')).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+
+import { loadHeadlessScenario } from '../src/core/headless';
+import { createChunkedMap, type GeneratedMap } from '../src/core/map';
+import { CHUNKED_MAP_CHUNKS, CHUNKED_MAP_SIZE, MAP_CHUNK_SIZE, generateMapChunk } from '../src/core/map-chunks';
+import { createDefaultMapSettings } from '../src/core/map-settings';
+import { createTerrainSampler } from '../src/core/map-terrain';
+import { createSim } from '../src/core/sim';
+import { createSnapshot } from '../src/core/snapshot';
+import { normalizeRuntimeSaveStateForRuntime, parseRuntimeSaveState } from '../src/ui/App';
+
+const SPAWN = CHUNKED_MAP_SIZE / 2;
+
+const readChunk = (map: GeneratedMap, chunkX: number, chunkY: number): string => {
+  let output = '';
+  for (let y = chunkY * MAP_CHUNK_SIZE; y < (chunkY + 1) * MAP_CHUNK_SIZE; y += 1) {
+    for (let x = chunkX * MAP_CHUNK_SIZE; x < (chunkX + 1) * MAP_CHUNK_SIZE; x += 1) {
+      output += `${map.getTile(x, y)}:${map.getResourceAmountAt?.(x, y)},`;
+    }
+  }
+  return output;
+};
+
+const findResourceTile = (map: GeneratedMap): { x: number; y: number } => {
+  for (let y = SPAWN - 32; y < SPAWN + 32; y += 1) {
+    for (let x = SPAWN - 32; x < SPAWN + 32; x += 1) {
+      if (map.isOre(x, y)) {
+        return { x, y };
+      }
+    }
+  }
+  throw new Error('no ore near spawn');
+};
+
+describe('chunked map', () => {
+  it('generates a chunk only when it is first read', () => {
+    const map = createChunkedMap(7);
+    expect(map.width).toBe(CHUNKED_MAP_SIZE);
+    expect(map.getGeneratedChunks?.()).toEqual([]);
+    expect(map.isWithinBounds(CHUNKED_MAP_SIZE - 1, 0)).toBe(true);
+    expect(map.isWithinBounds(CHUNKED_MAP_SIZE, 0)).toBe(false);
+    expect(map.getTile(-1, 0)).toBeUndefined();
+    expect(map.getGeneratedChunks?.()).toEqual([]);
+
+    const revision = map.getResourceRevision?.() ?? 0;
+    map.getTile(SPAWN, SPAWN);
+    expect(map.getGeneratedChunks?.()).toEqual([{ x: SPAWN / MAP_CHUNK_SIZE, y: SPAWN / MAP_CHUNK_SIZE }]);
+    expect(map.getResourceRevision?.()).toBeGreaterThan(revision);
+
+    expect(map.generateChunksAround?.({ x: SPAWN, y: SPAWN }, MAP_CHUNK_SIZE)).toBe(8);
+    expect(map.generateChunksAround?.({ x: SPAWN, y: SPAWN }, MAP_CHUNK_SIZE)).toBe(0);
+    expect(map.generateChunksAround?.({ x: 0, y: 0 }, 4)).toBe(1);
+  });
+
+  it('treats the world edge as a wall that nothing generates, builds or saves beyond', () => {
+    const last = CHUNKED_MAP_SIZE - 1;
+    const lastChunk = CHUNKED_MAP_CHUNKS - 1;
+    expect(SPAWN).toBe(32_768);
+
+    const map = createChunkedMap(7);
+    expect(map.generateChunksAround?.({ x: last, y: last }, MAP_CHUNK_SIZE)).toBe(4);
+    expect(map.getGeneratedChunks?.()).toContainEqual({ x: lastChunk, y: lastChunk });
+    expect(map.getGeneratedChunks?.().every((chunk) => chunk.x <= lastChunk && chunk.y <= lastChunk)).toBe(true);
+    expect(map.getTile(CHUNKED_MAP_SIZE, last)).toBeUndefined();
+
+    map.paintTile?.(last, last, 'empty', 0);
+    expect(map.place('chest', { x: last, y: last })).toMatchObject({ ok: true });
+    expect(map.place('chest', { x: CHUNKED_MAP_SIZE, y: last })).toMatchObject({ ok: false, reason: 'out-of-bounds' });
+    map.paintTile?.(last, last - 1, 'stone', 9);
+    const restored = createChunkedMap(7);
+    restored.restoreChangedChunks?.(JSON.parse(JSON.stringify(map.exportChangedChunks?.())));
+    expect(restored.getResourceAmountAt?.(last, last - 1)).toBe(9);
+
+    const parsed = parseRuntimeSaveState({
+      version: 2,
+      width: CHUNKED_MAP_SIZE + 64,
+      height: CHUNKED_MAP_SIZE,
+      seed: 7,
+      tick: 0,
+      tickCount: 0,
+      elapsedMs: 0,
+      paused: true,
+      player: { x: CHUNKED_MAP_SIZE + 10, y: last, rot: 'E', fuel: 100, maxFuel: 100 },
+      inventory: { ore: 0, plate: 0, gear: 0, coal: 0, used: 0, capacity: 24 },
+      entities: [{ kind: 'chest', pos: { x: CHUNKED_MAP_SIZE + 3, y: 5 }, rot: 'N' }],
+    });
+    if (parsed === null) {
+      throw new Error('save should parse');
+    }
+    const normalized = normalizeRuntimeSaveStateForRuntime(parsed);
+    expect(normalized.state.width).toBe(CHUNKED_MAP_SIZE);
+    expect(normalized.state.player).toMatchObject({ x: last, y: last });
+    expect(normalized.state.entities[0]?.pos).toEqual({ x: last, y: 5 });
+    expect(normalized.warnings.map((warning) => warning.code)).toEqual(
+      expect.arrayContaining(['map-size-mismatch', 'player-position-clamped', 'entity-position-clamped']),
+    );
+  });
+
+  it('depends only on the seed and chunk coordinates, not the order chunks are explored in', () => {
+    const forward = createChunkedMap('agents-ultra');
+    const backward = createChunkedMap('agents-ultra');
+    backward.generateChunksAround?.({ x: SPAWN + 80, y: SPAWN + 80 }, 100);
+
+    for (const [chunkX, chunkY] of [[15, 15], [16, 16], [18, 15], [0, 0], [31, 31]]) {
+      expect(readChunk(forward, chunkX, chunkY)).toBe(readChunk(backward, chunkX, chunkY));
+    }
+    const sampler = (seed: number) => createTerrainSampler(seed, createDefaultMapSettings(), CHUNKED_MAP_SIZE, CHUNKED_MAP_SIZE);
+    const fresh = generateMapChunk(sampler(1), 3, 4);
+    expect(generateMapChunk(sampler(1), 3, 4)).toEqual(fresh);
+    expect(generateMapChunk(sampler(2), 3, 4)).not.toEqual(fresh);
+    expect(readChunk(createChunkedMap(1), 5, 5)).not.toBe(readChunk(createChunkedMap(2), 5, 5));
+  });
+
+  it('keeps spawn clear and starts every world with each resource nearby', () => {
+    for (const seed of [1, 42, 'agents-ultra']) {
+      const map = createChunkedMap(seed);
+      const found = new Set<string>();
+      for (let y = SPAWN - 32; y < SPAWN + 32; y += 1) {
+        for (let x = SPAWN - 32; x < SPAWN + 32; x += 1) {
+          found.add(map.getTile(x, y) ?? 'none');
+        }
+      }
+      expect(found).toEqual(new Set(['empty', 'iron-ore', 'coal-ore', 'copper-ore', 'stone', 'tree']));
+      for (let y = SPAWN - 5; y < SPAWN + 5; y += 1) {
+        for (let x = SPAWN - 5; x < SPAWN + 5; x += 1) {
+          expect(map.getTile(x, y)).toBe('empty');
+        }
+      }
+    }
+  });
+
+  it('saves only the tiles that changed and restores them onto a fresh map', () => {
+    const map = createChunkedMap(11);
+    const tile = findResourceTile(map);
+    const amount = map.getResourceAmountAt?.(tile.x, tile.y) ?? 0;
+    expect(map.exportChangedChunks?.()).toEqual([]);
+
+    expect(map.consumeResource?.(tile.x, tile.y)).toBe(true);
+    const saved = map.exportChangedChunks?.() ?? [];
+    expect(saved).toHaveLength(1);
+    expect(saved[0]?.cells).toEqual([[
+      (tile.y % MAP_CHUNK_SIZE) * MAP_CHUNK_SIZE + (tile.x % MAP_CHUNK_SIZE),
+      amount > 1 ? map.getTile(tile.x, tile.y) : 'empty',
+      amount - 1,
+    ]]);
+
+    const restored = createChunkedMap(11);
+    restored.restoreChangedChunks?.(JSON.parse(JSON.stringify(saved)));
+    expect(restored.getResourceAmountAt?.(tile.x, tile.y)).toBe(amount - 1);
+    expect(restored.exportChangedChunks?.()).toEqual(saved);
+    const sim = createSim({ width: map.width, height: map.height, seed: 11, map });
+    const restoredSim = createSim({ width: map.width, height: map.height, seed: 11, map: restored });
+    expect(restoredSim.getStateHash().resources).toBe(sim.getStateHash().resources);
+
+    restored.restoreChangedChunks?.([{ x: CHUNKED_MAP_CHUNKS, y: 0, cells: [[0, 'stone', 9]] }, 'junk']);
+    expect(restored.getResourceAmountAt?.(tile.x, tile.y)).toBe(amount);
+    expect(restored.exportChangedChunks?.()).toEqual([]);
+  });
+
+  it('lists resources of generated chunks only in snapshots, and loads saved chunks headlessly', () => {
+    const map = createChunkedMap(11);
+    const sim = createSim({ width: map.width, height: map.height, seed: 11, map });
+    expect(createSnapshot(sim).ore).toEqual([]);
+    map.generateChunksAround?.({ x: SPAWN, y: SPAWN }, 16);
+    const ore = createSnapshot(sim).ore;
+    expect(ore.length).toBeGreaterThan(0);
+    expect(ore.every((cell) => Math.abs(cell.x - SPAWN) <= MAP_CHUNK_SIZE && Math.abs(cell.y - SPAWN) <= MAP_CHUNK_SIZE)).toBe(true);
+
+    const tile = findResourceTile(map);
+    const amount = map.getResourceAmountAt?.(tile.x, tile.y) ?? 0;
+    map.consumeResource?.(tile.x, tile.y);
+    const scenario = loadHeadlessScenario({
+      seed: 11,
+      width: map.width,
+      height: map.height,
+      entities: [],
+      mapChunks: map.exportChangedChunks?.(),
+    });
+    expect(scenario.map.width).toBe(CHUNKED_MAP_SIZE);
+    expect(scenario.map.getResourceAmountAt?.(tile.x, tile.y)).toBe(amount - 1);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+
+import { createChunkedMap, createMap, type GeneratedMap } from '../src/core/map';
+import { CHUNKED_MAP_SIZE, MAX_TILE_AMOUNT } from '../src/core/map-chunks';
+import { getBrushTiles, paintMapBrush } from '../src/core/map-editor';
+
+const SPAWN = CHUNKED_MAP_SIZE / 2;
+
+const findTile = (map: GeneratedMap, tile: string): { x: number; y: number } => {
+  for (let y = SPAWN - 200; y < SPAWN + 200; y += 1) {
+    for (let x = SPAWN - 200; x < SPAWN + 200; x += 1) {
+      if (map.getTile(x, y) === tile) {
+        return { x, y };
+      }
+    }
+  }
+  throw new Error(`no ${tile} near spawn`);
+};
+
+describe('map editor', () => {
+  it('paints resources with a clamped amount per tile', () => {
+    const map = createChunkedMap(1);
+    const revision = map.getResourceRevision?.() ?? 0;
+
+    expect(map.paintTile?.(SPAWN, SPAWN, 'copper-ore', 40)).toBe(true);
+    expect(map.getTile(SPAWN, SPAWN)).toBe('copper-ore');
+    expect(map.getResourceAmountAt?.(SPAWN, SPAWN)).toBe(40);
+    expect(map.getResourceRevision?.()).toBeGreaterThan(revision);
+    expect(map.paintTile?.(SPAWN, SPAWN, 'copper-ore', 40)).toBe(false);
+
+    expect(map.paintTile?.(SPAWN, SPAWN, 'stone', 1000)).toBe(true);
+    expect(map.getResourceAmountAt?.(SPAWN, SPAWN)).toBe(MAX_TILE_AMOUNT);
+    expect(map.paintTile?.(SPAWN, SPAWN, 'stone', 0)).toBe(true);
+    expect(map.getResourceAmountAt?.(SPAWN, SPAWN)).toBe(1);
+
+    expect(map.paintTile?.(SPAWN, SPAWN, 'water', 1)).toBe(false);
+    expect(map.paintTile?.(-1, SPAWN, 'iron-ore', 5)).toBe(false);
+  });
+
+  it('adds and removes trees and clears terrain', () => {
+    const map = createChunkedMap(1);
+    expect(paintMapBrush(map, { x: SPAWN, y: SPAWN }, { tile: 'tree', amount: 4, radius: 0 })).toHaveLength(1);
+    expect(map.isTree(SPAWN, SPAWN)).toBe(true);
+    expect(paintMapBrush(map, { x: SPAWN, y: SPAWN }, { tile: 'empty', amount: 4, radius: 0 })).toHaveLength(1);
+    expect(map.getTile(SPAWN, SPAWN)).toBe('empty');
+
+    for (const terrain of [findTile(map, 'water'), findTile(map, 'cliff')]) {
+      expect(map.paintTile?.(terrain.x, terrain.y, 'empty', 0)).toBe(true);
+      expect(map.getTile(terrain.x, terrain.y)).toBe('empty');
+      expect(map.place('chest', terrain)).toMatchObject({ ok: true });
+    }
+  });
+
+  it('paints a disc and only counts tiles that changed', () => {
+    expect(getBrushTiles({ x: 5, y: 5 }, 0)).toEqual([{ x: 5, y: 5 }]);
+    expect(getBrushTiles({ x: 5, y: 5 }, 1)).toHaveLength(9);
+    const disc = getBrushTiles({ x: 5, y: 5 }, 2);
+    expect(disc).toHaveLength(21);
+    expect(disc).not.toContainEqual({ x: 3, y: 3 });
+
+    const map = createMap(12, 12, 3);
+    const brush = { tile: 'iron-ore', amount: 9, radius: 2 } as const;
+    const inBounds = getBrushTiles({ x: 1, y: 1 }, 2).filter((tile) => tile.x >= 0 && tile.y >= 0);
+    expect(paintMapBrush(map, { x: 1, y: 1 }, brush)).toEqual(inBounds);
+    expect(paintMapBrush(map, { x: 1, y: 1 }, brush)).toEqual([]);
+    expect(map.getResourceAmountAt?.(0, 0)).toBe(9);
+  });
+
+  it('saves edits with the changed chunks', () => {
+    const map = createChunkedMap(7);
+    const water = findTile(map, 'water');
+    paintMapBrush(map, { x: SPAWN, y: SPAWN }, { tile: 'coal-ore', amount: 120, radius: 3 });
+    map.paintTile?.(water.x, water.y, 'empty', 0);
+
+    const restored = createChunkedMap(7);
+    restored.restoreChangedChunks?.(JSON.parse(JSON.stringify(map.exportChangedChunks?.())));
+    for (const tile of getBrushTiles({ x: SPAWN, y: SPAWN }, 3)) {
+      expect(restored.getTile(tile.x, tile.y)).toBe('coal-ore');
+      expect(restored.getResourceAmountAt?.(tile.x, tile.y)).toBe(120);
+    }
+    expect(restored.getTile(water.x, water.y)).toBe('empty');
+  });
+});
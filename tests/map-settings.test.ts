@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+
+import { loadHeadlessScenario } from '../src/core/headless';
+import { createChunkedMap, createMap, createMapPreview, type GeneratedMap } from '../src/core/map';
+import { CHUNKED_MAP_SIZE } from '../src/core/map-chunks';
+import { createDefaultMapSettings, normalizeMapSettings, type MapSettings } from '../src/core/map-settings';
+
+const SPAWN = CHUNKED_MAP_SIZE / 2;
+
+const withResource = (kind: keyof MapSettings['resources'], patch: Partial<MapSettings['resources']['stone']>): MapSettings => {
+  const settings = createDefaultMapSettings();
+  settings.resources[kind] = { ...settings.resources[kind], ...patch };
+  return settings;
+};
+
+const countTiles = (map: GeneratedMap, x0: number, y0: number, size: number): Map<string, { tiles: number; amount: number }> => {
+  const counts = new Map<string, { tiles: number; amount: number }>();
+  for (let y = y0; y < y0 + size; y += 1) {
+    for (let x = x0; x < x0 + size; x += 1) {
+      const tile = map.getTile(x, y) ?? 'none';
+      const entry = counts.get(tile) ?? { tiles: 0, amount: 0 };
+      entry.tiles += 1;
+      entry.amount += map.getResourceAmountAt?.(x, y) ?? 0;
+      counts.set(tile, entry);
+    }
+  }
+  return counts;
+};
+
+describe('map settings', () => {
+  it('fills missing values with defaults and clamps the rest', () => {
+    expect(normalizeMapSettings(undefined)).toEqual(createDefaultMapSettings());
+    const settings = normalizeMapSettings({
+      resources: { 'iron-ore': { frequency: 9, size: -1, richness: 'rich' }, stone: null },
+    });
+    expect(settings.resources['iron-ore']).toEqual({ frequency: 4, size: 0.25, richness: 1 });
+    expect(settings.resources.stone).toEqual({ frequency: 1, size: 1, richness: 1 });
+  });
+
+  it('generates the same terrain for the same seed and settings', () => {
+    const settings = withResource('coal-ore', { size: 2 });
+    const left = countTiles(createChunkedMap(5, settings), SPAWN - 96, SPAWN - 96, 192);
+    const right = countTiles(createChunkedMap(5, normalizeMapSettings(JSON.parse(JSON.stringify(settings)))), SPAWN - 96, SPAWN - 96, 192);
+    expect(left).toEqual(right);
+    expect(countTiles(createChunkedMap(5), SPAWN - 96, SPAWN - 96, 192)).not.toEqual(left);
+  });
+
+  it('removes a resource at frequency 0 and grows patches with size', () => {
+    const none = countTiles(createChunkedMap(3, withResource('stone', { frequency: 0 })), SPAWN - 128, SPAWN - 128, 256);
+    expect(none.has('stone')).toBe(false);
+    expect(none.get('iron-ore')?.tiles).toBeGreaterThan(0);
+
+    const normal = countTiles(createChunkedMap(3), SPAWN - 128, SPAWN - 128, 256).get('stone')?.tiles ?? 0;
+    const large = countTiles(createChunkedMap(3, withResource('stone', { size: 3 })), SPAWN - 128, SPAWN - 128, 256).get('stone')?.tiles ?? 0;
+    expect(normal).toBeGreaterThan(0);
+    expect(large).toBeGreaterThan(normal * 1.5);
+  });
+
+  it('scales amounts with richness and with distance from spawn', () => {
+    const average = (counts: Map<string, { tiles: number; amount: number }>): number => {
+      const iron = counts.get('iron-ore') ?? { tiles: 1, amount: 0 };
+      return iron.amount / iron.tiles;
+    };
+
+    const near = average(countTiles(createChunkedMap(8), SPAWN - 48, SPAWN - 48, 96));
+    const far = average(countTiles(createChunkedMap(8), 0, 0, 128));
+    expect(far).toBeGreaterThan(near * 1.5);
+
+    const rich = average(countTiles(createChunkedMap(8, withResource('iron-ore', { richness: 3 })), SPAWN - 48, SPAWN - 48, 96));
+    expect(rich).toBeGreaterThan(near * 2.5);
+  });
+
+  it('builds fixed-size maps from settings and loads them from saves', () => {
+    const settings = withResource('tree', { frequency: 0 });
+    const map = createMap(64, 64, 'fixed', settings);
+    expect(map.getMapSettings?.()).toEqual(settings);
+    expect(countTiles(map, 0, 0, 64).has('tree')).toBe(false);
+    expect(createMap(64, 64, 'fixed').getMapSettings).toBeUndefined();
+
+    const scenario = loadHeadlessScenario({ seed: 'fixed', width: 64, height: 64, entities: [], mapSettings: settings });
+    expect(countTiles(scenario.map, 0, 0, 64)).toEqual(countTiles(map, 0, 0, 64));
+  });
+
+  it('previews the tiles a chunked world generates around spawn', () => {
+    const settings = withResource('copper-ore', { frequency: 2 });
+    const preview = createMapPreview('preview', settings, 64);
+    const map = createChunkedMap('preview', settings);
+    expect(preview.size).toBe(64);
+    expect(preview.tiles).toHaveLength(64 * 64);
+    expect(preview.tiles[0]).toBe(map.getTile(preview.origin.x, preview.origin.y));
+    expect(preview.tiles.every((tile, index) => tile === map.getTile(
+      preview.origin.x + (index % 64),
+      preview.origin.y + Math.floor(index / 64),
+    ))).toBe(true);
+  });
+
+  it('switches a chunked map to another seed and settings', () => {
+    const map = createChunkedMap(1);
+    const tile = { x: SPAWN - 13, y: SPAWN - 11 };
+    map.consumeResource?.(tile.x, tile.y);
+    const revision = map.getResourceRevision?.() ?? 0;
+
+    const settings = withResource('iron-ore', { richness: 2 });
+    map.setTerrain?.(2, settings);
+    expect(map.getMapSettings?.()).toEqual(settings);
+    expect(map.exportChangedChunks?.()).toEqual([]);
+    expect(map.getResourceRevision?.()).toBeGreaterThan(revision);
+    expect(countTiles(map, SPAWN - 64, SPAWN - 64, 128)).toEqual(countTiles(createChunkedMap(2, settings), SPAWN - 64, SPAWN - 64, 128));
+  });
+});
@@ -234,7 +234,7 @@ describe("createMap", () => {
           }
 
           const tile = map.getTile(x, y);
-          expect(tile === "iron-ore" || tile === "coal-ore").toBe(true);
+          expect(["iron-ore", "coal-ore", "copper-ore", "stone"]).toContain(tile);
 
           if (tile === "iron-ore") {
             sawIronOre = true;
@@ -263,7 +263,7 @@ describe("createMap", () => {
         }
 
         const tile = map.getTile(x, y);
-        expect(tile === "iron-ore" || tile === "coal-ore").toBe(true);
+        expect(["iron-ore", "coal-ore", "copper-ore", "stone"]).toContain(tile);
 
         if (tile === "coal-ore") {
           expect(map.isCoal(x, y)).toBe(true);
@@ -274,6 +274,31 @@ describe("createMap", () => {
     }
   });
 
+  it("generates copper-ore and stone patches classified apart from iron and coal", () => {
+    const map = createMap(96, 96, 2024);
+    let copperTile: { x: number; y: number } | null = null;
+    let stoneTile: { x: number; y: number } | null = null;
+
+    for (let y = 0; y < 96; y += 1) {
+      for (let x = 0; x < 96; x += 1) {
+        const tile = map.getTile(x, y);
+        if (tile === "copper-ore") {
+          expect(map.isCopper?.(x, y)).toBe(true);
+          expect(map.isCoal(x, y)).toBe(false);
+          copperTile ??= { x, y };
+        }
+        if (tile === "stone") {
+          expect(map.isStone?.(x, y)).toBe(true);
+          expect(map.isOre(x, y)).toBe(true);
+          stoneTile ??= { x, y };
+        }
+      }
+    }
+
+    expect(copperTile).not.toBeNull();
+    expect(stoneTile).not.toBeNull();
+  });
+
   it("keeps the center spawn area ore-free (at least 10x10)", () => {
     const width = 60;
     const height = 40;
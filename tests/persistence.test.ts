@@ -301,8 +301,7 @@ describe('Runtime save/load compatibility parsing', () => {
     expect(parsed.version).toBe(1);
     expect(parsed.seed).toBe('agents-ultra');
     expect(parsed.player.rot).toBe('N');
-    expect(parsed.inventory.ore).toBe(2);
-    expect(parsed.inventory.plate).toBe(3);
+    expect(parsed.inventory.items).toEqual({ 'iron-ore': 2, 'iron-plate': 3, 'iron-gear': 1, coal: 4 });
     expect(parsed.power).toEqual({
       storage: 50,
       capacity: 150,
@@ -313,6 +312,57 @@ describe('Runtime save/load compatibility parsing', () => {
     });
   });
 
+  it('keeps registered inventory items and ignores unknown item ids', () => {
+    const parsed = parseRuntimeSaveState({
+      version: 2,
+      width: 60,
+      height: 40,
+      tick: 0,
+      tickCount: 0,
+      elapsedMs: 0,
+      paused: false,
+      player: { x: 2, y: 3, rot: 'N', fuel: 100, maxFuel: 100 },
+      inventory: {
+        items: { 'copper-plate': 4, 'electronic-circuit': '2', unobtainium: 9, coal: 0 },
+        used: 6,
+        capacity: 24,
+      },
+      entities: [],
+    });
+
+    expect(parsed?.inventory.items).toEqual({ 'copper-plate': 4, 'electronic-circuit': 2 });
+  });
+
+  it('migrates fixed inventory fields into the item map', () => {
+    const parsed = parseRuntimeSaveState({
+      version: 1,
+      width: 60,
+      height: 40,
+      tick: 0,
+      tickCount: 0,
+      elapsedMs: 0,
+      paused: false,
+      player: { x: 2, y: 3, rot: 'N', fuel: 100, maxFuel: 100 },
+      inventory: {
+        ore: 1,
+        plate: 0,
+        gear: 2,
+        coal: 3,
+        wood: 4,
+        items: { 'iron-gear': 5, stone: 6 },
+        used: 18,
+        capacity: 24,
+      },
+      entities: [],
+    });
+
+    expect(parsed?.inventory).toEqual({
+      items: { 'iron-ore': 1, 'iron-gear': 5, coal: 3, wood: 4, stone: 6 },
+      used: 18,
+      capacity: 24,
+    });
+  });
+
   it('accepts save entity collections encoded as object maps', () => {
     const payload = {
       version: 1,
@@ -681,6 +731,56 @@ describe('Runtime blueprint parsing and import validation', () => {
     });
   });
 
+  it('keeps assembler recipes in blueprints and drops unknown recipe ids', () => {
+    const parsed = parseRuntimeBlueprintState({
+      version: 1,
+      anchor: { x: 0, y: 0 },
+      entities: [
+        { kind: 'assembler', pos: { x: 1, y: 0 }, rot: 'N', recipe: 'iron-gear' },
+        { kind: 'assembler', pos: { x: 2, y: 0 }, rot: 'N', recipe: 'not-a-recipe' },
+        { kind: 'furnace', pos: { x: 3, y: 0 }, rot: 'N', recipe: 'iron-gear' },
+      ],
+    });
+
+    expect(parsed).not.toBeNull();
+    if (parsed === null) {
+      return;
+    }
+
+    expect(parsed.entities.map((entity) => entity.recipe)).toEqual(['iron-gear', undefined, undefined]);
+
+    const inspection = inspectRuntimeBlueprintPlacement(parsed, {
+      playerSnapshot: { x: 0, y: 5, fuel: 100 },
+    });
+    expect(inspection.planned[0]?.recipe).toBe('iron-gear');
+    expect(inspection.planned[1]?.recipe).toBeUndefined();
+  });
+
+  it('keeps underground belt modes in blueprints and drops invalid ones', () => {
+    const parsed = parseRuntimeBlueprintState({
+      version: 1,
+      anchor: { x: 0, y: 0 },
+      entities: [
+        { kind: 'underground-belt', pos: { x: 1, y: 0 }, rot: 'E', underground: 'input' },
+        { kind: 'UndergroundBelt', pos: { x: 4, y: 0 }, rot: 'E', underground: 'output' },
+        { kind: 'underground-belt', pos: { x: 5, y: 0 }, rot: 'E', underground: 'sideways' },
+        { kind: 'belt', pos: { x: 6, y: 0 }, rot: 'E', underground: 'output' },
+      ],
+    });
+
+    expect(parsed).not.toBeNull();
+    if (parsed === null) {
+      return;
+    }
+
+    expect(parsed.entities.map((entity) => entity.underground)).toEqual(['input', 'output', undefined, undefined]);
+
+    const inspection = inspectRuntimeBlueprintPlacement(parsed, {
+      playerSnapshot: { x: 0, y: 5, fuel: 100 },
+    });
+    expect(inspection.planned[1]).toMatchObject({ kind: 'underground-belt', underground: 'output' });
+  });
+
   it('accepts schemaVersion aliases when blueprint version is omitted', () => {
     const payload = {
       version: undefined,
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import type { GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+const CONFIG = { width: 32, height: 12, seed: 77 };
+
+type Sim = ReturnType<typeof createSim>;
+
+const createPowerSim = (restore?: Parameters<typeof createSim>[0]['restore']) => {
+  const sim = createSim({ ...CONFIG, map: createMap(CONFIG.width, CONFIG.height, CONFIG.seed), restore });
+  const add = (kind: string, pos: GridCoord): string =>
+    sim.addEntity({ kind, pos, rot: 'N' } as Parameters<typeof sim.addEntity>[0]);
+  const run = (ticks: number): void => {
+    for (let tick = 0; tick < ticks; tick += 1) {
+      sim.step(TICK_MS);
+    }
+  };
+  return { sim, add, run };
+};
+
+const networkStorages = (sim: Sim): number[] => sim.getPowerState().networks.map((network) => network.storage);
+
+describe('power networks', () => {
+  it('keeps storage and accounting apart for networks that do not touch', () => {
+    const { sim, add, run } = createPowerSim();
+    const panel = add('solar-panel', { x: 1, y: 1 });
+    const poweredFurnace = add('furnace', { x: 2, y: 1 });
+    const accumulator = add('accumulator', { x: 12, y: 1 });
+    const unpoweredFurnace = add('furnace', { x: 13, y: 1 });
+    add('furnace', { x: 20, y: 1 });
+
+    run(1);
+    const state = sim.getPowerState();
+    expect(state.networks).toMatchObject([
+      { id: panel, producers: 1, consumers: 1, accumulators: 0, capacity: 180 },
+      { id: accumulator, producers: 0, consumers: 1, accumulators: 1, capacity: 300, storage: 0 },
+    ]);
+    // The starting charge goes to the first network; only that network's panel adds to it.
+    expect(state.networks[0]?.storage).toBe(126);
+    expect(state.storage).toBe(126);
+    expect(state.capacity).toBe(480);
+    expect(state.networkConnectedConsumers).toBe(2);
+    expect(state.networkDisconnectedConsumers).toBe(1);
+
+    expect(sim.consumePower(10, 'test', poweredFurnace)).toBe(true);
+    expect(sim.consumePower(10, 'test', unpoweredFurnace)).toBe(false);
+    expect(sim.getPowerState().networks).toMatchObject([
+      { storage: 116, demandThisTick: 10, consumedThisTick: 10, generatedThisTick: 6, shortagesThisTick: 0 },
+      { storage: 0, demandThisTick: 10, consumedThisTick: 0, generatedThisTick: 0, shortagesThisTick: 1 },
+    ]);
+  });
+
+  it('joins entities in a pole supply area and wires poles within reach', () => {
+    const { sim, add, run } = createPowerSim();
+    const pole = add('power-pole', { x: 5, y: 5 });
+    add('solar-panel', { x: 3, y: 3 });
+    const furnace = add('furnace', { x: 7, y: 7 });
+    const wired = add('power-pole', { x: 12, y: 5 });
+    const tooFar = add('power-pole', { x: 20, y: 5 });
+    add('furnace', { x: 8, y: 7 });
+
+    run(1);
+    const state = sim.getPowerState();
+    expect(state.networks.map((network) => ({ id: network.id, poles: network.poles, consumers: network.consumers }))).toEqual([
+      { id: pole, poles: 2, consumers: 2 },
+      { id: tooFar, poles: 1, consumers: 0 },
+    ]);
+    expect(state.wires).toEqual([{ fromId: pole, toId: wired, from: { x: 5, y: 5 }, to: { x: 12, y: 5 } }]);
+    // The furnace at (8,7) is outside the supply area but touches the one at (7,7).
+    expect(state.networkDisconnectedConsumers).toBe(0);
+    expect(sim.consumePower(1, 'test', furnace)).toBe(true);
+  });
+
+  it('merges storage when poles join two networks and shares it by capacity when they split', () => {
+    const { sim, add, run } = createPowerSim({ power: { storage: 0 } });
+    add('solar-panel', { x: 1, y: 1 });
+    add('accumulator', { x: 2, y: 1 });
+    add('solar-panel', { x: 10, y: 1 });
+
+    run(10);
+    expect(networkStorages(sim)).toEqual([60, 60]);
+
+    const left = add('power-pole', { x: 4, y: 1 });
+    const right = add('power-pole', { x: 8, y: 1 });
+    run(1);
+    expect(networkStorages(sim)).toEqual([132]);
+    expect(sim.getPowerState().networks[0]?.capacity).toBe(300);
+
+    sim.removeEntity(left);
+    sim.removeEntity(right);
+    run(1);
+    // 132 split 300:180 is 82.5 and 49.5; the rounding unit goes first, then each panel adds this tick's 6.
+    expect(networkStorages(sim)).toEqual([83 + 6, 49 + 6]);
+  });
+
+  it('conserves stored energy across repeated splits and merges', () => {
+    const { sim, add, run } = createPowerSim({ power: { storage: 0 } });
+    add('accumulator', { x: 1, y: 1 });
+    add('accumulator', { x: 2, y: 1 });
+    add('accumulator', { x: 10, y: 1 });
+    add('accumulator', { x: 18, y: 1 });
+    const leftPole = add('power-pole', { x: 4, y: 1 });
+    add('power-pole', { x: 8, y: 1 });
+    const middlePole = add('power-pole', { x: 12, y: 1 });
+    add('power-pole', { x: 16, y: 1 });
+    sim.restoreState({ ...sim.exportState(), power: { storage: 401, networks: [{ x: 1, y: 1, storage: 401 }] } });
+    const total = (): number => sim.getPowerState().storage;
+    expect(networkStorages(sim)).toEqual([401]);
+
+    sim.removeEntity(middlePole);
+    run(1);
+    // Capacity 540 against 300: 257.8 and 143.2, and the rounding unit goes to the first.
+    expect(networkStorages(sim)).toEqual([258, 143]);
+    sim.removeEntity(leftPole);
+    run(1);
+    expect(networkStorages(sim)).toEqual([151, 107, 143]);
+    expect(total()).toBe(401);
+
+    add('power-pole', { x: 12, y: 1 });
+    add('power-pole', { x: 4, y: 1 });
+    run(1);
+    expect(networkStorages(sim)).toEqual([401]);
+  });
+
+  it('restores each network\'s storage from an export', () => {
+    const { sim, add, run } = createPowerSim({ power: { storage: 0 } });
+    add('solar-panel', { x: 1, y: 1 });
+    add('accumulator', { x: 2, y: 1 });
+    add('solar-panel', { x: 10, y: 1 });
+    add('solar-panel', { x: 11, y: 1 });
+    run(10);
+    const exported = sim.exportState();
+    expect(exported.power.networks).toEqual([
+      { x: 1, y: 1, storage: 60 },
+      { x: 10, y: 1, storage: 120 },
+    ]);
+
+    const { sim: restored } = createPowerSim();
+    restored.restoreState(exported);
+    expect(networkStorages(restored)).toEqual([60, 120]);
+    expect(restored.getPowerState().storage).toBe(180);
+  });
+});
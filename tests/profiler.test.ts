@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createTickProfiler } from '../src/core/profiler';
+import { createSim } from '../src/core/sim';
+import type { Direction, GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+
+const createClock = () => {
+  let time = 0;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+};
+
+const buildLine = () => {
+  const sim = createSim({ width: 10, height: 6, seed: 1515, map: createMap(10, 6, 1515) });
+  const add = (kind: string, pos: GridCoord, rot: Direction): string =>
+    sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+
+  add('solar-panel', { x: 2, y: 1 }, 'N');
+  const source = add('chest', { x: 1, y: 2 }, 'N');
+  add('inserter', { x: 2, y: 2 }, 'E');
+  add('belt', { x: 3, y: 2 }, 'E');
+  add('belt', { x: 4, y: 2 }, 'E');
+  const chest = sim.getEntityById(source)?.state as { acceptItem: (item: string) => boolean };
+  for (let i = 0; i < 4; i += 1) {
+    chest.acceptItem('iron-plate');
+  }
+  return sim;
+};
+
+describe('tick profiler', () => {
+  it('charges nested time to the innermost section and keeps a rolling window', () => {
+    const clock = createClock();
+    const profiler = createTickProfiler({ windowTicks: 2, now: clock.now });
+
+    profiler.measure('snapshot', () => clock.advance(1));
+    for (let tick = 0; tick < 3; tick += 1) {
+      profiler.measureTick(() => {
+        clock.advance(1);
+        profiler.measure('phase:belt', () => {
+          clock.advance(2 + tick);
+          profiler.measure('power', () => clock.advance(1));
+        });
+      });
+    }
+
+    const profile = profiler.getProfile();
+    expect(profile).toMatchObject({ windowTicks: 2, ticks: 2, meanTickMs: 5.5, maxTickMs: 6 });
+    expect(profile.sections.map((stat) => [stat.section, stat.totalMs, stat.maxMs])).toEqual([
+      ['phase:belt', 7, 4],
+      ['power', 2, 1],
+      ['tick', 2, 1],
+    ]);
+    expect(profile.sections[0]?.share).toBeCloseTo(7 / 11);
+
+    profiler.reset();
+    expect(profiler.getProfile()).toMatchObject({ ticks: 0, meanTickMs: 0, sections: [] });
+  });
+
+  it('profiles sim ticks by phase, kind and power without changing the run', () => {
+    const reference = buildLine();
+    const profiled = buildLine();
+    profiled.setProfiling({ windowTicks: 30 });
+
+    for (let i = 0; i < 60; i += 1) {
+      reference.step(TICK_MS);
+      profiled.step(TICK_MS);
+    }
+
+    const profile = profiled.getProfile();
+    const sections = profile?.sections.map((stat) => stat.section) ?? [];
+    expect(profile?.ticks).toBe(30);
+    expect(sections).toEqual(expect.arrayContaining([
+      'tick',
+      'power',
+      'phase:miner',
+      'phase:belt',
+      'phase:furnace',
+      'phase:inserter',
+      'kind:belt',
+      'kind:inserter',
+      'kind:solar-panel',
+    ]));
+    expect(profiled.getStateHash().hash).toBe(reference.getStateHash().hash);
+
+    profiled.setProfiling(null);
+    expect(profiled.getProfile()).toBeNull();
+  });
+});
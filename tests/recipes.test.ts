@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+
+import { Assembler } from '../src/entities/assembler';
+import { addItemsToInventory } from '../src/ui/App';
+import {
+  canBufferIngredient,
+  findSatisfiedRecipe,
+  getRecipe,
+  getRecipes,
+  getRecipesForIngredient,
+  getRecipesForProduct,
+  COPPER_ORE_TO_PLATE,
+  ELECTRONIC_CIRCUIT,
+  IRON_ORE_TO_PLATE,
+  IRON_PLATE_TO_GEAR,
+  IRON_PLATE_TO_STEEL,
+  registerRecipe,
+} from '../src/recipes';
+
+const runTicks = (assembler: Assembler, ticks: number): void => {
+  for (let i = 0; i < ticks; i += 1) {
+    assembler.update(0);
+  }
+};
+
+describe('recipe registry', () => {
+  it('registers the default smelting and assembling recipes', () => {
+    expect(getRecipe('iron-plate')).toBe(IRON_ORE_TO_PLATE);
+    expect(getRecipe('iron-gear')).toBe(IRON_PLATE_TO_GEAR);
+    expect(getRecipes('smelting')).toContain(IRON_ORE_TO_PLATE);
+    expect(getRecipes('assembling')).toContain(IRON_PLATE_TO_GEAR);
+    expect(getRecipes('assembling')).not.toContain(IRON_ORE_TO_PLATE);
+  });
+
+  it('looks recipes up by product and by ingredient', () => {
+    expect(getRecipesForProduct('iron-gear')).toEqual([IRON_PLATE_TO_GEAR]);
+    expect(getRecipesForIngredient('iron-ore')).toEqual([IRON_ORE_TO_PLATE]);
+    expect(getRecipesForIngredient('iron-plate', 'smelting')).toEqual([IRON_PLATE_TO_STEEL]);
+    expect(getRecipesForIngredient('iron-gear', 'smelting')).toEqual([]);
+    expect(getRecipesForProduct('not-an-item')).toEqual([]);
+  });
+
+  it('rejects duplicate ids and invalid stacks', () => {
+    expect(() => registerRecipe(IRON_ORE_TO_PLATE)).toThrow(/already registered/);
+    expect(() =>
+      registerRecipe({
+        id: 'broken-empty',
+        category: 'assembling',
+        ingredients: [],
+        products: [{ item: 'iron-gear', count: 1 }],
+        timeMs: 10,
+      }),
+    ).toThrow(/at least one ingredient/);
+    expect(() =>
+      registerRecipe({
+        id: 'broken-count',
+        category: 'assembling',
+        ingredients: [{ item: 'iron-plate', count: 0 }],
+        products: [{ item: 'iron-gear', count: 1 }],
+        timeMs: 10,
+      }),
+    ).toThrow(/invalid ingredient count/);
+    expect(getRecipe('broken-empty')).toBeUndefined();
+  });
+
+  it('buffers ingredients only up to what a single craft consumes', () => {
+    const recipes = [IRON_PLATE_TO_GEAR];
+
+    expect(canBufferIngredient(recipes, {}, 'iron-plate')).toBe(true);
+    expect(canBufferIngredient(recipes, { 'iron-plate': 1 }, 'iron-plate')).toBe(true);
+    expect(canBufferIngredient(recipes, { 'iron-plate': 2 }, 'iron-plate')).toBe(false);
+    expect(canBufferIngredient(recipes, {}, 'iron-ore')).toBe(false);
+    expect(findSatisfiedRecipe(recipes, { 'iron-plate': 1 })).toBeUndefined();
+    expect(findSatisfiedRecipe(recipes, { 'iron-plate': 2 })).toBe(IRON_PLATE_TO_GEAR);
+  });
+});
+
+describe('Assembler', () => {
+  it('waits for every ingredient before crafting a gear', () => {
+    const assembler = new Assembler();
+
+    expect(assembler.acceptItem('iron-plate')).toBe(true);
+    runTicks(assembler, IRON_PLATE_TO_GEAR.timeMs * 2);
+    expect(assembler.progress01).toBe(0);
+    expect(assembler.ingredients).toEqual({ 'iron-plate': 1 });
+
+    expect(assembler.acceptItem('iron-plate')).toBe(true);
+    expect(assembler.canAcceptItem('iron-plate')).toBe(false);
+    assembler.update(0);
+    expect(assembler.ingredients).toEqual({});
+    expect(assembler.input).toBeNull();
+
+    runTicks(assembler, IRON_PLATE_TO_GEAR.timeMs - 1);
+    expect(assembler.canProvideItem('iron-gear')).toBe(false);
+    runTicks(assembler, 1);
+    expect(assembler.canProvideItem('iron-gear')).toBe(true);
+    expect(assembler.output).toBe('iron-gear');
+    expect(assembler.canAcceptItem('iron-plate')).toBe(false);
+
+    expect(assembler.provideItem('iron-gear')).toBe('iron-gear');
+    expect(assembler.outputOccupied).toBe(false);
+    expect(assembler.canAcceptItem('iron-plate')).toBe(true);
+  });
+
+  it('rejects items that no assembling recipe consumes', () => {
+    const assembler = new Assembler();
+
+    expect(assembler.acceptItem('iron-ore')).toBe(false);
+    expect(assembler.acceptItem('coal')).toBe(false);
+    expect(assembler.inputOccupied).toBe(false);
+  });
+
+  it('adopts a legacy single-slot input on update', () => {
+    const assembler = new Assembler();
+    assembler.input = 'iron-plate';
+
+    assembler.update(0);
+    expect(assembler.ingredients).toEqual({ 'iron-plate': 1 });
+    expect(assembler.acceptItem('iron-plate')).toBe(true);
+    assembler.update(0);
+    expect(assembler.inputOccupied).toBe(false);
+    expect(assembler.progress01).toBe(0);
+  });
+});
+
+describe('copper and circuit tier', () => {
+  it('registers smelting recipes for copper, stone and steel', () => {
+    expect(getRecipesForProduct('copper-plate', 'smelting')).toEqual([COPPER_ORE_TO_PLATE]);
+    expect(getRecipe('stone-brick')?.ingredients).toEqual([{ item: 'stone', count: 2 }]);
+    expect(IRON_PLATE_TO_STEEL.ingredients).toEqual([{ item: 'iron-plate', count: 5 }]);
+  });
+
+  it('crafts an electronic circuit from one plate and three cables', () => {
+    const assembler = new Assembler();
+    expect(assembler.setRecipe('electronic-circuit')).toEqual({});
+
+    expect(assembler.acceptItem('iron-plate')).toBe(true);
+    expect(assembler.acceptItem('iron-plate')).toBe(false);
+    for (let i = 0; i < 3; i += 1) {
+      expect(assembler.acceptItem('copper-cable')).toBe(true);
+    }
+    expect(assembler.acceptItem('copper-cable')).toBe(false);
+
+    assembler.update(0);
+    runTicks(assembler, ELECTRONIC_CIRCUIT.timeMs);
+    expect(assembler.products).toEqual({ 'electronic-circuit': 1 });
+  });
+});
+
+describe('Assembler recipe selection', () => {
+  it('accepts only ingredients of the selected recipe', () => {
+    const assembler = new Assembler();
+
+    expect(assembler.setRecipe('iron-plate')).toBeNull();
+    expect(assembler.setRecipe('missing')).toBeNull();
+    expect(assembler.setRecipe('iron-gear')).toEqual({});
+    expect(assembler.recipeId).toBe('iron-gear');
+    expect(assembler.canAcceptItem('iron-plate')).toBe(true);
+    expect(assembler.canAcceptItem('iron-ore')).toBe(false);
+  });
+
+  it('refunds buffered and in-flight ingredients when the recipe changes', () => {
+    const assembler = new Assembler();
+    assembler.setRecipe('iron-gear');
+    assembler.acceptItem('iron-plate');
+    assembler.acceptItem('iron-plate');
+    assembler.update(0);
+    expect(assembler.progress01).toBe(0);
+    assembler.update(0);
+    expect(assembler.progress01).toBeGreaterThan(0);
+
+    expect(assembler.setRecipe(null)).toEqual({ 'iron-plate': 2 });
+    expect(assembler.recipeId).toBeNull();
+    expect(assembler.progress01).toBe(0);
+    expect(assembler.inputOccupied).toBe(false);
+  });
+
+  it('keeps the recipe and its ingredients when the refund does not fit the inventory', () => {
+    const assembler = new Assembler();
+    assembler.setRecipe('iron-gear');
+    assembler.acceptItem('iron-plate');
+    assembler.acceptItem('iron-plate');
+
+    const refund = assembler.previewRecipeRefund('copper-cable');
+    expect(refund).toEqual({ 'iron-plate': 2 });
+    expect(assembler.recipeId).toBe('iron-gear');
+    expect(assembler.ingredients).toEqual({ 'iron-plate': 2 });
+
+    const full = { items: { coal: 49 }, used: 49, capacity: 50 };
+    expect(addItemsToInventory(full, refund ?? {})).toBeNull();
+    expect(full.items).toEqual({ coal: 49 });
+    expect(addItemsToInventory({ ...full, capacity: 51 }, refund ?? {})).toEqual({
+      items: { coal: 49, 'iron-plate': 2 },
+      used: 51,
+      capacity: 51,
+    });
+  });
+});
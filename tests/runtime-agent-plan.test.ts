@@ -219,6 +219,7 @@ describe('runtime agent plan execution scheduling', () => {
       { type: 'interact', action: 'refuel' },
       { type: 'interact', action: 'pickup' },
       { type: 'interact', action: 'deposit', x: 1, y: 2 },
+      { type: 'configure-inserter', x: 1, y: 2, stackBonus: 1 },
     ] as const;
 
     for (const command of mutating) {
@@ -234,6 +235,7 @@ describe('runtime agent plan execution scheduling', () => {
       { type: 'enable-agent', targetAgent: 'builder' },
       { type: 'disable-agent', targetAgent: 'builder' },
       { type: 'set-plan-speed', delayMs: 120 },
+      { type: 'set-sim-speed', speed: 8 },
       { type: 'set-agent-speed', targetAgent: 'planner', delayMs: 140 },
       { type: 'set-agent-order', order: ['planner', 'builder'] },
       { type: 'enable-automation', automationAgent: 'auto-refuel' },
@@ -439,6 +441,43 @@ describe('runtime agent plan execution scheduling', () => {
     expect(validation.plan).toBeNull();
   });
 
+  it('parses configure-inserter plan commands and rejects unknown filter items', () => {
+    const validation = resolveRuntimeAgentPlanImportPayload({
+      version: 1,
+      commands: [
+        {
+          type: 'configure-inserter',
+          x: 2,
+          y: 3,
+          filter: ['coal', 'iron-ore'],
+          stackBonus: 2,
+        },
+        {
+          type: 'configure-inserter',
+          x: 2,
+          y: 3,
+          filter: [],
+        },
+      ],
+    });
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.plan).toMatchObject({
+      commands: [
+        { type: 'configure-inserter', x: 2, y: 3, filter: ['iron-ore', 'coal'], stackBonus: 2 },
+        { type: 'configure-inserter', x: 2, y: 3, filter: [] },
+      ],
+    });
+    expect(describeRuntimeAgentPlanCommand({ type: 'configure-inserter', x: 2, y: 3, filter: ['coal'], stackBonus: 1 }))
+      .toEqual({ label: 'configure inserter', details: '(2, 3) filter coal stack +1' });
+
+    const invalid = resolveRuntimeAgentPlanImportPayload({
+      version: 1,
+      commands: [{ type: 'configure-inserter', x: 2, y: 3, filter: ['unobtainium'] }],
+    });
+    expect(invalid.plan).toBeNull();
+  });
+
   it('clamps set-plan-speed delay values during import', () => {
     const validation = resolveRuntimeAgentPlanImportPayload({
       version: 1,
@@ -462,6 +501,30 @@ describe('runtime agent plan execution scheduling', () => {
     });
   });
 
+  it('parses set-sim-speed plan commands and rejects unlisted multipliers', () => {
+    const validation = resolveRuntimeAgentPlanImportPayload({
+      version: 1,
+      commands: [
+        { type: 'set-sim-speed', speed: '16x' },
+        { type: 'set-sim-speed', speed: 'max' },
+      ],
+    });
+
+    expect(validation.errors).toEqual([]);
+    expect(validation.plan?.commands).toEqual([
+      { type: 'set-sim-speed', speed: 16 },
+      { type: 'set-sim-speed', speed: 'max' },
+    ]);
+    expect(describeRuntimeAgentPlanCommand({ type: 'set-sim-speed', speed: 0.25 })).toEqual({
+      label: 'set sim speed',
+      details: '0.25x',
+    });
+    expect(resolveRuntimeAgentPlanImportPayload({
+      version: 1,
+      commands: [{ type: 'set-sim-speed', speed: 3 }],
+    }).plan).toBeNull();
+  });
+
   it('normalizes set-agent-speed delay values during import', () => {
     const validation = resolveRuntimeAgentPlanImportPayload({
       version: 1,
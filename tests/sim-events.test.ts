@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import type { SimEvent } from '../src/core/sim-events';
+import type { Direction, GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+const CONFIG = { width: 16, height: 8, seed: 1717 };
+
+type ItemHost = {
+  acceptItem: (item: string) => boolean;
+};
+
+const createLineSim = () => {
+  const map = createMap(CONFIG.width, CONFIG.height, CONFIG.seed);
+  const sim = createSim({ ...CONFIG, map });
+  const add = (kind: string, pos: GridCoord, rot: Direction): string =>
+    sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+  const run = (ticks: number): void => {
+    for (let tick = 0; tick < ticks; tick += 1) {
+      sim.step(TICK_MS);
+    }
+  };
+  return { sim, map, add, run };
+};
+
+describe('sim events', () => {
+  it('reports placements, crafts and blocked inserters with their tick', () => {
+    const { sim, add, run } = createLineSim();
+    const events: SimEvent[] = [];
+    const unsubscribe = sim.onAny((event) => events.push(event));
+
+    add('solar-panel', { x: 2, y: 1 }, 'N');
+    const source = add('chest', { x: 1, y: 2 }, 'N');
+    const inserter = add('inserter', { x: 2, y: 2 }, 'E');
+    const furnace = add('furnace', { x: 3, y: 2 }, 'N');
+    for (let i = 0; i < 3; i += 1) {
+      (sim.getEntityById(source)?.state as ItemHost).acceptItem('iron-ore');
+    }
+    (sim.getEntityById(furnace)?.state as ItemHost).acceptItem('coal');
+
+    expect(events.filter((event) => event.type === 'entity-placed')).toHaveLength(4);
+    expect(events[2]).toEqual({ type: 'entity-placed', tick: 0, entityId: inserter, kind: 'inserter', pos: { x: 2, y: 2 } });
+
+    run(240);
+
+    const started = events.find((event) => event.type === 'craft-started');
+    expect(started).toMatchObject({ entityId: furnace, kind: 'furnace', recipeId: expect.any(String) });
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'item-consumed', entityId: furnace, item: 'iron-ore', count: 1, tick: started?.tick }),
+    );
+    const finished = events.find((event) => event.type === 'craft-finished');
+    expect(finished?.tick).toBeGreaterThan(started?.tick ?? Infinity);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'item-produced', entityId: furnace, item: 'iron-plate', tick: finished?.tick }),
+    );
+    // The next ore waits in the inserter's hand while the furnace is busy; blocking is reported once.
+    expect(events.filter((event) => event.type === 'inserter-blocked' && event.entityId === inserter)).toHaveLength(1);
+
+    unsubscribe();
+    sim.removeEntity(inserter);
+    expect(events.some((event) => event.type === 'entity-removed')).toBe(false);
+  });
+
+  it('delivers typed events to per-type listeners after the tick finishes', () => {
+    const { sim, map, add, run } = createLineSim();
+    let ore: GridCoord | null = null;
+    for (let y = 0; y < CONFIG.height && ore === null; y += 1) {
+      for (let x = 1; x < CONFIG.width - 1 && ore === null; x += 1) {
+        if (map.getTile(x, y) === 'iron-ore') {
+          ore = { x, y };
+        }
+      }
+    }
+    expect(ore).not.toBeNull();
+    const tile = ore as GridCoord;
+    while ((map.getResourceAmountAt?.(tile.x, tile.y) ?? 0) > 1) {
+      map.consumeResource?.(tile.x, tile.y);
+    }
+
+    const depleted: Array<{ tick: number; simTick: number; pos: GridCoord }> = [];
+    const produced: string[] = [];
+    sim.on('resource-depleted', (event) => depleted.push({ tick: event.tick, simTick: sim.tick, pos: event.pos }));
+    sim.on('item-produced', (event) => produced.push(event.item));
+    add('miner', tile, 'E');
+    add('chest', { x: tile.x + 1, y: tile.y }, 'N');
+    add('solar-panel', { x: tile.x - 1, y: tile.y }, 'N');
+
+    run(120);
+
+    expect(produced).toEqual(['iron-ore']);
+    expect(depleted).toHaveLength(1);
+    expect(depleted[0]).toMatchObject({ pos: tile });
+    expect(depleted[0]?.simTick).toBe((depleted[0]?.tick ?? 0) + 1);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import type { SimEvent } from '../src/core/sim-events';
+import {
+  createSimWorkerHost,
+  decodeSimWorkerState,
+  trackResourceConsumption,
+  type SimWorkerFrame,
+  type SimWorkerResponse,
+} from '../src/core/sim-worker';
+import type { Direction, GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+const CONFIG = { width: 12, height: 8, seed: 1313, stepMs: TICK_MS };
+
+type ChestState = {
+  acceptItem: (item: string) => boolean;
+};
+
+const buildFactory = (): ReturnType<typeof createSim> => {
+  const map = createMap(CONFIG.width, CONFIG.height, CONFIG.seed);
+  const sim = createSim({ ...CONFIG, map });
+  const add = (kind: string, pos: GridCoord, rot: Direction): string =>
+    sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+
+  add('solar-panel', { x: 2, y: 1 }, 'N');
+  const source = add('chest', { x: 1, y: 2 }, 'N');
+  add('inserter', { x: 2, y: 2 }, 'E');
+  add('chest', { x: 3, y: 2 }, 'N');
+  const chest = sim.getEntityById(source)?.state as ChestState;
+  for (let i = 0; i < 5; i += 1) {
+    chest.acceptItem('iron-plate');
+  }
+  return sim;
+};
+
+const createHost = () => {
+  const messages: SimWorkerResponse[] = [];
+  const transfers: ArrayBuffer[][] = [];
+  const host = createSimWorkerHost((message, transfer = []) => {
+    messages.push(message);
+    transfers.push(transfer);
+  }, {
+    setInterval: () => 1,
+    clearInterval: () => undefined,
+  });
+  host.handle({ type: 'init', config: CONFIG });
+  const frames = (): SimWorkerFrame[] => messages.filter((message): message is SimWorkerFrame => message.type === 'frame');
+  return { host, messages, transfers, frames };
+};
+
+describe('sim worker host', () => {
+  it('exports state that restores to an identical sim', () => {
+    const sim = buildFactory();
+    for (let i = 0; i < 45; i += 1) {
+      sim.step(TICK_MS);
+    }
+
+    const copy = createSim({ ...CONFIG, map: createMap(CONFIG.width, CONFIG.height, CONFIG.seed) });
+    copy.restoreState(structuredClone(sim.exportState()));
+
+    expect(copy.getStateHash().hash).toBe(sim.getStateHash().hash);
+  });
+
+  it('runs loaded state in step with a sim on the page', () => {
+    const reference = buildFactory();
+    const { host, transfers, frames } = createHost();
+    host.handle({ type: 'load', revision: 1, state: reference.exportState(), consumed: [] });
+    host.handle({ type: 'run' });
+
+    for (let i = 0; i < 90; i += 1) {
+      host.advance(TICK_MS);
+      reference.step(TICK_MS);
+    }
+
+    const last = frames().at(-1);
+    expect(frames()).toHaveLength(90);
+    expect(last).toMatchObject({ revision: 1, ticks: 1 });
+    expect(last?.clock).toEqual({ tick: reference.tick, tickCount: reference.tickCount, elapsedMs: reference.elapsedMs });
+    expect(last?.snapshot.entities.map((entity) => entity.kind)).toEqual(['solar-panel', 'chest', 'inserter', 'chest']);
+    expect(transfers.at(-1)?.[0]).toBe(last?.encodedState);
+
+    const mirror = createSim({ ...CONFIG, map: createMap(CONFIG.width, CONFIG.height, CONFIG.seed) });
+    mirror.restoreState(decodeSimWorkerState(last?.encodedState ?? new ArrayBuffer(0)));
+    expect(mirror.getStateHash().hash).toBe(reference.getStateHash().hash);
+  });
+
+  it('forwards the events its ticks raise with each frame', () => {
+    const reference = createSim({ ...CONFIG, map: createMap(CONFIG.width, CONFIG.height, CONFIG.seed) });
+    const add = (kind: string, pos: GridCoord): string =>
+      reference.addEntity({ kind, pos, rot: 'E' } as Parameters<typeof reference.addEntity>[0]);
+    add('solar-panel', { x: 2, y: 1 });
+    const source = add('chest', { x: 1, y: 2 });
+    add('inserter', { x: 2, y: 2 });
+    const furnace = add('furnace', { x: 3, y: 2 });
+    (reference.getEntityById(source)?.state as ChestState).acceptItem('iron-ore');
+    (reference.getEntityById(furnace)?.state as ChestState).acceptItem('coal');
+    const { host, frames } = createHost();
+    host.handle({ type: 'load', revision: 1, state: reference.exportState(), consumed: [] });
+    host.handle({ type: 'run' });
+    const expected: SimEvent[] = [];
+    reference.onAny((event) => expected.push(event));
+
+    for (let i = 0; i < 240; i += 1) {
+      host.advance(TICK_MS);
+      reference.step(TICK_MS);
+    }
+
+    expect(expected.map((event) => event.type)).toContain('craft-finished');
+    expect(frames().flatMap((frame) => frame.events)).toEqual(expected);
+  });
+
+  it('runs the speed setting\'s ticks each interval', () => {
+    const { host, frames } = createHost();
+    host.handle({ type: 'load', revision: 1, state: buildFactory().exportState(), consumed: [] });
+    host.handle({ type: 'run' });
+    host.handle({ type: 'speed', speed: 4 });
+
+    expect(host.runFrame()).toBe(4);
+    expect(frames().at(-1)).toMatchObject({ revision: 1, ticks: 4 });
+  });
+
+  it('stops posting frames while paused and reports errors instead of throwing', () => {
+    const { host, messages, frames } = createHost();
+    host.handle({ type: 'pause' });
+    expect(host.advance(TICK_MS * 3)).toBe(0);
+    expect(frames()).toEqual([]);
+
+    const { host: uninitialized, messages: errors } = createHost();
+    uninitialized.handle({ type: 'dispose' });
+    uninitialized.handle({ type: 'load', revision: 1, state: buildFactory().exportState(), consumed: [] });
+    expect(errors).toEqual([{ type: 'error', message: 'load before init' }]);
+    expect(messages).toEqual([]);
+  });
+});
+
+describe('resource consumption tracking', () => {
+  it('logs mined tiles and replays them onto a second map', () => {
+    const source = createMap(CONFIG.width, CONFIG.height, CONFIG.seed);
+    const target = createMap(CONFIG.width, CONFIG.height, CONFIG.seed);
+    const log = trackResourceConsumption(source);
+
+    let tile: GridCoord | null = null;
+    for (let y = 0; y < CONFIG.height && tile === null; y += 1) {
+      for (let x = 0; x < CONFIG.width && tile === null; x += 1) {
+        if ((source.getResourceAmountAt?.(x, y) ?? 0) > 0) {
+          tile = { x, y };
+        }
+      }
+    }
+    expect(tile).not.toBeNull();
+    const { x, y } = tile as GridCoord;
+    const before = source.getResourceAmountAt?.(x, y) ?? 0;
+
+    source.consumeResource?.(x, y);
+    source.consumeResource?.(x, y);
+    const drained = log.drain();
+
+    expect(drained).toEqual([{ x, y }, { x, y }]);
+    expect(log.drain()).toEqual([]);
+    expect(source.getResourceAmountAt?.(x, y)).toBe(before - 2);
+
+    const targetLog = trackResourceConsumption(target);
+    targetLog.replay(drained);
+    expect(target.getResourceAmountAt?.(x, y)).toBe(before - 2);
+    expect(targetLog.drain()).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import type { Direction, GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+const CONFIG = { width: 24, height: 12, seed: 2024 };
+
+type ItemHost = {
+  acceptItem: (item: string) => boolean;
+};
+
+type Sim = ReturnType<typeof createSim>;
+
+const createFactorySim = (sleep: boolean): Sim =>
+  createSim({ ...CONFIG, sleep, map: createMap(CONFIG.width, CONFIG.height, CONFIG.seed) });
+
+const addEntity = (sim: Sim, kind: string, pos: GridCoord, rot: Direction): string =>
+  sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+
+const findOreTile = (): GridCoord => {
+  const map = createMap(CONFIG.width, CONFIG.height, CONFIG.seed);
+  for (let y = 0; y < CONFIG.height - 1; y += 1) {
+    for (let x = 0; x < CONFIG.width - 6; x += 1) {
+      if (map.isOre?.(x, y) === true) {
+        return { x, y };
+      }
+    }
+  }
+  throw new Error('no ore tile in test map');
+};
+
+/** Miner -> belts -> inserter -> unfuelled furnace: everything backs up and goes idle. */
+const buildStalledLine = (sim: Sim): { furnace: string } => {
+  const ore = findOreTile();
+  for (let offset = 0; offset <= 5; offset += 1) {
+    addEntity(sim, 'solar-panel', { x: ore.x + offset, y: ore.y + 1 }, 'N');
+  }
+  addEntity(sim, 'miner', ore, 'E');
+  addEntity(sim, 'belt', { x: ore.x + 1, y: ore.y }, 'E');
+  addEntity(sim, 'belt', { x: ore.x + 2, y: ore.y }, 'E');
+  addEntity(sim, 'belt', { x: ore.x + 3, y: ore.y }, 'E');
+  addEntity(sim, 'inserter', { x: ore.x + 4, y: ore.y }, 'E');
+  const furnace = addEntity(sim, 'furnace', { x: ore.x + 5, y: ore.y }, 'N');
+  return { furnace };
+};
+
+describe('entity sleeping', () => {
+  it('puts a stalled line to sleep without changing any tick\'s state hash', () => {
+    const sleeping = createFactorySim(true);
+    const awake = createFactorySim(false);
+    const { furnace } = buildStalledLine(sleeping);
+    buildStalledLine(awake);
+    sleeping.setStateHashRecording({ every: 1 });
+    awake.setStateHashRecording({ every: 1 });
+
+    let peakDormant = 0;
+    for (let tick = 0; tick < 1200; tick += 1) {
+      if (tick === 900) {
+        (sleeping.getEntityById(furnace)?.state as ItemHost).acceptItem('coal');
+        (awake.getEntityById(furnace)?.state as ItemHost).acceptItem('coal');
+        sleeping.notifyEntityChanged(furnace);
+        awake.notifyEntityChanged(furnace);
+      }
+      sleeping.step(TICK_MS);
+      awake.step(TICK_MS);
+      peakDormant = Math.max(peakDormant, sleeping.getDormantEntityIds().length);
+    }
+
+    expect(peakDormant).toBeGreaterThanOrEqual(3);
+    expect(awake.getDormantEntityIds()).toEqual([]);
+    expect(sleeping.getStateHashLog()).toEqual(awake.getStateHashLog());
+  });
+
+  it('wakes an idle inserter when its source chest is refilled', () => {
+    const sim = createFactorySim(true);
+    addEntity(sim, 'solar-panel', { x: 2, y: 1 }, 'N');
+    const source = addEntity(sim, 'chest', { x: 1, y: 2 }, 'N');
+    const inserter = addEntity(sim, 'inserter', { x: 2, y: 2 }, 'E');
+    const target = addEntity(sim, 'chest', { x: 3, y: 2 }, 'N');
+
+    for (let tick = 0; tick < 60; tick += 1) {
+      sim.step(TICK_MS);
+    }
+    expect(sim.getDormantEntityIds()).toContain(inserter);
+
+    (sim.getEntityById(source)?.state as ItemHost).acceptItem('iron-plate');
+    // Looking an entity up is not a change; only the explicit notification wakes its neighbours.
+    expect(sim.getDormantEntityIds()).toContain(inserter);
+    sim.notifyEntityChanged(source);
+    expect(sim.getDormantEntityIds()).not.toContain(inserter);
+
+    for (let tick = 0; tick < 60; tick += 1) {
+      sim.step(TICK_MS);
+    }
+    expect(sim.getDormantEntityIds()).toContain(inserter);
+    expect(sim.getEntityById(target)?.state).toMatchObject({ items: ['iron-plate'] });
+  });
+
+  it('sleeps empty belts until an item arrives', () => {
+    const sim = createFactorySim(true);
+    addEntity(sim, 'solar-panel', { x: 2, y: 1 }, 'N');
+    const first = addEntity(sim, 'belt', { x: 2, y: 2 }, 'E');
+    const second = addEntity(sim, 'belt', { x: 3, y: 2 }, 'E');
+    sim.step(TICK_MS);
+    expect(sim.getDormantEntityIds()).toEqual(expect.arrayContaining([first, second]));
+
+    (sim.getEntityById(first)?.state as { lanes: unknown }).lanes = [[{ item: 'iron-ore', progress: 0 }], []];
+    sim.notifyEntityChanged(first);
+    expect(sim.getDormantEntityIds()).not.toContain(first);
+    for (let tick = 0; tick < 120; tick += 1) {
+      sim.step(TICK_MS);
+    }
+    expect(sim.getDormantEntityIds()).toContain(first);
+    expect(sim.getDormantEntityIds()).not.toContain(second);
+  });
+
+  it('finds entities by area through the chunk index', () => {
+    const sim = createFactorySim(true);
+    const near = addEntity(sim, 'chest', { x: 15, y: 3 }, 'N');
+    const across = addEntity(sim, 'chest', { x: 16, y: 4 }, 'N');
+    addEntity(sim, 'chest', { x: 20, y: 4 }, 'N');
+
+    expect(sim.getEntitiesInArea({ x: 17, y: 5 }, { x: 14, y: 2 }).map((entity) => entity.id).sort()).toEqual(
+      [near, across].sort(),
+    );
+  });
+});
@@ -472,6 +472,23 @@ describe("createSnapshot", () => {
     });
   });
 
+  it("carries the selected assembler recipe", () => {
+    if (getDefinition("assembler") === undefined) {
+      registerEntity("assembler", {
+        create: () => ({ recipeId: null, inputOccupied: false, outputOccupied: false, progress01: 0 }),
+        update: () => {},
+      });
+    }
+
+    const sim = createSim({ width: 12, height: 8, seed: 31 });
+    sim.addEntity("assembler", { pos: { x: 2, y: 2 }, rot: "N", state: { recipeId: "iron-gear" } });
+    sim.addEntity("assembler", { pos: { x: 4, y: 2 }, rot: "N" });
+
+    const snapshot = createSnapshot({ ...sim, width: 12, height: 8, tileSize: 16 });
+    expect(snapshot.entities[0].recipe).toBe("iron-gear");
+    expect(snapshot.entities[1]).not.toHaveProperty("recipe");
+  });
+
   it("provides immutable snapshot-facing objects that cannot affect simulation state", () => {
     ensureSnapshotProbeDefinition();
 
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import { createSimFrameStepper, cycleSimSpeed, parseSimSpeed, type SimSpeed } from '../src/core/speed';
+import type { Direction, GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+
+const createClock = (msPerTick: number) => {
+  let time = 0;
+  return {
+    now: () => time,
+    tick: () => {
+      time += msPerTick;
+    },
+  };
+};
+
+const runFrames = (speed: SimSpeed, frames: number, msPerTick = 0.1): number[] => {
+  const clock = createClock(msPerTick);
+  const stepper = createSimFrameStepper(clock.tick, { budgetMs: 10, now: clock.now });
+  stepper.setSpeed(speed);
+  return Array.from({ length: frames }, () => stepper.runFrame());
+};
+
+const buildSmelter = () => {
+  const sim = createSim({ width: 10, height: 8, seed: 1414, map: createMap(10, 8, 1414) });
+  const add = (kind: string, pos: GridCoord, rot: Direction): string =>
+    sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+
+  add('solar-panel', { x: 3, y: 1 }, 'N');
+  const source = add('chest', { x: 2, y: 2 }, 'N');
+  add('inserter', { x: 3, y: 2 }, 'E');
+  add('furnace', { x: 4, y: 2 }, 'N');
+  const chest = sim.getEntityById(source)?.state as { acceptItem: (item: string) => boolean };
+  for (let i = 0; i < 6; i += 1) {
+    chest.acceptItem('iron-ore');
+  }
+  chest.acceptItem('coal');
+  return sim;
+};
+
+describe('simulation speed', () => {
+  it('parses and cycles through the listed multipliers', () => {
+    expect(parseSimSpeed('4x')).toBe(4);
+    expect(parseSimSpeed(' MAX ')).toBe('max');
+    expect(parseSimSpeed(3)).toBeNull();
+    expect(cycleSimSpeed(1, 1)).toBe(2);
+    expect(cycleSimSpeed(0.25, -1)).toBe(0.25);
+    expect(cycleSimSpeed(64, 1)).toBe('max');
+  });
+
+  it('runs whole ticks per frame, carrying fractions at slow speeds', () => {
+    expect(runFrames(1, 3)).toEqual([1, 1, 1]);
+    expect(runFrames(8, 2)).toEqual([8, 8]);
+    expect(runFrames(0.25, 8)).toEqual([0, 0, 0, 1, 0, 0, 0, 1]);
+  });
+
+  it('drops ticks past the frame budget and fills the budget at max speed', () => {
+    const clock = createClock(1);
+    const stepper = createSimFrameStepper(clock.tick, { budgetMs: 10, now: clock.now });
+    stepper.setSpeed(64);
+    expect(stepper.runFrame()).toBe(10);
+    expect(stepper.getDroppedTicks()).toBe(54);
+
+    stepper.setSpeed('max');
+    expect(stepper.runFrame()).toBe(10);
+    expect(stepper.getDroppedTicks()).toBe(0);
+  });
+
+  it('reaches the same state at any speed for the same tick count', () => {
+    const reference = buildSmelter();
+    for (let i = 0; i < 256; i += 1) {
+      reference.step(TICK_MS);
+    }
+
+    for (const speed of [0.5, 4, 64] as const) {
+      const sim = buildSmelter();
+      const stepper = createSimFrameStepper(() => sim.step(TICK_MS), { now: () => 0 });
+      stepper.setSpeed(speed);
+      while (sim.tickCount < 256) {
+        stepper.runFrame();
+      }
+      expect(sim.tickCount).toBe(256);
+      expect(sim.getStateHash().hash).toBe(reference.getStateHash().hash);
+    }
+  });
+});
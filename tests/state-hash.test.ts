@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import { findStateHashDivergence, formatStateHashDivergence, hashStateValue } from '../src/core/state-hash';
+import type { Direction, GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+
+type ChestState = {
+  acceptItem: (item: string) => boolean;
+};
+
+const buildFactory = (): ReturnType<typeof createSim> => {
+  const map = createMap(10, 6, 1101);
+  const sim = createSim({ width: 10, height: 6, seed: 1101, map });
+  const add = (kind: string, pos: GridCoord, rot: Direction): string =>
+    sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+
+  add('solar-panel', { x: 2, y: 1 }, 'N');
+  const source = add('chest', { x: 1, y: 2 }, 'N');
+  add('inserter', { x: 2, y: 2 }, 'E');
+  add('chest', { x: 3, y: 2 }, 'N');
+  const chest = sim.getEntityById(source)?.state as ChestState;
+  for (let i = 0; i < 4; i += 1) {
+    chest.acceptItem('iron-plate');
+  }
+  return sim;
+};
+
+const runTicks = (sim: ReturnType<typeof createSim>, ticks: number): void => {
+  for (let i = 0; i < ticks; i += 1) {
+    sim.step(TICK_MS);
+  }
+};
+
+describe('state hashing', () => {
+  it('ignores property order but not values', () => {
+    expect(hashStateValue({ a: 1, b: [2, { c: 'x' }] })).toBe(hashStateValue({ b: [2, { c: 'x' }], a: 1 }));
+    expect(hashStateValue({ a: 1 })).not.toBe(hashStateValue({ a: 2 }));
+    expect(hashStateValue({ a: 1, run: () => 0 })).toBe(hashStateValue({ a: 1 }));
+  });
+
+  it('produces identical hash logs for identical runs', () => {
+    const left = buildFactory();
+    const right = buildFactory();
+    left.setStateHashRecording({ every: 30 });
+    right.setStateHashRecording({ every: 30 });
+
+    runTicks(left, 120);
+    runTicks(right, 120);
+
+    expect(left.getStateHashLog().map((entry) => entry.tick)).toEqual([30, 60, 90, 120]);
+    expect(left.getStateHash().hash).toBe(right.getStateHash().hash);
+    expect(findStateHashDivergence(left.getStateHashLog(), right.getStateHashLog())).toBeNull();
+  });
+
+  it('reports the first diverging tick and the entities involved', () => {
+    const left = buildFactory();
+    const right = buildFactory();
+    left.setStateHashRecording({ every: 10 });
+    right.setStateHashRecording({ every: 10 });
+
+    runTicks(left, 30);
+    runTicks(right, 30);
+    const target = right.getEntitiesAt({ x: 3, y: 2 })[0];
+    expect(target).toBeDefined();
+    right.removeEntity(target?.id ?? '');
+    runTicks(left, 20);
+    runTicks(right, 20);
+
+    const divergence = findStateHashDivergence(left.getStateHashLog(), right.getStateHashLog());
+    // The stranded inserter stops swinging, so it and its power draw diverge along with the removed chest.
+    expect(divergence).toEqual({ tick: 40, sections: ['entities', 'power'], entityIds: ['3', target?.id] });
+    expect(formatStateHashDivergence(divergence)).toBe('diverged at tick 40 in entities, power; entities 3, 4');
+  });
+
+  it('covers the player state passed in by the host', () => {
+    const sim = buildFactory();
+    const still = sim.getStateHash({ player: { x: 1, y: 1 } });
+    const moved = sim.getStateHash({ player: { x: 2, y: 1 } });
+
+    expect(moved.hash).not.toBe(still.hash);
+    expect(findStateHashDivergence([still], [moved])).toEqual({ tick: 0, sections: ['player'], entityIds: [] });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import type { Direction, GridCoord } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+const CONFIG = { width: 16, height: 8, seed: 91 };
+
+type ItemHost = {
+  acceptItem: (item: string) => boolean;
+};
+
+type BoilerView = {
+  fuel: number;
+  steam: number;
+};
+
+const createSteamSim = () => {
+  const sim = createSim({ ...CONFIG, map: createMap(CONFIG.width, CONFIG.height, CONFIG.seed) });
+  sim.restoreState({ power: { storage: 0 } });
+  const add = (kind: string, pos: GridCoord, rot: Direction = 'N'): string =>
+    sim.addEntity({ kind, pos, rot } as Parameters<typeof sim.addEntity>[0]);
+  const run = (ticks: number): void => {
+    for (let tick = 0; tick < ticks; tick += 1) {
+      sim.step(TICK_MS);
+    }
+  };
+  // Boilers need water; a full storage tank next to one lasts these tests.
+  const addWater = (pos: GridCoord): void => {
+    const tank = add('storage-tank', pos);
+    (sim.getEntityById(tank)?.state as { fluidBox: unknown }).fluidBox = { fluid: 'water', amount: 2500 };
+  };
+  return { sim, add, run, addWater };
+};
+
+describe('steam power', () => {
+  it('burns coal an inserter feeds into a boiler and reports the engine output by kind', () => {
+    const { sim, add, run, addWater } = createSteamSim();
+    const chest = add('chest', { x: 1, y: 2 });
+    add('burner-inserter', { x: 2, y: 2 }, 'E');
+    const boiler = add('boiler', { x: 3, y: 2 });
+    addWater({ x: 3, y: 3 });
+    add('steam-engine', { x: 4, y: 2 });
+    for (let i = 0; i < 4; i += 1) {
+      (sim.getEntityById(chest)?.state as ItemHost).acceptItem('coal');
+    }
+
+    let generated = 0;
+    for (let tick = 0; tick < 120; tick += 1) {
+      run(1);
+      generated += sim.getPowerState().generatedByKind['steam-engine'] ?? 0;
+    }
+
+    expect(generated).toBeGreaterThan(0);
+    expect(sim.getPowerState().networks[0]).toMatchObject({ producers: 1, storage: generated });
+    // The first coal fuels the burner inserter itself; later ones go to the boiler.
+    expect((sim.getEntityById(chest)?.state as { items: string[] }).items.length).toBeLessThanOrEqual(2);
+    expect((sim.getEntityById(boiler)?.state as { burn: number }).burn).toBeGreaterThan(0);
+  });
+
+  it('only spends steam for power its network has room to store', () => {
+    const { sim, add, run, addWater } = createSteamSim();
+    const boiler = add('boiler', { x: 3, y: 2 });
+    const engine = add('steam-engine', { x: 4, y: 2 });
+    addWater({ x: 3, y: 3 });
+    expect((sim.getEntityById(boiler)?.state as ItemHost).acceptItem('iron-ore')).toBe(false);
+    expect((sim.getEntityById(boiler)?.state as ItemHost).acceptItem('coal')).toBe(true);
+
+    run(1);
+    expect(sim.getPowerState().generatedByKind['steam-engine']).toBe(10);
+
+    run(40);
+    const full = sim.getPowerState();
+    expect(full.storage).toBe(full.capacity);
+    expect(full.generatedThisTick).toBe(0);
+    expect((sim.getEntityById(boiler)?.state as BoilerView).steam).toBe(60);
+
+    expect(sim.consumePower(25, 'test', engine)).toBe(true);
+    run(1);
+    expect(sim.getPowerState().generatedThisTick).toBe(10);
+    run(2);
+    expect(sim.getPowerState().generatedThisTick).toBe(5);
+  });
+
+  it('keeps boilers from saves made before water running until water reaches them', () => {
+    const { sim, add, run, addWater } = createSteamSim();
+    // A boiler as saved before boilers had a fluid box.
+    sim.restoreState({
+      power: { storage: 0 },
+      entities: [
+        { kind: 'boiler', pos: { x: 3, y: 2 }, rot: 'N', state: { fuelItem: 'coal', fuel: 5, burn: 0, steam: 0 } },
+        { kind: 'steam-engine', pos: { x: 4, y: 2 }, rot: 'N' },
+      ],
+    });
+    const boiler = sim.getEntitiesAt({ x: 3, y: 2 })[0]?.id ?? '';
+    const boilerState = () => sim.getEntityById(boiler)?.state as BoilerView & { boilsWithoutWater: boolean; fluidBox: { amount: number } };
+
+    run(10);
+    expect(sim.getPowerState().generatedByKind['steam-engine']).toBeGreaterThan(0);
+    expect(boilerState().boilsWithoutWater).toBe(true);
+
+    const resaved = createSteamSim();
+    resaved.sim.restoreState(JSON.parse(JSON.stringify(sim.exportState())));
+    expect((resaved.sim.getEntitiesAt({ x: 3, y: 2 })[0]?.state as { boilsWithoutWater: boolean }).boilsWithoutWater).toBe(true);
+
+    addWater({ x: 3, y: 3 });
+    run(2);
+    expect(boilerState().boilsWithoutWater).toBe(false);
+    expect(boilerState().fluidBox.amount).toBeGreaterThan(0);
+
+    // A boiler built now needs water from the start.
+    const fresh = add('boiler', { x: 8, y: 2 });
+    add('steam-engine', { x: 9, y: 2 });
+    (sim.getEntityById(fresh)?.state as ItemHost).acceptItem('coal');
+    run(5);
+    expect(sim.getEntityById(fresh)?.state).toMatchObject({ boilsWithoutWater: false, steam: 0, fuel: 1 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import '../src/entities/all';
+import { createChunkedMap, type GeneratedMap } from '../src/core/map';
+import { CHUNKED_MAP_SIZE } from '../src/core/map-chunks';
+import { createDefaultMapSettings } from '../src/core/map-settings';
+import { createSim } from '../src/core/sim';
+import { createSnapshot } from '../src/core/snapshot';
+import { getRecipe, getRecipes } from '../src/recipes';
+
+const SPAWN = CHUNKED_MAP_SIZE / 2;
+
+const findTile = (map: GeneratedMap, tile: string): { x: number; y: number } => {
+  for (let y = SPAWN - 200; y < SPAWN + 200; y += 1) {
+    for (let x = SPAWN - 200; x < SPAWN + 200; x += 1) {
+      if (map.getTile(x, y) === tile) {
+        return { x, y };
+      }
+    }
+  }
+  throw new Error(`no ${tile} near spawn`);
+};
+
+describe('terrain', () => {
+  it('generates water and cliffs away from spawn', () => {
+    for (const seed of [1, 42, 'agents-ultra']) {
+      const map = createChunkedMap(seed);
+      const water = findTile(map, 'water');
+      const cliff = findTile(map, 'cliff');
+      for (const tile of [water, cliff]) {
+        expect(Math.hypot(tile.x - SPAWN, tile.y - SPAWN)).toBeGreaterThanOrEqual(48);
+      }
+      expect(map.isWater?.(water.x, water.y)).toBe(true);
+      expect(map.isCliff?.(cliff.x, cliff.y)).toBe(true);
+    }
+  });
+
+  it('treats water and cliffs as terrain, not resources', () => {
+    const map = createChunkedMap(1);
+    for (const tile of [findTile(map, 'water'), findTile(map, 'cliff')]) {
+      expect(map.isOre(tile.x, tile.y)).toBe(false);
+      expect(map.isTree(tile.x, tile.y)).toBe(false);
+      expect(map.getResourceAmountAt?.(tile.x, tile.y)).toBe(0);
+      expect(map.consumeResource?.(tile.x, tile.y)).toBe(false);
+    }
+    expect(map.exportChangedChunks?.()).toEqual([]);
+  });
+
+  it('blocks building on water and cliffs', () => {
+    const map = createChunkedMap(1);
+    const water = findTile(map, 'water');
+    const cliff = findTile(map, 'cliff');
+    expect(map.place('chest', water)).toMatchObject({ ok: false, reason: 'blocked-by-water' });
+    expect(map.place('miner', water)).toMatchObject({ ok: false, reason: 'blocked-by-water' });
+    expect(map.place('belt', cliff)).toMatchObject({ ok: false, reason: 'blocked-by-cliff' });
+  });
+
+  it('turns water into buildable ground with landfill and saves the change', () => {
+    const map = createChunkedMap(1);
+    const water = findTile(map, 'water');
+    const cliff = findTile(map, 'cliff');
+    expect(map.fillWater?.(cliff.x, cliff.y)).toBe(false);
+    const revision = map.getResourceRevision?.() ?? 0;
+
+    expect(map.fillWater?.(water.x, water.y)).toBe(true);
+    expect(map.getTile(water.x, water.y)).toBe('empty');
+    expect(map.getResourceRevision?.()).toBeGreaterThan(revision);
+    expect(map.place('chest', water)).toMatchObject({ ok: true });
+
+    const restored = createChunkedMap(1);
+    restored.restoreChangedChunks?.(JSON.parse(JSON.stringify(map.exportChangedChunks?.())));
+    expect(restored.getTile(water.x, water.y)).toBe('empty');
+  });
+
+  it('can leave water and cliffs out of a world', () => {
+    const settings = createDefaultMapSettings();
+    settings.terrain.water.frequency = 0;
+    settings.terrain.cliff.frequency = 0;
+    const map = createChunkedMap(1, settings);
+    expect(() => findTile(map, 'water')).toThrow();
+    expect(() => findTile(map, 'cliff')).toThrow();
+  });
+
+  it('lists water and cliffs in snapshots', () => {
+    const map = createChunkedMap(1);
+    const water = findTile(map, 'water');
+    const cliff = findTile(map, 'cliff');
+    const snapshot = createSnapshot(createSim({ width: map.width, height: map.height, seed: 1, map }));
+    expect(snapshot.water).toContainEqual(water);
+    expect(snapshot.cliffs).toContainEqual(cliff);
+    expect(snapshot.ore).not.toContainEqual(water);
+  });
+
+  it('crafts landfill from stone in assemblers', () => {
+    expect(getRecipe('landfill')).toMatchObject({
+      category: 'assembling',
+      ingredients: [{ item: 'stone', count: 20 }],
+      products: [{ item: 'landfill', count: 1 }],
+    });
+    expect(getRecipes('assembling').map((recipe) => recipe.id)).toContain('landfill');
+  });
+});
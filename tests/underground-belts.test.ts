@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+
+import { createChunkedMap, createMap } from '../src/core/map';
+import { createSim } from '../src/core/sim';
+import { createSnapshot } from '../src/core/snapshot';
+import {
+  UNDERGROUND_BELT_MAX_SPAN,
+  previewUndergroundBeltPlacement,
+  resolveUndergroundBeltPlacementFailure,
+} from '../src/core/underground';
+import type { BeltLanes } from '../src/core/belt-lanes';
+import type { Direction, GridCoord, ItemKind } from '../src/core/types';
+import '../src/entities/all';
+
+const TICK_MS = 1000 / 60;
+
+type BeltState = {
+  item: ItemKind | null;
+  lanes: BeltLanes;
+};
+
+const stepTicks = (sim: ReturnType<typeof createSim>, ticks: number): void => {
+  for (let i = 0; i < ticks; i += 1) {
+    sim.step(TICK_MS);
+  }
+};
+
+const addEntity = <T>(
+  sim: ReturnType<typeof createSim>,
+  kind: string,
+  pos: GridCoord,
+  rot: Direction,
+  state?: Record<string, unknown>,
+): T => {
+  const id = sim.addEntity({ kind, pos, rot, state } as Parameters<typeof sim.addEntity>[0]);
+  const entityState = sim.getEntityById(id)?.state;
+  expect(entityState).toBeDefined();
+  return entityState as T;
+};
+
+const laneItems = (belt: BeltState): Array<Array<[ItemKind, number]>> =>
+  belt.lanes.map((lane) => lane.map((entry): [ItemKind, number] => [entry.item, entry.progress]));
+
+describe('underground belts', () => {
+  it('carries items beneath other buildings to the paired exit', () => {
+    const sim = createSim({ width: 12, height: 4, seed: 701 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const entrance = addEntity<BeltState>(sim, 'underground-belt', { x: 1, y: 1 }, 'E');
+    addEntity(sim, 'chest', { x: 2, y: 1 }, 'N');
+    addEntity(sim, 'furnace', { x: 3, y: 1 }, 'N');
+    const exit = addEntity<BeltState>(sim, 'underground-belt', { x: 4, y: 1 }, 'E', { mode: 'output' });
+    addEntity(sim, 'solar-panel', { x: 4, y: 0 }, 'N');
+    const after = addEntity<BeltState>(sim, 'belt', { x: 5, y: 1 }, 'E');
+
+    entrance.lanes = [[{ item: 'coal', progress: 112 }], []];
+    stepTicks(sim, 1);
+    expect(laneItems(entrance)).toEqual([[], []]);
+    expect(laneItems(exit)).toEqual([[['coal', 0]], []]);
+
+    stepTicks(sim, 15);
+    expect(laneItems(exit)).toEqual([[], []]);
+    expect(laneItems(after)).toEqual([[['coal', 0]], []]);
+  });
+
+  it('queues items at an entrance with no exit in range', () => {
+    const sim = createSim({ width: 12, height: 4, seed: 702 });
+    addEntity(sim, 'solar-panel', { x: 0, y: 1 }, 'N');
+    const entrance = addEntity<BeltState>(sim, 'underground-belt', { x: 1, y: 1 }, 'E');
+    const tooFar = addEntity<BeltState>(
+      sim,
+      'underground-belt',
+      { x: 2 + UNDERGROUND_BELT_MAX_SPAN + 1, y: 1 },
+      'E',
+      { mode: 'output' },
+    );
+    addEntity(sim, 'belt', { x: 2, y: 1 }, 'E');
+
+    entrance.lanes = [[], [{ item: 'iron-ore', progress: 112 }]];
+    stepTicks(sim, 3);
+    expect(laneItems(entrance)).toEqual([[], [['iron-ore', 120]]]);
+    expect(laneItems(tooFar)).toEqual([[], []]);
+  });
+
+  it('only feeds an entrance from behind and an exit from its entrance', () => {
+    const sim = createSim({ width: 8, height: 5, seed: 703 });
+    addEntity(sim, 'solar-panel', { x: 1, y: 1 }, 'N');
+    addEntity(sim, 'solar-panel', { x: 4, y: 1 }, 'N');
+    const entrance = addEntity<BeltState>(sim, 'underground-belt', { x: 2, y: 2 }, 'E');
+    const side = addEntity<BeltState>(sim, 'belt', { x: 2, y: 1 }, 'S');
+    const behindExit = addEntity<BeltState>(sim, 'belt', { x: 4, y: 2 }, 'E');
+    const exit = addEntity<BeltState>(sim, 'underground-belt', { x: 5, y: 2 }, 'E', { mode: 'output' });
+
+    side.lanes = [[], [{ item: 'coal', progress: 112 }]];
+    behindExit.lanes = [[], [{ item: 'stone', progress: 112 }]];
+    stepTicks(sim, 1);
+
+    expect(laneItems(entrance)).toEqual([[], []]);
+    expect(laneItems(exit)).toEqual([[], []]);
+    expect(laneItems(side)).toEqual([[], [['coal', 120]]]);
+    expect(laneItems(behindExit)).toEqual([[], [['stone', 120]]]);
+  });
+
+  it('reports mode and partner tile in snapshots', () => {
+    const sim = createSim({ width: 12, height: 4, seed: 704 });
+    addEntity(sim, 'underground-belt', { x: 1, y: 1 }, 'E');
+    addEntity(sim, 'underground-belt', { x: 4, y: 1 }, 'E', { mode: 'output' });
+    addEntity(sim, 'underground-belt', { x: 8, y: 1 }, 'E', { mode: 'output' });
+    stepTicks(sim, 1);
+
+    const underground = createSnapshot(sim)
+      .entities.filter((entity) => entity.kind === 'underground-belt')
+      .map((entity) => entity.underground);
+    expect(underground).toEqual([
+      { mode: 'input', partner: { x: 4, y: 1 } },
+      { mode: 'output', partner: { x: 1, y: 1 } },
+      { mode: 'output', partner: null },
+    ]);
+  });
+
+  it('previews the pairing range for the next placement', () => {
+    const sim = createSim({ width: 12, height: 4, seed: 705 });
+    addEntity(sim, 'underground-belt', { x: 1, y: 1 }, 'E');
+    const getAt = (pos: GridCoord) => sim.getEntitiesAt(pos);
+
+    expect(previewUndergroundBeltPlacement({ x: 3, y: 1 }, 'E', getAt)).toEqual({
+      mode: 'output',
+      partner: { x: 1, y: 1 },
+      range: [
+        { x: 2, y: 1 },
+        { x: 1, y: 1 },
+        { x: 0, y: 1 },
+        { x: -1, y: 1 },
+        { x: -2, y: 1 },
+      ],
+    });
+    expect(previewUndergroundBeltPlacement({ x: 8, y: 1 }, 'E', getAt)).toMatchObject({ mode: 'input', partner: null });
+  });
+});
+
+describe('underground belt map placement', () => {
+  it('accepts exits in range and rejects exits without a reachable entrance', () => {
+    const map = createMap(16, 16, 706);
+    const row = 7;
+
+    expect(map.place('underground-belt', { x: 2, y: row }, { rot: 'E' })).toMatchObject({ ok: true });
+    expect(
+      map.place('underground-belt', { x: 0, y: row }, { rot: 'E', undergroundMode: 'output' }),
+    ).toMatchObject({ ok: false, reason: 'underground-no-partner' });
+    expect(
+      map.place('underground-belt', { x: 3 + UNDERGROUND_BELT_MAX_SPAN + 1, y: row }, { rot: 'E', undergroundMode: 'output' }),
+    ).toMatchObject({ ok: false, reason: 'underground-out-of-range' });
+    expect(
+      map.place('underground-belt', { x: 3 + UNDERGROUND_BELT_MAX_SPAN, y: row }, { rot: 'E', undergroundMode: 'output' }),
+    ).toMatchObject({ ok: true });
+
+    expect(map.place('underground-belt', { x: 2, y: row + 2 }, { rot: 'N', undergroundMode: 'output' })).toMatchObject({
+      ok: false,
+      reason: 'underground-no-partner',
+    });
+  });
+
+  it('looks for an exit\'s entrance only as far as the tier reaches', () => {
+    const map = createChunkedMap(706);
+    const start = { x: map.width / 2 - 20, y: map.height / 2 + 8 };
+    map.paintTile?.(start.x, start.y, 'empty', 0);
+    expect(map.place('underground-belt', start, { rot: 'E' })).toMatchObject({ ok: true });
+
+    const far = { x: start.x + UNDERGROUND_BELT_MAX_SPAN + 3, y: start.y };
+    map.paintTile?.(far.x, far.y, 'empty', 0);
+    expect(map.place('underground-belt', far, { rot: 'E', undergroundMode: 'output' })).toMatchObject({
+      ok: false,
+      reason: 'underground-no-partner',
+    });
+
+    const looked: GridCoord[] = [];
+    const failure = resolveUndergroundBeltPlacementFailure(far, 'E', 'output', (pos) => {
+      looked.push(pos);
+      return [];
+    }, UNDERGROUND_BELT_MAX_SPAN);
+    expect(failure).toBe('underground-no-partner');
+    expect(looked).toHaveLength(UNDERGROUND_BELT_MAX_SPAN + 2);
+  });
+});